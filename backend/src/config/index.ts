@@ -59,19 +59,76 @@ const configSchema = z.object({
   port: z.coerce.number().default(3001),
   nodeEnv: z.enum(['development', 'production', 'test']).default('development'),
   corsOrigin: z.string().default('http://localhost:3000'),
+  // Express "trust proxy": true, a hop count or a list of proxy addresses; needed for client IPs behind nginx
+  trustProxy: z.string().optional().transform(value => {
+    if (!value || value === 'false') return false;
+    if (value === 'true') return true;
+    return /^\d+$/.test(value) ? Number(value) : value;
+  }),
   
   gemini: z.object({
-    apiKey: z.string().min(1),
+    // Only needed while Gemini serves AI features or embeddings
+    apiKey: z.string().optional(),
     model: z.string().default('gemini-3-pro-preview'),
     thinkingLevel: z.enum(['low', 'high']).optional(),
   }),
+
+  llm: z.object({
+    // Provider of all AI features: gemini, openai (any OpenAI-compatible server) or anthropic; fake echoes for offline use
+    provider: z.string().default('gemini'),
+    // Per-feature override as JSON, e.g. {"summary":"openai:llama3.1","assistant":"anthropic"}
+    features: z.string().optional().transform((value, ctx) => {
+      if (!value) return {} as Record<string, string>;
+      try {
+        return z.record(z.string()).parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'LLM_FEATURE_PROVIDERS must be a JSON object of strings' });
+        return z.NEVER;
+      }
+    }),
+    // Longest wait for an answer; streams may run longer as long as text keeps arriving
+    timeoutMs: z.coerce.number().int().positive().default(120000),
+  }),
+
+  openai: z.object({
+    // Not needed by local servers like llama.cpp or Ollama
+    apiKey: z.string().optional(),
+    baseUrl: z.string().url().default('https://api.openai.com/v1'),
+    model: z.string().default('gpt-4o-mini'),
+    maxTokens: z.coerce.number().int().positive().optional(),
+  }),
+
+  anthropic: z.object({
+    apiKey: z.string().optional(),
+    baseUrl: z.string().url().default('https://api.anthropic.com'),
+    model: z.string().default('claude-sonnet-4-5'),
+    // The Messages API requires an upper bound for every answer
+    maxTokens: z.coerce.number().int().positive().default(8192),
+  }),
   
+  embedding: z.object({
+    // gemini, openai (any OpenAI-compatible server, e.g. Ollama with nomic-embed-text) or
+    // hashing (in-process word hashing without semantic similarity, for tests and offline setups)
+    provider: z.enum(['gemini', 'openai', 'hashing']).default('gemini'),
+    // Defaults to text-embedding-004 (gemini) or text-embedding-3-small (openai)
+    model: z.string().optional(),
+    // Required for models without known dimensions; a change re-embeds the vector collections
+    dimensions: z.coerce.number().int().positive().optional(),
+    // OpenAI-compatible server for embeddings, defaults to the OPENAI_* settings
+    baseUrl: z.string().url().optional(),
+    apiKey: z.string().optional(),
+    // Persistent embedding cache; least recently used vectors are evicted beyond this size
+    cacheMaxMb: z.coerce.number().positive().default(256),
+  }),
+
   mcpServers: z.array(mcpServerSchema).default([]),
   
   database: z.object({
     type: z.enum(['sqlite', 'postgres']).default('sqlite'),
     path: z.string().default('./data/markmedit.db'),
     url: z.string().optional(),
+    // Apply pending schema migrations on startup (set to false to require `npm run migrate`)
+    autoMigrate: z.string().optional().transform(value => value !== 'false'),
   }),
   
   git: z.object({
@@ -99,36 +156,132 @@ const configSchema = z.object({
     enableVectorStore: z.coerce.boolean().default(true),
   }),
   
+  vectorStore: z.object({
+    // qdrant, embedded (vectors in the application database, searched by brute force) or
+    // auto (Qdrant when reachable at startup, embedded otherwise)
+    backend: z.enum(['auto', 'qdrant', 'embedded']).default('auto'),
+  }),
+
   qdrant: z.object({
     url: z.string().default('http://qdrant:6333'),
     apiKey: z.string().optional(),
     enableEmbedding: z.coerce.boolean().default(true),
   }),
+
+  oidc: z.object({
+    // Single sign-on through an OpenID Connect provider (authorization code flow with PKCE)
+    enabled: z.string().optional().transform(value => value === 'true'),
+    issuer: z.string().url().optional(),
+    clientId: z.string().optional(),
+    // Leave empty for public clients; PKCE protects the code exchange either way
+    clientSecret: z.string().optional(),
+    // Backend callback registered at the provider, e.g. https://markmedit.example.com/api/auth/oidc/callback
+    redirectUri: z.string().url().optional(),
+    // Frontend page that finishes the login, defaults to <corsOrigin>/login/oidc
+    postLoginUrl: z.string().url().optional(),
+    scopes: z.string().default('openid profile email'),
+    providerName: z.string().default('SSO'),
+    // Claim with the user's groups at the provider
+    groupsClaim: z.string().default('groups'),
+    // JSON object mapping provider groups to MarkMEdit group ids or names
+    groupMapping: z.string().optional().transform((value, ctx) => {
+      if (!value) return {} as Record<string, string>;
+      try {
+        return z.record(z.string()).parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OIDC_GROUP_MAPPING must be a JSON object of strings' });
+        return z.NEVER;
+      }
+    }),
+    // Create mapped MarkMEdit groups that do not exist yet
+    createGroups: z.string().optional().transform(value => value === 'true'),
+  }),
+
+  mail: z.object({
+    // smtp delivers mail; file writes each message as JSON into fileDir, console logs it (local testing)
+    transport: z.enum(['smtp', 'file', 'console']).default('console'),
+    from: z.string().default('MarkMEdit <markmedit@localhost>'),
+    fileDir: z.string().default('./data/mail'),
+    smtp: z.object({
+      host: z.string().default('localhost'),
+      port: z.coerce.number().int().default(587),
+      // true for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+      secure: z.string().optional().transform(value => value === 'true'),
+      user: z.string().optional(),
+      password: z.string().optional(),
+    }),
+    // Frontend address used in links, defaults to corsOrigin
+    appUrl: z.string().url().optional(),
+  }),
+
+  rateLimit: z.object({
+    // false turns off all rate limits and login lockouts
+    enabled: z.string().optional().transform(value => value !== 'false'),
+    // Window of the login, registration and mail limits; a limit of 0 turns it off
+    authWindowMinutes: z.coerce.number().positive().default(15),
+    loginPerIp: z.coerce.number().int().min(0).default(30),
+    loginPerAccount: z.coerce.number().int().min(0).default(10),
+    registerPerIp: z.coerce.number().int().min(0).default(5),
+    // Password reset and verification mails
+    mailPerIp: z.coerce.number().int().min(0).default(5),
+    // Failed logins in a row before an account is locked; the lockout doubles with every further failure
+    lockoutThreshold: z.coerce.number().int().min(0).default(5),
+    lockoutBaseMinutes: z.coerce.number().positive().default(1),
+    lockoutMaxMinutes: z.coerce.number().positive().default(60),
+    // Requests to the AI endpoints per client and window
+    aiWindowMinutes: z.coerce.number().positive().default(1),
+    aiPerClient: z.coerce.number().int().min(0).default(20),
+  }),
+
+  search: z.object({
+    // Share of the keyword ranking in hybrid search: 0 = vectors only, 1 = keywords only
+    hybridKeywordWeight: z.coerce.number().min(0).max(1).default(0.5),
+    // Reciprocal rank fusion constant; larger values flatten the influence of top ranks
+    rrfK: z.coerce.number().int().min(1).default(60),
+  }),
 });
 
 export const config = configSchema.parse({
   port: process.env.PORT,
   nodeEnv: process.env.NODE_ENV,
   corsOrigin: process.env.CORS_ORIGIN,
+  trustProxy: process.env.TRUST_PROXY,
   
   gemini: {
-    apiKey: process.env.GEMINI_API_KEY,
+    apiKey: process.env.GEMINI_API_KEY || undefined,
     model: process.env.GEMINI_MODEL,
     thinkingLevel: process.env.GEMINI_THINKING_LEVEL as 'low' | 'high' | undefined,
   },
   
-  openai: process.env.OPENAI_API_KEY ? {
-    apiKey: process.env.OPENAI_API_KEY,
-    model: process.env.OPENAI_MODEL,
-    maxTokens: process.env.OPENAI_MAX_TOKENS,
-  } : undefined,
-  
-  anthropic: process.env.ANTHROPIC_API_KEY ? {
-    apiKey: process.env.ANTHROPIC_API_KEY,
-    model: process.env.ANTHROPIC_MODEL,
-    maxTokens: process.env.ANTHROPIC_MAX_TOKENS,
-  } : undefined,
+  llm: {
+    provider: process.env.LLM_PROVIDER || undefined,
+    features: process.env.LLM_FEATURE_PROVIDERS || undefined,
+    timeoutMs: process.env.LLM_TIMEOUT_MS || undefined,
+  },
+
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || undefined,
+    baseUrl: process.env.OPENAI_BASE_URL || undefined,
+    model: process.env.OPENAI_MODEL || undefined,
+    maxTokens: process.env.OPENAI_MAX_TOKENS || undefined,
+  },
+
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY || undefined,
+    baseUrl: process.env.ANTHROPIC_BASE_URL || undefined,
+    model: process.env.ANTHROPIC_MODEL || undefined,
+    maxTokens: process.env.ANTHROPIC_MAX_TOKENS || undefined,
+  },
   
+  embedding: {
+    provider: process.env.EMBEDDING_PROVIDER || undefined,
+    model: process.env.EMBEDDING_MODEL || undefined,
+    dimensions: process.env.EMBEDDING_DIMENSIONS || undefined,
+    baseUrl: process.env.EMBEDDING_BASE_URL || undefined,
+    apiKey: process.env.EMBEDDING_API_KEY || undefined,
+    cacheMaxMb: process.env.EMBEDDING_CACHE_MAX_MB || undefined,
+  },
+
   mcpServers: process.env.MCP_SERVERS 
     ? JSON.parse(process.env.MCP_SERVERS)
     : [],
@@ -137,6 +290,7 @@ export const config = configSchema.parse({
     type: process.env.DATABASE_TYPE,
     path: process.env.DATABASE_PATH,
     url: process.env.DATABASE_URL,
+    autoMigrate: process.env.DATABASE_AUTO_MIGRATE,
   },
   
   git: {
@@ -164,11 +318,62 @@ export const config = configSchema.parse({
     enableVectorStore: process.env.ENABLE_VECTOR_STORE,
   },
   
+  vectorStore: {
+    backend: process.env.VECTOR_STORE || undefined,
+  },
+
   qdrant: {
     url: process.env.QDRANT_URL,
     apiKey: process.env.QDRANT_API_KEY,
     enableEmbedding: process.env.QDRANT_ENABLE_EMBEDDING,
   },
+
+  oidc: {
+    enabled: process.env.OIDC_ENABLED,
+    issuer: process.env.OIDC_ISSUER || undefined,
+    clientId: process.env.OIDC_CLIENT_ID || undefined,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    postLoginUrl: process.env.OIDC_POST_LOGIN_URL || undefined,
+    scopes: process.env.OIDC_SCOPES,
+    providerName: process.env.OIDC_PROVIDER_NAME,
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM,
+    groupMapping: process.env.OIDC_GROUP_MAPPING,
+    createGroups: process.env.OIDC_CREATE_GROUPS,
+  },
+
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || undefined,
+    from: process.env.MAIL_FROM || undefined,
+    fileDir: process.env.MAIL_FILE_DIR || undefined,
+    smtp: {
+      host: process.env.SMTP_HOST || undefined,
+      port: process.env.SMTP_PORT || undefined,
+      secure: process.env.SMTP_SECURE,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+    },
+    appUrl: process.env.APP_URL || undefined,
+  },
+
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED,
+    authWindowMinutes: process.env.RATE_LIMIT_AUTH_WINDOW_MINUTES,
+    loginPerIp: process.env.RATE_LIMIT_LOGIN_PER_IP,
+    loginPerAccount: process.env.RATE_LIMIT_LOGIN_PER_ACCOUNT,
+    registerPerIp: process.env.RATE_LIMIT_REGISTER_PER_IP,
+    mailPerIp: process.env.RATE_LIMIT_MAIL_PER_IP,
+    lockoutThreshold: process.env.LOGIN_LOCKOUT_THRESHOLD,
+    lockoutBaseMinutes: process.env.LOGIN_LOCKOUT_BASE_MINUTES,
+    lockoutMaxMinutes: process.env.LOGIN_LOCKOUT_MAX_MINUTES,
+    aiWindowMinutes: process.env.RATE_LIMIT_AI_WINDOW_MINUTES,
+    aiPerClient: process.env.RATE_LIMIT_AI_PER_CLIENT,
+  },
+
+  search: {
+    hybridKeywordWeight: process.env.HYBRID_SEARCH_KEYWORD_WEIGHT,
+    rrfK: process.env.HYBRID_SEARCH_RRF_K,
+  },
 });
 
 export type Config = z.infer<typeof configSchema>;
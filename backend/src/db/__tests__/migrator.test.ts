@@ -0,0 +1,115 @@
+/**
+ * Schema Migration Tests
+ * Runs the registered migrations against in-memory SQLite databases, both
+ * fresh and shaped like a database created by an older release.
+ */
+
+import { describe, it, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp, migrateDown, getMigrationStatus, type Migration } from '../migrator.js';
+import { migrations } from '../migrations/index.js';
+
+function columnType(db: Database.Database, table: string, column: string): string | undefined {
+  const columns = db.prepare('SELECT name, type FROM pragma_table_info(?)').all(table) as { name: string; type: string }[];
+  return columns.find(c => c.name === column)?.type;
+}
+
+/** documents table as created by releases before the migration system */
+function createLegacyDatabase(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE users (
+      id TEXT PRIMARY KEY, username TEXT UNIQUE NOT NULL, email TEXT UNIQUE NOT NULL,
+      password_hash TEXT NOT NULL, display_name TEXT NOT NULL,
+      created_at TEXT NOT NULL, updated_at TEXT NOT NULL, is_active INTEGER DEFAULT 1
+    );
+    CREATE TABLE documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, slug TEXT NOT NULL UNIQUE, content TEXT NOT NULL,
+      parent_id TEXT, position INTEGER DEFAULT 0, owner_id TEXT NOT NULL,
+      created_at TEXT NOT NULL, updated_at TEXT NOT NULL, last_edited_by TEXT, metadata TEXT
+    );
+    INSERT INTO users VALUES ('u1', 'alice', 'a@example.com', 'x', 'Alice', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', 1);
+    INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+      VALUES ('d1', 'Numeric', 'numeric', '', 'u1', 1700000000000, 1700000000001);
+    INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+      VALUES ('d2', 'Iso', 'iso', '', 'u1', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:01.000Z');
+  `);
+  return db;
+}
+
+describe('Schema migrations', () => {
+  it('should create the full schema on a fresh database', () => {
+    const db = new Database(':memory:');
+    const results = migrateUp(db, 'sqlite');
+
+    expect(results.map(r => r.version)).toEqual(migrations.map(m => m.version));
+    expect(columnType(db, 'documents', 'is_archived')).toBe('INTEGER');
+    expect(columnType(db, 'documents', 'created_at')).toBe('INTEGER');
+    expect(getMigrationStatus(db).every(m => m.applied)).toBe(true);
+    expect(migrateUp(db, 'sqlite')).toEqual([]);
+  });
+
+  it('should upgrade a legacy database and convert document timestamps', () => {
+    const db = createLegacyDatabase();
+    migrateUp(db, 'sqlite');
+
+    expect(columnType(db, 'documents', 'share_enabled')).toBe('INTEGER');
+    const rows = db.prepare('SELECT id, created_at, updated_at FROM documents ORDER BY id').all();
+    expect(rows).toEqual([
+      { id: 'd1', created_at: 1700000000000, updated_at: 1700000000001 },
+      { id: 'd2', created_at: Date.parse('2024-01-01T00:00:00.000Z'), updated_at: Date.parse('2024-01-01T00:00:01.000Z') },
+    ]);
+  });
+
+  it('should not change anything in a dry run', () => {
+    const db = createLegacyDatabase();
+    const [result] = migrateUp(db, 'sqlite', { dryRun: true });
+
+    expect(result.version).toBe(1);
+    expect(result.statements.some(sql => sql.includes('ALTER TABLE documents ADD COLUMN share_id'))).toBe(true);
+    expect(columnType(db, 'documents', 'share_id')).toBeUndefined();
+    expect(getMigrationStatus(db).some(m => m.applied)).toBe(false);
+  });
+
+  it('should revert the latest migration', () => {
+    const db = new Database(':memory:');
+    migrateUp(db, 'sqlite', { to: 2 });
+    db.prepare(`INSERT INTO users VALUES ('u1', 'alice', 'a@example.com', 'x', 'Alice', 'now', 'now', 1)`).run();
+    db.prepare(`INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at) VALUES ('d1', 't', 't', '', 'u1', 5, 6)`).run();
+
+    const results = migrateDown(db, 'sqlite');
+
+    expect(results.map(r => r.version)).toEqual([2]);
+    expect(columnType(db, 'documents', 'created_at')).toBe('TEXT');
+    expect(db.prepare('SELECT created_at FROM documents').get()).toEqual({ created_at: '5' });
+  });
+
+  it('should roll back a failing migration and stop', () => {
+    const db = new Database(':memory:');
+    const failing: Migration[] = [
+      { version: 1, name: 'ok', up: ctx => ctx.exec('CREATE TABLE a (id TEXT)'), down: ctx => ctx.exec('DROP TABLE a') },
+      {
+        version: 2,
+        name: 'broken',
+        up: ctx => {
+          ctx.exec('CREATE TABLE b (id TEXT)');
+          ctx.exec('INSERT INTO missing_table VALUES (1)');
+        },
+        down: () => {},
+      },
+    ];
+
+    expect(() => migrateUp(db, 'sqlite', { migrations: failing })).toThrow(/Migration 2 \(broken\) up failed/);
+    expect(getMigrationStatus(db, failing).map(m => m.applied)).toEqual([true, false]);
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'b'`).get()).toBeUndefined();
+  });
+
+  it('should reject migrations that are out of order', () => {
+    const db = new Database(':memory:');
+    const unordered: Migration[] = [
+      { version: 2, name: 'second', up: () => {}, down: () => {} },
+      { version: 1, name: 'first', up: () => {}, down: () => {} },
+    ];
+    expect(() => migrateUp(db, 'sqlite', { migrations: unordered })).toThrow(/strictly ordered/);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * PostgreSQL Backend Tests
+ *
+ * Runs the SQLite-flavoured statements used by the routes against an embedded
+ * Postgres (PGlite) through the synchronous PostgresDatabase adapter.
+ * Set TEST_DATABASE_URL to run the same suite against a real server, e.g. a
+ * local container: docker run -e POSTGRES_PASSWORD=test -p 5432:5432 postgres:16
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { toPostgresQuery, bindParameters } from '../sql-dialect.js';
+import { PostgresDatabase } from '../postgres.js';
+import { migrateUp } from '../migrator.js';
+import { migrations } from '../migrations/index.js';
+
+describe('SQL dialect translation', () => {
+  it('should number positional placeholders', () => {
+    const query = toPostgresQuery('SELECT * FROM documents WHERE id = ? AND owner_id = ?');
+    expect(query.text).toBe('SELECT * FROM documents WHERE id = $1 AND owner_id = $2');
+    expect(bindParameters(query.slots, ['a', 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('should map @named parameters from an object', () => {
+    const query = toPostgresQuery('INSERT INTO tags (id, name) VALUES (@id, @name)');
+    expect(query.text).toBe('INSERT INTO tags (id, name) VALUES ($1, $2)');
+    expect(bindParameters(query.slots, [{ name: 'x', id: '1' }])).toEqual(['1', 'x']);
+  });
+
+  it('should leave placeholders inside string literals alone', () => {
+    const query = toPostgresQuery("SELECT '?' AS mark, id FROM tags WHERE name = ?");
+    expect(query.text).toBe("SELECT '?' AS mark, id FROM tags WHERE name = $1");
+    expect(query.slots).toHaveLength(1);
+  });
+
+  it('should quote camelCase aliases', () => {
+    const query = toPostgresQuery('SELECT created_at as createdAt FROM artifacts ORDER BY createdAt');
+    expect(query.text).toBe('SELECT created_at as "createdAt" FROM artifacts ORDER BY "createdAt"');
+  });
+
+  it('should translate INSERT OR IGNORE and INSERT OR REPLACE', () => {
+    expect(toPostgresQuery('INSERT OR IGNORE INTO tags (id, name) VALUES (?, ?)').text)
+      .toBe('INSERT INTO tags (id, name) VALUES ($1, $2) ON CONFLICT DO NOTHING');
+    expect(toPostgresQuery('INSERT OR REPLACE INTO tags (id, name, color) VALUES (?, ?, ?)', () => ['id']).text)
+      .toBe('INSERT INTO tags (id, name, color) VALUES ($1, $2, $3) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name, color = EXCLUDED.color');
+  });
+
+  it('should upsert on the primary key whatever the column order', () => {
+    const primaryKeyOf = (table: string) => (table === 'vector_store_points' ? ['collection', 'id'] : []);
+
+    expect(toPostgresQuery('INSERT OR REPLACE INTO vector_store_points (payload, id, collection) VALUES (?, ?, ?)', primaryKeyOf).text)
+      .toBe('INSERT INTO vector_store_points (payload, id, collection) VALUES ($1, $2, $3) ON CONFLICT (collection, id) DO UPDATE SET payload = EXCLUDED.payload');
+    expect(() => toPostgresQuery('INSERT OR REPLACE INTO tags (id, name) VALUES (?, ?)', primaryKeyOf)).toThrow(/primary key/);
+  });
+
+  it('should keep LIKE case-insensitive like SQLite', () => {
+    expect(toPostgresQuery('SELECT id FROM documents WHERE title LIKE ?').text)
+      .toBe('SELECT id FROM documents WHERE title ILIKE $1');
+  });
+});
+
+describe('PostgresDatabase', () => {
+  let db: PostgresDatabase;
+  const now = Date.now();
+
+  beforeAll(() => {
+    db = process.env.TEST_DATABASE_URL
+      ? new PostgresDatabase({ connectionString: process.env.TEST_DATABASE_URL })
+      : new PostgresDatabase({ driver: 'pglite' });
+    migrateUp(db, 'postgres');
+    db.prepare(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at, is_active)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+    `).run('user-1', 'alice', 'alice@example.com', 'hash', 'Alice', new Date().toISOString(), new Date().toISOString());
+  }, 60000);
+
+  afterAll(() => {
+    db?.close();
+  });
+
+  it('should record applied migrations', () => {
+    const versions = db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as { version: number }[];
+    expect(versions.map(v => v.version)).toEqual(migrations.map(m => m.version));
+  });
+
+  it('should seed the special groups', () => {
+    const groups = db.prepare('SELECT id FROM groups ORDER BY id').all() as { id: string }[];
+    expect(groups.map(g => g.id)).toEqual(['_EVERYONE', '_LOGGED_IN']);
+  });
+
+  it('should insert and read documents with millisecond timestamps', () => {
+    db.prepare(`
+      INSERT INTO documents (id, title, slug, content, parent_id, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run('doc-1', 'Title', 'title', '# Hello', null, 'user-1', now, now);
+    db.prepare(`
+      INSERT INTO document_versions (id, document_id, version, title, content, change_summary, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run('v-1', 'doc-1', 1, 'Title', '# Hello', 'Dokument erstellt', now);
+
+    const version = db.prepare(`
+      SELECT id, document_id as documentId, version, created_at as createdAt, LENGTH(content) as contentLength
+      FROM document_versions WHERE document_id = ?
+    `).get('doc-1') as any;
+
+    expect(version).toEqual({ id: 'v-1', documentId: 'doc-1', version: 1, createdAt: now, contentLength: 7 });
+
+    const document = db.prepare('SELECT created_at FROM documents WHERE id = ?').get('doc-1') as any;
+    expect(document.created_at).toBe(now);
+  });
+
+  it('should report affected rows from run()', () => {
+    const result = db.prepare('UPDATE documents SET is_pinned = ? WHERE id = ?').run(1, 'doc-1');
+    expect(result.changes).toBe(1);
+    expect(db.prepare('DELETE FROM artifacts WHERE id = ?').run('missing').changes).toBe(0);
+  });
+
+  it('should return numbers for COUNT(*)', () => {
+    const row = db.prepare('SELECT COUNT(*) as count FROM documents').get() as { count: number };
+    expect(row.count).toBe(1);
+  });
+
+  it('should upsert with INSERT OR REPLACE', () => {
+    const upsert = db.prepare(`
+      INSERT OR REPLACE INTO background_jobs (id, type, status, payload, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    upsert.run('job-1', 'index-document', 'queued', '{}', now);
+    upsert.run('job-1', 'index-document', 'completed', '{}', now);
+
+    const job = db.prepare('SELECT status FROM background_jobs WHERE id = ?').get('job-1') as any;
+    expect(job.status).toBe('completed');
+
+    // Composite key, not led by the first column
+    db.prepare('INSERT INTO vector_store_collections (name, dimensions, created_at) VALUES (?, ?, ?)').run('notes', 2, now);
+    const upsertPoint = db.prepare('INSERT OR REPLACE INTO vector_store_points (id, collection, vector, payload) VALUES (?, ?, ?, ?)');
+    upsertPoint.run('p-1', 'notes', Buffer.alloc(8), '{"v":1}');
+    upsertPoint.run('p-1', 'notes', Buffer.alloc(8), '{"v":2}');
+    upsertPoint.run('p-2', 'notes', Buffer.alloc(8), '{"v":1}');
+
+    expect(db.prepare('SELECT id, payload FROM vector_store_points ORDER BY id').all())
+      .toEqual([{ id: 'p-1', payload: '{"v":2}' }, { id: 'p-2', payload: '{"v":1}' }]);
+  });
+
+  it('should roll back failed transactions', () => {
+    const insertTag = db.prepare('INSERT INTO tags (id, name) VALUES (?, ?)');
+    const tx = db.transaction(() => {
+      insertTag.run('tag-1', 'energy');
+      insertTag.run('tag-2', 'energy');
+    });
+
+    expect(() => tx()).toThrow();
+    expect(db.prepare('SELECT id FROM tags').all()).toEqual([]);
+  });
+
+  it('should not hand the late answer of a timed out query to the next one', () => {
+    const internals = db as unknown as { queryTimeoutMs: number };
+    const timeout = internals.queryTimeoutMs;
+    internals.queryTimeoutMs = 100;
+    try {
+      expect(() => db.prepare('SELECT pg_sleep(0.5) AS slept').get()).toThrow(/timed out/);
+    } finally {
+      internals.queryTimeoutMs = timeout;
+    }
+
+    expect(db.prepare('SELECT ? AS value').get('next')).toEqual({ value: 'next' });
+    expect(db.prepare('SELECT COUNT(*) AS count FROM documents').get()).toEqual({ count: 1 });
+  });
+
+  it('should surface Postgres error codes', () => {
+    try {
+      db.prepare('INSERT INTO tags (id, name) VALUES (?, ?)').run('tag-1', null);
+      expect.fail('insert should fail');
+    } catch (error: any) {
+      expect(error.code).toBe('23502');
+    }
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Database Connection Contract
+ * The subset of the better-sqlite3 API that routes and services rely on.
+ * Both the SQLite and the PostgreSQL backend implement it.
+ */
+
+export interface RunResult {
+  changes: number;
+  lastInsertRowid: number | bigint;
+}
+
+export interface PreparedStatement {
+  get(...params: any[]): unknown;
+  all(...params: any[]): unknown[];
+  run(...params: any[]): RunResult;
+}
+
+export interface DatabaseConnection {
+  prepare(sql: string): PreparedStatement;
+  exec(sql: string): unknown;
+  transaction<F extends (...args: any[]) => any>(fn: F): (...args: any[]) => ReturnType<F>;
+  close(): unknown;
+}
@@ -0,0 +1,90 @@
+/**
+ * Migration CLI
+ *
+ *   npm run migrate                      apply all pending migrations
+ *   npm run migrate -- up --to=3         apply up to and including version 3
+ *   npm run migrate -- down              revert the latest migration
+ *   npm run migrate -- down --steps=2    revert the two latest migrations
+ *   npm run migrate -- down --to=1       revert everything above version 1
+ *   npm run migrate -- status            list migrations and their state
+ *
+ * Add --dry-run to up/down to execute inside a rolled-back transaction and
+ * print the SQL that would run.
+ */
+
+import { openDatabase } from './index.js';
+import { getMigrationStatus, migrateUp, migrateDown, type MigrationResult } from './migrator.js';
+
+function parseArgs(argv: string[]) {
+  const [command = 'up', ...rest] = argv;
+  const flags = new Map<string, string>();
+  for (const arg of rest) {
+    const [key, value = 'true'] = arg.replace(/^--/, '').split('=');
+    flags.set(key, value);
+  }
+
+  const toNumber = (key: string) => (flags.has(key) ? Number(flags.get(key)) : undefined);
+  return {
+    command,
+    dryRun: flags.get('dry-run') === 'true',
+    to: toNumber('to'),
+    steps: toNumber('steps'),
+  };
+}
+
+function printResults(results: MigrationResult[], dryRun: boolean): void {
+  if (results.length === 0) {
+    console.log('Nothing to do - database is up to date.');
+    return;
+  }
+
+  for (const result of results) {
+    console.log(`${dryRun ? '[dry run] ' : ''}${result.direction} ${result.version}_${result.name}`);
+    if (dryRun) {
+      for (const statement of result.statements) {
+        console.log(`\n${statement}\n`);
+      }
+    }
+  }
+
+  if (dryRun) {
+    console.log('Dry run: all changes were rolled back (only the first pending migration is shown).');
+  }
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const { connection, dialect } = openDatabase();
+
+  try {
+    switch (args.command) {
+      case 'up':
+        printResults(migrateUp(connection, dialect, { dryRun: args.dryRun, to: args.to }), args.dryRun);
+        break;
+
+      case 'down':
+        printResults(migrateDown(connection, dialect, { dryRun: args.dryRun, to: args.to, steps: args.steps }), args.dryRun);
+        break;
+
+      case 'status': {
+        for (const migration of getMigrationStatus(connection)) {
+          const appliedAt = migration.appliedAt ? new Date(migration.appliedAt).toISOString() : 'pending';
+          console.log(`${String(migration.version).padStart(3, '0')}_${migration.name.padEnd(40)} ${appliedAt}`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown command "${args.command}" (expected up, down or status)`);
+    }
+  } finally {
+    connection.close();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,476 @@
+/**
+ * Baseline schema
+ *
+ * Consolidates the tables that used to be created (and patched with probing
+ * ALTER TABLE blocks) in db/index.ts and schema.ts. Databases created by older
+ * releases already contain most of these tables, so every statement is
+ * idempotent and missing columns are added individually.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const TABLES = [
+  'background_jobs',
+  'document_relationships',
+  'document_access_log',
+  'document_versions',
+  'artifacts',
+  'mcp_tool_hints',
+  'mcp_servers',
+  'document_tags',
+  'tags',
+  'sessions',
+  'document_permissions',
+  'documents',
+  'user_groups',
+  'groups',
+  'users',
+];
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  up(ctx) {
+    if (ctx.dialect === 'postgres') {
+      ctx.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          display_name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          is_active BIGINT DEFAULT 1
+        );
+
+        CREATE TABLE IF NOT EXISTS groups (
+          id TEXT PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          description TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS user_groups (
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+          added_at TEXT NOT NULL,
+          PRIMARY KEY (user_id, group_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS documents (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          slug TEXT NOT NULL UNIQUE,
+          content TEXT NOT NULL,
+          parent_id TEXT REFERENCES documents(id) ON DELETE CASCADE,
+          position BIGINT DEFAULT 0,
+          owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          share_id TEXT UNIQUE,
+          share_enabled BIGINT DEFAULT 0,
+          background_color TEXT,
+          is_pinned BIGINT DEFAULT 0,
+          is_readonly BIGINT DEFAULT 0,
+          source_url TEXT,
+          is_archived BIGINT DEFAULT 0,
+          archived_at BIGINT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          last_edited_by TEXT,
+          metadata TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS document_permissions (
+          id TEXT PRIMARY KEY,
+          document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+          group_id TEXT REFERENCES groups(id) ON DELETE CASCADE,
+          permission_level TEXT CHECK (permission_level IN ('read', 'write', 'admin')),
+          created_at TEXT NOT NULL,
+          CHECK ((user_id IS NOT NULL AND group_id IS NULL) OR (user_id IS NULL AND group_id IS NOT NULL))
+        );
+
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          token TEXT UNIQUE NOT NULL,
+          expires_at TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          color TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS document_tags (
+          document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (document_id, tag_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS mcp_servers (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT NOT NULL,
+          capabilities TEXT,
+          default_tools TEXT,
+          enabled BIGINT NOT NULL DEFAULT 1,
+          is_default BIGINT NOT NULL DEFAULT 0,
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS mcp_tool_hints (
+          id TEXT PRIMARY KEY,
+          tool_name TEXT NOT NULL,
+          server_id TEXT REFERENCES mcp_servers(id) ON DELETE CASCADE,
+          description TEXT,
+          keywords TEXT,
+          usage_hint TEXT,
+          priority BIGINT DEFAULT 0,
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS artifacts (
+          id TEXT PRIMARY KEY,
+          document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL,
+          is_shared BIGINT DEFAULT 0,
+          share_id TEXT,
+          source_artifact_id TEXT,
+          shared_at BIGINT,
+          import_url TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS document_versions (
+          id TEXT PRIMARY KEY,
+          document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          version BIGINT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          changed_by TEXT,
+          change_summary TEXT,
+          created_at BIGINT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS document_access_log (
+          id TEXT PRIMARY KEY,
+          document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          user_id TEXT,
+          access_type TEXT NOT NULL,
+          share_id TEXT,
+          accessed_at BIGINT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS document_relationships (
+          id TEXT PRIMARY KEY,
+          source_document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          target_document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          relationship_type TEXT NOT NULL CHECK (relationship_type IN ('import', 'fork', 'pull_request')),
+          auto_sync BIGINT DEFAULT 1,
+          status TEXT DEFAULT 'active' CHECK (status IN ('active', 'outdated', 'pending', 'merged', 'rejected')),
+          pull_request_diff TEXT,
+          pull_request_message TEXT,
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS background_jobs (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          priority BIGINT DEFAULT 0,
+          attempts BIGINT DEFAULT 0,
+          max_attempts BIGINT DEFAULT 3,
+          created_at BIGINT NOT NULL,
+          started_at BIGINT,
+          completed_at BIGINT,
+          error TEXT,
+          result TEXT
+        );
+
+        -- Create special groups
+        INSERT INTO groups (id, name, description, created_at) VALUES
+          ('_EVERYONE', '_EVERYONE', 'All users including guests', to_char(timezone('UTC', now()), 'YYYY-MM-DD HH24:MI:SS')),
+          ('_LOGGED_IN', '_LOGGED_IN', 'All authenticated users', to_char(timezone('UTC', now()), 'YYYY-MM-DD HH24:MI:SS'))
+        ON CONFLICT DO NOTHING;
+
+        -- Create indexes
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_artifacts_share_id ON artifacts(share_id);
+        CREATE INDEX IF NOT EXISTS idx_documents_owner ON documents(owner_id);
+        CREATE INDEX IF NOT EXISTS idx_documents_parent ON documents(parent_id);
+        CREATE INDEX IF NOT EXISTS idx_documents_slug ON documents(slug);
+        CREATE INDEX IF NOT EXISTS idx_documents_archived ON documents(is_archived);
+        CREATE INDEX IF NOT EXISTS idx_permissions_document ON document_permissions(document_id);
+        CREATE INDEX IF NOT EXISTS idx_permissions_user ON document_permissions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_permissions_group ON document_permissions(group_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_mcp_servers_enabled ON mcp_servers(enabled);
+        CREATE INDEX IF NOT EXISTS idx_mcp_servers_default ON mcp_servers(is_default);
+        CREATE INDEX IF NOT EXISTS idx_mcp_tool_hints_server ON mcp_tool_hints(server_id);
+        CREATE INDEX IF NOT EXISTS idx_mcp_tool_hints_tool ON mcp_tool_hints(tool_name);
+        CREATE INDEX IF NOT EXISTS idx_artifacts_document ON artifacts(document_id);
+        CREATE INDEX IF NOT EXISTS idx_document_versions_document ON document_versions(document_id);
+        CREATE INDEX IF NOT EXISTS idx_document_versions_created ON document_versions(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_access_log_user ON document_access_log(user_id);
+        CREATE INDEX IF NOT EXISTS idx_access_log_document ON document_access_log(document_id);
+        CREATE INDEX IF NOT EXISTS idx_access_log_share ON document_access_log(share_id);
+        CREATE INDEX IF NOT EXISTS idx_document_relationships_source ON document_relationships(source_document_id);
+        CREATE INDEX IF NOT EXISTS idx_document_relationships_target ON document_relationships(target_document_id);
+        CREATE INDEX IF NOT EXISTS idx_document_relationships_type ON document_relationships(relationship_type);
+        CREATE INDEX IF NOT EXISTS idx_document_relationships_status ON document_relationships(status);
+      `);
+      return;
+    }
+
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT UNIQUE NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        is_active INTEGER DEFAULT 1
+      );
+
+      CREATE TABLE IF NOT EXISTS groups (
+        id TEXT PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS user_groups (
+        user_id TEXT NOT NULL,
+        group_id TEXT NOT NULL,
+        added_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, group_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        content TEXT NOT NULL,
+        parent_id TEXT,
+        position INTEGER DEFAULT 0,
+        owner_id TEXT NOT NULL,
+        share_id TEXT UNIQUE,
+        share_enabled INTEGER DEFAULT 0,
+        background_color TEXT,
+        is_pinned INTEGER DEFAULT 0,
+        is_readonly INTEGER DEFAULT 0,
+        source_url TEXT,
+        is_archived INTEGER DEFAULT 0,
+        archived_at INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        last_edited_by TEXT,
+        metadata TEXT,
+        FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (parent_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS document_permissions (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        user_id TEXT,
+        group_id TEXT,
+        permission_level TEXT CHECK(permission_level IN ('read', 'write', 'admin')),
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
+        CHECK ((user_id IS NOT NULL AND group_id IS NULL) OR (user_id IS NULL AND group_id IS NOT NULL))
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        token TEXT UNIQUE NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        color TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS document_tags (
+        document_id TEXT NOT NULL,
+        tag_id TEXT NOT NULL,
+        PRIMARY KEY (document_id, tag_id),
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS mcp_servers (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        capabilities TEXT,
+        default_tools TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS mcp_tool_hints (
+        id TEXT PRIMARY KEY,
+        tool_name TEXT NOT NULL,
+        server_id TEXT,
+        description TEXT,
+        keywords TEXT,
+        usage_hint TEXT,
+        priority INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (server_id) REFERENCES mcp_servers(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS artifacts (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        is_shared INTEGER DEFAULT 0,
+        share_id TEXT,
+        source_artifact_id TEXT,
+        shared_at INTEGER,
+        import_url TEXT,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS document_versions (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        changed_by TEXT,
+        change_summary TEXT,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS document_access_log (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        user_id TEXT,
+        access_type TEXT NOT NULL,
+        share_id TEXT,
+        accessed_at INTEGER NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS document_relationships (
+        id TEXT PRIMARY KEY,
+        source_document_id TEXT NOT NULL,
+        target_document_id TEXT NOT NULL,
+        relationship_type TEXT NOT NULL CHECK(relationship_type IN ('import', 'fork', 'pull_request')),
+        auto_sync INTEGER DEFAULT 1,
+        status TEXT DEFAULT 'active' CHECK(status IN ('active', 'outdated', 'pending', 'merged', 'rejected')),
+        pull_request_diff TEXT,
+        pull_request_message TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (source_document_id) REFERENCES documents(id) ON DELETE CASCADE,
+        FOREIGN KEY (target_document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS background_jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        priority INTEGER DEFAULT 0,
+        attempts INTEGER DEFAULT 0,
+        max_attempts INTEGER DEFAULT 3,
+        created_at INTEGER NOT NULL,
+        started_at INTEGER,
+        completed_at INTEGER,
+        error TEXT,
+        result TEXT
+      );
+    `);
+
+    // Columns added after the first release
+    ctx.addColumnIfMissing('documents', 'share_id', 'TEXT');
+    ctx.addColumnIfMissing('documents', 'share_enabled', 'INTEGER DEFAULT 0');
+    ctx.addColumnIfMissing('documents', 'background_color', 'TEXT');
+    ctx.addColumnIfMissing('documents', 'is_pinned', 'INTEGER DEFAULT 0');
+    ctx.addColumnIfMissing('documents', 'is_readonly', 'INTEGER DEFAULT 0');
+    ctx.addColumnIfMissing('documents', 'source_url', 'TEXT');
+    ctx.addColumnIfMissing('documents', 'is_archived', 'INTEGER DEFAULT 0');
+    ctx.addColumnIfMissing('documents', 'archived_at', 'INTEGER');
+    ctx.addColumnIfMissing('artifacts', 'is_shared', 'INTEGER DEFAULT 0');
+    ctx.addColumnIfMissing('artifacts', 'share_id', 'TEXT');
+    ctx.addColumnIfMissing('artifacts', 'source_artifact_id', 'TEXT');
+    ctx.addColumnIfMissing('artifacts', 'shared_at', 'INTEGER');
+    ctx.addColumnIfMissing('artifacts', 'import_url', 'TEXT');
+
+    ctx.exec(`
+      INSERT OR IGNORE INTO groups (id, name, description, created_at) VALUES
+        ('_EVERYONE', '_EVERYONE', 'All users including guests', datetime('now')),
+        ('_LOGGED_IN', '_LOGGED_IN', 'All authenticated users', datetime('now'));
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_share_id ON documents(share_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_artifacts_share_id ON artifacts(share_id);
+      CREATE INDEX IF NOT EXISTS idx_documents_owner ON documents(owner_id);
+      CREATE INDEX IF NOT EXISTS idx_documents_parent ON documents(parent_id);
+      CREATE INDEX IF NOT EXISTS idx_documents_slug ON documents(slug);
+      CREATE INDEX IF NOT EXISTS idx_documents_archived ON documents(is_archived);
+      CREATE INDEX IF NOT EXISTS idx_permissions_document ON document_permissions(document_id);
+      CREATE INDEX IF NOT EXISTS idx_permissions_user ON document_permissions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_permissions_group ON document_permissions(group_id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_mcp_servers_enabled ON mcp_servers(enabled);
+      CREATE INDEX IF NOT EXISTS idx_mcp_servers_default ON mcp_servers(is_default);
+      CREATE INDEX IF NOT EXISTS idx_mcp_tool_hints_server ON mcp_tool_hints(server_id);
+      CREATE INDEX IF NOT EXISTS idx_mcp_tool_hints_tool ON mcp_tool_hints(tool_name);
+      CREATE INDEX IF NOT EXISTS idx_artifacts_document ON artifacts(document_id);
+      CREATE INDEX IF NOT EXISTS idx_document_versions_document ON document_versions(document_id);
+      CREATE INDEX IF NOT EXISTS idx_document_versions_created ON document_versions(created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_access_log_user ON document_access_log(user_id);
+      CREATE INDEX IF NOT EXISTS idx_access_log_document ON document_access_log(document_id);
+      CREATE INDEX IF NOT EXISTS idx_access_log_share ON document_access_log(share_id);
+      CREATE INDEX IF NOT EXISTS idx_document_relationships_source ON document_relationships(source_document_id);
+      CREATE INDEX IF NOT EXISTS idx_document_relationships_target ON document_relationships(target_document_id);
+      CREATE INDEX IF NOT EXISTS idx_document_relationships_type ON document_relationships(relationship_type);
+      CREATE INDEX IF NOT EXISTS idx_document_relationships_status ON document_relationships(status);
+    `);
+  },
+
+  down(ctx) {
+    for (const table of TABLES) {
+      ctx.exec(`DROP TABLE IF EXISTS ${table}`);
+    }
+  },
+};
+
+export default migration;
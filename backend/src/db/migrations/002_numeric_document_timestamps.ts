@@ -0,0 +1,106 @@
+/**
+ * documents.created_at / updated_at were declared TEXT while every route writes
+ * Date.now() milliseconds, so SQLite stored the numbers as strings (and rows
+ * created by other tools held ISO dates). Convert both columns to INTEGER
+ * milliseconds. SQLite cannot change a column type in place, so the table is
+ * rebuilt.
+ */
+
+import type { Migration, MigrationContext } from '../migrator.js';
+
+const COLUMNS = [
+  'id', 'title', 'slug', 'content', 'parent_id', 'position', 'owner_id',
+  'share_id', 'share_enabled', 'background_color', 'is_pinned', 'is_readonly',
+  'source_url', 'is_archived', 'archived_at', 'created_at', 'updated_at',
+  'last_edited_by', 'metadata',
+];
+
+function documentsTable(name: string, timestampType: 'INTEGER' | 'TEXT'): string {
+  return `
+    CREATE TABLE ${name} (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      slug TEXT NOT NULL UNIQUE,
+      content TEXT NOT NULL,
+      parent_id TEXT,
+      position INTEGER DEFAULT 0,
+      owner_id TEXT NOT NULL,
+      share_id TEXT UNIQUE,
+      share_enabled INTEGER DEFAULT 0,
+      background_color TEXT,
+      is_pinned INTEGER DEFAULT 0,
+      is_readonly INTEGER DEFAULT 0,
+      source_url TEXT,
+      is_archived INTEGER DEFAULT 0,
+      archived_at INTEGER,
+      created_at ${timestampType} NOT NULL,
+      updated_at ${timestampType} NOT NULL,
+      last_edited_by TEXT,
+      metadata TEXT,
+      FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (parent_id) REFERENCES documents(id) ON DELETE CASCADE
+    )
+  `;
+}
+
+const INDEXES = `
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_share_id ON documents(share_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_owner ON documents(owner_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_parent ON documents(parent_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_slug ON documents(slug);
+  CREATE INDEX IF NOT EXISTS idx_documents_archived ON documents(is_archived);
+`;
+
+/** SQLite expression turning a numeric string or ISO date into milliseconds */
+function sqliteToMillis(column: string): string {
+  return `CASE
+    WHEN ${column} GLOB '[0-9]*' AND ${column} NOT GLOB '*[^0-9]*' THEN CAST(${column} AS INTEGER)
+    ELSE CAST(ROUND((julianday(${column}) - 2440587.5) * 86400000) AS INTEGER)
+  END`;
+}
+
+function rebuildSqlite(ctx: MigrationContext, timestampType: 'INTEGER' | 'TEXT', convert: (column: string) => string): void {
+  const select = COLUMNS
+    .map(column => (column === 'created_at' || column === 'updated_at' ? `${convert(column)} AS ${column}` : column))
+    .join(', ');
+
+  ctx.exec(documentsTable('documents_new', timestampType));
+  ctx.exec(`INSERT INTO documents_new (${COLUMNS.join(', ')}) SELECT ${select} FROM documents`);
+  ctx.exec('DROP TABLE documents');
+  ctx.exec('ALTER TABLE documents_new RENAME TO documents');
+  ctx.exec(INDEXES);
+}
+
+const migration: Migration = {
+  version: 2,
+  name: 'numeric_document_timestamps',
+
+  up(ctx) {
+    if (ctx.dialect === 'postgres') {
+      for (const column of ['created_at', 'updated_at']) {
+        ctx.exec(`
+          ALTER TABLE documents ALTER COLUMN ${column} TYPE BIGINT USING (
+            CASE WHEN ${column} ~ '^[0-9]+$' THEN ${column}::bigint
+            ELSE (EXTRACT(EPOCH FROM ${column}::timestamptz) * 1000)::bigint END
+          )
+        `);
+      }
+      return;
+    }
+
+    rebuildSqlite(ctx, 'INTEGER', sqliteToMillis);
+  },
+
+  down(ctx) {
+    if (ctx.dialect === 'postgres') {
+      for (const column of ['created_at', 'updated_at']) {
+        ctx.exec(`ALTER TABLE documents ALTER COLUMN ${column} TYPE TEXT USING ${column}::text`);
+      }
+      return;
+    }
+
+    rebuildSqlite(ctx, 'TEXT', column => `CAST(${column} AS TEXT)`);
+  },
+};
+
+export default migration;
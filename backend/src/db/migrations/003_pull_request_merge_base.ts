@@ -0,0 +1,22 @@
+/**
+ * Pull requests are merged three-way against the content the fork was last in
+ * sync with. Fork relationships remember that merge base; it is set when the
+ * fork is created and advanced whenever one of its pull requests is merged.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 3,
+  name: 'pull_request_merge_base',
+
+  up(ctx) {
+    ctx.addColumnIfMissing('document_relationships', 'base_content', 'TEXT');
+  },
+
+  down(ctx) {
+    ctx.exec('ALTER TABLE document_relationships DROP COLUMN base_content');
+  },
+};
+
+export default migration;
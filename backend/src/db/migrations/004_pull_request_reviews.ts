@@ -0,0 +1,123 @@
+/**
+ * Pull request reviews: comment threads (optionally anchored to a diff hunk),
+ * a review event log for the timeline and the 'changes_requested' status.
+ * SQLite cannot alter a CHECK constraint, so document_relationships is rebuilt.
+ */
+
+import type { Migration, MigrationContext } from '../migrator.js';
+
+const BASE_STATUSES = ['active', 'outdated', 'pending', 'merged', 'rejected'];
+
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_document_relationships_source ON document_relationships(source_document_id);
+  CREATE INDEX IF NOT EXISTS idx_document_relationships_target ON document_relationships(target_document_id);
+  CREATE INDEX IF NOT EXISTS idx_document_relationships_type ON document_relationships(relationship_type);
+  CREATE INDEX IF NOT EXISTS idx_document_relationships_status ON document_relationships(status);
+`;
+
+function statusList(statuses: string[]): string {
+  return statuses.map(status => `'${status}'`).join(', ');
+}
+
+function rebuildRelationshipsSqlite(ctx: MigrationContext, statuses: string[], statusExpression: string): void {
+  ctx.exec(`
+    CREATE TABLE document_relationships_new (
+      id TEXT PRIMARY KEY,
+      source_document_id TEXT NOT NULL,
+      target_document_id TEXT NOT NULL,
+      relationship_type TEXT NOT NULL CHECK(relationship_type IN ('import', 'fork', 'pull_request')),
+      auto_sync INTEGER DEFAULT 1,
+      status TEXT DEFAULT 'active' CHECK(status IN (${statusList(statuses)})),
+      pull_request_diff TEXT,
+      pull_request_message TEXT,
+      base_content TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (source_document_id) REFERENCES documents(id) ON DELETE CASCADE,
+      FOREIGN KEY (target_document_id) REFERENCES documents(id) ON DELETE CASCADE
+    )
+  `);
+  ctx.exec(`
+    INSERT INTO document_relationships_new (
+      id, source_document_id, target_document_id, relationship_type, auto_sync, status,
+      pull_request_diff, pull_request_message, base_content, created_at, updated_at
+    )
+    SELECT id, source_document_id, target_document_id, relationship_type, auto_sync, ${statusExpression},
+           pull_request_diff, pull_request_message, base_content, created_at, updated_at
+    FROM document_relationships
+  `);
+  ctx.exec('DROP TABLE document_relationships');
+  ctx.exec('ALTER TABLE document_relationships_new RENAME TO document_relationships');
+  ctx.exec(INDEXES);
+}
+
+function setStatusConstraint(ctx: MigrationContext, statuses: string[]): void {
+  ctx.exec('ALTER TABLE document_relationships DROP CONSTRAINT IF EXISTS document_relationships_status_check');
+  ctx.exec(`
+    ALTER TABLE document_relationships
+    ADD CONSTRAINT document_relationships_status_check CHECK (status IN (${statusList(statuses)}))
+  `);
+}
+
+const migration: Migration = {
+  version: 4,
+  name: 'pull_request_reviews',
+
+  up(ctx) {
+    const statuses = [...BASE_STATUSES, 'changes_requested'];
+    if (ctx.dialect === 'postgres') {
+      setStatusConstraint(ctx, statuses);
+    } else {
+      rebuildRelationshipsSqlite(ctx, statuses, 'status');
+    }
+
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS pull_request_comments (
+        id TEXT PRIMARY KEY,
+        pull_request_id TEXT NOT NULL,
+        parent_id TEXT,
+        user_id TEXT NOT NULL,
+        hunk_id TEXT,
+        body TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (pull_request_id) REFERENCES document_relationships(id) ON DELETE CASCADE,
+        FOREIGN KEY (parent_id) REFERENCES pull_request_comments(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS pull_request_events (
+        id TEXT PRIMARY KEY,
+        pull_request_id TEXT NOT NULL,
+        user_id TEXT,
+        event_type TEXT NOT NULL CHECK(event_type IN ('updated', 'changes_requested', 'merged', 'rejected')),
+        message TEXT,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (pull_request_id) REFERENCES document_relationships(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pull_request_comments_pr ON pull_request_comments(pull_request_id);
+      CREATE INDEX IF NOT EXISTS idx_pull_request_comments_parent ON pull_request_comments(parent_id);
+      CREATE INDEX IF NOT EXISTS idx_pull_request_events_pr ON pull_request_events(pull_request_id);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS pull_request_events');
+    ctx.exec('DROP TABLE IF EXISTS pull_request_comments');
+
+    if (ctx.dialect === 'postgres') {
+      ctx.exec("UPDATE document_relationships SET status = 'pending' WHERE status = 'changes_requested'");
+      setStatusConstraint(ctx, BASE_STATUSES);
+    } else {
+      rebuildRelationshipsSqlite(
+        ctx,
+        BASE_STATUSES,
+        "CASE WHEN status = 'changes_requested' THEN 'pending' ELSE status END"
+      );
+    }
+  },
+};
+
+export default migration;
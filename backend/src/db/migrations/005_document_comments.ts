@@ -0,0 +1,63 @@
+/**
+ * Inline document comments. Comments are anchored to text ranges through
+ * encoded Y.js relative positions; the Y.js state they refer to is persisted
+ * per document so anchors keep working across restarts.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 5,
+  name: 'document_comments',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS document_collab_state (
+        document_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS document_comments (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        parent_id TEXT,
+        user_id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        anchor_start TEXT,
+        anchor_end TEXT,
+        quote TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'resolved')),
+        resolved_by TEXT,
+        resolved_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+        FOREIGN KEY (parent_id) REFERENCES document_comments(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS document_comment_mentions (
+        comment_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        PRIMARY KEY (comment_id, user_id),
+        FOREIGN KEY (comment_id) REFERENCES document_comments(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_document_comments_document ON document_comments(document_id);
+      CREATE INDEX IF NOT EXISTS idx_document_comments_parent ON document_comments(parent_id);
+      CREATE INDEX IF NOT EXISTS idx_document_comment_mentions_user ON document_comment_mentions(user_id);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS document_comment_mentions');
+    ctx.exec('DROP TABLE IF EXISTS document_comments');
+    ctx.exec('DROP TABLE IF EXISTS document_collab_state');
+  },
+};
+
+export default migration;
@@ -0,0 +1,66 @@
+/**
+ * Full-text search index over document titles and content.
+ * SQLite uses an FTS5 table kept in sync by triggers; PostgreSQL uses a GIN
+ * index on the same tsvector expression the search service queries.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 6,
+  name: 'document_search',
+
+  up(ctx) {
+    if (ctx.dialect === 'postgres') {
+      ctx.exec(`
+        CREATE INDEX IF NOT EXISTS idx_documents_search ON documents
+          USING GIN (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(content, '')));
+      `);
+      return;
+    }
+
+    // Standalone table keyed by document id: rowids of a TEXT-keyed table
+    // may change on VACUUM, so an external content table is not safe here
+    ctx.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+        document_id UNINDEXED,
+        title,
+        content,
+        tokenize = 'unicode61 remove_diacritics 2',
+        prefix = '2 3'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+        INSERT INTO documents_fts (document_id, title, content) VALUES (new.id, new.title, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF title, content ON documents BEGIN
+        DELETE FROM documents_fts WHERE document_id = old.id;
+        INSERT INTO documents_fts (document_id, title, content) VALUES (new.id, new.title, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+        DELETE FROM documents_fts WHERE document_id = old.id;
+      END;
+
+      DELETE FROM documents_fts;
+      INSERT INTO documents_fts (document_id, title, content) SELECT id, title, content FROM documents;
+    `);
+  },
+
+  down(ctx) {
+    if (ctx.dialect === 'postgres') {
+      ctx.exec('DROP INDEX IF EXISTS idx_documents_search;');
+      return;
+    }
+
+    ctx.exec(`
+      DROP TRIGGER IF EXISTS documents_fts_insert;
+      DROP TRIGGER IF EXISTS documents_fts_update;
+      DROP TRIGGER IF EXISTS documents_fts_delete;
+      DROP TABLE IF EXISTS documents_fts;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+/**
+ * Tags are shared across all users. Remembering who created a tag lets the
+ * creator rename or delete it without giving everyone that right.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 7,
+  name: 'tag_ownership',
+
+  up(ctx) {
+    ctx.addColumnIfMissing('tags', 'created_by', 'TEXT');
+    ctx.addColumnIfMissing('tags', 'created_at', 'INTEGER');
+    ctx.exec('CREATE INDEX IF NOT EXISTS idx_document_tags_tag ON document_tags(tag_id);');
+  },
+
+  down(ctx) {
+    ctx.exec(`
+      DROP INDEX IF EXISTS idx_document_tags_tag;
+      ALTER TABLE tags DROP COLUMN created_at;
+      ALTER TABLE tags DROP COLUMN created_by;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+/**
+ * Permission entries can deny a level instead of granting it, e.g. to keep
+ * one user of a group out of a document the group may read.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 8,
+  name: 'permission_deny',
+
+  up(ctx) {
+    ctx.addColumnIfMissing(
+      'document_permissions',
+      'effect',
+      "TEXT NOT NULL DEFAULT 'allow' CHECK (effect IN ('allow', 'deny'))"
+    );
+  },
+
+  down(ctx) {
+    ctx.exec(`
+      DELETE FROM document_permissions WHERE effect = 'deny';
+      ALTER TABLE document_permissions DROP COLUMN effect;
+    `);
+  },
+};
+
+export default migration;
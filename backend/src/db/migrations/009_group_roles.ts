@@ -0,0 +1,32 @@
+/**
+ * Groups get managers: every membership has a role. Owners manage the group
+ * and its admins, admins manage plain members. Existing memberships become
+ * plain members.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 9,
+  name: 'group_roles',
+
+  up(ctx) {
+    ctx.addColumnIfMissing('groups', 'created_by', 'TEXT');
+    ctx.addColumnIfMissing(
+      'user_groups',
+      'role',
+      "TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'admin', 'owner'))"
+    );
+    ctx.exec('CREATE INDEX IF NOT EXISTS idx_user_groups_group ON user_groups(group_id);');
+  },
+
+  down(ctx) {
+    ctx.exec(`
+      DROP INDEX IF EXISTS idx_user_groups_group;
+      ALTER TABLE user_groups DROP COLUMN role;
+      ALTER TABLE groups DROP COLUMN created_by;
+    `);
+  },
+};
+
+export default migration;
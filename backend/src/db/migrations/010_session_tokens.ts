@@ -0,0 +1,33 @@
+/**
+ * Sessions become the source of truth for authentication: access tokens
+ * carry the session id, and sessions.token holds the SHA-256 hash of the
+ * session's current refresh token instead of a raw JWT.
+ *
+ * Existing rows stored raw tokens and cannot be rotated, so they are
+ * dropped; everyone signs in once more after the upgrade.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 10,
+  name: 'session_tokens',
+
+  up(ctx) {
+    ctx.exec('DELETE FROM sessions;');
+    ctx.addColumnIfMissing('sessions', 'last_seen_at', 'TEXT');
+    ctx.addColumnIfMissing('sessions', 'user_agent', 'TEXT');
+    ctx.addColumnIfMissing('sessions', 'ip_address', 'TEXT');
+  },
+
+  down(ctx) {
+    ctx.exec(`
+      DELETE FROM sessions;
+      ALTER TABLE sessions DROP COLUMN ip_address;
+      ALTER TABLE sessions DROP COLUMN user_agent;
+      ALTER TABLE sessions DROP COLUMN last_seen_at;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+/**
+ * Single sign-on through OpenID Connect. Pending logins keep their state,
+ * nonce and PKCE verifier server-side until the provider redirects back;
+ * identities link a provider account (issuer + subject) to a user.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 11,
+  name: 'oidc_login',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS oidc_login_states (
+        state TEXT PRIMARY KEY,
+        nonce TEXT NOT NULL,
+        code_verifier TEXT NOT NULL,
+        return_to TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS user_identities (
+        issuer TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        email TEXT,
+        created_at INTEGER NOT NULL,
+        last_login_at INTEGER,
+        PRIMARY KEY (issuer, subject),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS user_identities');
+    ctx.exec('DROP TABLE IF EXISTS oidc_login_states');
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+/**
+ * Personal API tokens for scripts and CI jobs. Only a hash of the token is
+ * stored; the prefix identifies a token in the UI without revealing it.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 12,
+  name: 'api_tokens',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        last_used_at INTEGER,
+        last_used_ip TEXT,
+        revoked_at INTEGER,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS api_tokens');
+  },
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+/**
+ * Site-wide roles: admins manage users and server settings, editors create
+ * documents, viewers only read. Existing users become editors, except the
+ * first registered user, who becomes the first admin.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 13,
+  name: 'user_roles',
+
+  up(ctx) {
+    ctx.addColumnIfMissing(
+      'users',
+      'role',
+      "TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('admin', 'editor', 'viewer'))"
+    );
+    ctx.exec(`
+      UPDATE users SET role = 'admin'
+      WHERE id = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+        AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin');
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('ALTER TABLE users DROP COLUMN role;');
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+/**
+ * Audit log of security-relevant and content actions. Actor names are
+ * copied into each entry and there are no foreign keys, so entries survive
+ * the deletion of the users and documents they mention.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 14,
+  name: 'audit_log',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        actor_id TEXT,
+        actor_name TEXT,
+        target_type TEXT,
+        target_id TEXT,
+        document_id TEXT,
+        details TEXT,
+        ip_address TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_document ON audit_log(document_id);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS audit_log');
+  },
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+/**
+ * Email verification. Reset and verification tokens are signed rather than
+ * stored, so the only new state is when an address was confirmed. Existing
+ * accounts start unverified.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 15,
+  name: 'email_verification',
+
+  up(ctx) {
+    ctx.addColumnIfMissing('users', 'email_verified_at', 'TEXT');
+  },
+
+  down(ctx) {
+    ctx.exec('ALTER TABLE users DROP COLUMN email_verified_at;');
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+/**
+ * Rate limits and login lockouts live in the database so a restart does not
+ * hand out a fresh budget. Counters use fixed windows per bucket and key;
+ * failed logins are counted per account name, whether or not it exists.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 16,
+  name: 'rate_limits',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        bucket TEXT NOT NULL,
+        key TEXT NOT NULL,
+        window_start INTEGER NOT NULL,
+        hits INTEGER NOT NULL,
+        PRIMARY KEY (bucket, key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_rate_limits_window ON rate_limits(bucket, window_start);
+
+      CREATE TABLE IF NOT EXISTS login_failures (
+        account TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL,
+        last_failure_at INTEGER NOT NULL,
+        locked_until INTEGER
+      );
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS login_failures');
+    ctx.exec('DROP TABLE IF EXISTS rate_limits');
+  },
+};
+
+export default migration;
@@ -0,0 +1,53 @@
+/**
+ * Several share links per document instead of one share_id. Each link can
+ * expire, need a password, allow only some formats and a number of views.
+ * Views are counted from document_access_log, which now logs guests too and
+ * remembers the format. Existing share ids become links with all formats;
+ * the documents.share_id and share_enabled columns are no longer used.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 17,
+  name: 'share_links',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS share_links (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        label TEXT,
+        formats TEXT NOT NULL,
+        password_hash TEXT,
+        expires_at INTEGER,
+        max_views INTEGER,
+        created_by TEXT,
+        created_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_share_links_document ON share_links(document_id);
+    `);
+
+    ctx.addColumnIfMissing('document_access_log', 'format', 'TEXT');
+
+    const now = Date.now();
+    ctx.exec(`
+      INSERT INTO share_links (id, document_id, formats, created_by, created_at, revoked_at)
+      SELECT share_id, id, 'view html pdf docx md rss', owner_id, ${now},
+             CASE WHEN share_enabled = 1 THEN NULL ELSE ${now} END
+      FROM documents
+      WHERE share_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM share_links WHERE share_links.id = documents.share_id);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('ALTER TABLE document_access_log DROP COLUMN format;');
+    ctx.exec('DROP TABLE IF EXISTS share_links');
+  },
+};
+
+export default migration;
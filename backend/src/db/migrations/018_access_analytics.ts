@@ -0,0 +1,33 @@
+/**
+ * Share link analytics need to tell viewers apart and know where they came
+ * from. viewer_hash is a keyed hash of the user id or, for guests, the IP
+ * address, so unique viewers can be counted without storing addresses.
+ * referrer keeps only the host of the referring page.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 18,
+  name: 'access_analytics',
+
+  up(ctx) {
+    ctx.addColumnIfMissing('document_access_log', 'viewer_hash', 'TEXT');
+    ctx.addColumnIfMissing('document_access_log', 'referrer', 'TEXT');
+    ctx.exec(`
+      CREATE INDEX IF NOT EXISTS idx_access_log_document_time ON document_access_log(document_id, accessed_at);
+      CREATE INDEX IF NOT EXISTS idx_access_log_user_time ON document_access_log(user_id, accessed_at);
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec(`
+      DROP INDEX IF EXISTS idx_access_log_user_time;
+      DROP INDEX IF EXISTS idx_access_log_document_time;
+      ALTER TABLE document_access_log DROP COLUMN referrer;
+      ALTER TABLE document_access_log DROP COLUMN viewer_hash;
+    `);
+  },
+};
+
+export default migration;
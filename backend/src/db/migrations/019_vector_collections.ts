@@ -0,0 +1,30 @@
+/**
+ * Remembers which embedding model filled each vector collection, so a
+ * change of the embedding provider is noticed and the collection gets
+ * re-embedded. target_embedding_id is set while that job runs.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 19,
+  name: 'vector_collections',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS vector_collections (
+        name TEXT PRIMARY KEY,
+        embedding_id TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        target_embedding_id TEXT,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS vector_collections');
+  },
+};
+
+export default migration;
@@ -0,0 +1,42 @@
+/**
+ * Embeddings survive restarts and are shared with the job worker. Entries
+ * are keyed by a hash of the full text and the embedding model, vectors are
+ * stored as float64 blobs; the least recently used ones are evicted once
+ * the cache outgrows EMBEDDING_CACHE_MAX_MB.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 20,
+  name: 'embedding_cache',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        content_hash TEXT NOT NULL,
+        embedding_id TEXT NOT NULL,
+        task_type TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        bytes INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (embedding_id, task_type, content_hash)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used_at);
+
+      CREATE TABLE IF NOT EXISTS embedding_cache_counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS embedding_cache_counters');
+    ctx.exec('DROP TABLE IF EXISTS embedding_cache');
+  },
+};
+
+export default migration;
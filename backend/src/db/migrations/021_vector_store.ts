@@ -0,0 +1,37 @@
+/**
+ * Embedded vector store: collections and points for installations without
+ * Qdrant. Vectors are float32 blobs, payloads JSON; searches scan a whole
+ * collection, which is fine up to some ten thousand chunks.
+ */
+
+import type { Migration } from '../migrator.js';
+
+const migration: Migration = {
+  version: 21,
+  name: 'vector_store',
+
+  up(ctx) {
+    ctx.exec(`
+      CREATE TABLE IF NOT EXISTS vector_store_collections (
+        name TEXT PRIMARY KEY,
+        dimensions INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS vector_store_points (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        payload TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+    `);
+  },
+
+  down(ctx) {
+    ctx.exec('DROP TABLE IF EXISTS vector_store_points');
+    ctx.exec('DROP TABLE IF EXISTS vector_store_collections');
+  },
+};
+
+export default migration;
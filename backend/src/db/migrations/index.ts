@@ -0,0 +1,51 @@
+/**
+ * Registered schema migrations, in version order.
+ * New migrations get the next number as file prefix and are appended here.
+ */
+
+import type { Migration } from '../migrator.js';
+import initialSchema from './001_initial_schema.js';
+import numericDocumentTimestamps from './002_numeric_document_timestamps.js';
+import pullRequestMergeBase from './003_pull_request_merge_base.js';
+import pullRequestReviews from './004_pull_request_reviews.js';
+import documentComments from './005_document_comments.js';
+import documentSearch from './006_document_search.js';
+import tagOwnership from './007_tag_ownership.js';
+import permissionDeny from './008_permission_deny.js';
+import groupRoles from './009_group_roles.js';
+import sessionTokens from './010_session_tokens.js';
+import oidcLogin from './011_oidc_login.js';
+import apiTokens from './012_api_tokens.js';
+import userRoles from './013_user_roles.js';
+import auditLog from './014_audit_log.js';
+import emailVerification from './015_email_verification.js';
+import rateLimits from './016_rate_limits.js';
+import shareLinks from './017_share_links.js';
+import accessAnalytics from './018_access_analytics.js';
+import vectorCollections from './019_vector_collections.js';
+import embeddingCache from './020_embedding_cache.js';
+import vectorStore from './021_vector_store.js';
+
+export const migrations: Migration[] = [
+  initialSchema,
+  numericDocumentTimestamps,
+  pullRequestMergeBase,
+  pullRequestReviews,
+  documentComments,
+  documentSearch,
+  tagOwnership,
+  permissionDeny,
+  groupRoles,
+  sessionTokens,
+  oidcLogin,
+  apiTokens,
+  userRoles,
+  auditLog,
+  emailVerification,
+  rateLimits,
+  shareLinks,
+  accessAnalytics,
+  vectorCollections,
+  embeddingCache,
+  vectorStore,
+];
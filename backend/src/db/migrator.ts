@@ -0,0 +1,268 @@
+/**
+ * Schema Migrations
+ *
+ * Ordered, numbered migrations (see ./migrations) are recorded in the
+ * schema_migrations table. Every migration runs in its own transaction, so a
+ * failing migration leaves the database at the previous version. Dry runs
+ * execute the migrations inside a transaction that is always rolled back and
+ * report the statements that would have been executed.
+ */
+
+import type { DatabaseConnection } from './connection.js';
+import { migrations as registeredMigrations } from './migrations/index.js';
+
+export type Dialect = 'sqlite' | 'postgres';
+
+export interface MigrationContext {
+  db: DatabaseConnection;
+  dialect: Dialect;
+  /** Execute a SQL script and record it for dry-run output */
+  exec(sql: string): void;
+  hasTable(table: string): boolean;
+  hasColumn(table: string, column: string): boolean;
+  /** ALTER TABLE ... ADD COLUMN unless the column already exists */
+  addColumnIfMissing(table: string, column: string, definition: string): void;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(ctx: MigrationContext): void;
+  down(ctx: MigrationContext): void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: number | null;
+}
+
+export interface MigrationResult {
+  version: number;
+  name: string;
+  direction: 'up' | 'down';
+  statements: string[];
+  durationMs: number;
+}
+
+export interface MigrateOptions {
+  /** Execute and roll back, reporting what would change */
+  dryRun?: boolean;
+  /** Stop at this version (inclusive for up, exclusive for down) */
+  to?: number;
+  migrations?: Migration[];
+}
+
+class DryRunRollback extends Error {
+  constructor() {
+    super('Dry run rollback');
+    Object.setPrototypeOf(this, DryRunRollback.prototype);
+  }
+}
+
+function ensureMigrationsTable(db: DatabaseConnection): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+function validateOrder(migrations: Migration[]): void {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migrations must be strictly ordered: ${migrations[i - 1].version} is followed by ${migrations[i].version}`
+      );
+    }
+  }
+}
+
+function createContext(db: DatabaseConnection, dialect: Dialect, statements: string[]): MigrationContext {
+  const hasTable = (table: string): boolean => {
+    const row = dialect === 'sqlite'
+      ? db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table)
+      : db.prepare(`SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?`).get(table);
+    return Boolean(row);
+  };
+
+  const hasColumn = (table: string, column: string): boolean => {
+    if (dialect === 'sqlite') {
+      const columns = db.prepare(`SELECT name FROM pragma_table_info(?)`).all(table) as { name: string }[];
+      return columns.some(c => c.name === column);
+    }
+    const row = db.prepare(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = ? AND column_name = ?
+    `).get(table, column);
+    return Boolean(row);
+  };
+
+  const exec = (sql: string): void => {
+    statements.push(sql.trim());
+    db.exec(sql);
+  };
+
+  return {
+    db,
+    dialect,
+    exec,
+    hasTable,
+    hasColumn,
+    addColumnIfMissing(table, column, definition) {
+      if (!hasColumn(table, column)) {
+        exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    },
+  };
+}
+
+/**
+ * List all known migrations with their applied state
+ */
+export function getMigrationStatus(
+  db: DatabaseConnection,
+  migrations: Migration[] = registeredMigrations
+): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map(
+    (db.prepare('SELECT version, applied_at FROM schema_migrations').all() as { version: number; applied_at: number }[])
+      .map(row => [Number(row.version), Number(row.applied_at)])
+  );
+
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied: applied.has(migration.version),
+    appliedAt: applied.get(migration.version) ?? null,
+  }));
+}
+
+export function getPendingMigrations(
+  db: DatabaseConnection,
+  migrations: Migration[] = registeredMigrations
+): Migration[] {
+  const status = getMigrationStatus(db, migrations);
+  return migrations.filter((_migration, index) => !status[index].applied);
+}
+
+function runInTransaction(
+  db: DatabaseConnection,
+  dialect: Dialect,
+  migration: Migration,
+  direction: 'up' | 'down',
+  dryRun: boolean
+): MigrationResult {
+  const statements: string[] = [];
+  const startedAt = Date.now();
+
+  // Rebuilding SQLite tables requires foreign keys to be off; the pragma is a
+  // no-op inside a transaction, so it is toggled around it.
+  if (dialect === 'sqlite') {
+    db.exec('PRAGMA foreign_keys = OFF');
+  }
+
+  try {
+    db.transaction(() => {
+      const ctx = createContext(db, dialect, statements);
+      migration[direction](ctx);
+
+      if (dialect === 'sqlite') {
+        const violations = db.prepare('PRAGMA foreign_key_check').all();
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.version} left ${violations.length} foreign key violations`);
+        }
+      }
+
+      if (direction === 'up') {
+        db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, Date.now());
+      } else {
+        db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+      }
+
+      if (dryRun) {
+        throw new DryRunRollback();
+      }
+    })();
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) ${direction} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  } finally {
+    if (dialect === 'sqlite') {
+      db.exec('PRAGMA foreign_keys = ON');
+    }
+  }
+
+  return {
+    version: migration.version,
+    name: migration.name,
+    direction,
+    statements,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Apply pending migrations in order
+ */
+export function migrateUp(
+  db: DatabaseConnection,
+  dialect: Dialect,
+  options: MigrateOptions = {}
+): MigrationResult[] {
+  const migrations = options.migrations ?? registeredMigrations;
+  validateOrder(migrations);
+
+  const pending = getPendingMigrations(db, migrations)
+    .filter(migration => options.to === undefined || migration.version <= options.to);
+
+  const results: MigrationResult[] = [];
+  for (const migration of pending) {
+    const result = runInTransaction(db, dialect, migration, 'up', options.dryRun ?? false);
+    console.log(`[db] ${options.dryRun ? 'Dry run' : 'Applied'} migration ${migration.version}_${migration.name} (${result.durationMs}ms)`);
+    results.push(result);
+
+    // In a dry run later migrations would see the un-migrated schema
+    if (options.dryRun) break;
+  }
+  return results;
+}
+
+/**
+ * Revert applied migrations, newest first. Without `to`, only the latest
+ * migration is reverted.
+ */
+export function migrateDown(
+  db: DatabaseConnection,
+  dialect: Dialect,
+  options: MigrateOptions & { steps?: number } = {}
+): MigrationResult[] {
+  const migrations = options.migrations ?? registeredMigrations;
+  validateOrder(migrations);
+
+  const status = getMigrationStatus(db, migrations);
+  let applied = migrations.filter((_migration, index) => status[index].applied).reverse();
+
+  if (options.to !== undefined) {
+    applied = applied.filter(migration => migration.version > options.to!);
+  } else {
+    applied = applied.slice(0, options.steps ?? 1);
+  }
+
+  const results: MigrationResult[] = [];
+  for (const migration of applied) {
+    const result = runInTransaction(db, dialect, migration, 'down', options.dryRun ?? false);
+    console.log(`[db] ${options.dryRun ? 'Dry run' : 'Reverted'} migration ${migration.version}_${migration.name} (${result.durationMs}ms)`);
+    results.push(result);
+
+    if (options.dryRun) break;
+  }
+  return results;
+}
@@ -0,0 +1,268 @@
+/**
+ * PostgreSQL Database Backend
+ *
+ * Every route and service uses the synchronous better-sqlite3 API. To run them
+ * unchanged against PostgreSQL, queries are executed by an async `pg` client in
+ * a worker thread while the calling thread blocks on a shared-memory signal
+ * (Atomics.wait) until the result arrives. Statements are translated from the
+ * SQLite dialect by sql-dialect.ts.
+ */
+
+import { Worker, MessageChannel, MessagePort, receiveMessageOnPort } from 'worker_threads';
+import { createRequire } from 'module';
+import type { DatabaseConnection, PreparedStatement, RunResult } from './connection.js';
+import { toPostgresQuery, toPostgresScript, bindParameters, type TranslatedQuery } from './sql-dialect.js';
+
+export type PostgresDriver = 'pg' | 'pglite';
+
+export interface PostgresDatabaseOptions {
+  /** postgresql:// connection string (driver 'pg') or PGlite data directory (driver 'pglite', empty = in-memory) */
+  connectionString?: string;
+  /** 'pglite' runs an embedded Postgres in-process; used for tests */
+  driver?: PostgresDriver;
+  /** Maximum time a single query may block the caller */
+  queryTimeoutMs?: number;
+}
+
+interface WorkerResponse {
+  /** Id of the request this answers */
+  id: number;
+  ok: boolean;
+  rows?: Record<string, unknown>[];
+  rowCount?: number;
+  error?: { message: string; code?: string; detail?: string };
+}
+
+export class PostgresQueryError extends Error {
+  constructor(message: string, public code?: string, public detail?: string) {
+    super(message);
+    this.name = 'PostgresQueryError';
+    Object.setPrototypeOf(this, PostgresQueryError.prototype);
+  }
+}
+
+/**
+ * Worker thread body (CommonJS, evaluated). Kept as source text so it runs the
+ * same under tsx, vitest and the compiled build.
+ */
+const WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const { signal, port, driver, modulePath, connectionString } = workerData;
+const flag = new Int32Array(signal);
+const toNumber = (value) => (value === null ? null : Number(value));
+let client = null;
+
+async function connect() {
+  if (driver === 'pglite') {
+    const { PGlite } = require(modulePath);
+    client = new PGlite(connectionString || undefined, { parsers: { 20: toNumber, 1700: toNumber } });
+    await client.waitReady;
+    return;
+  }
+  const pg = require(modulePath);
+  pg.types.setTypeParser(20, toNumber);
+  pg.types.setTypeParser(1700, toNumber);
+  client = new pg.Client({ connectionString });
+  await client.connect();
+}
+
+async function handle(message) {
+  switch (message.type) {
+    case 'connect':
+      await connect();
+      return {};
+    case 'query': {
+      const result = await client.query(message.sql, message.params);
+      const rowCount = driver === 'pglite' ? (result.affectedRows ?? 0) : (result.rowCount ?? 0);
+      return { rows: result.rows, rowCount };
+    }
+    case 'exec':
+      if (driver === 'pglite') {
+        await client.exec(message.sql);
+      } else {
+        await client.query(message.sql);
+      }
+      return {};
+    case 'close':
+      if (client) {
+        await (driver === 'pglite' ? client.close() : client.end());
+      }
+      return {};
+    default:
+      throw new Error('Unknown message type: ' + message.type);
+  }
+}
+
+port.on('message', async (message) => {
+  let response;
+  try {
+    response = { ok: true, ...(await handle(message)) };
+  } catch (error) {
+    response = { ok: false, error: { message: error.message, code: error.code, detail: error.detail } };
+  }
+  port.postMessage({ id: message.id, ...response });
+  Atomics.store(flag, 0, 1);
+  Atomics.notify(flag, 0);
+});
+`;
+
+class PostgresStatement implements PreparedStatement {
+  constructor(private database: PostgresDatabase, private query: TranslatedQuery) {}
+
+  get(...params: any[]): unknown {
+    return this.database.query(this.query, params).rows[0];
+  }
+
+  all(...params: any[]): unknown[] {
+    return this.database.query(this.query, params).rows;
+  }
+
+  run(...params: any[]): RunResult {
+    const result = this.database.query(this.query, params);
+    return { changes: result.rowCount, lastInsertRowid: 0 };
+  }
+}
+
+export class PostgresDatabase implements DatabaseConnection {
+  private worker: Worker;
+  private port: MessagePort;
+  private flag: Int32Array;
+  private statementCache = new Map<string, TranslatedQuery>();
+  private primaryKeys = new Map<string, string[]>();
+  private transactionDepth = 0;
+  private closed = false;
+  private queryTimeoutMs: number;
+  private nextRequestId = 0;
+
+  constructor(options: PostgresDatabaseOptions = {}) {
+    const driver = options.driver ?? 'pg';
+    const require = createRequire(import.meta.url);
+    const modulePath = require.resolve(driver === 'pglite' ? '@electric-sql/pglite' : 'pg');
+    const signal = new SharedArrayBuffer(4);
+    const { port1, port2 } = new MessageChannel();
+
+    this.flag = new Int32Array(signal);
+    this.port = port1;
+    this.queryTimeoutMs = options.queryTimeoutMs ?? 60000;
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { signal, port: port2, driver, modulePath, connectionString: options.connectionString },
+      transferList: [port2],
+    });
+    this.worker.unref();
+
+    this.send({ type: 'connect' });
+  }
+
+  prepare(sql: string): PreparedStatement {
+    let query = this.statementCache.get(sql);
+    if (!query) {
+      query = toPostgresQuery(sql, table => this.primaryKey(table));
+      this.statementCache.set(sql, query);
+    }
+    return new PostgresStatement(this, query);
+  }
+
+  exec(sql: string): this {
+    this.send({ type: 'exec', sql: toPostgresScript(sql) });
+    return this;
+  }
+
+  /**
+   * Same semantics as better-sqlite3: the returned function runs `fn` inside
+   * BEGIN/COMMIT, rolls back on throw, and nests via savepoints.
+   */
+  transaction<F extends (...args: any[]) => any>(fn: F): (...args: Parameters<F>) => ReturnType<F> {
+    return (...args: Parameters<F>): ReturnType<F> => {
+      const savepoint = `sp_${this.transactionDepth}`;
+      this.send({ type: 'exec', sql: this.transactionDepth === 0 ? 'BEGIN' : `SAVEPOINT ${savepoint}` });
+      this.transactionDepth++;
+      try {
+        const result = fn(...args);
+        this.transactionDepth--;
+        this.send({ type: 'exec', sql: this.transactionDepth === 0 ? 'COMMIT' : `RELEASE SAVEPOINT ${savepoint}` });
+        return result;
+      } catch (error) {
+        this.transactionDepth--;
+        this.send({ type: 'exec', sql: this.transactionDepth === 0 ? 'ROLLBACK' : `ROLLBACK TO SAVEPOINT ${savepoint}` });
+        throw error;
+      }
+    };
+  }
+
+  close(): void {
+    if (this.closed) return;
+    try {
+      this.send({ type: 'close' });
+    } finally {
+      this.closed = true;
+      this.port.close();
+      void this.worker.terminate();
+    }
+  }
+
+  /**
+   * Primary key columns of a table in the current schema, in key order
+   */
+  private primaryKey(table: string): string[] {
+    let key = this.primaryKeys.get(table);
+    if (!key) {
+      const response = this.send({
+        type: 'query',
+        sql: `
+          SELECT kcu.column_name AS name
+          FROM information_schema.table_constraints tc
+          JOIN information_schema.key_column_usage kcu
+            ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema
+          WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = current_schema() AND tc.table_name = $1
+          ORDER BY kcu.ordinal_position
+        `,
+        params: [table],
+      });
+      key = (response.rows ?? []).map(row => String(row.name));
+      if (key.length > 0) this.primaryKeys.set(table, key);
+    }
+    return key;
+  }
+
+  /** @internal used by PostgresStatement */
+  query(query: TranslatedQuery, args: unknown[]): { rows: Record<string, unknown>[]; rowCount: number } {
+    const response = this.send({ type: 'query', sql: query.text, params: bindParameters(query.slots, args) });
+    return { rows: response.rows ?? [], rowCount: response.rowCount ?? 0 };
+  }
+
+  private send(message: { type: string; sql?: string; params?: unknown[] }): WorkerResponse {
+    if (this.closed) {
+      throw new Error('Database connection is closed');
+    }
+
+    const id = ++this.nextRequestId;
+    const deadline = Date.now() + this.queryTimeoutMs;
+    this.port.postMessage({ ...message, id });
+
+    // A request that timed out keeps running in the worker; its late answer
+    // arrives before ours and is dropped here
+    let response: WorkerResponse | undefined;
+    while (!response) {
+      Atomics.store(this.flag, 0, 0);
+      for (let received = receiveMessageOnPort(this.port); received; received = receiveMessageOnPort(this.port)) {
+        if ((received.message as WorkerResponse).id === id) {
+          response = received.message as WorkerResponse;
+          break;
+        }
+      }
+      if (response) break;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || Atomics.wait(this.flag, 0, 0, remaining) === 'timed-out') {
+        throw new PostgresQueryError(`PostgreSQL ${message.type} timed out after ${this.queryTimeoutMs}ms`);
+      }
+    }
+
+    if (!response.ok) {
+      const error = response.error ?? { message: 'Unknown PostgreSQL error' };
+      throw new PostgresQueryError(error.message, error.code, error.detail);
+    }
+    return response;
+  }
+}
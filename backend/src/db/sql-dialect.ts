@@ -0,0 +1,190 @@
+/**
+ * SQL Dialect Translation
+ * Routes and services are written against SQLite (better-sqlite3). This module
+ * rewrites those statements into PostgreSQL syntax so the same queries can run
+ * unchanged on the Postgres backend.
+ */
+
+export type ParamSlot = { kind: 'positional'; index: number } | { kind: 'named'; name: string };
+
+export interface TranslatedQuery {
+  text: string;
+  slots: ParamSlot[];
+}
+
+type Token =
+  | { type: 'code'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'comment'; value: string };
+
+/**
+ * Split SQL into code, quoted (string literal or identifier) and comment
+ * tokens so rewrites never touch quoted text.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let code = '';
+  let i = 0;
+
+  const flushCode = () => {
+    if (code) {
+      tokens.push({ type: 'code', value: code });
+      code = '';
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'" || char === '"') {
+      flushCode();
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === char) {
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      tokens.push({ type: 'string', value: sql.slice(i, end + 1) });
+      i = end + 1;
+    } else if (char === '-' && next === '-') {
+      flushCode();
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      tokens.push({ type: 'comment', value: sql.slice(i, stop) });
+      i = stop;
+    } else if (char === '/' && next === '*') {
+      flushCode();
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      tokens.push({ type: 'comment', value: sql.slice(i, stop) });
+      i = stop;
+    } else {
+      code += char;
+      i++;
+    }
+  }
+
+  flushCode();
+  return tokens;
+}
+
+const SQLITE_NOW = /datetime\(\s*'now'\s*\)/gi;
+const POSTGRES_NOW = "to_char(timezone('UTC', now()), 'YYYY-MM-DD HH24:MI:SS')";
+
+/**
+ * Rewrite the code parts of a statement: placeholders, LIKE and camelCase
+ * identifiers (Postgres folds unquoted identifiers to lower case).
+ */
+function rewriteCode(code: string, slots: ParamSlot[]): string {
+  return code
+    .replace(/\?|@([A-Za-z_][A-Za-z0-9_]*)|\b[A-Za-z_][A-Za-z0-9_]*\b/g, (match, named: string | undefined) => {
+      if (match === '?') {
+        slots.push({ kind: 'positional', index: slots.filter(s => s.kind === 'positional').length });
+        return `$${slots.length}`;
+      }
+      if (named) {
+        slots.push({ kind: 'named', name: named });
+        return `$${slots.length}`;
+      }
+      if (/^like$/i.test(match)) {
+        return 'ILIKE';
+      }
+      if (/[a-z]/.test(match) && /[A-Z]/.test(match)) {
+        return `"${match}"`;
+      }
+      return match;
+    });
+}
+
+/**
+ * Translate a single SQLite statement into PostgreSQL.
+ * @param primaryKeyOf Primary key columns of a table; INSERT OR REPLACE
+ * becomes an upsert on that key
+ */
+export function toPostgresQuery(sql: string, primaryKeyOf?: (table: string) => string[]): TranslatedQuery {
+  const slots: ParamSlot[] = [];
+  let text = tokenize(sql)
+    .map(token => (token.type === 'code' ? rewriteCode(token.value, slots) : token.value))
+    .join('')
+    .replace(SQLITE_NOW, POSTGRES_NOW);
+
+  const insertOrIgnore = /^\s*INSERT\s+OR\s+IGNORE\s+INTO\b/i;
+  const insertOrReplace = /^\s*INSERT\s+OR\s+REPLACE\s+INTO\s+([A-Za-z_][A-Za-z0-9_]*)\s*\(([^)]*)\)/i;
+
+  if (insertOrIgnore.test(text)) {
+    text = `${stripTrailingSemicolon(text.replace(insertOrIgnore, 'INSERT INTO'))} ON CONFLICT DO NOTHING`;
+  } else {
+    const match = text.match(insertOrReplace);
+    if (match) {
+      const table = match[1];
+      const key = primaryKeyOf?.(table) ?? [];
+      if (key.length === 0) {
+        throw new Error(`INSERT OR REPLACE INTO ${table} needs the table's primary key`);
+      }
+      const columns = match[2].split(',').map(c => c.trim()).filter(Boolean);
+      const updates = columns
+        .filter(column => !key.includes(column))
+        .map(column => `${column} = EXCLUDED.${column}`)
+        .join(', ');
+      text = `${stripTrailingSemicolon(text.replace(/^\s*INSERT\s+OR\s+REPLACE\s+INTO/i, 'INSERT INTO'))} ` +
+        `ON CONFLICT (${key.join(', ')}) ${updates ? `DO UPDATE SET ${updates}` : 'DO NOTHING'}`;
+    }
+  }
+
+  return { text, slots };
+}
+
+/**
+ * Translate a DDL script (possibly containing several statements) into
+ * PostgreSQL. Millisecond timestamps do not fit into a 32-bit INTEGER, so
+ * integer columns are widened to BIGINT.
+ */
+export function toPostgresScript(sql: string): string {
+  return tokenize(sql)
+    .map(token => {
+      if (token.type !== 'code') return token.value;
+      return token.value
+        .replace(/\bINTEGER\s+PRIMARY\s+KEY\s+AUTOINCREMENT\b/gi, 'BIGSERIAL PRIMARY KEY')
+        .replace(/\bINTEGER\b/gi, 'BIGINT')
+        .replace(/\bREAL\b/gi, 'DOUBLE PRECISION')
+        .replace(/\bBLOB\b/gi, 'BYTEA');
+    })
+    .join('')
+    .replace(SQLITE_NOW, POSTGRES_NOW);
+}
+
+/**
+ * Map better-sqlite3 style arguments (positional values, an array, or an
+ * object for @named parameters) onto the translated placeholder order.
+ */
+export function bindParameters(slots: ParamSlot[], args: unknown[]): unknown[] {
+  const flat = args.length === 1 && Array.isArray(args[0]) ? (args[0] as unknown[]) : args;
+  const named = flat.length > 0 && isPlainObject(flat[flat.length - 1])
+    ? (flat[flat.length - 1] as Record<string, unknown>)
+    : undefined;
+
+  return slots.map(slot => {
+    const value = slot.kind === 'positional' ? flat[slot.index] : named?.[slot.name];
+    return normalizeValue(value);
+  });
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function stripTrailingSemicolon(sql: string): string {
+  return sql.replace(/;\s*$/, '').trimEnd();
+}
@@ -8,6 +8,7 @@ import { initializeGit } from './services/git.js';
 import { getMCPManager } from './services/mcp-manager.js';
 import { syncMcpServersFromConfig } from './services/mcp-registry.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { authMiddleware, requireRole } from './middleware/auth.js';
 import { documentRoutes } from './routes/documents.js';
 import { aiRoutes } from './routes/ai.js';
 import { aiEnhancedRoutes } from './routes/ai-enhanced.js';
@@ -16,10 +17,16 @@ import { mcpGenericRoutes } from './routes/mcp-generic.js';
 import { mcpServerRoutes } from './routes/mcp-servers.js';
 import { exportRoutes } from './routes/export.js';
 import { artifactsRoutes } from './routes/artifacts.js';
+import { commentRoutes } from './routes/comments.js';
+import { searchRoutes } from './routes/search.js';
+import { tagRoutes, documentTagRoutes } from './routes/tags.js';
 import mcpHintsRoutes from './routes/mcp-hints.js';
 import { converterRoutes } from './routes/converter.js';
 import authRoutes from './routes/auth.js';
 import permissionsRoutes from './routes/permissions.js';
+import { groupRoutes } from './routes/groups.js';
+import { adminRoutes } from './routes/admin.js';
+import { auditRoutes } from './routes/audit.js';
 import { collaborationRoutes } from './routes/collaboration.js';
 import { researchRoutes } from './routes/research.js';
 import { imageRoutes } from './routes/images.js';
@@ -31,6 +38,8 @@ import { jobQueue } from './services/job-queue.js';
 
 async function main() {
   const app = express();
+  // Client IPs for rate limits and audit entries come from X-Forwarded-For when behind a proxy
+  app.set('trust proxy', config.trustProxy);
 
   // Start memory monitoring
   memoryMonitor.start(30000); // Check every 30 seconds
@@ -69,6 +78,9 @@ async function main() {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
+  // Memory diagnostics reveal server internals and are for admins only
+  app.use(['/api/memory-stats', '/api/memory-report', '/api/memory-events'], authMiddleware, requireRole('admin'));
+
   // Memory stats endpoint (for monitoring)
   app.get('/api/memory-stats', (_req, res) => {
     const stats = memoryMonitor.getStatistics();
@@ -99,12 +111,19 @@ async function main() {
   app.use('/api/public', publicRoutes); // Public document access (no auth required)
   app.use('/api/auth', authRoutes); // Authentication routes
   app.use('/api/permissions', permissionsRoutes); // Permission management routes
+  app.use('/api/groups', groupRoutes); // Groups and memberships
+  app.use('/api/admin', adminRoutes); // User administration (admins only)
+  app.use('/api/audit', auditRoutes); // Audit log (admins only)
   app.use('/api/collaboration', collaborationRoutes); // Collaboration stats routes
   app.use('/api/research', researchRoutes); // Research tools routes
   app.use('/api/images', imageRoutes); // Image upload/management routes
   app.use('/api/documents', documentRoutes);
   app.use('/api/documents/:documentId/artifacts', artifactsRoutes);
+  app.use('/api/documents/:documentId/comments', commentRoutes); // Inline comments
+  app.use('/api/documents/:documentId/tags', documentTagRoutes); // Tags of a document
   app.use('/api/artifacts', artifactsRoutes); // Global artifacts library endpoint
+  app.use('/api/search', searchRoutes); // Full-text document search
+  app.use('/api/tags', tagRoutes); // Tag management
   
   // AI route with extended timeout for document analysis
   app.use('/api/ai', (req, res, next) => {
@@ -135,15 +154,16 @@ async function main() {
   await syncMcpServersFromConfig(config.mcpServers);
   await initializeGit();
   
-  // Initialize QDrant Vector Store
+  // Initialize Vector Store (QDrant, or the embedded store as fallback)
   if (config.features.enableVectorStore) {
     try {
-      const { initializeQdrant, initializeCollections, checkQdrantHealth } = await import('./services/qdrant-client.js');
-      initializeQdrant();
-      const isHealthy = await checkQdrantHealth();
-      if (isHealthy) {
-        await initializeCollections();
-        console.log('✓ Vector Store (QDrant) initialized');
+      const { initializeVectorStore, initializeCollections } = await import('./services/vector-store.js');
+      const store = await initializeVectorStore();
+      if (store) {
+        const sizes = await initializeCollections();
+        const { syncEmbeddingProvider } = await import('./services/embedding-migration.js');
+        await syncEmbeddingProvider(sizes);
+        console.log(`✓ Vector Store (${store.kind}) initialized`);
       } else {
         console.warn('⚠️ Vector Store connection failed - continuing without vector features');
       }
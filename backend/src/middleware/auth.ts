@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.js';
+import { authenticateApiToken, hasScope, isApiToken, type ApiTokenScope } from '../services/api-tokens.js';
+import type { UserRole } from '../db/schema.js';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -7,7 +9,70 @@ export interface AuthRequest extends Request {
     username: string;
     email: string;
     display_name: string;
+    role: UserRole;
   };
+  /** Session of the access token, revoked on logout */
+  sessionId?: string;
+  /** Set instead of sessionId when a personal API token was used */
+  apiToken?: {
+    id: string;
+    scopes: ApiTokenScope[];
+  };
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+};
+
+/**
+ * Scope an API token needs for a request: AI endpoints need "ai", everything
+ * else reads or writes documents depending on the method. Changing who may
+ * access what (permissions, groups, share links, the account) is not covered
+ * by any scope; those routes use requireSession.
+ */
+export function requiredScope(req: Request): ApiTokenScope {
+  if (/^\/api\/ai(-enhanced)?(\/|$)/.test(req.baseUrl + req.path)) {
+    return 'ai';
+  }
+  return SAFE_METHODS.has(req.method) ? 'documents:read' : 'documents:write';
+}
+
+/**
+ * Verify a Bearer token (session JWT or API token) and attach the user
+ * @returns an error response to send, or null on success
+ */
+async function authenticateRequest(
+  req: AuthRequest,
+  token: string
+): Promise<{ status: number; error: string } | null> {
+  if (isApiToken(token)) {
+    const authenticated = authenticateApiToken(token, req.ip);
+    if (!authenticated) {
+      return { status: 401, error: 'Invalid, expired or revoked API token' };
+    }
+
+    const scope = requiredScope(req);
+    if (!hasScope(authenticated.scopes, scope)) {
+      return { status: 403, error: `API token lacks the scope ${scope}` };
+    }
+
+    req.user = authenticated.user;
+    req.apiToken = { id: authenticated.tokenId, scopes: authenticated.scopes };
+    return null;
+  }
+
+  const authenticated = await AuthService.authenticate(token);
+  if (!authenticated) {
+    return { status: 401, error: 'Invalid or expired token' };
+  }
+
+  req.user = authenticated.user;
+  req.sessionId = authenticated.sessionId;
+  return null;
 }
 
 /**
@@ -33,14 +98,13 @@ export async function authMiddleware(
       return;
     }
 
-    const user = await AuthService.verifyToken(token);
+    const failure = await authenticateRequest(req, token);
     
-    if (!user) {
-      res.status(401).json({ error: 'Invalid or expired token' });
+    if (failure) {
+      res.status(failure.status).json({ error: failure.error });
       return;
     }
 
-    req.user = user;
     next();
   } catch (error) {
     res.status(401).json({ error: 'Authentication failed' });
@@ -52,7 +116,7 @@ export async function authMiddleware(
  */
 export async function optionalAuthMiddleware(
   req: AuthRequest,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
@@ -66,9 +130,11 @@ export async function optionalAuthMiddleware(
     const [type, token] = authHeader.split(' ');
     
     if (type === 'Bearer' && token) {
-      const user = await AuthService.verifyToken(token);
-      if (user) {
-        req.user = user;
+      const failure = await authenticateRequest(req, token);
+      // Scripts should not silently fall back to guest access with a bad API token
+      if (failure && (failure.status === 403 || isApiToken(token))) {
+        res.status(failure.status).json({ error: failure.error });
+        return;
       }
     }
     
@@ -78,3 +144,51 @@ export async function optionalAuthMiddleware(
     next();
   }
 }
+
+/**
+ * Require a scope on top of the method-based one, e.g. "admin"; sessions
+ * have every scope
+ */
+export function requireScope(scope: ApiTokenScope) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (req.apiToken && !hasScope(req.apiToken.scopes, scope)) {
+      res.status(403).json({ error: `API token lacks the scope ${scope}` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Only allow interactive logins, e.g. for managing sessions and tokens
+ */
+export function requireSession(req: AuthRequest, res: Response, next: NextFunction): void {
+  if (!req.sessionId) {
+    res.status(403).json({ error: 'This action requires a login session' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Require a site-wide role (admin > editor > viewer); use after
+ * authMiddleware. API tokens additionally need the "admin" scope for
+ * admin-only routes.
+ */
+export function requireRole(role: UserRole) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+    if (ROLE_RANK[req.user.role] < ROLE_RANK[role]) {
+      res.status(403).json({ error: `Requires the ${role} role` });
+      return;
+    }
+    if (role === 'admin' && req.apiToken && !hasScope(req.apiToken.scopes, 'admin')) {
+      res.status(403).json({ error: 'API token lacks the scope admin' });
+      return;
+    }
+    next();
+  };
+}
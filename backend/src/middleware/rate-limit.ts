@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/index.js';
+import { consumeRateLimit, type RateLimitRule } from '../services/rate-limit.js';
+
+export interface RateLimitOptions extends RateLimitRule {
+  /** Who is limited; defaults to the client IP */
+  key?: (req: Request) => string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Answer with 429 once a client used up its requests for the window
+ */
+export function sendTooManyRequests(res: Response, resetAt: number, error = 'Too many requests, please try again later') {
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))));
+  return res.status(429).json({ error });
+}
+
+/**
+ * Limit requests per client and window. Sends RateLimit-* headers so
+ * clients can slow down before they are refused.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!config.rateLimit.enabled || options.limit <= 0) {
+      return next();
+    }
+
+    const key = options.key ? options.key(req) : `ip:${req.ip}`;
+    const result = consumeRateLimit(options, key);
+
+    res.setHeader('RateLimit-Limit', String(result.limit));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+    res.setHeader('RateLimit-Reset', String(Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000))));
+
+    if (!result.allowed) {
+      return sendTooManyRequests(res, result.resetAt);
+    }
+    next();
+  };
+}
+
+const authWindowMs = config.rateLimit.authWindowMinutes * MINUTE_MS;
+
+export const loginRateLimit = rateLimit({ bucket: 'login', limit: config.rateLimit.loginPerIp, windowMs: authWindowMs });
+
+export const registerRateLimit = rateLimit({ bucket: 'register', limit: config.rateLimit.registerPerIp, windowMs: authWindowMs });
+
+export const mailRateLimit = rateLimit({ bucket: 'mail', limit: config.rateLimit.mailPerIp, windowMs: authWindowMs });
+
+/**
+ * Shared budget of the AI endpoints, which call paid model APIs
+ */
+export const aiRateLimit = rateLimit({
+  bucket: 'ai',
+  limit: config.rateLimit.aiPerClient,
+  windowMs: config.rateLimit.aiWindowMinutes * MINUTE_MS,
+});
@@ -0,0 +1,151 @@
+/**
+ * Comment Route Tests
+ *
+ * Runs the comment routes against an in-memory SQLite database with all
+ * migrations applied; the user is taken from a test header:
+ * - Threads are anchored to the commented text and follow later edits
+ * - Only readers of the document can be mentioned
+ * - Threads can be resolved and reopened by their author or by writers
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({ config: {} }));
+vi.mock('../../middleware/auth.js', () => ({
+  authMiddleware: (req: any, _res: unknown, next: () => void) => {
+    const id = req.header('x-user');
+    req.user = { id, username: id, email: `${id}@example.com`, display_name: id, role: 'editor' };
+    next();
+  },
+}));
+
+import { commentRoutes } from '../comments.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+const CONTENT = '# Marktkommunikation\n\nDie Marktlokation wird mit der MaLo-ID identifiziert.\n';
+
+describe('Comment routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (user: string, method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}/api/documents/doc/comments${path}`, {
+      method,
+      headers: { 'x-user': user, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  const startThread = (user: string, body: string) => {
+    const from = CONTENT.indexOf('Marktlokation');
+    return request(user, 'POST', '', { body, from, to: from + 'Marktlokation'.length, quote: 'Marktlokation' });
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/documents/:documentId/comments', commentRoutes);
+    app.use(errorHandler);
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', ''),
+               ('carol', 'carol', 'c@example.com', 'x', 'Carol', '', ''),
+               ('dave', 'dave', 'd@example.com', 'x', 'Dave', '', ''),
+               ('erin', 'erin', 'e@example.com', 'x', 'Erin', '', '');
+    `);
+    db.prepare(`
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+      VALUES ('doc', 'Doc', 'doc', ?, 'alice', 1, 1)
+    `).run(CONTENT);
+    db.exec(`
+      INSERT INTO document_permissions (id, document_id, user_id, permission_level, effect, created_at)
+        VALUES ('p1', 'doc', 'bob', 'write', 'allow', ''),
+               ('p2', 'doc', 'carol', 'read', 'allow', ''),
+               ('p3', 'doc', 'erin', 'read', 'allow', '');
+    `);
+  });
+
+  it('should anchor threads to the commented text and follow later edits', async () => {
+    const created = await startThread('carol', 'Woher kommt die ID?');
+    expect(created.status).toBe(201);
+    expect(created.body.comment).toMatchObject({ quote: 'Marktlokation', status: 'open', user_id: 'carol' });
+
+    // Offsets from a client buffer that is ahead of the server are corrected by the quote
+    const moved = await request('carol', 'POST', '', { body: 'Und hier?', from: 0, to: 5, quote: 'MaLo-ID' });
+    expect(moved.body.comment.quote).toBe('MaLo-ID');
+    expect((await request('carol', 'POST', '', { body: 'x', from: 0, to: 3, quote: 'Messlokation' })).status).toBe(409);
+
+    db.prepare('UPDATE documents SET content = ? WHERE id = ?').run(`Vorwort\n\n${CONTENT}`, 'doc');
+
+    const { body } = await request('carol', 'GET', '');
+    const from = `Vorwort\n\n${CONTENT}`.indexOf('Marktlokation');
+    expect(body.comments[0]).toMatchObject({ quote: 'Marktlokation', anchor: { from, to: from + 13 }, orphaned: false });
+    expect(body.canResolve).toBe(false);
+  });
+
+  it('should only mention users who can read the document', async () => {
+    const created = await startThread('carol', 'Fragen an @bob, @Erin und @dave');
+    const reply = await request('bob', 'POST', '', { body: 'Gute Frage @carol', parentId: created.body.comment.id });
+    // Replies to replies join the root thread
+    await request('carol', 'POST', '', { body: 'Danke', parentId: reply.body.comment.id });
+
+    const { body } = await request('alice', 'GET', '');
+    expect(body.comments).toHaveLength(1);
+    const [thread] = body.comments;
+    expect(thread.mentions.map((mention: any) => mention.username).sort()).toEqual(['bob', 'erin']);
+    expect(thread.replies.map((comment: any) => comment.body)).toEqual(['Gute Frage @carol', 'Danke']);
+
+    expect((await request('erin', 'GET', '?mentioned=me')).body.comments).toHaveLength(1);
+    expect((await request('alice', 'GET', '?mentioned=me')).body.comments).toHaveLength(0);
+    expect((await request('carol', 'GET', '/mentionable?q=')).body.users.map((user: any) => user.id))
+      .toEqual(['alice', 'bob', 'carol', 'erin']);
+
+    expect((await request('dave', 'GET', '')).status).toBe(403);
+    expect((await startThread('dave', 'Hallo')).status).toBe(403);
+  });
+
+  it('should let only the thread author and writers resolve or reopen it', async () => {
+    const thread = (await startThread('carol', 'Bitte prüfen')).body.comment;
+    const reply = (await request('erin', 'POST', '', { body: 'Sehe ich auch so', parentId: thread.id })).body.comment;
+
+    expect((await request('erin', 'POST', `/${thread.id}/resolve`)).status).toBe(403);
+    expect((await request('carol', 'POST', `/${reply.id}/resolve`)).status).toBe(400);
+
+    expect((await request('carol', 'POST', `/${thread.id}/resolve`)).body).toEqual({ status: 'resolved' });
+    expect((await request('erin', 'POST', `/${thread.id}/reopen`)).status).toBe(403);
+    expect((await request('bob', 'POST', `/${thread.id}/reopen`)).body).toEqual({ status: 'open' });
+    expect((await request('bob', 'POST', `/${thread.id}/resolve`)).status).toBe(200);
+
+    const resolved = db.prepare('SELECT status, resolved_by FROM document_comments WHERE id = ?').get(thread.id);
+    expect(resolved).toEqual({ status: 'resolved', resolved_by: 'bob' });
+
+    // Any reader's reply reopens a resolved thread
+    await request('erin', 'POST', '', { body: 'Doch noch offen', parentId: thread.id });
+    expect((await request('carol', 'GET', '?status=open')).body.comments.map((c: any) => c.id)).toEqual([thread.id]);
+    expect((await request('bob', 'GET', '')).body.canResolve).toBe(true);
+  });
+});
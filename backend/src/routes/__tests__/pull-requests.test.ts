@@ -0,0 +1,181 @@
+/**
+ * Pull Request Route Tests
+ *
+ * Runs the document routes against an in-memory SQLite database with all
+ * migrations applied; the user is taken from a test header:
+ * - Accepting all or only some hunks of a fork's pull request
+ * - Upstream edits colliding with the pull request answer 409 until resolved
+ * - The merge base moves with accepted changes, so rejected hunks come back
+ * - Reviewing requires write access on the source document
+ */
+
+import 'express-async-errors';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({ config: { features: { enableVectorStore: false } } }));
+vi.mock('../../middleware/auth.js', () => {
+  const authMiddleware = (req: any, _res: unknown, next: () => void) => {
+    const id = req.header('x-user');
+    req.user = { id, username: id, email: `${id}@example.com`, display_name: id, role: 'editor' };
+    next();
+  };
+  return { authMiddleware, optionalAuthMiddleware: authMiddleware, requireRole: () => authMiddleware };
+});
+vi.mock('../../services/git.js', () => ({ saveDocument: vi.fn(async () => {}), getDocumentHistory: vi.fn() }));
+vi.mock('../../services/job-queue.js', () => ({ jobQueue: {} }));
+vi.mock('../../services/embedding-cache.js', () => ({ getEmbeddingCacheStats: vi.fn() }));
+
+import { documentRoutes } from '../documents.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+const SOURCE = '# Handbuch\n\n## Eins\n\nErster Absatz.\n\n## Zwei\n\nZweiter Absatz.\n\n## Drei\n\nDritter Absatz.';
+
+describe('Pull request routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (user: string, method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}/api/documents${path}`, {
+      method,
+      headers: { 'x-user': user, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  const content = (id: string) =>
+    (db.prepare('SELECT content FROM documents WHERE id = ?').get(id) as { content: string }).content;
+
+  /**
+   * Bob forks the handbook, edits it and opens a pull request
+   */
+  const openPullRequest = async (edit: (text: string) => string) => {
+    const fork = (await request('bob', 'POST', '/doc/fork')).body.document;
+    db.prepare('UPDATE documents SET content = ? WHERE id = ?').run(edit(fork.content), fork.id);
+    const { body } = await request('bob', 'POST', `/${fork.id}/pull-request`, { message: 'Absätze überarbeitet' });
+    return { forkId: fork.id as string, prId: body.pullRequestId as string };
+  };
+
+  const editFirstAndThird = (text: string) =>
+    text.replace('Erster Absatz.', 'Erster Absatz, präzisiert.').replace('Dritter Absatz.', 'Dritter Absatz, ergänzt.');
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentRoutes);
+    app.use(errorHandler);
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', '');
+    `);
+    db.prepare(`
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+      VALUES ('doc', 'Handbuch', 'handbuch', ?, 'alice', 1, 1)
+    `).run(SOURCE);
+    db.exec(`
+      INSERT INTO document_permissions (id, document_id, user_id, permission_level, effect, created_at)
+        VALUES ('p1', 'doc', 'bob', 'read', 'allow', '');
+    `);
+  });
+
+  it('should merge every hunk when none are selected', async () => {
+    const { forkId, prId } = await openPullRequest(editFirstAndThird);
+
+    const diff = await request('alice', 'GET', `/pull-requests/${prId}/diff`);
+    expect(diff.body.hunks.map((hunk: any) => hunk.section)).toEqual(['Eins', 'Drei']);
+    expect(diff.body).toMatchObject({ conflictingHunkIds: [], sourceChanged: false });
+
+    const accepted = await request('alice', 'POST', `/pull-requests/${prId}/accept`, {});
+    expect(accepted.body).toEqual({ status: 'merged', acceptedHunks: 2, totalHunks: 2 });
+    expect(content('doc')).toBe(content(forkId));
+
+    const relationship = db.prepare(`
+      SELECT base_content FROM document_relationships WHERE target_document_id = ? AND relationship_type = 'fork'
+    `).get(forkId) as { base_content: string };
+    expect(relationship.base_content).toBe(content(forkId));
+    expect((await request('alice', 'POST', `/pull-requests/${prId}/accept`, {})).status).toBe(400);
+  });
+
+  it('should merge only the selected hunks and offer the rest again', async () => {
+    const { forkId, prId } = await openPullRequest(editFirstAndThird);
+    const [first, third] = (await request('alice', 'GET', `/pull-requests/${prId}/diff`)).body.hunks;
+
+    expect((await request('alice', 'POST', `/pull-requests/${prId}/accept`, { hunkIds: ['unknown'] })).status).toBe(400);
+    const accepted = await request('alice', 'POST', `/pull-requests/${prId}/accept`, { hunkIds: [first.id] });
+    expect(accepted.body).toEqual({ status: 'merged', acceptedHunks: 1, totalHunks: 2 });
+    expect(content('doc')).toContain('Erster Absatz, präzisiert.');
+    expect(content('doc')).toContain('Dritter Absatz.');
+
+    const version = db.prepare(`
+      SELECT change_summary FROM document_versions WHERE document_id = 'doc' ORDER BY version DESC LIMIT 1
+    `).get() as { change_summary: string };
+    expect(version.change_summary).toBe('Pull Request teilweise akzeptiert: Absätze überarbeitet');
+
+    // The rejected hunk is all that is left to propose
+    const next = await request('bob', 'POST', `/${forkId}/pull-request`, { message: 'Rest' });
+    const remaining = (await request('alice', 'GET', `/pull-requests/${next.body.pullRequestId}/diff`)).body.hunks;
+    expect(remaining.map((hunk: any) => hunk.added)).toEqual([third.added]);
+  });
+
+  it('should answer 409 for conflicts with upstream edits until they are resolved', async () => {
+    const { prId } = await openPullRequest(editFirstAndThird);
+    const upstream = SOURCE.replace('Erster Absatz.', 'Erster Absatz, gekürzt.');
+    db.prepare('UPDATE documents SET content = ? WHERE id = ?').run(upstream, 'doc');
+
+    const diff = await request('alice', 'GET', `/pull-requests/${prId}/diff`);
+    expect(diff.body.sourceChanged).toBe(true);
+    expect(diff.body.conflictingHunkIds).toEqual([diff.body.hunks[0].id]);
+
+    const conflict = await request('alice', 'POST', `/pull-requests/${prId}/accept`, {});
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.conflicts).toHaveLength(1);
+    expect(conflict.body.content).toContain('<<<<<<< Original');
+    expect(content('doc')).toBe(upstream);
+
+    // Without the conflicting hunk the merge is clean
+    const clean = await request('alice', 'POST', `/pull-requests/${prId}/accept`, { hunkIds: [diff.body.hunks[1].id] });
+    expect(clean.body.status).toBe('merged');
+    expect(content('doc')).toBe(upstream.replace('Dritter Absatz.', 'Dritter Absatz, ergänzt.'));
+  });
+
+  it('should take resolved content and require write access on the source', async () => {
+    const { prId } = await openPullRequest(editFirstAndThird);
+    db.prepare('UPDATE documents SET content = ? WHERE id = ?').run(SOURCE.replace('Erster Absatz.', 'Erster Absatz, gekürzt.'), 'doc');
+
+    // Bob only reads the source document
+    expect((await request('bob', 'GET', `/pull-requests/${prId}/diff`)).status).toBe(403);
+    expect((await request('bob', 'POST', `/pull-requests/${prId}/accept`, { resolvedContent: 'Übernommen' })).status).toBe(403);
+
+    const withMarkers = await request('alice', 'POST', `/pull-requests/${prId}/accept`, {
+      resolvedContent: '<<<<<<< Original\nA\n=======\nB\n>>>>>>> Fork',
+    });
+    expect(withMarkers.status).toBe(400);
+
+    const resolved = editFirstAndThird(SOURCE).replace('präzisiert', 'gekürzt und präzisiert');
+    expect((await request('alice', 'POST', `/pull-requests/${prId}/accept`, { resolvedContent: resolved })).body.status).toBe('merged');
+    expect(content('doc')).toBe(resolved);
+  });
+});
@@ -0,0 +1,95 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler.js';
+import { authMiddleware, requireRole, type AuthRequest } from '../middleware/auth.js';
+import type { UserRole } from '../db/schema.js';
+import { auditContext, recordAudit } from '../services/audit.js';
+import {
+  listUsers,
+  resetUserPassword,
+  updateUser,
+  USER_ROLES,
+  UserAdminError,
+  UserNotFoundError,
+} from '../services/users.js';
+
+/**
+ * Administration
+ *
+ * User management for site admins: roles, account status and password
+ * resets. Every route needs the admin role (and the admin scope for API
+ * tokens).
+ */
+export const adminRoutes = Router();
+
+adminRoutes.use(authMiddleware, requireRole('admin'));
+
+const updateUserSchema = z.object({
+  role: z.enum(USER_ROLES as [UserRole, ...UserRole[]]).optional(),
+  is_active: z.boolean().optional(),
+});
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+function mapUserError(error: unknown): never {
+  if (error instanceof UserNotFoundError) {
+    throw new AppError(404, 'User not found');
+  }
+  if (error instanceof UserAdminError) {
+    throw new AppError(400, error.message);
+  }
+  throw error;
+}
+
+/**
+ * GET /api/admin/users
+ */
+adminRoutes.get('/users', (_req: AuthRequest, res: Response) => {
+  res.json({ users: listUsers(), roles: USER_ROLES });
+});
+
+/**
+ * PATCH /api/admin/users/:id
+ * Change role and/or activate or deactivate the account
+ */
+adminRoutes.patch('/users/:id', async (req: AuthRequest, res: Response) => {
+  const parsed = updateUserSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  try {
+    const user = await updateUser(req.user!.id, req.params.id, parsed.data);
+    recordAudit({
+      ...auditContext(req),
+      action: 'user.update',
+      targetType: 'user',
+      targetId: user.id,
+      details: parsed.data,
+    });
+    res.json({ user });
+  } catch (error) {
+    mapUserError(error);
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/password
+ * Set a new password; the user is signed out everywhere
+ */
+adminRoutes.post('/users/:id/password', async (req: AuthRequest, res: Response) => {
+  const parsed = resetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  try {
+    await resetUserPassword(req.params.id, parsed.data.password);
+    recordAudit({ ...auditContext(req), action: 'user.reset_password', targetType: 'user', targetId: req.params.id });
+    res.json({ success: true });
+  } catch (error) {
+    mapUserError(error);
+  }
+});
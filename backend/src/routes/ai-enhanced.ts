@@ -1,16 +1,22 @@
 import { Router } from 'express';
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
-import type { FunctionCall } from '@google/generative-ai';
 import { config } from '../config/index.js';
 import { listActiveMcpServers } from '../services/mcp-registry.js';
 import { getMCPServer } from '../services/mcp-manager.js';
+import {
+  getLLMProvider,
+  historyFromMessages,
+  messagesFromHistory,
+  type LLMMessage,
+  type LLMResponse,
+  type LLMTool,
+  type LLMToolCall,
+} from '../services/llm.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { aiRateLimit } from '../middleware/rate-limit.js';
 import { z } from 'zod';
 
 export const aiEnhancedRoutes = Router();
 
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-
 const chatSchema = z.object({
   message: z.string().min(1),
   documentContext: z.string().optional(),
@@ -21,16 +27,6 @@ const chatSchema = z.object({
   })).optional(),
 });
 
-interface MCPToolDeclaration {
-  name: string;
-  description: string;
-  parameters: {
-    type: SchemaType;
-    properties: Record<string, any>;
-    required?: string[];
-  };
-}
-
 /**
  * Clean JSON Schema property for Gemini compatibility
  * Removes fields that Gemini doesn't support
@@ -66,11 +62,11 @@ function cleanSchemaProperty(prop: any): any {
 }
 
 /**
- * Build Gemini function declarations from discovered MCP tools
+ * Build LLM tool declarations from discovered MCP tools
  */
-async function buildMCPFunctionDeclarations(): Promise<MCPToolDeclaration[]> {
+async function buildMCPFunctionDeclarations(): Promise<LLMTool[]> {
   const activeServers = listActiveMcpServers();
-  const declarations: MCPToolDeclaration[] = [];
+  const declarations: LLMTool[] = [];
 
   for (const server of activeServers) {
     try {
@@ -102,15 +98,15 @@ async function buildMCPFunctionDeclarations(): Promise<MCPToolDeclaration[]> {
           name: `${server.id}_${tool.name}`.replace(/[^a-zA-Z0-9_]/g, '_'),
           description: tool.description || `Tool from ${server.name}: ${tool.name}`,
           parameters: {
-            type: SchemaType.OBJECT,
+            type: 'object',
             properties: {
               ...cleanedProperties,
               _serverId: {
-                type: SchemaType.STRING,
+                type: 'string',
                 description: `Server ID (always: ${server.id})`,
               },
               _toolName: {
-                type: SchemaType.STRING,
+                type: 'string',
                 description: `Tool name (always: ${tool.name})`,
               },
             },
@@ -127,9 +123,9 @@ async function buildMCPFunctionDeclarations(): Promise<MCPToolDeclaration[]> {
 }
 
 /**
- * Execute MCP tool call from Gemini function call
+ * Execute MCP tool call requested by the LLM
  */
-async function executeMCPToolCall(functionCall: any): Promise<any> {
+async function executeMCPToolCall(functionCall: LLMToolCall): Promise<any> {
   const { name, args } = functionCall;
   
   // Try to get serverId and toolName from args (preferred)
@@ -179,7 +175,7 @@ async function executeMCPToolCall(functionCall: any): Promise<any> {
 /**
  * Enhanced chat endpoint with MCP function calling - Streaming version with SSE
  */
-aiEnhancedRoutes.post('/chat-with-mcp-stream', async (req, res): Promise<void> => {
+aiEnhancedRoutes.post('/chat-with-mcp-stream', aiRateLimit, async (req, res): Promise<void> => {
   if (!config.features.enableMCP) {
     throw new AppError(503, 'MCP not enabled');
   }
@@ -211,10 +207,7 @@ aiEnhancedRoutes.post('/chat-with-mcp-stream', async (req, res): Promise<void> =
 
     sendEvent('status', { message: `${functionDeclarations.length} tools loaded`, iteration: 0 });
 
-    const model = genAI.getGenerativeModel({
-      model: config.gemini.model,
-      tools: [{ functionDeclarations }],
-    });
+    const llm = getLLMProvider('assistant');
 
     // Analyze available tools to build intelligent prompt
     const availableToolTypes = {
@@ -358,10 +351,6 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
       })));
     }
 
-    const chat = model.startChat({
-      history: geminiHistory,
-    });
-
     // Prepend system prompt to user message
     let fullMessage = systemPrompt + '\n\n';
     
@@ -378,16 +367,29 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
     // Add user message
     fullMessage += data.message;
     
+    const messages: LLMMessage[] = [
+      ...messagesFromHistory(geminiHistory),
+      { role: 'user', content: fullMessage },
+    ];
+    const generate = async (): Promise<LLMResponse> => {
+      const response = await llm.generate({ messages, tools: functionDeclarations });
+      messages.push({
+        role: 'assistant',
+        content: response.text,
+        toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined,
+      });
+      return response;
+    };
+
     sendEvent('status', { message: 'Sending initial message to AI...', iteration: 0 });
-    let result = await chat.sendMessage(fullMessage);
-    let response = result.response;
+    let response = await generate();
 
     // Handle function calls with progress updates
     const maxIterations = 10;
     let iterations = 0;
 
     while (iterations < maxIterations) {
-      const calls = response.functionCalls?.();
+      const calls = response.toolCalls;
       
       if (!calls || calls.length === 0) {
         break;
@@ -401,7 +403,7 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
       });
 
       const functionResponses = await Promise.all(
-        calls.map(async (fc: FunctionCall, index: number) => {
+        calls.map(async (fc, index) => {
           try {
             sendEvent('tool-start', { 
               iteration: iterations,
@@ -420,12 +422,7 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
               success: true
             });
 
-            return {
-              functionResponse: {
-                name: fc.name,
-                response: toolResult,
-              },
-            };
+            return { id: fc.id, name: fc.name, result: toolResult };
           } catch (error) {
             console.error(`Function call ${fc.name} failed:`, error);
             
@@ -437,30 +434,27 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
             });
 
             return {
-              functionResponse: {
-                name: fc.name,
-                response: {
-                  error: error instanceof Error ? error.message : String(error),
-                },
-              },
+              id: fc.id,
+              name: fc.name,
+              result: { error: error instanceof Error ? error.message : String(error) },
             };
           }
         }),
       );
+      messages.push({ role: 'tool', results: functionResponses });
 
       sendEvent('status', { 
         message: `Processing AI response after ${calls.length} tool calls...`,
         iteration: iterations 
       });
 
-      // Retry logic for Gemini API calls
+      // Retry logic for LLM API calls
       let retryCount = 0;
       const maxRetries = 3;
       
       while (retryCount < maxRetries) {
         try {
-          result = await chat.sendMessage(functionResponses);
-          response = result.response;
+          response = await generate();
           break;
         } catch (error: any) {
           retryCount++;
@@ -476,10 +470,10 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
               message: 'Max retries reached',
               partialResult: true 
             });
-            const partialText = response.text() || 'Die Anfrage konnte nicht vollständig verarbeitet werden.';
+            const partialText = response.text || 'Die Anfrage konnte nicht vollständig verarbeitet werden.';
             sendEvent('done', {
               response: partialText,
-              history: await chat.getHistory(),
+              history: historyFromMessages(messages),
               toolCallsMade: iterations,
               partialResult: true,
             });
@@ -496,8 +490,8 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
       sendEvent('warning', { message: 'Max function call iterations reached' });
     }
 
-    const finalText = response.text();
-    const history = await chat.getHistory();
+    const finalText = response.text;
+    const history = historyFromMessages(messages);
 
     sendEvent('done', {
       response: finalText,
@@ -518,7 +512,7 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
 /**
  * Enhanced chat endpoint with MCP function calling - Original non-streaming version
  */
-aiEnhancedRoutes.post('/chat-with-mcp', async (req, res): Promise<void> => {
+aiEnhancedRoutes.post('/chat-with-mcp', aiRateLimit, async (req, res): Promise<void> => {
   if (!config.features.enableMCP) {
     throw new AppError(503, 'MCP not enabled');
   }
@@ -532,10 +526,7 @@ aiEnhancedRoutes.post('/chat-with-mcp', async (req, res): Promise<void> => {
     throw new AppError(503, 'No MCP tools available');
   }
 
-  const model = genAI.getGenerativeModel({
-    model: config.gemini.model,
-    tools: [{ functionDeclarations }],
-  });
+  const llm = getLLMProvider('assistant');
 
   // Analyze available tools to build intelligent prompt
   const availableToolTypes = {
@@ -658,10 +649,6 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
     })));
   }
 
-  const chat = model.startChat({
-    history: geminiHistory,
-  });
-
   // Prepend system prompt to user message
   // Frontend now sends: "Intent: ... Kontext: ... Frage: ..."
   // Backend adds: Tool-aware system prompt + available contexts
@@ -680,15 +667,28 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
   // Add user message
   fullMessage += data.message;
   
-  let result = await chat.sendMessage(fullMessage);
-  let response = result.response;
+  const messages: LLMMessage[] = [
+    ...messagesFromHistory(geminiHistory),
+    { role: 'user', content: fullMessage },
+  ];
+  const generate = async (): Promise<LLMResponse> => {
+    const response = await llm.generate({ messages, tools: functionDeclarations });
+    messages.push({
+      role: 'assistant',
+      content: response.text,
+      toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined,
+    });
+    return response;
+  };
+
+  let response = await generate();
 
   // Handle function calls with retry logic
   const maxIterations = 10;
   let iterations = 0;
 
   while (iterations < maxIterations) {
-    const calls = response.functionCalls?.();
+    const calls = response.toolCalls;
     
     if (!calls || calls.length === 0) {
       break;
@@ -697,49 +697,41 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
     iterations++;
 
     const functionResponses = await Promise.all(
-      calls.map(async (fc: FunctionCall) => {
+      calls.map(async (fc) => {
         try {
           const toolResult = await executeMCPToolCall(fc);
-          return {
-            functionResponse: {
-              name: fc.name,
-              response: toolResult,
-            },
-          };
+          return { id: fc.id, name: fc.name, result: toolResult };
         } catch (error) {
           console.error(`Function call ${fc.name} failed:`, error);
           return {
-            functionResponse: {
-              name: fc.name,
-              response: {
-                error: error instanceof Error ? error.message : String(error),
-              },
-            },
+            id: fc.id,
+            name: fc.name,
+            result: { error: error instanceof Error ? error.message : String(error) },
           };
         }
       }),
     );
+    messages.push({ role: 'tool', results: functionResponses });
 
-    // Retry logic for Gemini API calls (network failures, rate limits)
+    // Retry logic for LLM API calls (network failures, rate limits)
     let retryCount = 0;
     const maxRetries = 3;
     
     while (retryCount < maxRetries) {
       try {
-        result = await chat.sendMessage(functionResponses);
-        response = result.response;
+        response = await generate();
         break; // Success
       } catch (error: any) {
         retryCount++;
-        console.error(`Gemini API call failed (attempt ${retryCount}/${maxRetries}):`, error.message);
+        console.error(`LLM API call failed (attempt ${retryCount}/${maxRetries}):`, error.message);
         
         if (retryCount >= maxRetries) {
           // Last retry failed - return partial results
           console.error('Max retries reached, returning partial results');
-          const partialText = response.text() || 'Die Anfrage konnte nicht vollständig verarbeitet werden. Bitte versuche es mit einer spezifischeren Frage erneut.';
+          const partialText = response.text || 'Die Anfrage konnte nicht vollständig verarbeitet werden. Bitte versuche es mit einer spezifischeren Frage erneut.';
           res.json({
             response: partialText,
-            history: await chat.getHistory(),
+            history: historyFromMessages(messages),
             toolCallsMade: iterations,
             partialResult: true,
           });
@@ -756,8 +748,8 @@ Antworte IMMER auf Deutsch. Sei präzise und transparent über deine Information
     console.warn('Max function call iterations reached');
   }
 
-  const finalText = response.text();
-  const history = await chat.getHistory();
+  const finalText = response.text;
+  const history = historyFromMessages(messages);
 
   res.json({
     response: finalText,
@@ -1,6 +1,4 @@
 import { Router } from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
 import { getDatabase } from '../db/index.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { z } from 'zod';
@@ -8,12 +6,14 @@ import multer from 'multer';
 import { getTavilyService } from '../services/tavily.js';
 import { getMCPManager } from '../services/mcp-manager.js';
 import { optionalAuthMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { aiRateLimit } from '../middleware/rate-limit.js';
 import { buildEnhancedVectorContext, formatEnhancedVectorContextForPrompt } from '../services/vector-context.js';
 import {
   generateDocumentSummary,
   findRelevantSections,
   extractSections,
 } from '../services/document-summary.js';
+import { getLLMProvider, historyFromMessages, messagesFromHistory, type LLMMessage } from '../services/llm.js';
 
 // Configure multer for file uploads
 const upload = multer({
@@ -40,7 +40,7 @@ const upload = multer({
 
 export const aiRoutes = Router();
 
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
+aiRoutes.use(aiRateLimit);
 
 // Simple language detection based on common words
 function detectLanguage(text: string): string {
@@ -142,7 +142,7 @@ const chatSchema = z.object({
 aiRoutes.post('/generate-outline', async (req, res) => {
   const data = generateOutlineSchema.parse(req.body);
   
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
   
   const prompt = `Erstelle eine strukturierte Gliederung für ein Dokument zum Thema: "${data.topic}"
 
@@ -154,8 +154,8 @@ Erstelle eine detaillierte Markdown-Gliederung mit Haupt- und Unterkapiteln.
 Nutze ## für Hauptkapitel, ### für Unterkapitel, etc.
 Füge kurze Beschreibungen (1-2 Sätze) zu jedem Abschnitt hinzu.`;
 
-  const result = await model.generateContent(prompt);
-  const outline = result.response.text();
+  const result = await llm.generate({ prompt });
+  const outline = result.text;
   
   res.json({ outline });
 });
@@ -170,7 +170,7 @@ aiRoutes.post('/expand-section', async (req, res) => {
     throw new AppError(404, 'Document not found');
   }
   
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
   
   const prompt = `Du bist ein Experte für technisches Schreiben. 
 
@@ -189,8 +189,8 @@ ${data.instruction ? `Spezielle Anweisungen: ${data.instruction}` : ''}
 Schreibe in professionellem Stil, nutze Markdown-Formatierung.
 Füge Beispiele und konkrete Details hinzu wo sinnvoll.`;
 
-  const result = await model.generateContent(prompt);
-  const expansion = result.response.text();
+  const result = await llm.generate({ prompt });
+  const expansion = result.text;
   
   res.json({ expansion });
 });
@@ -199,7 +199,7 @@ Füge Beispiele und konkrete Details hinzu wo sinnvoll.`;
 aiRoutes.post('/improve-text', async (req, res) => {
   const data = improveTextSchema.parse(req.body);
   
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
   
   const prompt = `Verbessere den folgenden Text:
 
@@ -210,8 +210,8 @@ ${data.instruction ? `Fokus: ${data.instruction}` : 'Fokus: Klarheit, Präzision
 Behalte die Markdown-Formatierung bei.
 Gib nur den verbesserten Text zurück, ohne zusätzliche Erklärungen.`;
 
-  const result = await model.generateContent(prompt);
-  const improved = result.response.text();
+  const result = await llm.generate({ prompt });
+  const improved = result.text;
   
   res.json({ improved });
 });
@@ -230,7 +230,7 @@ aiRoutes.post('/summarize', async (req, res) => {
     throw new AppError(404, 'Document not found');
   }
   
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
   
   const lengthInstructions = {
     short: '3-5 Sätze',
@@ -248,8 +248,8 @@ Länge: ${lengthInstructions[length]}
 
 Nutze Markdown-Formatierung. Hebe die wichtigsten Punkte hervor.`;
 
-  const result = await model.generateContent(prompt);
-  const summary = result.response.text();
+  const result = await llm.generate({ prompt });
+  const summary = result.text;
   
   res.json({ summary });
 });
@@ -269,7 +269,7 @@ aiRoutes.post('/generate-mermaid', async (req, res) => {
     throw new AppError(404, 'Document not found');
   }
   
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
   
   const diagramTypeInstructions = {
     flowchart: 'Erstelle ein Flowchart (flowchart TD oder flowchart LR)',
@@ -337,8 +337,8 @@ flowchart TD
 
 Erstelle jetzt das Diagramm basierend auf dem Dokumentinhalt:`;
 
-  const result = await model.generateContent(prompt);
-  let mermaidCode = result.response.text().trim();
+  const result = await llm.generate({ prompt });
+  let mermaidCode = result.text.trim();
   
   // Clean up common issues
   mermaidCode = mermaidCode
@@ -354,7 +354,7 @@ Erstelle jetzt das Diagramm basierend auf dem Dokumentinhalt:`;
 aiRoutes.post('/chat', optionalAuthMiddleware, async (req: AuthRequest, res) => {
   const data = chatSchema.parse(req.body);
   
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
   
   let systemContext = '';
   
@@ -393,16 +393,15 @@ ${document.content}
     }
   }
   
-  const chat = model.startChat({
-    history: data.history || [],
-  });
-  
-  const result = await chat.sendMessage(systemContext + data.message);
-  const response = result.response.text();
+  const messages: LLMMessage[] = [
+    ...messagesFromHistory(data.history || []),
+    { role: 'user', content: systemContext + data.message },
+  ];
+  const { text: response } = await llm.generate({ messages });
   
   res.json({ 
     response,
-    history: await chat.getHistory(),
+    history: historyFromMessages([...messages, { role: 'assistant', content: response }]),
   });
 });
 
@@ -434,7 +433,7 @@ aiRoutes.post('/chat-with-document', upload.single('file'), optionalAuthMiddlewa
       throw new AppError(400, 'Unsupported file format for text extraction');
     }
 
-    const model = genAI.getGenerativeModel({ model: config.gemini.model });
+    const llm = getLLMProvider('chat');
 
     // Build context with enhanced vector search + uploaded document
     let systemContext = 'Du bist ein intelligenter Dokumenten-Assistent. Analysiere die folgenden Dokumente und beantworte die Frage des Nutzers.\n\n';
@@ -485,16 +484,15 @@ ${uploadedContent}
 
     const parsedHistory = history ? JSON.parse(history) : [];
     
-    const chat = model.startChat({
-      history: parsedHistory,
-    });
-
-    const result = await chat.sendMessage(systemContext + message);
-    const response = result.response.text();
+    const messages: LLMMessage[] = [
+      ...messagesFromHistory(parsedHistory),
+      { role: 'user', content: systemContext + message },
+    ];
+    const { text: response } = await llm.generate({ messages });
 
     res.json({
       response,
-      history: await chat.getHistory(),
+      history: historyFromMessages([...messages, { role: 'assistant', content: response }]),
       uploadedFileName: filename,
     });
   } catch (error: any) {
@@ -586,13 +584,7 @@ aiRoutes.post('/suggest-changes', upload.single('file'), async (req, res) => {
       
       // Step 4: Analyze relevant sections with full context
       console.log('[suggest-changes] Step 3: Analyzing relevant sections...');
-      const model = genAI.getGenerativeModel({ 
-        model: config.gemini.model,
-        generationConfig: {
-          temperature: 1.0, // Gemini 3 default - optimized for reasoning
-          maxOutputTokens: 8192,
-        },
-      });
+      const llm = getLLMProvider('chat');
 
       const analysisPrompt = `Du bist ein Experte für Dokumentenanalyse und -bearbeitung.
 
@@ -648,9 +640,9 @@ WICHTIG:
       const timeoutMs = 120000;
       const generateWithTimeout = async () => {
         const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Gemini API Timeout nach 120 Sekunden')), timeoutMs);
+          setTimeout(() => reject(new Error('KI-API Timeout nach 120 Sekunden')), timeoutMs);
         });
-        const apiPromise = model.generateContent(analysisPrompt);
+        const apiPromise = llm.generate({ prompt: analysisPrompt, temperature: 1.0, maxTokens: 8192 });
         return Promise.race([apiPromise, timeoutPromise]);
       };
 
@@ -667,7 +659,7 @@ WICHTIG:
         throw error;
       }
 
-      let responseText = result.response.text().trim();
+      let responseText = result.text.trim();
       responseText = responseText
         .replace(/^```json\n?/i, '')
         .replace(/^```\n?/i, '')
@@ -699,13 +691,7 @@ WICHTIG:
     }
 
     // Standard analysis for documents within size limit
-    const model = genAI.getGenerativeModel({ 
-      model: config.gemini.model,
-      generationConfig: {
-        temperature: 1.0, // Gemini 3 default - optimized for reasoning
-        maxOutputTokens: 8192,
-      },
-    });
+    const llm = getLLMProvider('chat');
 
     const prompt = `Du bist ein Experte für Dokumentenanalyse und -bearbeitung.
 
@@ -758,10 +744,10 @@ WICHTIG:
     const timeoutMs = 120000; // 120 seconds
     const generateWithTimeout = async () => {
       const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Gemini API Timeout nach 120 Sekunden')), timeoutMs);
+        setTimeout(() => reject(new Error('KI-API Timeout nach 120 Sekunden')), timeoutMs);
       });
       
-      const apiPromise = model.generateContent(prompt);
+      const apiPromise = llm.generate({ prompt, temperature: 1.0, maxTokens: 8192 });
       
       return Promise.race([apiPromise, timeoutPromise]);
     };
@@ -779,7 +765,7 @@ WICHTIG:
       throw error;
     }
 
-    let responseText = result.response.text().trim();
+    let responseText = result.text.trim();
 
     // Clean up JSON response
     responseText = responseText
@@ -834,7 +820,7 @@ aiRoutes.post('/apply-suggestion', async (req, res) => {
     throw new AppError(404, 'Document not found');
   }
 
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
 
   const prompt = `Du bist ein Experte für präzise Dokumentenbearbeitung.
 
@@ -866,8 +852,8 @@ WICHTIG:
 - Gib NUR valides JSON zurück
 - Der Inhalt in "newContent" sollte direkt verwendbar sein`;
 
-  const result = await model.generateContent(prompt);
-  let responseText = result.response.text().trim();
+  const result = await llm.generate({ prompt });
+  let responseText = result.text.trim();
 
   // Clean up JSON
   responseText = responseText
@@ -904,7 +890,7 @@ aiRoutes.post('/integrate-suggestions', async (req, res) => {
     throw new AppError(404, 'Document not found');
   }
 
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
 
   // Build list of accepted suggestions
   const accepted = acceptedSuggestions.map(index => suggestionsData.suggestions[index]);
@@ -941,8 +927,8 @@ WICHTIGE REGELN:
 
 Beginne jetzt mit dem überarbeiteten Dokument:`;
 
-  const result = await model.generateContent(prompt);
-  const updatedContent = result.response.text().trim();
+  const result = await llm.generate({ prompt });
+  const updatedContent = result.text.trim();
 
   // Clean up potential markdown code blocks
   let cleanedContent = updatedContent
@@ -1080,7 +1066,7 @@ aiRoutes.post('/deep-research', async (req, res) => {
   }
 
   // AI Synthesis: Analyze all sources and generate suggestions
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
 
   const synthesisPrompt = `Du bist ein Experte für wissenschaftliche Recherche und Dokumenten-Anreicherung.
 
@@ -1124,8 +1110,8 @@ WICHTIG:
 
 Antworte NUR mit dem JSON-Array, ohne zusätzlichen Text.`;
 
-  const result = await model.generateContent(synthesisPrompt);
-  const response = result.response.text();
+  const result = await llm.generate({ prompt: synthesisPrompt });
+  const response = result.text;
 
   // Parse AI response
   let suggestions = [];
@@ -1181,7 +1167,7 @@ aiRoutes.post('/research-batch', async (req, res) => {
   }
 
   // Extract topics from artifacts using AI
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
 
   const artifactsContent = artifacts.map((a, i) => 
     `### Artefakt ${i + 1}: ${a.name}\n${a.content}`
@@ -1196,8 +1182,8 @@ Gib die Themen als JSON-Array von Strings zurück:
 
 Antworte NUR mit dem JSON-Array.`;
 
-  const topicResult = await model.generateContent(topicExtractionPrompt);
-  const topicResponse = topicResult.response.text();
+  const topicResult = await llm.generate({ prompt: topicExtractionPrompt });
+  const topicResponse = topicResult.text;
 
   let extractedTopics: string[] = [];
   try {
@@ -1279,8 +1265,8 @@ Gib deine Antwort als JSON-Array zurück:
 
 Antworte NUR mit dem JSON-Array.`;
 
-  const result = await model.generateContent(synthesisPrompt);
-  const response = result.response.text();
+  const result = await llm.generate({ prompt: synthesisPrompt });
+  const response = result.text;
 
   let suggestions = [];
   try {
@@ -1351,7 +1337,7 @@ aiRoutes.post('/enrich-section', async (req, res) => {
   }
 
   // Generate focused suggestion
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
+  const llm = getLLMProvider('chat');
 
   const enrichmentPrompt = `Du bist ein Experte für präzise Text-Anreicherung.
 
@@ -1388,8 +1374,8 @@ Gib deine Antwort als JSON-Objekt zurück:
 
 Antworte NUR mit dem JSON-Objekt.`;
 
-  const result = await model.generateContent(enrichmentPrompt);
-  const response = result.response.text();
+  const result = await llm.generate({ prompt: enrichmentPrompt });
+  const response = result.text;
 
   let suggestion = null;
   try {
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { getDatabase } from '../db/index.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { authMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { authMiddleware, requireRole, type AuthRequest } from '../middleware/auth.js';
 import { randomUUID } from 'crypto';
 
 export const artifactsRoutes = Router({ mergeParams: true });
@@ -282,7 +282,7 @@ artifactsRoutes.post('/:artifactId/copy', (req: Request<ArtifactParams>, res: Re
 });
 
 // Convert artifact to a new document
-artifactsRoutes.post('/:artifactId/convert-to-document', authMiddleware, (req: AuthRequest, res: Response) => {
+artifactsRoutes.post('/:artifactId/convert-to-document', authMiddleware, requireRole('editor'), (req: AuthRequest, res: Response) => {
   const { documentId, artifactId } = req.params;
   const data = convertToDocumentSchema.parse(req.body);
   const db = getDatabase();
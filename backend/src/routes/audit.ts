@@ -0,0 +1,96 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler.js';
+import { authMiddleware, requireRole, type AuthRequest } from '../middleware/auth.js';
+import { auditEntriesToCsv, queryAuditLog, MAX_AUDIT_PAGE_SIZE, type AuditFilter } from '../services/audit.js';
+
+/**
+ * Audit Log
+ *
+ * Read access for admins. Both endpoints take the same filters:
+ * action (comma-separated, "auth." matches all auth actions), actor,
+ * document, target_type, target_id, from and to (ISO date or epoch ms).
+ */
+export const auditRoutes = Router();
+
+auditRoutes.use(authMiddleware, requireRole('admin'));
+
+// Upper bound for a single export
+const MAX_EXPORT_ENTRIES = 10000;
+
+const timestampSchema = z.string().transform((value, ctx) => {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date: ${value}` });
+    return z.NEVER;
+  }
+  return time;
+});
+
+const filterSchema = z.object({
+  action: z.string().optional(),
+  actor: z.string().optional(),
+  document: z.string().optional(),
+  target_type: z.string().optional(),
+  target_id: z.string().optional(),
+  from: timestampSchema.optional(),
+  to: timestampSchema.optional(),
+});
+
+const listSchema = filterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const exportSchema = filterSchema.extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+function toFilter(query: z.infer<typeof filterSchema>): AuditFilter {
+  return {
+    actions: query.action?.split(',').map(action => action.trim()).filter(Boolean),
+    actorId: query.actor,
+    documentId: query.document,
+    targetType: query.target_type,
+    targetId: query.target_id,
+    from: query.from,
+    to: query.to,
+  };
+}
+
+/**
+ * GET /api/audit?action=auth.&from=2025-01-01&limit=100&offset=0
+ * One page of matching entries, newest first
+ */
+auditRoutes.get('/', (req: AuthRequest, res: Response) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { limit, offset } = parsed.data;
+  const { entries, total } = queryAuditLog({ ...toFilter(parsed.data), limit, offset });
+  res.json({ entries, total, limit, offset });
+});
+
+/**
+ * GET /api/audit/export?format=csv|json
+ * All matching entries (up to 10000) as a download
+ */
+auditRoutes.get('/export', (req: AuthRequest, res: Response) => {
+  const parsed = exportSchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { entries, total } = queryAuditLog({ ...toFilter(parsed.data), limit: MAX_EXPORT_ENTRIES });
+  const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${parsed.data.format}`;
+
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('X-Total-Count', String(total));
+  if (parsed.data.format === 'csv') {
+    res.type('text/csv').send(auditEntriesToCsv(entries));
+  } else {
+    res.type('application/json').send(JSON.stringify({ exportedAt: new Date().toISOString(), total, entries }, null, 2));
+  }
+});
@@ -1,14 +1,67 @@
-import { Router } from 'express';
-import { AuthService } from '../services/auth.js';
-import { authMiddleware, AuthRequest } from '../middleware/auth.js';
+import { Router, type Request } from 'express';
+import { AuthService, isEmailVerificationRequired, type SessionClient } from '../services/auth.js';
+import { authMiddleware, requireSession, AuthRequest } from '../middleware/auth.js';
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  ApiTokenError,
+  type ApiTokenScope,
+} from '../services/api-tokens.js';
+import { completeLogin, createAuthorizationUrl, isOidcEnabled, OidcError } from '../services/oidc.js';
+import { config } from '../config/index.js';
+import { getDatabase } from '../db/index.js';
+import { recordAudit } from '../services/audit.js';
+import { sendPasswordResetMail, sendVerificationMail } from '../services/mailer.js';
+import { clearLoginFailures, consumeRateLimit, getLockout, recordLoginFailure } from '../services/rate-limit.js';
+import { loginRateLimit, mailRateLimit, registerRateLimit, sendTooManyRequests } from '../middleware/rate-limit.js';
 
 const router = Router();
 
+function sessionClient(req: Request): SessionClient {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 500),
+    ipAddress: req.ip,
+  };
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Attempts per account name, on top of the per-IP limit of the route
+const loginAccountRule = {
+  bucket: 'login_account',
+  limit: config.rateLimit.loginPerAccount,
+  windowMs: config.rateLimit.authWindowMinutes * MINUTE_MS,
+};
+
+const lockoutPolicy = {
+  threshold: config.rateLimit.lockoutThreshold,
+  baseMs: config.rateLimit.lockoutBaseMinutes * MINUTE_MS,
+  maxMs: config.rateLimit.lockoutMaxMinutes * MINUTE_MS,
+};
+
+// Same answer whether or not an account exists for the address
+const MAIL_SENT_MESSAGE = 'If an account exists for this address, an email has been sent';
+
+/**
+ * Mail a verification link without holding up the response; a mail server
+ * failure must not fail the request or reveal whether an account exists
+ */
+async function mailVerificationLink(userId: string): Promise<void> {
+  const verification = await AuthService.createEmailVerificationToken(userId);
+  if (verification) {
+    sendVerificationMail(verification.user, verification.token)
+      .catch(error => console.error('Verification mail error:', error));
+  }
+}
+
 /**
  * POST /api/auth/register
- * Register a new user
+ * Register a new user and send a verification link. While verification is
+ * required, no session is started until the address is confirmed.
  */
-router.post('/register', async (req, res) => {
+router.post('/register', registerRateLimit, async (req, res) => {
   try {
     const { username, email, password, display_name } = req.body;
 
@@ -18,7 +71,14 @@ router.post('/register', async (req, res) => {
       });
     }
 
-    const result = await AuthService.register(username, email, password, display_name);
+    if (isEmailVerificationRequired()) {
+      const user = await AuthService.createUser(username, email, password, display_name);
+      await mailVerificationLink(user.id);
+      return res.status(201).json({ user, verificationRequired: true });
+    }
+
+    const result = await AuthService.register(username, email, password, display_name, sessionClient(req));
+    await mailVerificationLink(result.user.id);
 
     return res.status(201).json(result);
   } catch (error) {
@@ -32,9 +92,12 @@ router.post('/register', async (req, res) => {
 
 /**
  * POST /api/auth/login
- * Login user
+ * Login user. Limited per IP and per account name; repeated failures lock
+ * the account name for a growing time, whether or not the account exists.
  */
-router.post('/login', async (req, res) => {
+router.post('/login', loginRateLimit, async (req, res) => {
+  const account = String(req.body.username ?? '').slice(0, 100);
+
   try {
     const { username, password } = req.body;
 
@@ -44,29 +107,290 @@ router.post('/login', async (req, res) => {
       });
     }
 
-    const result = await AuthService.login(username, password);
+    if (config.rateLimit.enabled) {
+      const lockedUntil = getLockout(account);
+      if (lockedUntil) {
+        const minutes = Math.ceil((lockedUntil - Date.now()) / MINUTE_MS);
+        return sendTooManyRequests(res, lockedUntil, `Too many failed logins. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+      }
+
+      const attempts = consumeRateLimit(loginAccountRule, account.toLowerCase());
+      if (!attempts.allowed) {
+        return sendTooManyRequests(res, attempts.resetAt);
+      }
+    }
+
+    const result = await AuthService.login(username, password, sessionClient(req));
+    clearLoginFailures(account);
+    recordAudit({
+      action: 'auth.login',
+      actorId: result.user.id,
+      ipAddress: req.ip,
+      targetType: 'user',
+      targetId: result.user.id,
+      details: { method: 'password' },
+    });
 
     return res.json(result);
   } catch (error) {
     if (error instanceof Error && error.message === 'Invalid credentials') {
+      recordAudit({
+        action: 'auth.login_failed',
+        ipAddress: req.ip,
+        targetType: 'user',
+        details: { username: account },
+      });
+      if (config.rateLimit.enabled) {
+        const { failures, lockedUntil } = recordLoginFailure(account, lockoutPolicy);
+        if (lockedUntil) {
+          recordAudit({
+            action: 'auth.lockout',
+            ipAddress: req.ip,
+            targetType: 'user',
+            details: { username: account, failures, lockedUntil: new Date(lockedUntil).toISOString() },
+          });
+        }
+      }
       return res.status(401).json({ error: error.message });
     }
+    if (error instanceof Error && error.message === 'Email not verified') {
+      return res.status(403).json({ error: 'Please confirm your email address first', code: 'EMAIL_NOT_VERIFIED' });
+    }
     console.error('Login error:', error);
     return res.status(500).json({ error: 'Login failed' });
   }
 });
 
 /**
- * POST /api/auth/logout
- * Logout user
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access and refresh token
+ */
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: refreshToken' });
+    }
+
+    const result = await AuthService.refresh(refreshToken, sessionClient(req));
+
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid refresh token') {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Refresh error:', error);
+    return res.status(500).json({ error: 'Refresh failed' });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Mail a password reset link
+ */
+router.post('/forgot-password', mailRateLimit, async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: email' });
+    }
+
+    const reset = await AuthService.createPasswordResetToken(email);
+    if (reset) {
+      recordAudit({
+        action: 'auth.password_reset_request',
+        ipAddress: req.ip,
+        targetType: 'user',
+        targetId: reset.user.id,
+      });
+      sendPasswordResetMail(reset.user, reset.token)
+        .catch(error => console.error('Password reset mail error:', error));
+    }
+
+    return res.json({ message: MAIL_SENT_MESSAGE });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({ error: 'Failed to send reset link' });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with the token from a reset link; all sessions end
+ */
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, new_password } = req.body;
+
+    if (!token || typeof token !== 'string' || !new_password || typeof new_password !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields: token, new_password' });
+    }
+    if (new_password.length < 8) {
+      return res.status(400).json({ error: 'Password must be at least 8 characters' });
+    }
+
+    const user = await AuthService.resetPasswordWithToken(token, new_password);
+    clearLoginFailures(user.username);
+    recordAudit({
+      action: 'auth.password_reset',
+      actorId: user.id,
+      ipAddress: req.ip,
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    return res.json({ message: 'Password has been reset' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid or expired token') {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    }
+    console.error('Reset password error:', error);
+    return res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address with the token from a verification link
+ */
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: token' });
+    }
+
+    const user = await AuthService.verifyEmail(token);
+    recordAudit({
+      action: 'auth.email_verified',
+      actorId: user.id,
+      ipAddress: req.ip,
+      targetType: 'user',
+      targetId: user.id,
+      details: { email: user.email },
+    });
+
+    return res.json({ user });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid or expired token') {
+      return res.status(400).json({ error: 'This verification link is invalid or has expired' });
+    }
+    console.error('Verify email error:', error);
+    return res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+/**
+ * POST /api/auth/resend-verification
+ * Mail a new verification link to an unconfirmed address
+ */
+router.post('/resend-verification', mailRateLimit, async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: email' });
+    }
+
+    const user = getDatabase().prepare(
+      'SELECT id FROM users WHERE LOWER(email) = LOWER(?) AND is_active = 1'
+    ).get(email) as { id: string } | undefined;
+    if (user) {
+      await mailVerificationLink(user.id);
+    }
+
+    return res.json({ message: MAIL_SENT_MESSAGE });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return res.status(500).json({ error: 'Failed to send verification link' });
+  }
+});
+
+/**
+ * GET /api/auth/oidc/config
+ * Whether single sign-on is available, for the login page
+ */
+router.get('/oidc/config', (_req, res) => {
+  return res.json({ enabled: isOidcEnabled(), providerName: config.oidc.providerName });
+});
+
+/**
+ * GET /api/auth/oidc/login?returnTo=/documents
+ * Redirect the browser to the identity provider
+ */
+router.get('/oidc/login', async (req, res) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ error: 'Single sign-on is not configured' });
+  }
+
+  try {
+    return res.redirect(await createAuthorizationUrl(req.query.returnTo));
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    return res.status(502).json({ error: 'Identity provider is not reachable' });
+  }
+});
+
+/**
+ * GET /api/auth/oidc/callback
+ * Redirect target of the identity provider. Hands the tokens to the frontend
+ * in the URL fragment, which never reaches a server log.
  */
-router.post('/logout', authMiddleware, async (req: AuthRequest, res) => {
+router.get('/oidc/callback', async (req, res) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ error: 'Single sign-on is not configured' });
+  }
+
+  const finishUrl = config.oidc.postLoginUrl || `${config.corsOrigin.replace(/\/$/, '')}/login/oidc`;
+  const fail = (message: string) =>
+    res.redirect(`${finishUrl}#${new URLSearchParams({ error: message })}`);
+
+  const { code, state, error, error_description } = req.query;
+  if (typeof error === 'string') {
+    return fail(typeof error_description === 'string' ? error_description : error);
+  }
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    return fail('Missing code or state');
+  }
+
   try {
-    const authHeader = req.headers.authorization;
-    if (authHeader) {
-      const token = authHeader.split(' ')[1];
-      await AuthService.logout(token);
+    const { user, returnTo } = await completeLogin(code, state);
+    const session = AuthService.createSession(user, sessionClient(req));
+    recordAudit({
+      action: 'auth.login',
+      actorId: user.id,
+      ipAddress: req.ip,
+      targetType: 'user',
+      targetId: user.id,
+      details: { method: 'oidc' },
+    });
+
+    return res.redirect(`${finishUrl}#${new URLSearchParams({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresIn: String(session.expiresIn),
+      returnTo,
+    })}`);
+  } catch (error) {
+    if (error instanceof OidcError) {
+      recordAudit({ action: 'auth.login_failed', ipAddress: req.ip, details: { method: 'oidc', reason: error.message } });
+      return fail(error.message);
     }
+    console.error('OIDC callback error:', error);
+    return fail('Login failed');
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Logout user (revokes the current session)
+ */
+router.post('/logout', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    await AuthService.logout(req.sessionId!);
 
     return res.json({ message: 'Logged out successfully' });
   } catch (error) {
@@ -75,6 +399,119 @@ router.post('/logout', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * POST /api/auth/logout-all
+ * Log out all devices, including this one
+ */
+router.post('/logout-all', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    const revoked = await AuthService.revokeAllSessions(req.user!.id);
+
+    return res.json({ message: 'Logged out on all devices', revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * Active sessions of the current user
+ */
+router.get('/sessions', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await AuthService.listSessions(req.user!.id, req.sessionId);
+
+    return res.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Log out a single device
+ */
+router.delete('/sessions/:id', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    const revoked = await AuthService.revokeSession(req.user!.id, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    return res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+/**
+ * GET /api/auth/tokens
+ * Personal API tokens of the current user
+ */
+router.get('/tokens', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    return res.json({ tokens: listApiTokens(req.user!.id), scopes: API_TOKEN_SCOPES });
+  } catch (error) {
+    console.error('List API tokens error:', error);
+    return res.status(500).json({ error: 'Failed to list API tokens' });
+  }
+});
+
+/**
+ * POST /api/auth/tokens
+ * Create a personal API token; the token is only returned in this response
+ */
+router.post('/tokens', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    const { name, scopes, expires_in_days } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Missing required field: name' });
+    }
+    if (!Array.isArray(scopes) || scopes.some(scope => !API_TOKEN_SCOPES.includes(scope))) {
+      return res.status(400).json({ error: `scopes must be a list of: ${API_TOKEN_SCOPES.join(', ')}` });
+    }
+    if (expires_in_days != null && !(Number.isInteger(expires_in_days) && expires_in_days > 0)) {
+      return res.status(400).json({ error: 'expires_in_days must be a positive number of days' });
+    }
+
+    const { token, apiToken } = createApiToken(req.user!.id, {
+      name: name.slice(0, 100),
+      scopes: scopes as ApiTokenScope[],
+      expiresInDays: expires_in_days ?? null,
+    });
+
+    return res.status(201).json({ token, apiToken });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create API token error:', error);
+    return res.status(500).json({ error: 'Failed to create API token' });
+  }
+});
+
+/**
+ * DELETE /api/auth/tokens/:id
+ * Revoke a personal API token
+ */
+router.delete('/tokens/:id', authMiddleware, requireSession, async (req: AuthRequest, res) => {
+  try {
+    if (!revokeApiToken(req.user!.id, req.params.id)) {
+      return res.status(404).json({ error: 'API token not found' });
+    }
+
+    return res.json({ message: 'API token revoked' });
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    return res.status(500).json({ error: 'Failed to revoke API token' });
+  }
+});
+
 /**
  * GET /api/auth/me
  * Get current user
@@ -102,7 +539,7 @@ router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
  * PUT /api/auth/profile
  * Update user profile
  */
-router.put('/profile', authMiddleware, async (req: AuthRequest, res) => {
+router.put('/profile', authMiddleware, requireSession, async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -114,6 +551,9 @@ router.put('/profile', authMiddleware, async (req: AuthRequest, res) => {
       display_name,
       email,
     });
+    if (user.email !== req.user.email) {
+      await mailVerificationLink(user.id);
+    }
 
     return res.json({ user });
   } catch (error) {
@@ -124,9 +564,9 @@ router.put('/profile', authMiddleware, async (req: AuthRequest, res) => {
 
 /**
  * PUT /api/auth/password
- * Change password
+ * Change password; other sessions are logged out
  */
-router.put('/password', authMiddleware, async (req: AuthRequest, res) => {
+router.put('/password', authMiddleware, requireSession, async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -140,7 +580,7 @@ router.put('/password', authMiddleware, async (req: AuthRequest, res) => {
       });
     }
 
-    await AuthService.changePassword(req.user.id, old_password, new_password);
+    await AuthService.changePassword(req.user.id, old_password, new_password, req.sessionId);
 
     return res.json({ message: 'Password changed successfully' });
   } catch (error) {
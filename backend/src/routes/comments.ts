@@ -0,0 +1,351 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { getDatabase } from '../db/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { authMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { PermissionService, type PermissionLevel } from '../services/permissions.js';
+import { createTextAnchor, resolveTextAnchors } from '../services/collaboration.js';
+
+/**
+ * Inline document comments
+ *
+ * Readers of a document can see and write comments; resolving, reopening and
+ * deleting other people's comments requires write access.
+ */
+export const commentRoutes = Router({ mergeParams: true });
+
+commentRoutes.use(authMiddleware);
+
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_.-]+)/g;
+
+const createCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+  parentId: z.string().optional(),
+  from: z.number().int().min(0).optional(),
+  to: z.number().int().min(0).optional(),
+  quote: z.string().optional(),
+});
+
+const updateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+});
+
+interface CommentRow {
+  id: string;
+  document_id: string;
+  parent_id: string | null;
+  user_id: string;
+  body: string;
+  anchor_start: string | null;
+  anchor_end: string | null;
+  quote: string | null;
+  status: 'open' | 'resolved';
+  resolved_by: string | null;
+  resolved_at: number | null;
+  created_at: number;
+  updated_at: number;
+  username: string | null;
+  display_name: string | null;
+}
+
+function requirePermission(req: AuthRequest, level: PermissionLevel): string {
+  const { documentId } = req.params as { documentId: string };
+  const db = getDatabase();
+
+  if (!db.prepare('SELECT id FROM documents WHERE id = ?').get(documentId)) {
+    throw new AppError(404, 'Document not found');
+  }
+
+  if (!PermissionService.checkPermission(documentId, req.user!.id, level)) {
+    throw new AppError(403, 'Access denied');
+  }
+
+  return documentId;
+}
+
+function getComment(documentId: string, commentId: string): CommentRow {
+  const comment = getDatabase().prepare(`
+    SELECT * FROM document_comments WHERE id = ? AND document_id = ?
+  `).get(commentId, documentId) as CommentRow | undefined;
+
+  if (!comment) {
+    throw new AppError(404, 'Comment not found');
+  }
+
+  return comment;
+}
+
+/**
+ * Store @mentions of users who can read the document
+ */
+function saveMentions(documentId: string, commentId: string, body: string): void {
+  const db = getDatabase();
+  const usernames = new Set([...body.matchAll(MENTION_PATTERN)].map(match => match[2].toLowerCase()));
+
+  db.prepare('DELETE FROM document_comment_mentions WHERE comment_id = ?').run(commentId);
+
+  const findUser = db.prepare('SELECT id FROM users WHERE LOWER(username) = ? AND is_active = 1');
+  const insertMention = db.prepare('INSERT OR IGNORE INTO document_comment_mentions (comment_id, user_id) VALUES (?, ?)');
+
+  for (const username of usernames) {
+    const user = findUser.get(username) as { id: string } | undefined;
+    if (user && PermissionService.checkPermission(documentId, user.id, 'read')) {
+      insertMention.run(commentId, user.id);
+    }
+  }
+}
+
+/**
+ * Find where the quoted text is in the stored content. The client computes
+ * offsets on its editor buffer, which may be slightly ahead of the server.
+ */
+function locateQuote(content: string, from: number, to: number, quote?: string): { from: number; to: number } {
+  if (quote === undefined || content.slice(from, to) === quote) {
+    if (from > to || to > content.length) {
+      throw new AppError(400, 'Invalid comment range');
+    }
+    return { from, to };
+  }
+
+  // Pick the occurrence closest to the requested offset
+  let best = -1;
+  for (let index = content.indexOf(quote); index !== -1; index = content.indexOf(quote, index + 1)) {
+    if (best === -1 || Math.abs(index - from) < Math.abs(best - from)) {
+      best = index;
+    }
+  }
+
+  if (best === -1) {
+    throw new AppError(409, 'Commented text not found - save the document and try again');
+  }
+
+  return { from: best, to: best + quote.length };
+}
+
+/**
+ * GET /api/documents/:documentId/comments
+ * Query: status=open|resolved, mentioned=me
+ * Returns threads with their anchors resolved against the current content
+ */
+commentRoutes.get('/', (req: AuthRequest, res: Response) => {
+  const documentId = requirePermission(req, 'read');
+  const db = getDatabase();
+  const { status, mentioned } = req.query as { status?: string; mentioned?: string };
+
+  const rows = db.prepare(`
+    SELECT c.*, u.username, u.display_name
+    FROM document_comments c
+    LEFT JOIN users u ON c.user_id = u.id
+    WHERE c.document_id = ?
+    ORDER BY c.created_at ASC
+  `).all(documentId) as CommentRow[];
+
+  const mentions = db.prepare(`
+    SELECT m.comment_id, u.id, u.username, u.display_name
+    FROM document_comment_mentions m
+    INNER JOIN document_comments c ON m.comment_id = c.id
+    INNER JOIN users u ON m.user_id = u.id
+    WHERE c.document_id = ?
+  `).all(documentId) as { comment_id: string; id: string; username: string; display_name: string }[];
+
+  const withMentions = (row: CommentRow) => ({
+    id: row.id,
+    parent_id: row.parent_id,
+    body: row.body,
+    user_id: row.user_id,
+    username: row.username,
+    display_name: row.display_name,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    mentions: mentions
+      .filter(mention => mention.comment_id === row.id)
+      .map(({ id, username, display_name }) => ({ id, username, display_name })),
+  });
+
+  let roots = rows.filter(row => !row.parent_id);
+  if (status === 'open' || status === 'resolved') {
+    roots = roots.filter(row => row.status === status);
+  }
+
+  const anchored = roots.filter(row => row.anchor_start && row.anchor_end);
+  const ranges = resolveTextAnchors(
+    documentId,
+    anchored.map(row => ({ start: row.anchor_start!, end: row.anchor_end! }))
+  );
+  const rangeById = new Map(anchored.map((row, index) => [row.id, ranges[index]]));
+
+  let threads = roots.map(row => {
+    const range = rangeById.get(row.id) ?? null;
+    const replies = rows.filter(reply => reply.parent_id === row.id).map(withMentions);
+    return {
+      ...withMentions(row),
+      status: row.status,
+      resolved_by: row.resolved_by,
+      resolved_at: row.resolved_at,
+      quote: row.quote,
+      anchor: range,
+      // The commented passage was deleted entirely
+      orphaned: !!row.quote && (!range || range.from === range.to),
+      replies,
+    };
+  });
+
+  if (mentioned === 'me') {
+    const userId = req.user!.id;
+    threads = threads.filter(thread =>
+      [thread, ...thread.replies].some(comment => comment.mentions.some(mention => mention.id === userId))
+    );
+  }
+
+  res.json({
+    comments: threads,
+    canResolve: PermissionService.checkPermission(documentId, req.user!.id, 'write'),
+  });
+});
+
+/**
+ * GET /api/documents/:documentId/comments/mentionable?q=
+ * Users with read access that can be @mentioned
+ */
+commentRoutes.get('/mentionable', (req: AuthRequest, res: Response) => {
+  const documentId = requirePermission(req, 'read');
+  const query = String(req.query.q || '').trim();
+
+  const candidates = getDatabase().prepare(`
+    SELECT id, username, display_name
+    FROM users
+    WHERE is_active = 1 AND (username LIKE ? OR display_name LIKE ?)
+    ORDER BY username
+    LIMIT 50
+  `).all(`${query}%`, `%${query}%`) as { id: string; username: string; display_name: string }[];
+
+  const users = candidates
+    .filter(user => PermissionService.checkPermission(documentId, user.id, 'read'))
+    .slice(0, 10);
+
+  res.json({ users });
+});
+
+/**
+ * POST /api/documents/:documentId/comments
+ * Body: { body, from?, to?, quote?, parentId? }
+ * Starts a thread anchored to [from, to) or replies to an existing thread
+ */
+commentRoutes.post('/', (req: AuthRequest, res: Response) => {
+  const documentId = requirePermission(req, 'read');
+  const data = createCommentSchema.parse(req.body);
+  const db = getDatabase();
+  const now = Date.now();
+  const commentId = randomUUID();
+
+  let parentId: string | null = null;
+  let anchor: { start: string; end: string } | null = null;
+  let quote: string | null = null;
+
+  if (data.parentId) {
+    const parent = getComment(documentId, data.parentId);
+    // Threads are one level deep: replies to replies join the root thread
+    parentId = parent.parent_id ?? parent.id;
+  } else if (data.from !== undefined) {
+    const document = db.prepare('SELECT content FROM documents WHERE id = ?').get(documentId) as { content: string };
+    const range = locateQuote(document.content, data.from, data.to ?? data.from, data.quote);
+    anchor = createTextAnchor(documentId, range.from, range.to);
+    quote = document.content.slice(range.from, range.to);
+  }
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO document_comments (
+        id, document_id, parent_id, user_id, body, anchor_start, anchor_end, quote, status, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)
+    `).run(commentId, documentId, parentId, req.user!.id, data.body, anchor?.start ?? null, anchor?.end ?? null, quote, now, now);
+
+    saveMentions(documentId, commentId, data.body);
+
+    // Replying to a resolved thread reopens it
+    if (parentId) {
+      db.prepare(`
+        UPDATE document_comments SET status = 'open', resolved_by = NULL, resolved_at = NULL, updated_at = ?
+        WHERE id = ? AND status = 'resolved'
+      `).run(now, parentId);
+    }
+  })();
+
+  const comment = db.prepare('SELECT * FROM document_comments WHERE id = ?').get(commentId);
+  res.status(201).json({ comment });
+});
+
+/**
+ * PUT /api/documents/:documentId/comments/:commentId
+ * Edit a comment (author only)
+ */
+commentRoutes.put('/:commentId', (req: AuthRequest, res: Response) => {
+  const documentId = requirePermission(req, 'read');
+  const data = updateCommentSchema.parse(req.body);
+  const db = getDatabase();
+  const comment = getComment(documentId, req.params.commentId);
+
+  if (comment.user_id !== req.user!.id) {
+    throw new AppError(403, 'Only the author can edit a comment');
+  }
+
+  db.transaction(() => {
+    db.prepare('UPDATE document_comments SET body = ?, updated_at = ? WHERE id = ?')
+      .run(data.body, Date.now(), comment.id);
+    saveMentions(documentId, comment.id, data.body);
+  })();
+
+  const updated = db.prepare('SELECT * FROM document_comments WHERE id = ?').get(comment.id);
+  res.json({ comment: updated });
+});
+
+/**
+ * POST /api/documents/:documentId/comments/:commentId/resolve
+ * POST /api/documents/:documentId/comments/:commentId/reopen
+ * Thread authors and users with write access can change the state
+ */
+for (const action of ['resolve', 'reopen'] as const) {
+  commentRoutes.post(`/:commentId/${action}`, (req: AuthRequest, res: Response) => {
+    const documentId = requirePermission(req, 'read');
+    const comment = getComment(documentId, req.params.commentId);
+
+    if (comment.parent_id) {
+      throw new AppError(400, 'Only threads can be resolved');
+    }
+
+    if (comment.user_id !== req.user!.id && !PermissionService.checkPermission(documentId, req.user!.id, 'write')) {
+      throw new AppError(403, 'Access denied');
+    }
+
+    const now = Date.now();
+    if (action === 'resolve') {
+      getDatabase().prepare(`
+        UPDATE document_comments SET status = 'resolved', resolved_by = ?, resolved_at = ?, updated_at = ? WHERE id = ?
+      `).run(req.user!.id, now, now, comment.id);
+    } else {
+      getDatabase().prepare(`
+        UPDATE document_comments SET status = 'open', resolved_by = NULL, resolved_at = NULL, updated_at = ? WHERE id = ?
+      `).run(now, comment.id);
+    }
+
+    res.json({ status: action === 'resolve' ? 'resolved' : 'open' });
+  });
+}
+
+/**
+ * DELETE /api/documents/:documentId/comments/:commentId
+ * Authors can delete their comments, users with write access any comment
+ */
+commentRoutes.delete('/:commentId', (req: AuthRequest, res: Response) => {
+  const documentId = requirePermission(req, 'read');
+  const comment = getComment(documentId, req.params.commentId);
+
+  if (comment.user_id !== req.user!.id && !PermissionService.checkPermission(documentId, req.user!.id, 'write')) {
+    throw new AppError(403, 'Access denied');
+  }
+
+  getDatabase().prepare('DELETE FROM document_comments WHERE id = ? OR parent_id = ?').run(comment.id, comment.id);
+  res.json({ success: true });
+});
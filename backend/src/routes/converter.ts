@@ -4,7 +4,7 @@ import multer from 'multer';
 import { randomUUID } from 'crypto';
 import { convertToPresentation, generateRevealHTML } from '../services/document-converter.js';
 import { getDatabase } from '../db/index.js';
-import { authMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { authMiddleware, requireRole, type AuthRequest } from '../middleware/auth.js';
 import { config } from '../config/index.js';
 import { jobQueue } from '../services/job-queue.js';
 import { indexUploadedFile } from '../services/file-indexer.js';
@@ -66,7 +66,7 @@ converterRoutes.post('/to-presentation', async (req, res) => {
  * POST /api/converter/upload
  * Upload file and convert to markdown document
  */
-converterRoutes.post('/upload', authMiddleware, upload.single('file'), async (req: AuthRequest, res) => {
+converterRoutes.post('/upload', authMiddleware, requireRole('editor'), upload.single('file'), async (req: AuthRequest, res) => {
   try {
     const file = req.file;
     const userId = req.user?.id;
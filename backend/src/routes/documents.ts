@@ -5,12 +5,25 @@ import { AppError } from '../middleware/errorHandler.js';
 import { z } from 'zod';
 import { getDocumentTitle, generateChangeSummary, detectLanguage } from '../services/document-helpers.js';
 import { randomUUID } from 'crypto';
-import { authMiddleware, optionalAuthMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { authMiddleware, optionalAuthMiddleware, requireRole, type AuthRequest } from '../middleware/auth.js';
 import { PermissionService } from '../services/permissions.js';
+import { auditContext, recordAudit } from '../services/audit.js';
+import { listSharedWithUser, recordDocumentOpen } from '../services/document-access.js';
+import { diffLines, applyHunks, mergeThreeWay, hasConflictMarkers, type DiffHunk } from '../services/document-diff.js';
 import { config } from '../config/index.js';
+import { findTag, getTagsByDocument, setDocumentTags } from '../services/tags.js';
+import {
+  getAncestors,
+  getDocumentTree,
+  moveDocument,
+  nextChildPosition,
+  reorderChildren,
+  DocumentTreeError,
+} from '../services/document-tree.js';
 
 // Import vector store services
 import { jobQueue } from '../services/job-queue.js';
+import { getEmbeddingCacheStats } from '../services/embedding-cache.js';
 
 const router = Router();
 
@@ -39,16 +52,27 @@ const updateDocumentSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+const moveDocumentSchema = z.object({
+  parentId: z.string().nullable(),
+  position: z.number().int().min(0).optional(),
+});
+
+const reorderDocumentsSchema = z.object({
+  parentId: z.string().nullable(),
+  orderedIds: z.array(z.string()).min(1),
+});
+
 /**
  * GET /api/documents/jobs
- * Get background job statistics
+ * Get background job statistics (admins only, like all job endpoints)
  */
-documentRoutes.get('/jobs', (_req, res) => {
+documentRoutes.get('/jobs', authMiddleware, requireRole('admin'), (_req, res) => {
   const stats = jobQueue.getStats();
   const recentJobs = jobQueue.getJobs().slice(-20); // Last 20 jobs
   
   return res.json({
     stats,
+    embeddingCache: getEmbeddingCacheStats(),
     recentJobs: recentJobs.map(job => ({
       id: job.id,
       type: job.type,
@@ -58,6 +82,7 @@ documentRoutes.get('/jobs', (_req, res) => {
       completedAt: job.completedAt,
       attempts: job.attempts,
       error: job.error,
+      result: job.result,
     })),
   });
 });
@@ -66,7 +91,7 @@ documentRoutes.get('/jobs', (_req, res) => {
  * GET /api/documents/jobs/:jobId
  * Get specific job status
  */
-documentRoutes.get('/jobs/:jobId', (req, res) => {
+documentRoutes.get('/jobs/:jobId', authMiddleware, requireRole('admin'), (req, res) => {
   const job = jobQueue.getJob(req.params.jobId);
   
   if (!job) {
@@ -80,7 +105,7 @@ documentRoutes.get('/jobs/:jobId', (req, res) => {
  * DELETE /api/documents/jobs/:jobId
  * Cancel a queued job
  */
-documentRoutes.delete('/jobs/:jobId', (req, res) => {
+documentRoutes.delete('/jobs/:jobId', authMiddleware, requireRole('admin'), (req, res) => {
   const cancelled = jobQueue.cancelJob(req.params.jobId);
   
   if (!cancelled) {
@@ -91,23 +116,50 @@ documentRoutes.delete('/jobs/:jobId', (req, res) => {
 });
 
 // List all documents - show only documents the user has access to
+// Optional ?tag= (id or name) restricts the list to documents with that tag
 documentRoutes.get('/', optionalAuthMiddleware, (req: AuthRequest, res) => {
   const db = getDatabase();
   const includeArchived = req.query.include_archived === 'true';
+  const conditions: string[] = [];
+  const params: string[] = [];
   
   // Filter by archived status unless explicitly requested
-  const query = includeArchived 
-    ? 'SELECT * FROM documents ORDER BY is_pinned DESC, position, created_at DESC'
-    : 'SELECT * FROM documents WHERE (is_archived IS NULL OR is_archived = 0) ORDER BY is_pinned DESC, position, created_at DESC';
+  if (!includeArchived) {
+    conditions.push('(is_archived IS NULL OR is_archived = 0)');
+  }
+  
+  if (typeof req.query.tag === 'string' && req.query.tag) {
+    const tag = findTag(req.query.tag);
+    if (!tag) {
+      res.json({ documents: [] });
+      return;
+    }
+    conditions.push('id IN (SELECT document_id FROM document_tags WHERE tag_id = ?)');
+    params.push(tag.id);
+  }
   
-  const allDocuments = db.prepare(query).all() as any[];
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const allDocuments = db.prepare(
+    `SELECT * FROM documents ${where} ORDER BY is_pinned DESC, position, created_at DESC`
+  ).all(...params) as any[];
   
   // Filter documents by permission
   const documents = allDocuments.filter(doc => 
     PermissionService.checkPermission(doc.id, req.user?.id || null, 'read')
   );
   
-  res.json({ documents });
+  const tagsByDocument = getTagsByDocument(documents.map(doc => doc.id));
+  res.json({ documents: documents.map(doc => ({ ...doc, tags: tagsByDocument.get(doc.id) || [] })) });
+});
+
+/**
+ * GET /api/documents/tree?include_archived=true
+ * Readable documents nested by parent. Documents below a parent the user
+ * cannot read are listed as roots.
+ */
+documentRoutes.get('/tree', optionalAuthMiddleware, (req: AuthRequest, res) => {
+  const tree = getDocumentTree(req.user?.id || null, req.query.include_archived === 'true');
+  res.json({ tree });
 });
 
 // Get single document - check read permission
@@ -129,15 +181,30 @@ documentRoutes.get('/:id', optionalAuthMiddleware, (req: AuthRequest, res) => {
   if (!hasPermission) {
     throw new AppError(403, 'Access denied');
   }
+
+  // Feeds the recently viewed list of documents shared with the user
+  if (req.user && (document as any).owner_id !== req.user.id) {
+    recordDocumentOpen(req.params.id, req.user.id);
+  }
   
   res.json({ document });
 });
 
 // Create document - requires authentication, set owner
-documentRoutes.post('/', authMiddleware, async (req: AuthRequest, res) => {
+documentRoutes.post('/', authMiddleware, requireRole('editor'), async (req: AuthRequest, res) => {
   const data = createDocumentSchema.parse(req.body);
   const db = getDatabase();
   
+  // Creating a child document is an edit of the parent
+  if (data.parent_id) {
+    if (!db.prepare('SELECT id FROM documents WHERE id = ?').get(data.parent_id)) {
+      throw new AppError(404, 'Parent document not found');
+    }
+    if (!PermissionService.checkPermission(data.parent_id, req.user!.id, 'write')) {
+      throw new AppError(403, 'Access denied - write permission on parent required');
+    }
+  }
+  
   // Auto-generate title if not provided
   const title = await getDocumentTitle(data.content, data.title);
   
@@ -156,9 +223,9 @@ documentRoutes.post('/', authMiddleware, async (req: AuthRequest, res) => {
   
   // Set owner to current user
   db.prepare(`
-    INSERT INTO documents (id, title, slug, content, parent_id, owner_id, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `).run(id, title, slug, data.content, data.parent_id || null, req.user!.id, now, now);
+    INSERT INTO documents (id, title, slug, content, parent_id, position, owner_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, title, slug, data.content, data.parent_id || null, nextChildPosition(data.parent_id || null), req.user!.id, now, now);
   
   // Save initial version with language-specific creation message
   const detectedLang = data.content ? detectLanguage(data.content) : 'de';
@@ -177,8 +244,10 @@ documentRoutes.post('/', authMiddleware, async (req: AuthRequest, res) => {
   
   await saveDocument(slug, data.content, `Create ${title}`);
   
-  const document = db.prepare('SELECT * FROM documents WHERE id = ?').get(id);
-  res.status(201).json({ document });
+  const tags = setDocumentTags(id, data.tags || [], req.user!.id);
+  
+  const document: any = db.prepare('SELECT * FROM documents WHERE id = ?').get(id);
+  res.status(201).json({ document: { ...document, tags } });
 });
 
 // Update document - requires write permission
@@ -225,6 +294,11 @@ documentRoutes.put('/:id', authMiddleware, async (req: AuthRequest, res) => {
     values.push(data.title);
   }
   
+  // Tags are not versioned, so they are stored even when nothing else changed
+  if (data.tags !== undefined) {
+    setDocumentTags(req.params.id, data.tags, req.user!.id);
+  }
+  
   if (updates.length === 0) {
     res.json({ document: existing });
     return;
@@ -423,6 +497,8 @@ documentRoutes.patch('/:id/archive', authMiddleware, (req: AuthRequest, res) =>
     SET is_archived = 1, archived_at = ?, updated_at = ?
     WHERE id = ?
   `).run(now, now, req.params.id);
+
+  recordAudit({ ...auditContext(req), action: 'document.archive', targetType: 'document', targetId: req.params.id, documentId: req.params.id });
   
   const updated: any = db.prepare('SELECT * FROM documents WHERE id = ?').get(req.params.id);
   res.json({ document: updated });
@@ -454,6 +530,8 @@ documentRoutes.patch('/:id/unarchive', authMiddleware, (req: AuthRequest, res) =
     SET is_archived = 0, archived_at = NULL, updated_at = ?
     WHERE id = ?
   `).run(now, req.params.id);
+
+  recordAudit({ ...auditContext(req), action: 'document.unarchive', targetType: 'document', targetId: req.params.id, documentId: req.params.id });
   
   const updated: any = db.prepare('SELECT * FROM documents WHERE id = ?').get(req.params.id);
   res.json({ document: updated });
@@ -464,7 +542,8 @@ documentRoutes.delete('/:id', authMiddleware, (req: AuthRequest, res) => {
   const db = getDatabase();
   
   // Check if document exists
-  const document = db.prepare('SELECT id FROM documents WHERE id = ?').get(req.params.id);
+  const document = db.prepare('SELECT id, title, owner_id FROM documents WHERE id = ?').get(req.params.id) as
+    { id: string; title: string; owner_id: string } | undefined;
   if (!document) {
     throw new AppError(404, 'Document not found');
   }
@@ -485,6 +564,115 @@ documentRoutes.delete('/:id', authMiddleware, (req: AuthRequest, res) => {
   if (result.changes === 0) {
     throw new AppError(404, 'Document not found');
   }
+
+  recordAudit({
+    ...auditContext(req),
+    action: 'document.delete',
+    targetType: 'document',
+    targetId: document.id,
+    documentId: document.id,
+    details: { title: document.title, ownerId: document.owner_id },
+  });
+  
+  res.json({ success: true });
+});
+
+/**
+ * GET /api/documents/:id/breadcrumbs
+ * Path from the topmost readable ancestor to the document's parent.
+ * truncated is set when ancestors above that are hidden from the user.
+ */
+documentRoutes.get('/:id/breadcrumbs', optionalAuthMiddleware, (req: AuthRequest, res) => {
+  const db = getDatabase();
+  if (!db.prepare('SELECT id FROM documents WHERE id = ?').get(req.params.id)) {
+    throw new AppError(404, 'Document not found');
+  }
+  
+  const userId = req.user?.id || null;
+  if (!PermissionService.checkPermission(req.params.id, userId, 'read')) {
+    throw new AppError(403, 'Access denied');
+  }
+  
+  // Access is inherited downwards, so the readable ancestors are the nearest ones
+  const ancestors = getAncestors(req.params.id);
+  const firstReadable = ancestors.findIndex(ancestor => PermissionService.checkPermission(ancestor.id, userId, 'read'));
+  const breadcrumbs = firstReadable === -1 ? [] : ancestors.slice(firstReadable);
+  
+  res.json({ breadcrumbs, truncated: breadcrumbs.length < ancestors.length });
+});
+
+/**
+ * POST /api/documents/:id/move
+ * Move a document below another document (parentId null = top level) at a
+ * position among its new siblings. Moving changes which parent permissions
+ * are inherited, so it requires admin permission on the document and write
+ * permission on the new parent.
+ */
+documentRoutes.post('/:id/move', authMiddleware, (req: AuthRequest, res) => {
+  const parsed = moveDocumentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+  
+  const db = getDatabase();
+  const { parentId, position } = parsed.data;
+  
+  if (!db.prepare('SELECT id FROM documents WHERE id = ?').get(req.params.id)) {
+    throw new AppError(404, 'Document not found');
+  }
+  if (!PermissionService.checkPermission(req.params.id, req.user!.id, 'admin')) {
+    throw new AppError(403, 'Access denied - admin permission required');
+  }
+  if (parentId !== null) {
+    if (!db.prepare('SELECT id FROM documents WHERE id = ?').get(parentId)) {
+      throw new AppError(404, 'Parent document not found');
+    }
+    if (!PermissionService.checkPermission(parentId, req.user!.id, 'write')) {
+      throw new AppError(403, 'Access denied - write permission on parent required');
+    }
+  }
+  
+  try {
+    moveDocument(req.params.id, parentId, position);
+  } catch (error) {
+    if (error instanceof DocumentTreeError) {
+      throw new AppError(400, error.message);
+    }
+    throw error;
+  }
+  
+  const document = db.prepare('SELECT * FROM documents WHERE id = ?').get(req.params.id);
+  res.json({ document });
+});
+
+/**
+ * POST /api/documents/reorder
+ * Reorder children of a parent (parentId null = top level). Requires write
+ * permission on the parent, or on every listed document at the top level.
+ */
+documentRoutes.post('/reorder', authMiddleware, (req: AuthRequest, res) => {
+  const parsed = reorderDocumentsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+  
+  const { parentId, orderedIds } = parsed.data;
+  const allowed = parentId !== null
+    ? PermissionService.checkPermission(parentId, req.user!.id, 'write')
+    : orderedIds.every(id => PermissionService.checkPermission(id, req.user!.id, 'write'));
+  
+  if (!allowed) {
+    throw new AppError(403, 'Access denied');
+  }
+  
+  try {
+    reorderChildren(parentId, orderedIds);
+  } catch (error) {
+    if (error instanceof DocumentTreeError) {
+      throw new AppError(400, error.message);
+    }
+    throw error;
+  }
   
   res.json({ success: true });
 });
@@ -648,34 +836,19 @@ documentRoutes.post('/:id/versions/:versionId/restore', authMiddleware, async (r
   res.json({ document: updated });
 });
 
-// Get documents accessed via share links
+/**
+ * Documents shared with the current user, through permissions or share
+ * links, most recently viewed first
+ */
 documentRoutes.get('/shared/viewed', authMiddleware, (req: AuthRequest, res) => {
-  const db = getDatabase();
-  const userId = req.user!.id;
-
-  // Get documents that the user has accessed via share links
-  const sharedDocs = db.prepare(`
-    SELECT DISTINCT 
-      d.*,
-      dal.accessed_at,
-      dal.share_id,
-      u.email as shared_by_email
-    FROM document_access_log dal
-    INNER JOIN documents d ON dal.document_id = d.id
-    LEFT JOIN users u ON d.owner_id = u.id
-    WHERE dal.user_id = ?
-      AND dal.access_type = 'share_link'
-    ORDER BY dal.accessed_at DESC
-  `).all(userId) as any[];
-
-  res.json({ documents: sharedDocs });
+  res.json({ documents: listSharedWithUser(req.user!.id) });
 });
 
 /**
  * Import a document from Markdown with frontmatter
  * Creates a read-only document linked to the source
  */
-documentRoutes.post('/import', authMiddleware, async (req: AuthRequest, res) => {
+documentRoutes.post('/import', authMiddleware, requireRole('editor'), async (req: AuthRequest, res) => {
   const { content, sourceUrl } = req.body;
   
   if (!content) {
@@ -760,7 +933,7 @@ documentRoutes.post('/import', authMiddleware, async (req: AuthRequest, res) =>
 /**
  * Fork a document (create editable copy)
  */
-documentRoutes.post('/:id/fork', authMiddleware, async (req: AuthRequest, res) => {
+documentRoutes.post('/:id/fork', authMiddleware, requireRole('editor'), async (req: AuthRequest, res) => {
   const db = getDatabase();
   const now = Date.now();
 
@@ -774,11 +947,11 @@ documentRoutes.post('/:id/fork', authMiddleware, async (req: AuthRequest, res) =
   const forkTitle = `${source.title} (Fork)`;
   const forkSlug = `${source.slug}-fork-${Date.now()}`;
 
-  // Create editable fork
+  // Create editable fork owned by the user proposing changes
   db.prepare(`
-    INSERT INTO documents (id, title, slug, content, is_readonly, source_url, created_at, updated_at)
-    VALUES (?, ?, ?, ?, 0, ?, ?, ?)
-  `).run(forkId, forkTitle, forkSlug, source.content, source.source_url, now, now);
+    INSERT INTO documents (id, title, slug, content, is_readonly, source_url, owner_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?)
+  `).run(forkId, forkTitle, forkSlug, source.content, source.source_url, req.user!.id, now, now);
 
   // Create initial version
   db.prepare(`
@@ -786,14 +959,14 @@ documentRoutes.post('/:id/fork', authMiddleware, async (req: AuthRequest, res) =
     VALUES (?, ?, 1, ?, ?, 'Geforkt', ?)
   `).run(randomUUID(), forkId, forkTitle, source.content, now);
 
-  // Create fork relationship
+  // Create fork relationship (the source content is the merge base for pull requests)
   db.prepare(`
     INSERT INTO document_relationships (
       id, source_document_id, target_document_id, relationship_type, 
-      auto_sync, status, created_at, updated_at
+      auto_sync, status, base_content, created_at, updated_at
     )
-    VALUES (?, ?, ?, 'fork', 0, 'active', ?, ?)
-  `).run(randomUUID(), req.params.id, forkId, now, now);
+    VALUES (?, ?, ?, 'fork', 0, 'active', ?, ?, ?)
+  `).run(randomUUID(), req.params.id, forkId, source.content, now, now);
 
   await saveDocument(forkSlug, source.content, `Fork ${forkTitle}`);
 
@@ -916,9 +1089,13 @@ documentRoutes.post('/:id/pull-request', authMiddleware, async (req: AuthRequest
     throw new AppError(400, 'Cannot create pull request from read-only document');
   }
 
+  if (!PermissionService.checkPermission(req.params.id, req.user!.id, 'write')) {
+    throw new AppError(403, 'Access denied');
+  }
+
   // Get fork relationship
   const forkRelationship: any = db.prepare(`
-    SELECT source_document_id 
+    SELECT source_document_id, base_content
     FROM document_relationships 
     WHERE target_document_id = ? AND relationship_type = 'fork'
   `).get(req.params.id);
@@ -927,14 +1104,37 @@ documentRoutes.post('/:id/pull-request', authMiddleware, async (req: AuthRequest
     throw new AppError(404, 'This is not a forked document');
   }
 
-  const source: any = db.prepare('SELECT * FROM documents WHERE id = ?').get(forkRelationship.source_document_id);
+  // Snapshot the merge base and the proposed content; hunks are derived from these
+  const base = getForkMergeBase(req.params.id, forkRelationship);
+  if (base === fork.content) {
+    throw new AppError(400, 'Fork has no changes to propose');
+  }
 
-  // Simple diff: just store both contents
   const diff = JSON.stringify({
-    source: source.content,
+    base,
     fork: fork.content
   });
 
+  // An open pull request from this fork is updated instead of opening a second one
+  const openPullRequest: any = db.prepare(`
+    SELECT id FROM document_relationships
+    WHERE target_document_id = ? AND relationship_type = 'pull_request'
+      AND status IN ('pending', 'changes_requested')
+  `).get(req.params.id);
+
+  if (openPullRequest) {
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE document_relationships
+        SET pull_request_diff = ?, status = 'pending', updated_at = ?
+        WHERE id = ?
+      `).run(diff, now, openPullRequest.id);
+      recordPullRequestEvent(openPullRequest.id, req.user!.id, 'updated', message || null);
+    })();
+
+    return res.json({ pullRequestId: openPullRequest.id, status: 'pending', updated: true });
+  }
+
   const prId = randomUUID();
 
   // Create pull request relationship
@@ -946,7 +1146,7 @@ documentRoutes.post('/:id/pull-request', authMiddleware, async (req: AuthRequest
     VALUES (?, ?, ?, 'pull_request', 0, 'pending', ?, ?, ?, ?)
   `).run(prId, forkRelationship.source_document_id, req.params.id, diff, message, now, now);
 
-  res.json({ pullRequestId: prId, status: 'pending' });
+  return res.json({ pullRequestId: prId, status: 'pending' });
 });
 
 /**
@@ -956,7 +1156,8 @@ documentRoutes.get('/:id/pull-requests', authMiddleware, async (req: AuthRequest
   const db = getDatabase();
 
   const pullRequests = db.prepare(`
-    SELECT dr.*, d.title as fork_title, d.slug as fork_slug
+    SELECT dr.*, d.title as fork_title, d.slug as fork_slug,
+           (SELECT COUNT(*) FROM pull_request_comments c WHERE c.pull_request_id = dr.id) as comment_count
     FROM document_relationships dr
     INNER JOIN documents d ON dr.target_document_id = d.id
     WHERE dr.source_document_id = ? AND dr.relationship_type = 'pull_request'
@@ -967,29 +1168,187 @@ documentRoutes.get('/:id/pull-requests', authMiddleware, async (req: AuthRequest
 });
 
 /**
- * Accept pull request
+ * Resolve the merge base of a fork. Forks created before merge bases were
+ * recorded fall back to their first version, which holds the forked content.
  */
-documentRoutes.post('/pull-requests/:prId/accept', authMiddleware, async (req: AuthRequest, res) => {
+function getForkMergeBase(forkId: string, relationship: { base_content: string | null }): string {
+  if (relationship.base_content !== null && relationship.base_content !== undefined) {
+    return relationship.base_content;
+  }
+
+  const firstVersion: any = getDatabase().prepare(`
+    SELECT content FROM document_versions WHERE document_id = ? ORDER BY version ASC LIMIT 1
+  `).get(forkId);
+
+  return firstVersion?.content ?? '';
+}
+
+/**
+ * Parse the stored pull request snapshot. Older pull requests stored the
+ * source content instead of a merge base, which is the best base available.
+ */
+function parsePullRequestDiff(pr: any): { base: string; fork: string; hunks: DiffHunk[] } {
+  const stored = JSON.parse(pr.pull_request_diff || '{}');
+  const base: string = stored.base ?? stored.source ?? '';
+  const fork: string = stored.fork ?? '';
+  return { base, fork, hunks: diffLines(base, fork) };
+}
+
+function getPullRequestForReview(prId: string, userId: string): { pr: any; source: any } {
   const db = getDatabase();
-  const now = Date.now();
 
   const pr: any = db.prepare(`
     SELECT * FROM document_relationships WHERE id = ? AND relationship_type = 'pull_request'
-  `).get(req.params.prId);
+  `).get(prId);
 
   if (!pr) {
     throw new AppError(404, 'Pull request not found');
   }
 
-  if (pr.status !== 'pending') {
-    throw new AppError(400, 'Pull request already processed');
+  if (!PermissionService.checkPermission(pr.source_document_id, userId, 'write')) {
+    throw new AppError(403, 'Access denied');
   }
 
-  // Parse diff
-  const diff = JSON.parse(pr.pull_request_diff);
-  
-  // Get source document
   const source: any = db.prepare('SELECT * FROM documents WHERE id = ?').get(pr.source_document_id);
+  if (!source) {
+    throw new AppError(404, 'Document not found');
+  }
+
+  return { pr, source };
+}
+
+/**
+ * Load a pull request for discussion: readers of the source document and the
+ * owner of the fork may view and comment
+ */
+function getPullRequestForDiscussion(prId: string, userId: string): { pr: any; source: any } {
+  const db = getDatabase();
+
+  const pr: any = db.prepare(`
+    SELECT dr.*, d.owner_id as fork_owner_id
+    FROM document_relationships dr
+    INNER JOIN documents d ON dr.target_document_id = d.id
+    WHERE dr.id = ? AND dr.relationship_type = 'pull_request'
+  `).get(prId);
+
+  if (!pr) {
+    throw new AppError(404, 'Pull request not found');
+  }
+
+  if (pr.fork_owner_id !== userId && !PermissionService.checkPermission(pr.source_document_id, userId, 'read')) {
+    throw new AppError(403, 'Access denied');
+  }
+
+  const source: any = db.prepare('SELECT * FROM documents WHERE id = ?').get(pr.source_document_id);
+  return { pr, source };
+}
+
+type PullRequestEventType = 'updated' | 'changes_requested' | 'merged' | 'rejected';
+
+function recordPullRequestEvent(prId: string, userId: string, type: PullRequestEventType, message: string | null): void {
+  getDatabase().prepare(`
+    INSERT INTO pull_request_events (id, pull_request_id, user_id, event_type, message, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(randomUUID(), prId, userId, type, message, Date.now());
+}
+
+const OPEN_PULL_REQUEST_STATUSES = ['pending', 'changes_requested'];
+
+const MERGE_LABELS = { ours: 'Original', theirs: 'Fork' };
+
+const reviewMessageSchema = z.object({
+  message: z.string().max(10000).optional(),
+});
+
+const createCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+  hunkId: z.string().optional(),
+  parentId: z.string().optional(),
+});
+
+const updateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+});
+
+const acceptPullRequestSchema = z.object({
+  hunkIds: z.array(z.string()).optional(),
+  resolvedContent: z.string().optional(),
+});
+
+/**
+ * Get the hunks of a pull request and a preview of merging all of them
+ * into the current source content
+ */
+documentRoutes.get('/pull-requests/:prId/diff', authMiddleware, (req: AuthRequest, res) => {
+  const { pr, source } = getPullRequestForReview(req.params.prId, req.user!.id);
+  const { base, fork, hunks } = parsePullRequestDiff(pr);
+  const merge = mergeThreeWay(base, source.content, fork, MERGE_LABELS);
+
+  // Flag hunks that collide with upstream edits made since the fork
+  const conflictingHunkIds = hunks
+    .filter(hunk => merge.conflicts.some(conflict =>
+      hunk.baseStart <= conflict.baseStart + conflict.baseLength &&
+      conflict.baseStart <= hunk.baseStart + hunk.baseLength
+    ))
+    .map(hunk => hunk.id);
+
+  res.json({
+    hunks,
+    conflictingHunkIds,
+    sourceChanged: base !== source.content,
+    merge,
+  });
+});
+
+/**
+ * Accept pull request
+ * Body: { hunkIds?: string[], resolvedContent?: string }
+ * Merges the selected hunks (all by default) three-way into the current
+ * source. Conflicts are answered with 409 and the merged content including
+ * conflict markers, which can be resolved and sent back as resolvedContent.
+ */
+documentRoutes.post('/pull-requests/:prId/accept', authMiddleware, async (req: AuthRequest, res) => {
+  const { hunkIds, resolvedContent } = acceptPullRequestSchema.parse(req.body ?? {});
+  const db = getDatabase();
+  const now = Date.now();
+
+  const { pr, source } = getPullRequestForReview(req.params.prId, req.user!.id);
+
+  if (!OPEN_PULL_REQUEST_STATUSES.includes(pr.status)) {
+    throw new AppError(400, 'Pull request already processed');
+  }
+
+  const { base, hunks } = parsePullRequestDiff(pr);
+  const selectedIds = hunkIds ?? hunks.map(hunk => hunk.id);
+  const unknownIds = selectedIds.filter(id => !hunks.some(hunk => hunk.id === id));
+
+  if (unknownIds.length > 0) {
+    throw new AppError(400, `Unknown hunks: ${unknownIds.join(', ')}`);
+  }
+  if (selectedIds.length === 0) {
+    throw new AppError(400, 'No hunks selected');
+  }
+
+  // The fork content restricted to the accepted hunks, merged into the current source
+  const accepted = applyHunks(base, hunks, selectedIds);
+  const merge = mergeThreeWay(base, source.content, accepted, MERGE_LABELS);
+
+  let mergedContent = merge.content;
+  if (resolvedContent !== undefined) {
+    if (hasConflictMarkers(resolvedContent)) {
+      throw new AppError(400, 'Resolved content still contains conflict markers');
+    }
+    mergedContent = resolvedContent;
+  } else if (merge.hasConflicts) {
+    return res.status(409).json({
+      status: 'error',
+      message: 'Merge conflicts must be resolved',
+      conflicts: merge.conflicts,
+      content: merge.content,
+    });
+  }
+
+  const partial = selectedIds.length < hunks.length;
 
   // Get latest version number
   const lastVersion: any = db.prepare(`
@@ -1002,37 +1361,62 @@ documentRoutes.post('/pull-requests/:prId/accept', authMiddleware, async (req: A
   
   const nextVersion = lastVersion ? lastVersion.version + 1 : 1;
 
-  // Update source document with fork content
-  db.prepare(`
-    UPDATE documents 
-    SET content = ?, updated_at = ?
-    WHERE id = ?
-  `).run(diff.fork, now, pr.source_document_id);
+  db.transaction(() => {
+    // Update source document with merged content
+    db.prepare(`
+      UPDATE documents 
+      SET content = ?, updated_at = ?, last_edited_by = ?
+      WHERE id = ?
+    `).run(mergedContent, now, req.user!.id, pr.source_document_id);
 
-  // Create new version
-  db.prepare(`
-    INSERT INTO document_versions (id, document_id, version, title, content, change_summary, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(
-    randomUUID(), 
-    pr.source_document_id, 
-    nextVersion, 
-    source.title, 
-    diff.fork, 
-    `Pull Request akzeptiert: ${pr.pull_request_message || 'Änderungen übernommen'}`, 
-    now
-  );
+    // Create new version
+    db.prepare(`
+      INSERT INTO document_versions (id, document_id, version, title, content, change_summary, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      randomUUID(), 
+      pr.source_document_id, 
+      nextVersion, 
+      source.title, 
+      mergedContent, 
+      `Pull Request ${partial ? 'teilweise ' : ''}akzeptiert: ${pr.pull_request_message || 'Änderungen übernommen'}`, 
+      now
+    );
+
+    // Mark PR as merged and remember which hunks made it in
+    db.prepare(`
+      UPDATE document_relationships 
+      SET status = 'merged', pull_request_diff = ?, updated_at = ?
+      WHERE id = ?
+    `).run(JSON.stringify({ ...JSON.parse(pr.pull_request_diff), acceptedHunks: selectedIds }), now, req.params.prId);
 
-  // Mark PR as merged
-  db.prepare(`
-    UPDATE document_relationships 
-    SET status = 'merged', updated_at = ?
-    WHERE id = ?
-  `).run(now, req.params.prId);
+    // The accepted changes are now shared history; rejected hunks show up again in the next pull request
+    db.prepare(`
+      UPDATE document_relationships 
+      SET base_content = ?, updated_at = ?
+      WHERE source_document_id = ? AND target_document_id = ? AND relationship_type = 'fork'
+    `).run(accepted, now, pr.source_document_id, pr.target_document_id);
+
+    recordPullRequestEvent(
+      pr.id,
+      req.user!.id,
+      'merged',
+      partial ? `${selectedIds.length} von ${hunks.length} Änderungen übernommen` : null
+    );
+  })();
+
+  recordAudit({
+    ...auditContext(req),
+    action: 'pull_request.merge',
+    targetType: 'pull_request',
+    targetId: pr.id,
+    documentId: pr.source_document_id,
+    details: { forkId: pr.target_document_id, acceptedHunks: selectedIds.length, totalHunks: hunks.length },
+  });
 
-  await saveDocument(source.slug, diff.fork, `Merge PR: ${pr.pull_request_message || 'Changes from fork'}`);
+  await saveDocument(source.slug, mergedContent, `Merge PR: ${pr.pull_request_message || 'Changes from fork'}`);
 
-  res.json({ status: 'merged' });
+  return res.json({ status: 'merged', acceptedHunks: selectedIds.length, totalHunks: hunks.length });
 });
 
 /**
@@ -1042,26 +1426,209 @@ documentRoutes.post('/pull-requests/:prId/reject', authMiddleware, async (req: A
   const db = getDatabase();
   const now = Date.now();
 
-  const pr: any = db.prepare(`
-    SELECT * FROM document_relationships WHERE id = ? AND relationship_type = 'pull_request'
-  `).get(req.params.prId);
+  const { pr } = getPullRequestForReview(req.params.prId, req.user!.id);
+  const { message } = reviewMessageSchema.parse(req.body ?? {});
 
-  if (!pr) {
-    throw new AppError(404, 'Pull request not found');
+  if (!OPEN_PULL_REQUEST_STATUSES.includes(pr.status)) {
+    throw new AppError(400, 'Pull request already processed');
   }
 
-  if (pr.status !== 'pending') {
+  // Mark PR as rejected
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE document_relationships 
+      SET status = 'rejected', updated_at = ?
+      WHERE id = ?
+    `).run(now, req.params.prId);
+    recordPullRequestEvent(pr.id, req.user!.id, 'rejected', message || null);
+  })();
+
+  res.json({ status: 'rejected' });
+});
+
+/**
+ * Request changes on a pull request
+ * Body: { message?: string }
+ */
+documentRoutes.post('/pull-requests/:prId/request-changes', authMiddleware, (req: AuthRequest, res) => {
+  const db = getDatabase();
+  const { message } = reviewMessageSchema.parse(req.body ?? {});
+  const { pr } = getPullRequestForReview(req.params.prId, req.user!.id);
+
+  if (!OPEN_PULL_REQUEST_STATUSES.includes(pr.status)) {
     throw new AppError(400, 'Pull request already processed');
   }
 
-  // Mark PR as rejected
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE document_relationships 
+      SET status = 'changes_requested', updated_at = ?
+      WHERE id = ?
+    `).run(Date.now(), pr.id);
+    recordPullRequestEvent(pr.id, req.user!.id, 'changes_requested', message || null);
+  })();
+
+  res.json({ status: 'changes_requested' });
+});
+
+/**
+ * Get review comments of a pull request as threads
+ * Comments anchored to hunks that are no longer part of the diff are flagged as outdated.
+ */
+documentRoutes.get('/pull-requests/:prId/comments', authMiddleware, (req: AuthRequest, res) => {
+  const db = getDatabase();
+  const { pr } = getPullRequestForDiscussion(req.params.prId, req.user!.id);
+  const hunkIds = new Set(parsePullRequestDiff(pr).hunks.map(hunk => hunk.id));
+
+  const comments = db.prepare(`
+    SELECT c.id, c.parent_id, c.hunk_id, c.body, c.created_at, c.updated_at,
+           c.user_id, u.username, u.display_name
+    FROM pull_request_comments c
+    LEFT JOIN users u ON c.user_id = u.id
+    WHERE c.pull_request_id = ?
+    ORDER BY c.created_at ASC
+  `).all(pr.id) as any[];
+
+  const threads = comments
+    .filter(comment => !comment.parent_id)
+    .map(comment => ({
+      ...comment,
+      outdated: comment.hunk_id !== null && !hunkIds.has(comment.hunk_id),
+      replies: comments.filter(reply => reply.parent_id === comment.id),
+    }));
+
+  res.json({ threads });
+});
+
+/**
+ * Add a review comment or reply
+ * Body: { body: string, hunkId?: string, parentId?: string }
+ */
+documentRoutes.post('/pull-requests/:prId/comments', authMiddleware, (req: AuthRequest, res) => {
+  const data = createCommentSchema.parse(req.body);
+  const db = getDatabase();
+  const now = Date.now();
+  const { pr } = getPullRequestForDiscussion(req.params.prId, req.user!.id);
+
+  let parentId: string | null = null;
+  let hunkId = data.hunkId ?? null;
+
+  if (data.parentId) {
+    const parent: any = db.prepare(`
+      SELECT id, parent_id, hunk_id FROM pull_request_comments WHERE id = ? AND pull_request_id = ?
+    `).get(data.parentId, pr.id);
+
+    if (!parent) {
+      throw new AppError(404, 'Comment not found');
+    }
+
+    // Threads are one level deep: replies to replies join the root thread
+    parentId = parent.parent_id ?? parent.id;
+    hunkId = parent.hunk_id;
+  } else if (hunkId && !parsePullRequestDiff(pr).hunks.some(hunk => hunk.id === hunkId)) {
+    throw new AppError(400, 'Unknown hunk');
+  }
+
+  const commentId = randomUUID();
   db.prepare(`
-    UPDATE document_relationships 
-    SET status = 'rejected', updated_at = ?
-    WHERE id = ?
-  `).run(now, req.params.prId);
+    INSERT INTO pull_request_comments (id, pull_request_id, parent_id, user_id, hunk_id, body, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(commentId, pr.id, parentId, req.user!.id, hunkId, data.body, now, now);
 
-  res.json({ status: 'rejected' });
+  const comment = db.prepare('SELECT * FROM pull_request_comments WHERE id = ?').get(commentId);
+  res.status(201).json({ comment });
+});
+
+/**
+ * Edit a review comment (author only)
+ */
+documentRoutes.put('/pull-requests/:prId/comments/:commentId', authMiddleware, (req: AuthRequest, res) => {
+  const data = updateCommentSchema.parse(req.body);
+  const db = getDatabase();
+  const { pr } = getPullRequestForDiscussion(req.params.prId, req.user!.id);
+
+  const comment: any = db.prepare(`
+    SELECT * FROM pull_request_comments WHERE id = ? AND pull_request_id = ?
+  `).get(req.params.commentId, pr.id);
+
+  if (!comment) {
+    throw new AppError(404, 'Comment not found');
+  }
+
+  if (comment.user_id !== req.user!.id) {
+    throw new AppError(403, 'Only the author can edit a comment');
+  }
+
+  db.prepare('UPDATE pull_request_comments SET body = ?, updated_at = ? WHERE id = ?')
+    .run(data.body, Date.now(), comment.id);
+
+  const updated = db.prepare('SELECT * FROM pull_request_comments WHERE id = ?').get(comment.id);
+  res.json({ comment: updated });
+});
+
+/**
+ * Delete a review comment and its replies (author or reviewer)
+ */
+documentRoutes.delete('/pull-requests/:prId/comments/:commentId', authMiddleware, (req: AuthRequest, res) => {
+  const db = getDatabase();
+  const { pr } = getPullRequestForDiscussion(req.params.prId, req.user!.id);
+
+  const comment: any = db.prepare(`
+    SELECT * FROM pull_request_comments WHERE id = ? AND pull_request_id = ?
+  `).get(req.params.commentId, pr.id);
+
+  if (!comment) {
+    throw new AppError(404, 'Comment not found');
+  }
+
+  const isReviewer = PermissionService.checkPermission(pr.source_document_id, req.user!.id, 'write');
+  if (comment.user_id !== req.user!.id && !isReviewer) {
+    throw new AppError(403, 'Access denied');
+  }
+
+  db.prepare('DELETE FROM pull_request_comments WHERE id = ? OR parent_id = ?').run(comment.id, comment.id);
+  res.json({ success: true });
+});
+
+/**
+ * Get the timeline of a pull request: opening, updates, review decisions and comments
+ */
+documentRoutes.get('/pull-requests/:prId/timeline', authMiddleware, (req: AuthRequest, res) => {
+  const db = getDatabase();
+  const { pr } = getPullRequestForDiscussion(req.params.prId, req.user!.id);
+
+  const author: any = db.prepare('SELECT id, username, display_name FROM users WHERE id = ?').get(pr.fork_owner_id);
+
+  const events = db.prepare(`
+    SELECT e.id, e.event_type as type, e.message, e.created_at, e.user_id, u.username, u.display_name
+    FROM pull_request_events e
+    LEFT JOIN users u ON e.user_id = u.id
+    WHERE e.pull_request_id = ?
+  `).all(pr.id) as any[];
+
+  const comments = db.prepare(`
+    SELECT c.id, 'comment' as type, c.body as message, c.hunk_id, c.parent_id, c.created_at,
+           c.user_id, u.username, u.display_name
+    FROM pull_request_comments c
+    LEFT JOIN users u ON c.user_id = u.id
+    WHERE c.pull_request_id = ?
+  `).all(pr.id) as any[];
+
+  const timeline = [
+    {
+      id: pr.id,
+      type: 'opened',
+      message: pr.pull_request_message,
+      created_at: pr.created_at,
+      user_id: author?.id ?? null,
+      username: author?.username ?? null,
+      display_name: author?.display_name ?? null,
+    },
+    ...events,
+    ...comments,
+  ].sort((a, b) => a.created_at - b.created_at);
+
+  res.json({ status: pr.status, timeline });
 });
 
 /**
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { getDatabase } from '../db/index.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { optionalAuthMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { PermissionService } from '../services/permissions.js';
+import { getSubtree, type SubtreeDocument } from '../services/document-tree.js';
 import { z } from 'zod';
 
 export const exportRoutes = Router();
@@ -14,16 +17,29 @@ const exportSchema = z.object({
   }).optional(),
 });
 
-// Export document
-exportRoutes.post('/', async (req, res) => {
+// Export document, with includeChildren the whole readable subtree as one file
+exportRoutes.post('/', optionalAuthMiddleware, async (req: AuthRequest, res) => {
   const data = exportSchema.parse(req.body);
   const db = getDatabase();
   
-  const document = db.prepare('SELECT * FROM documents WHERE id = ?').get(data.documentId) as any;
+  let document = db.prepare('SELECT * FROM documents WHERE id = ?').get(data.documentId) as any;
   if (!document) {
     throw new AppError(404, 'Document not found');
   }
   
+  if (!PermissionService.checkPermission(data.documentId, req.user?.id || null, 'read')) {
+    throw new AppError(403, 'Access denied');
+  }
+  
+  if (data.options?.includeChildren) {
+    const subtree = getSubtree(data.documentId, req.user?.id || null);
+    document = {
+      ...document,
+      slug: subtree.length > 1 ? `${document.slug}-bundle` : document.slug,
+      content: bundleSubtree(subtree),
+    };
+  }
+  
   switch (data.format) {
     case 'markdown':
       res.setHeader('Content-Type', 'text/markdown');
@@ -54,6 +70,35 @@ exportRoutes.post('/', async (req, res) => {
   }
 });
 
+/**
+ * Join a subtree into one markdown document. Headings of each document are
+ * shifted by its depth so children nest below their parent's title.
+ */
+function bundleSubtree(documents: SubtreeDocument[]): string {
+  return documents
+    .map(doc => {
+      const content = shiftHeadings(doc.content, doc.depth);
+      // Documents without a heading get their title as one
+      return /^#{1,6} /m.test(doc.content)
+        ? content
+        : `${'#'.repeat(Math.min(doc.depth + 1, 6))} ${doc.title}\n\n${content}`;
+    })
+    .join('\n\n');
+}
+
+function shiftHeadings(content: string, levels: number): string {
+  if (levels === 0) return content;
+  let inFence = false;
+  return content
+    .split('\n')
+    .map(line => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return line;
+      return line.replace(/^(#{1,6})(?= )/, hashes => '#'.repeat(Math.min(hashes.length + levels, 6)));
+    })
+    .join('\n');
+}
+
 function generateRevealJS(document: any, options?: any) {
   const theme = options?.theme || 'black';
   
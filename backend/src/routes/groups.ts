@@ -0,0 +1,255 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { getDatabase } from '../db/index.js';
+import type { GroupRole } from '../db/schema.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { authMiddleware, requireSession, type AuthRequest } from '../middleware/auth.js';
+import {
+  createGroup,
+  deleteGroup,
+  getGroup,
+  getGroupRole,
+  hasGroupRole,
+  isSystemGroup,
+  listGroupMembers,
+  listGroups,
+  removeGroupMember,
+  setGroupMember,
+  updateGroup,
+  GROUP_ROLES,
+  GroupConflictError,
+  GroupMembershipError,
+  GroupNotFoundError,
+} from '../services/groups.js';
+
+/**
+ * Groups
+ *
+ * Anyone signed in can create a group and becomes its owner. Admins edit the
+ * group and manage plain members; owners also delete the group and decide
+ * who is admin or owner. Every member may leave, except the last owner.
+ */
+export const groupRoutes = Router();
+
+groupRoutes.use(authMiddleware);
+
+const roleSchema = z.enum(GROUP_ROLES as [GroupRole, ...GroupRole[]]);
+
+// Leading underscores are reserved for system groups
+const nameSchema = z.string().trim().min(1).max(100).regex(/^[^_]/, 'Group names must not start with "_"');
+
+const createGroupSchema = z.object({
+  name: nameSchema,
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const updateGroupSchema = z.object({
+  name: nameSchema.optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const addMemberSchema = z.object({
+  // User id, username or email
+  user: z.string().trim().min(1, 'user is required'),
+  role: roleSchema.default('member'),
+});
+
+const updateMemberSchema = z.object({
+  role: roleSchema,
+});
+
+function mapGroupError(error: unknown): never {
+  if (error instanceof GroupNotFoundError) {
+    throw new AppError(404, 'Group not found');
+  }
+  if (error instanceof GroupConflictError) {
+    throw new AppError(409, error.message);
+  }
+  if (error instanceof GroupMembershipError) {
+    throw new AppError(400, error.message);
+  }
+  throw error;
+}
+
+/**
+ * Resolve the group of the request and check the caller's role in it
+ */
+function requireGroupRole(req: AuthRequest, required: GroupRole): { groupId: string; role: GroupRole | null } {
+  const group = getGroup(req.params.id);
+  if (!group) {
+    throw new AppError(404, 'Group not found');
+  }
+  if (isSystemGroup(group.id)) {
+    throw new AppError(403, 'System groups cannot be changed');
+  }
+
+  const role = getGroupRole(group.id, req.user!.id);
+  if (!hasGroupRole(role, required)) {
+    throw new AppError(403, `Only group ${required}s can do this`);
+  }
+  return { groupId: group.id, role };
+}
+
+/**
+ * Admins manage plain members, anything involving admins or owners is up
+ * to an owner
+ */
+function requireRoleChangeAllowed(callerRole: GroupRole | null, ...roles: Array<GroupRole | null>): void {
+  if (roles.some(role => role !== null && role !== 'member') && callerRole !== 'owner') {
+    throw new AppError(403, 'Only group owners can manage admins and owners');
+  }
+}
+
+/**
+ * GET /api/groups?mine=true
+ * All groups with member count and the caller's role
+ */
+groupRoutes.get('/', (req: AuthRequest, res: Response) => {
+  res.json({ groups: listGroups(req.user!.id, { mine: req.query.mine === 'true' }) });
+});
+
+/**
+ * POST /api/groups
+ */
+groupRoutes.post('/', requireSession, (req: AuthRequest, res: Response) => {
+  const parsed = createGroupSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  try {
+    const group = createGroup(parsed.data.name, parsed.data.description ?? null, req.user!.id);
+    res.status(201).json({ group });
+  } catch (error) {
+    mapGroupError(error);
+  }
+});
+
+/**
+ * GET /api/groups/:id
+ * The group and, for its members, the member list
+ */
+groupRoutes.get('/:id', (req: AuthRequest, res: Response) => {
+  const group = getGroup(req.params.id);
+  if (!group) {
+    throw new AppError(404, 'Group not found');
+  }
+
+  const role = getGroupRole(group.id, req.user!.id);
+  const system = isSystemGroup(group.id);
+  res.json({
+    group: { ...group, role, is_system: system },
+    members: role !== null && !system ? listGroupMembers(group.id) : null,
+  });
+});
+
+/**
+ * PUT /api/groups/:id
+ */
+groupRoutes.put('/:id', requireSession, (req: AuthRequest, res: Response) => {
+  const parsed = updateGroupSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { groupId } = requireGroupRole(req, 'admin');
+  try {
+    res.json({ group: updateGroup(groupId, parsed.data) });
+  } catch (error) {
+    mapGroupError(error);
+  }
+});
+
+/**
+ * DELETE /api/groups/:id
+ * Also removes all document permissions granted to the group
+ */
+groupRoutes.delete('/:id', requireSession, (req: AuthRequest, res: Response) => {
+  const { groupId } = requireGroupRole(req, 'owner');
+  try {
+    deleteGroup(groupId);
+    res.json({ success: true });
+  } catch (error) {
+    mapGroupError(error);
+  }
+});
+
+/**
+ * POST /api/groups/:id/members
+ * Add a user, given by id, username or email
+ */
+groupRoutes.post('/:id/members', requireSession, (req: AuthRequest, res: Response) => {
+  const parsed = addMemberSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { groupId, role: callerRole } = requireGroupRole(req, 'admin');
+  requireRoleChangeAllowed(callerRole, parsed.data.role);
+
+  const user = getDatabase().prepare(
+    'SELECT id FROM users WHERE id = ? OR username = ? OR LOWER(email) = LOWER(?)'
+  ).get(parsed.data.user, parsed.data.user, parsed.data.user) as { id: string } | undefined;
+  if (!user) {
+    throw new AppError(404, 'User not found');
+  }
+  if (getGroupRole(groupId, user.id) !== null) {
+    throw new AppError(409, 'User is already a member of this group');
+  }
+
+  try {
+    setGroupMember(groupId, user.id, parsed.data.role);
+    res.status(201).json({ members: listGroupMembers(groupId) });
+  } catch (error) {
+    mapGroupError(error);
+  }
+});
+
+/**
+ * PUT /api/groups/:id/members/:userId
+ * Change a member's role
+ */
+groupRoutes.put('/:id/members/:userId', requireSession, (req: AuthRequest, res: Response) => {
+  const parsed = updateMemberSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { groupId, role: callerRole } = requireGroupRole(req, 'admin');
+  const currentRole = getGroupRole(groupId, req.params.userId);
+  if (currentRole === null) {
+    throw new AppError(404, 'User is not a member of this group');
+  }
+  requireRoleChangeAllowed(callerRole, currentRole, parsed.data.role);
+
+  try {
+    setGroupMember(groupId, req.params.userId, parsed.data.role);
+    res.json({ members: listGroupMembers(groupId) });
+  } catch (error) {
+    mapGroupError(error);
+  }
+});
+
+/**
+ * DELETE /api/groups/:id/members/:userId
+ * Remove a member; "me" leaves the group
+ */
+groupRoutes.delete('/:id/members/:userId', requireSession, (req: AuthRequest, res: Response) => {
+  const userId = req.params.userId === 'me' ? req.user!.id : req.params.userId;
+  const { groupId, role: callerRole } = requireGroupRole(req, userId === req.user!.id ? 'member' : 'admin');
+
+  const currentRole = getGroupRole(groupId, userId);
+  if (currentRole === null) {
+    throw new AppError(404, 'User is not a member of this group');
+  }
+  if (userId !== req.user!.id) {
+    requireRoleChangeAllowed(callerRole, currentRole);
+  }
+
+  try {
+    removeGroupMember(groupId, userId);
+    res.json({ success: true });
+  } catch (error) {
+    mapGroupError(error);
+  }
+});
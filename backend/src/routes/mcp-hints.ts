@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import { randomUUID } from 'crypto';
 import { getDatabase, MCPToolHint } from '../db/index.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
+// Hints steer the AI for every user, so only admins manage them
+router.use(authMiddleware, requireRole('admin'));
+
 // GET all hints
 router.get('/', (_req, res) => {
   try {
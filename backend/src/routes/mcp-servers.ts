@@ -11,9 +11,14 @@ import {
 } from '../services/mcp-registry.js';
 import { invalidateMCPManager } from '../services/mcp-manager.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { authMiddleware, requireRole, type AuthRequest } from '../middleware/auth.js';
+import { auditContext, recordAudit } from '../services/audit.js';
 
 export const mcpServerRoutes = Router();
 
+// Server entries decide which endpoints the backend talks to
+mcpServerRoutes.use(authMiddleware, requireRole('admin'));
+
 const baseSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
@@ -40,15 +45,22 @@ mcpServerRoutes.get('/', (_req, res) => {
   res.json({ servers });
 });
 
-mcpServerRoutes.post('/', (req, res) => {
+mcpServerRoutes.post('/', (req: AuthRequest, res) => {
   ensureMcpEnabled();
   const payload = baseSchema.parse(req.body);
   const record = upsertMcpServer(payload);
   invalidateMCPManager();
+  recordAudit({
+    ...auditContext(req),
+    action: 'mcp_server.create',
+    targetType: 'mcp_server',
+    targetId: payload.id,
+    details: { name: payload.name, url: payload.url },
+  });
   res.status(201).json({ server: record });
 });
 
-mcpServerRoutes.put('/:id', (req, res) => {
+mcpServerRoutes.put('/:id', (req: AuthRequest, res) => {
   ensureMcpEnabled();
   const { id } = z.object({ id: z.string().min(1) }).parse(req.params);
   if (!findMcpServerById(id)) {
@@ -66,10 +78,17 @@ mcpServerRoutes.put('/:id', (req, res) => {
     record = findMcpServerById(id)!;
   }
   invalidateMCPManager();
+  recordAudit({
+    ...auditContext(req),
+    action: 'mcp_server.update',
+    targetType: 'mcp_server',
+    targetId: id,
+    details: { fields: Object.keys(payload) },
+  });
   res.json({ server: record });
 });
 
-mcpServerRoutes.post('/:id/default', (req, res) => {
+mcpServerRoutes.post('/:id/default', (req: AuthRequest, res) => {
   ensureMcpEnabled();
   const { id } = z.object({ id: z.string().min(1) }).parse(req.params);
   if (!findMcpServerById(id)) {
@@ -78,11 +97,12 @@ mcpServerRoutes.post('/:id/default', (req, res) => {
 
   setDefaultMcpServer(id);
   invalidateMCPManager();
+  recordAudit({ ...auditContext(req), action: 'mcp_server.set_default', targetType: 'mcp_server', targetId: id });
   const record = findMcpServerById(id)!;
   res.json({ server: record });
 });
 
-mcpServerRoutes.delete('/:id', (req, res) => {
+mcpServerRoutes.delete('/:id', (req: AuthRequest, res) => {
   ensureMcpEnabled();
   const { id } = z.object({ id: z.string().min(1) }).parse(req.params);
   if (!findMcpServerById(id)) {
@@ -92,5 +112,6 @@ mcpServerRoutes.delete('/:id', (req, res) => {
 
   deleteMcpServer(id);
   invalidateMCPManager();
+  recordAudit({ ...auditContext(req), action: 'mcp_server.delete', targetType: 'mcp_server', targetId: id });
   res.status(204).end();
 });
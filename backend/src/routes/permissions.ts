@@ -1,6 +1,8 @@
 import { Router, type Response } from 'express';
-import { PermissionService, type PermissionLevel } from '../services/permissions.js';
-import { authMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { PermissionService, type PermissionEffect, type PermissionLevel } from '../services/permissions.js';
+import { authMiddleware, requireSession, type AuthRequest } from '../middleware/auth.js';
+import { getDatabase } from '../db/index.js';
+import { auditContext } from '../services/audit.js';
 
 const router = Router();
 
@@ -31,14 +33,57 @@ router.get('/:documentId', (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/permissions/:documentId/effective/:userId
+ * Explain a user's effective access: the level, the entry that decided it
+ * (owner, direct grant, group, _EVERYONE, inherited or deny) and all
+ * entries that apply. userId may be "me", or "guest" for visitors who are
+ * not signed in. Admins of the document may ask about anyone.
+ */
+router.get('/:documentId/effective/:userId', (req: AuthRequest, res: Response) => {
+  try {
+    const { documentId } = req.params;
+    const requestingUserId = req.user!.id;
+    const userId = req.params.userId === 'me' ? requestingUserId : req.params.userId;
+
+    const document = getDatabase().prepare('SELECT id FROM documents WHERE id = ?').get(documentId);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (userId !== requestingUserId && !PermissionService.checkPermission(documentId, requestingUserId, 'admin')) {
+      return res.status(403).json({ error: 'Not authorized to view permissions' });
+    }
+
+    const user = userId === 'guest'
+      ? null
+      : getDatabase().prepare('SELECT id, username, display_name FROM users WHERE id = ?').get(userId) as
+        { id: string; username: string; display_name: string } | undefined;
+    if (user === undefined) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const effective = PermissionService.getEffectivePermission(documentId, user?.id ?? null);
+    return res.json({ ...effective, user });
+  } catch (error) {
+    console.error('Error explaining permissions:', error);
+    return res.status(500).json({ error: 'Failed to explain permissions' });
+  }
+});
+
 /**
  * POST /api/permissions/:documentId/user
- * Set permission for a user
+ * Set permission for a user. effect "deny" withholds the level and all
+ * levels above it, overriding grants from groups and parent documents.
  */
-router.post('/:documentId/user', (req: AuthRequest, res: Response) => {
+router.post('/:documentId/user', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId } = req.params;
-    const { userId, permissionLevel } = req.body as { userId: string; permissionLevel: PermissionLevel };
+    const { userId, permissionLevel, effect = 'allow' } = req.body as {
+      userId: string;
+      permissionLevel: PermissionLevel;
+      effect?: PermissionEffect;
+    };
     const requestingUserId = req.user!.id;
 
     // Validate input
@@ -50,6 +95,10 @@ router.post('/:documentId/user', (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Invalid permission level' });
     }
 
+    if (!['allow', 'deny'].includes(effect)) {
+      return res.status(400).json({ error: 'Invalid permission effect' });
+    }
+
     // Check if user has admin permission
     const hasPermission = PermissionService.checkPermission(documentId, requestingUserId, 'admin');
 
@@ -57,7 +106,7 @@ router.post('/:documentId/user', (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Not authorized to modify permissions' });
     }
 
-    PermissionService.setUserPermission(documentId, userId, permissionLevel);
+    PermissionService.setUserPermission(documentId, userId, permissionLevel, effect, auditContext(req));
     return res.json({ success: true });
   } catch (error) {
     console.error('Error setting user permission:', error);
@@ -67,12 +116,16 @@ router.post('/:documentId/user', (req: AuthRequest, res: Response) => {
 
 /**
  * POST /api/permissions/:documentId/group
- * Set permission for a group
+ * Set permission for a group, with effect "allow" (default) or "deny"
  */
-router.post('/:documentId/group', (req: AuthRequest, res: Response) => {
+router.post('/:documentId/group', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId } = req.params;
-    const { groupId, permissionLevel } = req.body as { groupId: string; permissionLevel: PermissionLevel };
+    const { groupId, permissionLevel, effect = 'allow' } = req.body as {
+      groupId: string;
+      permissionLevel: PermissionLevel;
+      effect?: PermissionEffect;
+    };
     const requestingUserId = req.user!.id;
 
     // Validate input
@@ -84,6 +137,10 @@ router.post('/:documentId/group', (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Invalid permission level' });
     }
 
+    if (!['allow', 'deny'].includes(effect)) {
+      return res.status(400).json({ error: 'Invalid permission effect' });
+    }
+
     // Check if user has admin permission
     const hasPermission = PermissionService.checkPermission(documentId, requestingUserId, 'admin');
 
@@ -91,7 +148,11 @@ router.post('/:documentId/group', (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Not authorized to modify permissions' });
     }
 
-    PermissionService.setGroupPermission(documentId, groupId, permissionLevel);
+    if (!getDatabase().prepare('SELECT id FROM groups WHERE id = ?').get(groupId)) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    PermissionService.setGroupPermission(documentId, groupId, permissionLevel, effect, auditContext(req));
     return res.json({ success: true });
   } catch (error) {
     console.error('Error setting group permission:', error);
@@ -103,7 +164,7 @@ router.post('/:documentId/group', (req: AuthRequest, res: Response) => {
  * DELETE /api/permissions/:documentId/user/:userId
  * Remove user permission
  */
-router.delete('/:documentId/user/:userId', (req: AuthRequest, res: Response) => {
+router.delete('/:documentId/user/:userId', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId, userId } = req.params;
     const requestingUserId = req.user!.id;
@@ -115,7 +176,7 @@ router.delete('/:documentId/user/:userId', (req: AuthRequest, res: Response) =>
       return res.status(403).json({ error: 'Not authorized to modify permissions' });
     }
 
-    PermissionService.removeUserPermission(documentId, userId);
+    PermissionService.removeUserPermission(documentId, userId, auditContext(req));
     return res.json({ success: true });
   } catch (error) {
     console.error('Error removing user permission:', error);
@@ -127,7 +188,7 @@ router.delete('/:documentId/user/:userId', (req: AuthRequest, res: Response) =>
  * DELETE /api/permissions/:documentId/group/:groupId
  * Remove group permission
  */
-router.delete('/:documentId/group/:groupId', (req: AuthRequest, res: Response) => {
+router.delete('/:documentId/group/:groupId', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId, groupId } = req.params;
     const requestingUserId = req.user!.id;
@@ -139,7 +200,7 @@ router.delete('/:documentId/group/:groupId', (req: AuthRequest, res: Response) =
       return res.status(403).json({ error: 'Not authorized to modify permissions' });
     }
 
-    PermissionService.removeGroupPermission(documentId, groupId);
+    PermissionService.removeGroupPermission(documentId, groupId, auditContext(req));
     return res.json({ success: true });
   } catch (error) {
     console.error('Error removing group permission:', error);
@@ -151,7 +212,7 @@ router.delete('/:documentId/group/:groupId', (req: AuthRequest, res: Response) =
  * POST /api/permissions/:documentId/transfer
  * Transfer document ownership
  */
-router.post('/:documentId/transfer', (req: AuthRequest, res: Response) => {
+router.post('/:documentId/transfer', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId } = req.params;
     const { newOwnerId } = req.body as { newOwnerId: string };
@@ -169,7 +230,7 @@ router.post('/:documentId/transfer', (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Not authorized to transfer ownership' });
     }
 
-    PermissionService.transferOwnership(documentId, newOwnerId);
+    PermissionService.transferOwnership(documentId, newOwnerId, auditContext(req));
     return res.json({ success: true });
   } catch (error) {
     console.error('Error transferring ownership:', error);
@@ -181,7 +242,7 @@ router.post('/:documentId/transfer', (req: AuthRequest, res: Response) => {
  * POST /api/permissions/:documentId/public
  * Enable public sharing (grant read access to _EVERYONE group)
  */
-router.post('/:documentId/public', (req: AuthRequest, res: Response) => {
+router.post('/:documentId/public', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId } = req.params;
     const requestingUserId = req.user!.id;
@@ -194,7 +255,7 @@ router.post('/:documentId/public', (req: AuthRequest, res: Response) => {
     }
 
     // Grant read permission to _EVERYONE group
-    PermissionService.setGroupPermission(documentId, '_EVERYONE', 'read');
+    PermissionService.setGroupPermission(documentId, '_EVERYONE', 'read', 'allow', auditContext(req));
     return res.json({ success: true, publicUrl: `/public/${documentId}` });
   } catch (error) {
     console.error('Error enabling public sharing:', error);
@@ -206,7 +267,7 @@ router.post('/:documentId/public', (req: AuthRequest, res: Response) => {
  * DELETE /api/permissions/:documentId/public
  * Disable public sharing (remove _EVERYONE group permission)
  */
-router.delete('/:documentId/public', (req: AuthRequest, res: Response) => {
+router.delete('/:documentId/public', requireSession, (req: AuthRequest, res: Response) => {
   try {
     const { documentId } = req.params;
     const requestingUserId = req.user!.id;
@@ -219,7 +280,7 @@ router.delete('/:documentId/public', (req: AuthRequest, res: Response) => {
     }
 
     // Remove _EVERYONE group permission
-    PermissionService.removeGroupPermission(documentId, '_EVERYONE');
+    PermissionService.removeGroupPermission(documentId, '_EVERYONE', auditContext(req));
     return res.json({ success: true });
   } catch (error) {
     console.error('Error disabling public sharing:', error);
@@ -0,0 +1,91 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler.js';
+import { optionalAuthMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { searchDocuments, SearchQueryError } from '../services/search.js';
+import { hybridSearchDocuments } from '../services/hybrid-search.js';
+
+export const searchRoutes = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required'),
+  tag: z.string().optional(),
+  owner: z.string().optional(),
+  archived: z.enum(['exclude', 'include', 'only']).default('exclude'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const hybridQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(2000),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  // Share of the keyword ranking, defaults to HYBRID_SEARCH_KEYWORD_WEIGHT
+  weight: z.coerce.number().min(0).max(1).optional(),
+});
+
+/**
+ * GET /api/search?q=&tag=&owner=&archived=exclude|include|only&limit=&offset=
+ * Full-text search over documents the caller can read.
+ * owner=me restricts the search to the caller's own documents.
+ */
+searchRoutes.get('/', optionalAuthMiddleware, (req: AuthRequest, res: Response) => {
+  const parsed = searchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { q, tag, owner, archived, limit, offset } = parsed.data;
+  if (owner === 'me' && !req.user) {
+    throw new AppError(401, 'Authentication required');
+  }
+
+  try {
+    const { results, total } = searchDocuments({
+      query: q,
+      userId: req.user?.id || null,
+      tag,
+      ownerId: owner === 'me' ? req.user!.id : owner,
+      archived,
+      limit,
+      offset,
+    });
+
+    res.json({ query: q, results, total, limit, offset });
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      throw new AppError(400, error.message);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /api/search/hybrid?q=&limit=&weight=
+ * Passage search fusing keyword and vector rankings. Accepts natural
+ * language; every result is a chunk of a document the caller can read.
+ */
+searchRoutes.get('/hybrid', optionalAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  const parsed = hybridQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const { q, limit, weight } = parsed.data;
+  const chunks = await hybridSearchDocuments(q, req.user?.id || null, { limit, keywordWeight: weight });
+
+  res.json({
+    query: q,
+    results: chunks.map(chunk => ({
+      documentId: chunk.documentId,
+      title: chunk.title,
+      heading: chunk.heading,
+      chapter: chunk.chapter,
+      section: chunk.section,
+      content: chunk.content,
+      score: chunk.score,
+      keywordRank: chunk.keywordRank ?? null,
+      vectorRank: chunk.vectorRank ?? null,
+      vectorScore: chunk.vectorScore ?? null,
+    })),
+  });
+});
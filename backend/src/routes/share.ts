@@ -1,8 +1,10 @@
-import { Router } from 'express';
+import express, { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { config } from '../config/index.js';
 import { getDatabase } from '../db/index.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { sendTooManyRequests } from '../middleware/rate-limit.js';
 import { marked } from 'marked';
-import { randomBytes, randomUUID } from 'crypto';
 import { 
   Document, 
   Paragraph, 
@@ -17,98 +19,320 @@ import {
   BorderStyle,
   VerticalAlign
 } from 'docx';
-import { optionalAuthMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { authMiddleware, optionalAuthMiddleware, requireSession, type AuthRequest } from '../middleware/auth.js';
+import { auditContext, recordAudit } from '../services/audit.js';
+import { getShareAnalytics } from '../services/document-access.js';
+import { PermissionService } from '../services/permissions.js';
+import { consumeRateLimit, type RateLimitRule } from '../services/rate-limit.js';
+import {
+  createShareLink,
+  getShareLink,
+  isShareUnlockToken,
+  listShareLinks,
+  recordShareView,
+  revokeShareLink,
+  shareUnlockToken,
+  verifySharePassword,
+  SHARE_FORMATS,
+  ShareLinkError,
+  type ShareFormat,
+  type ShareLink,
+} from '../services/share-links.js';
 
 export const shareRoutes = Router();
 
-/**
- * Generate a unique share ID for a document
- */
-function generateShareId(): string {
-  return randomBytes(8).toString('base64url');
+const createLinkSchema = z.object({
+  label: z.string().trim().max(100).nullable().optional(),
+  formats: z.array(z.enum(SHARE_FORMATS as [ShareFormat, ...ShareFormat[]])).min(1).optional(),
+  password: z.string().min(4).max(200).nullable().optional(),
+  expiresAt: z.number().int().positive().nullable().optional(),
+  maxViews: z.number().int().positive().nullable().optional(),
+});
+
+// Password attempts per client and link, as strict as logins
+const shareUnlockRule: RateLimitRule = {
+  bucket: 'share_unlock',
+  limit: config.rateLimit.loginPerIp,
+  windowMs: config.rateLimit.authWindowMinutes * 60 * 1000,
+};
+
+const UNLOCK_COOKIE_PREFIX = 'mme_share_';
+
+// Links to the other formats on the preview page
+const FORMAT_LINKS: Record<Exclude<ShareFormat, 'view'>, string> = {
+  pdf: '📄 PDF',
+  docx: '📝 DOCX',
+  html: '💾 HTML Download',
+  md: '⬇️ Markdown (zum Importieren)',
+  rss: '📡 RSS Feed',
+};
+
+function requireShareAdmin(req: AuthRequest): string {
+  const { documentId } = req.params;
+
+  if (!getDatabase().prepare('SELECT id FROM documents WHERE id = ?').get(documentId)) {
+    throw new AppError(404, 'Document not found');
+  }
+
+  if (!PermissionService.checkPermission(documentId, req.user!.id, 'admin')) {
+    throw new AppError(403, 'Access denied');
+  }
+
+  return documentId;
 }
 
 /**
- * Enable sharing for a document (requires authentication)
+ * List the share links of a document with their view counts
  */
-shareRoutes.post('/:documentId/enable', async (req, res) => {
-  const { documentId } = req.params;
-  const db = getDatabase();
+shareRoutes.get('/:documentId/links', authMiddleware, (req: AuthRequest, res: Response) => {
+  const documentId = requireShareAdmin(req);
+  res.json({ links: listShareLinks(documentId), formats: SHARE_FORMATS });
+});
 
-  const document: any = db.prepare('SELECT id, share_id FROM documents WHERE id = ?').get(documentId);
-  
-  if (!document) {
-    throw new AppError(404, 'Document not found');
+/**
+ * Create a share link
+ */
+shareRoutes.post('/:documentId/links', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  const parsed = createLinkSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
   }
 
-  let shareId = document.share_id;
-  
-  // Generate new share_id if it doesn't exist
-  if (!shareId) {
-    shareId = generateShareId();
-    
-    // Ensure uniqueness
-    let attempts = 0;
-    while (attempts < 10) {
-      const existing = db.prepare('SELECT id FROM documents WHERE share_id = ?').get(shareId);
-      if (!existing) break;
-      shareId = generateShareId();
-      attempts++;
-    }
-    
-    if (attempts >= 10) {
-      throw new AppError(500, 'Could not generate unique share ID');
+  const documentId = requireShareAdmin(req);
+  let link;
+  try {
+    link = await createShareLink(documentId, req.user!.id, parsed.data);
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      throw new AppError(400, error.message);
     }
+    throw error;
   }
 
-  // Enable sharing
-  db.prepare(`
-    UPDATE documents 
-    SET share_id = ?, share_enabled = 1 
-    WHERE id = ?
-  `).run(shareId, documentId);
+  recordAudit({
+    ...auditContext(req),
+    action: 'share.create',
+    targetType: 'share',
+    targetId: link.id,
+    documentId,
+    details: { formats: link.formats, password: link.has_password, expiresAt: link.expires_at, maxViews: link.max_views },
+  });
 
-  res.json({ shareId, shareUrl: `/share/${shareId}` });
+  res.status(201).json({ link, shareUrl: `/share/${link.id}` });
 });
 
 /**
- * Disable sharing for a document
+ * Revoke a share link; it stays listed with its view count
  */
-shareRoutes.post('/:documentId/disable', async (req, res) => {
-  const { documentId } = req.params;
-  const db = getDatabase();
+shareRoutes.delete('/:documentId/links/:linkId', authMiddleware, requireSession, (req: AuthRequest, res: Response) => {
+  const documentId = requireShareAdmin(req);
 
-  db.prepare(`
-    UPDATE documents 
-    SET share_enabled = 0 
-    WHERE id = ?
-  `).run(documentId);
+  if (!revokeShareLink(documentId, req.params.linkId)) {
+    throw new AppError(404, 'Share link not found');
+  }
+
+  recordAudit({ ...auditContext(req), action: 'share.revoke', targetType: 'share', targetId: req.params.linkId, documentId });
 
   res.json({ success: true });
 });
 
 /**
- * Get share status for a document
+ * Views of the document's share links over the last days (default 30),
+ * by day, format, link and referrer
  */
-shareRoutes.get('/:documentId/status', async (req, res) => {
-  const { documentId } = req.params;
-  const db = getDatabase();
+shareRoutes.get('/:documentId/analytics', authMiddleware, (req: AuthRequest, res: Response) => {
+  const days = Number(req.query.days ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    throw new AppError(400, 'days must be between 1 and 365');
+  }
+
+  const documentId = requireShareAdmin(req);
+  res.json(getShareAnalytics(documentId, days));
+});
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return null;
+}
+
+function basicAuthPassword(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Basic ')) return null;
+  const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+  const index = decoded.indexOf(':');
+  return index >= 0 ? decoded.slice(index + 1) : null;
+}
+
+function referrerHost(req: Request): string | null {
+  const referrer = req.get('referer');
+  if (!referrer) return null;
+  try {
+    const host = new URL(referrer).host;
+    // Moving between the formats of a share is not a referral
+    return host && host !== req.get('host') ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Count a password attempt; answers 429 and returns false once the client
+ * has used up its attempts for this link
+ */
+function consumePasswordAttempt(req: Request, res: Response, shareId: string): boolean {
+  if (!config.rateLimit.enabled) return true;
+
+  const result = consumeRateLimit(shareUnlockRule, `ip:${req.ip}:${shareId}`);
+  if (!result.allowed) {
+    sendTooManyRequests(res, result.resetAt, 'Too many password attempts, please try again later');
+    return false;
+  }
+  return true;
+}
+
+function sendPasswordForm(req: Request, res: Response, shareId: string, failed: boolean) {
+  const action = `${req.baseUrl}/${encodeURIComponent(shareId)}/unlock`;
+  res.status(401).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.send(`
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Passwort erforderlich</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+      max-width: 360px;
+      margin: 4rem auto;
+      padding: 2rem;
+      background: #f9fafb;
+      color: #1f2937;
+    }
+    input { width: 100%; padding: 0.5rem; margin: 0.5rem 0 1rem; box-sizing: border-box; }
+    button { padding: 0.5rem 1rem; background: #3b82f6; color: white; border: none; border-radius: 0.25rem; cursor: pointer; }
+    .error { color: #b91c1c; font-size: 0.875rem; }
+  </style>
+</head>
+<body>
+  <h1>🔒 Passwort erforderlich</h1>
+  <p>Dieses Dokument ist mit einem Passwort geschützt.</p>
+  ${failed ? '<p class="error">Das Passwort ist falsch.</p>' : ''}
+  <form method="post" action="${escapeHtml(action)}">
+    <label for="password">Passwort</label>
+    <input id="password" name="password" type="password" required autofocus>
+    <button type="submit">Öffnen</button>
+  </form>
+</body>
+</html>
+  `);
+}
 
-  const document: any = db.prepare(`
-    SELECT share_id, share_enabled 
-    FROM documents 
-    WHERE id = ?
-  `).get(documentId);
+function sendPasswordRequired(req: Request, res: Response, shareId: string, format: ShareFormat, failed: boolean) {
+  if (format === 'view') {
+    return sendPasswordForm(req, res, shareId, failed);
+  }
+  // Downloads and feed readers can send the password as HTTP Basic auth
+  res.setHeader('WWW-Authenticate', 'Basic realm="MarkMEdit share", charset="UTF-8"');
+  res.status(401).json({ error: failed ? 'Invalid password' : 'Password required' });
+}
+
+/**
+ * Resolve a share link for one format: checks that it is usable and allows
+ * the format, asks for the password if it has one, and counts the view.
+ * @returns null if a response was already sent instead
+ */
+async function openSharedDocument(
+  req: AuthRequest,
+  res: Response,
+  shareId: string,
+  format: ShareFormat
+): Promise<{ link: ShareLink; document: any } | null> {
+  const link = getShareLink(shareId);
+
+  if (!link || link.status === 'revoked' || !link.formats.includes(format)) {
+    throw new AppError(404, 'Shared document not found or sharing is disabled');
+  }
+  if (link.status === 'expired') {
+    throw new AppError(410, 'This share link has expired');
+  }
+  if (link.status === 'exhausted') {
+    throw new AppError(410, 'This share link has reached its view limit');
+  }
 
+  if (link.has_password) {
+    const cookie = readCookie(req, UNLOCK_COOKIE_PREFIX + link.id);
+    if (!cookie || !isShareUnlockToken(link.id, cookie)) {
+      const password = basicAuthPassword(req);
+      if (password === null) {
+        sendPasswordRequired(req, res, link.id, format, false);
+        return null;
+      }
+      if (!consumePasswordAttempt(req, res, link.id)) {
+        return null;
+      }
+      if (!await verifySharePassword(link.id, password)) {
+        sendPasswordRequired(req, res, link.id, format, true);
+        return null;
+      }
+    }
+  }
+
+  const document: any = getDatabase().prepare('SELECT * FROM documents WHERE id = ?').get(link.document_id);
   if (!document) {
-    throw new AppError(404, 'Document not found');
+    throw new AppError(404, 'Shared document not found or sharing is disabled');
   }
 
-  res.json({
-    shareId: document.share_id,
-    shareEnabled: document.share_enabled === 1,
-    shareUrl: document.share_id ? `/share/${document.share_id}` : null,
-  });
+  recordShareView(link, format, { userId: req.user?.id || null, ip: req.ip, referrer: referrerHost(req) });
+  return { link, document };
+}
+
+/**
+ * Password form of the preview page; remembers the unlock in a cookie
+ */
+shareRoutes.post('/:shareId/unlock', express.urlencoded({ extended: false }), async (req: Request, res: Response) => {
+  const { shareId } = req.params;
+  const link = getShareLink(shareId);
+
+  if (!link || link.status === 'revoked') {
+    throw new AppError(404, 'Shared document not found or sharing is disabled');
+  }
+  if (!link.has_password) {
+    return res.redirect(303, `${req.baseUrl}/${encodeURIComponent(shareId)}`);
+  }
+  if (!consumePasswordAttempt(req, res, link.id)) {
+    return;
+  }
+
+  const password = typeof req.body?.password === 'string' ? req.body.password : '';
+  if (!await verifySharePassword(link.id, password)) {
+    return sendPasswordForm(req, res, shareId, true);
+  }
+
+  const cookie = [
+    `${UNLOCK_COOKIE_PREFIX}${link.id}=${shareUnlockToken(link.id)}`,
+    `Path=${req.baseUrl || '/'}`,
+    'HttpOnly',
+    'SameSite=Lax',
+  ];
+  if (link.expires_at) {
+    cookie.push(`Expires=${new Date(link.expires_at).toUTCString()}`);
+  }
+  if (req.secure) {
+    cookie.push('Secure');
+  }
+  res.setHeader('Set-Cookie', cookie.join('; '));
+  res.redirect(303, `${req.baseUrl}/${encodeURIComponent(shareId)}`);
 });
 
 // ============================================================================
@@ -119,23 +343,13 @@ shareRoutes.get('/:documentId/status', async (req, res) => {
 /**
  * RSS Feed with version history
  */
-shareRoutes.get('/:shareId.rss', async (req, res) => {
-  let { shareId } = req.params;
-  // Remove .rss suffix if Express included it in the parameter
-  shareId = shareId.replace(/\.rss$/, '');
-  
+shareRoutes.get('/:shareId.rss', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  const shareId = req.params.shareId.replace(/\.rss$/, '');
+  const shared = await openSharedDocument(req, res, shareId, 'rss');
+  if (!shared) return;
+  const { document } = shared;
   const db = getDatabase();
 
-  const document: any = db.prepare(`
-    SELECT id, title, updated_at 
-    FROM documents 
-    WHERE share_id = ? AND share_enabled = 1
-  `).get(shareId);
-
-  if (!document) {
-    throw new AppError(404, 'Shared document not found or sharing is disabled');
-  }
-
   // Get version history
   const versions: any[] = db.prepare(`
     SELECT version, title, change_summary, created_at, content
@@ -178,22 +392,13 @@ shareRoutes.get('/:shareId.rss', async (req, res) => {
  * Markdown Export mit Metadaten für Import
  * Format: YAML Frontmatter + Markdown Content
  */
-shareRoutes.get('/:shareId.md', async (req, res) => {
-  let { shareId } = req.params;
-  shareId = shareId.replace(/\.md$/, '');
-  
+shareRoutes.get('/:shareId.md', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  const shareId = req.params.shareId.replace(/\.md$/, '');
+  const shared = await openSharedDocument(req, res, shareId, 'md');
+  if (!shared) return;
+  const { document } = shared;
   const db = getDatabase();
 
-  const document: any = db.prepare(`
-    SELECT id, title, content, updated_at, share_id
-    FROM documents 
-    WHERE share_id = ? AND share_enabled = 1
-  `).get(shareId);
-
-  if (!document) {
-    throw new AppError(404, 'Shared document not found or sharing is disabled');
-  }
-
   // Get latest version info
   const latestVersion: any = db.prepare(`
     SELECT version, change_summary, created_at
@@ -251,21 +456,11 @@ change_summary: ${escapeYaml(latestVersion?.change_summary || 'Keine Beschreibun
 /**
  * HTML Download
  */
-shareRoutes.get('/:shareId.html', async (req, res) => {
-  let { shareId } = req.params;
-  shareId = shareId.replace(/\.html$/, '');
-  
-  const db = getDatabase();
-
-  const document: any = db.prepare(`
-    SELECT title, content, updated_at 
-    FROM documents 
-    WHERE share_id = ? AND share_enabled = 1
-  `).get(shareId);
-
-  if (!document) {
-    throw new AppError(404, 'Shared document not found or sharing is disabled');
-  }
+shareRoutes.get('/:shareId.html', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  const shareId = req.params.shareId.replace(/\.html$/, '');
+  const shared = await openSharedDocument(req, res, shareId, 'html');
+  if (!shared) return;
+  const { document } = shared;
 
   // Convert Mermaid code blocks to <pre class="mermaid">
   let processedContent = document.content.replace(/```mermaid\n([\s\S]*?)```/g, '<pre class="mermaid">$1</pre>');
@@ -338,21 +533,11 @@ shareRoutes.get('/:shareId.html', async (req, res) => {
 /**
  * PDF Export - Opens print-friendly HTML page
  */
-shareRoutes.get('/:shareId.pdf', async (req, res) => {
-  let { shareId } = req.params;
-  shareId = shareId.replace(/\.pdf$/, '');
-  
-  const db = getDatabase();
-
-  const document: any = db.prepare(`
-    SELECT title, content 
-    FROM documents 
-    WHERE share_id = ? AND share_enabled = 1
-  `).get(shareId);
-
-  if (!document) {
-    throw new AppError(404, 'Shared document not found or sharing is disabled');
-  }
+shareRoutes.get('/:shareId.pdf', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  const shareId = req.params.shareId.replace(/\.pdf$/, '');
+  const shared = await openSharedDocument(req, res, shareId, 'pdf');
+  if (!shared) return;
+  const { document } = shared;
 
   // Convert Mermaid code blocks to <pre class="mermaid">
   let processedContent = document.content.replace(/```mermaid\n([\s\S]*?)```/g, '<pre class="mermaid">$1</pre>');
@@ -516,21 +701,11 @@ shareRoutes.get('/:shareId.pdf', async (req, res) => {
 /**
  * DOCX Export with table and mermaid support
  */
-shareRoutes.get('/:shareId.docx', async (req, res) => {
-  let { shareId } = req.params;
-  shareId = shareId.replace(/\.docx$/, '');
-  
-  const db = getDatabase();
-
-  const document: any = db.prepare(`
-    SELECT title, content 
-    FROM documents 
-    WHERE share_id = ? AND share_enabled = 1
-  `).get(shareId);
-
-  if (!document) {
-    throw new AppError(404, 'Shared document not found or sharing is disabled');
-  }
+shareRoutes.get('/:shareId.docx', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  const shareId = req.params.shareId.replace(/\.docx$/, '');
+  const shared = await openSharedDocument(req, res, shareId, 'docx');
+  if (!shared) return;
+  const { document } = shared;
 
   try {
     // Parse markdown with marked to get tokens
@@ -780,18 +955,11 @@ shareRoutes.get('/:shareId.docx', async (req, res) => {
  */
 shareRoutes.get('/:shareId', optionalAuthMiddleware, async (req: AuthRequest, res) => {
   const { shareId } = req.params;
+  const shared = await openSharedDocument(req, res, shareId, 'view');
+  if (!shared) return;
+  const { link, document } = shared;
   const db = getDatabase();
 
-  const document: any = db.prepare(`
-    SELECT id, title, content, updated_at 
-    FROM documents 
-    WHERE share_id = ? AND share_enabled = 1
-  `).get(shareId);
-
-  if (!document) {
-    throw new AppError(404, 'Shared document not found or sharing is disabled');
-  }
-
   // Get latest version info
   const latestVersion: any = db.prepare(`
     SELECT version, change_summary, created_at
@@ -801,20 +969,12 @@ shareRoutes.get('/:shareId', optionalAuthMiddleware, async (req: AuthRequest, re
     LIMIT 1
   `).get(document.id);
 
-  // Log access if user is authenticated
-  if (req.user?.id) {
-    const accessLogId = randomUUID();
-    db.prepare(`
-      INSERT INTO document_access_log (id, document_id, user_id, access_type, share_id, accessed_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).run(accessLogId, document.id, req.user.id, 'share_link', shareId, Date.now());
-  }
-
   // Convert Mermaid code blocks to <pre class="mermaid">
   let processedContent = document.content.replace(/```mermaid\n([\s\S]*?)```/g, '<pre class="mermaid">$1</pre>');
   
   // Render markdown to HTML
   const htmlContent = await marked(processedContent);
+  const otherFormats = link.formats.filter((format): format is keyof typeof FORMAT_LINKS => format !== 'view');
 
   const html = `
 <!DOCTYPE html>
@@ -924,14 +1084,10 @@ shareRoutes.get('/:shareId', optionalAuthMiddleware, async (req: AuthRequest, re
     ` : ''}
   </div>
   ${htmlContent}
-  <div class="formats">
+  ${otherFormats.length > 0 ? `<div class="formats">
     <strong>Andere Formate:</strong>
-    <a href="/share/${shareId}.pdf" target="_blank">📄 PDF</a>
-    <a href="/share/${shareId}.docx">📝 DOCX</a>
-    <a href="/share/${shareId}.html">💾 HTML Download</a>
-    <a href="/share/${shareId}.md">⬇️ Markdown (zum Importieren)</a>
-    <a href="/share/${shareId}.rss">📡 RSS Feed</a>
-  </div>
+    ${otherFormats.map(format => `<a href="/share/${shareId}.${format}"${format === 'pdf' ? ' target="_blank"' : ''}>${FORMAT_LINKS[format]}</a>`).join('\n    ')}
+  </div>` : ''}
 </body>
 </html>
   `;
@@ -0,0 +1,234 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { getDatabase } from '../db/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { authMiddleware, optionalAuthMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { PermissionService, type PermissionLevel } from '../services/permissions.js';
+import { detectLanguage } from '../services/document-helpers.js';
+import { generateDocumentSummary, deriveTagSuggestions } from '../services/document-summary.js';
+import {
+  addDocumentTag,
+  createTag,
+  deleteTag,
+  findOrCreateTag,
+  getDocumentTags,
+  getTag,
+  listTags,
+  removeDocumentTag,
+  setDocumentTags,
+  updateTag,
+  TagConflictError,
+  TagNotFoundError,
+} from '../services/tags.js';
+
+/**
+ * Tags
+ *
+ * Anyone signed in can create tags. Renaming and deleting a tag is up to its
+ * creator; tags created before ownership was recorded are open to everyone.
+ * Tagging a document requires write access to it.
+ */
+export const tagRoutes = Router();
+export const documentTagRoutes = Router({ mergeParams: true });
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex code like #3b82f6');
+
+const createTagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: colorSchema.nullable().optional(),
+});
+
+const updateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  color: colorSchema.nullable().optional(),
+});
+
+const addDocumentTagSchema = z.object({
+  tagId: z.string().optional(),
+  name: z.string().trim().min(1).max(50).optional(),
+  color: colorSchema.nullable().optional(),
+}).refine(data => data.tagId || data.name, 'tagId or name is required');
+
+const setDocumentTagsSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(50)).max(50),
+});
+
+function mapTagError(error: unknown): never {
+  if (error instanceof TagNotFoundError) {
+    throw new AppError(404, 'Tag not found');
+  }
+  if (error instanceof TagConflictError) {
+    throw new AppError(409, error.message);
+  }
+  throw error;
+}
+
+function requireTagOwner(req: AuthRequest): string {
+  const tag = getTag(req.params.id);
+  if (!tag) {
+    throw new AppError(404, 'Tag not found');
+  }
+  if (tag.created_by && tag.created_by !== req.user!.id) {
+    throw new AppError(403, 'Only the creator can change this tag');
+  }
+  return tag.id;
+}
+
+function requireDocumentPermission(req: AuthRequest, level: PermissionLevel): string {
+  const { documentId } = req.params as { documentId: string };
+
+  if (!getDatabase().prepare('SELECT id FROM documents WHERE id = ?').get(documentId)) {
+    throw new AppError(404, 'Document not found');
+  }
+
+  if (!PermissionService.checkPermission(documentId, req.user?.id || null, level)) {
+    throw new AppError(403, 'Access denied');
+  }
+
+  return documentId;
+}
+
+/**
+ * GET /api/tags
+ * All tags with the number of readable documents carrying them
+ */
+tagRoutes.get('/', optionalAuthMiddleware, (req: AuthRequest, res: Response) => {
+  res.json({ tags: listTags(req.user?.id || null) });
+});
+
+/**
+ * POST /api/tags
+ */
+tagRoutes.post('/', authMiddleware, (req: AuthRequest, res: Response) => {
+  const parsed = createTagSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  try {
+    const tag = createTag(parsed.data.name, parsed.data.color ?? null, req.user!.id);
+    res.status(201).json({ tag });
+  } catch (error) {
+    mapTagError(error);
+  }
+});
+
+/**
+ * PUT /api/tags/:id
+ */
+tagRoutes.put('/:id', authMiddleware, (req: AuthRequest, res: Response) => {
+  const parsed = updateTagSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const id = requireTagOwner(req);
+  try {
+    res.json({ tag: updateTag(id, parsed.data) });
+  } catch (error) {
+    mapTagError(error);
+  }
+});
+
+/**
+ * DELETE /api/tags/:id
+ * Removes the tag from all documents
+ */
+tagRoutes.delete('/:id', authMiddleware, (req: AuthRequest, res: Response) => {
+  const id = requireTagOwner(req);
+  try {
+    deleteTag(id);
+    res.json({ success: true });
+  } catch (error) {
+    mapTagError(error);
+  }
+});
+
+/**
+ * GET /api/documents/:documentId/tags
+ */
+documentTagRoutes.get('/', optionalAuthMiddleware, (req: AuthRequest, res: Response) => {
+  const documentId = requireDocumentPermission(req, 'read');
+  res.json({ tags: getDocumentTags(documentId) });
+});
+
+/**
+ * PUT /api/documents/:documentId/tags
+ * Replace all tags of the document; unknown names become new tags
+ */
+documentTagRoutes.put('/', authMiddleware, (req: AuthRequest, res: Response) => {
+  const parsed = setDocumentTagsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const documentId = requireDocumentPermission(req, 'write');
+  try {
+    res.json({ tags: setDocumentTags(documentId, parsed.data.tags, req.user!.id) });
+  } catch (error) {
+    mapTagError(error);
+  }
+});
+
+/**
+ * POST /api/documents/:documentId/tags
+ * Add an existing tag by id, or a tag by name (created if missing)
+ */
+documentTagRoutes.post('/', authMiddleware, (req: AuthRequest, res: Response) => {
+  const parsed = addDocumentTagSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new AppError(400, parsed.error.errors[0].message);
+  }
+
+  const documentId = requireDocumentPermission(req, 'write');
+  const { tagId, name, color } = parsed.data;
+
+  let tag;
+  if (tagId) {
+    tag = getTag(tagId);
+    if (!tag) {
+      throw new AppError(404, 'Tag not found');
+    }
+  } else {
+    tag = findOrCreateTag(name!, req.user!.id, color ?? null);
+  }
+
+  addDocumentTag(documentId, tag.id);
+  res.status(201).json({ tag, tags: getDocumentTags(documentId) });
+});
+
+/**
+ * DELETE /api/documents/:documentId/tags/:tagId
+ */
+documentTagRoutes.delete('/:tagId', authMiddleware, (req: AuthRequest, res: Response) => {
+  const documentId = requireDocumentPermission(req, 'write');
+
+  if (!removeDocumentTag(documentId, req.params.tagId)) {
+    throw new AppError(404, 'Tag not assigned to this document');
+  }
+
+  res.json({ tags: getDocumentTags(documentId) });
+});
+
+/**
+ * POST /api/documents/:documentId/tags/suggest
+ * AI tag suggestions from the document summary. Nothing is assigned; tags
+ * the document already has are left out.
+ */
+documentTagRoutes.post('/suggest', authMiddleware, async (req: AuthRequest, res: Response) => {
+  const documentId = requireDocumentPermission(req, 'write');
+  const document = getDatabase().prepare('SELECT title, content FROM documents WHERE id = ?').get(documentId) as
+    { title: string; content: string };
+
+  if (!document.content?.trim()) {
+    res.json({ suggestions: [] });
+    return;
+  }
+
+  const summary = await generateDocumentSummary(document.content, document.title, detectLanguage(document.content));
+  const assigned = new Set(getDocumentTags(documentId).map(tag => tag.id));
+  const suggestions = deriveTagSuggestions(summary, listTags(req.user!.id))
+    .filter(suggestion => !suggestion.tagId || !assigned.has(suggestion.tagId));
+
+  res.json({ suggestions });
+});
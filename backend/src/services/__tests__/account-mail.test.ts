@@ -0,0 +1,89 @@
+/**
+ * Password Reset and Email Verification Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Reset tokens work once and sign out every session
+ * - Verification tokens only confirm the address they were issued for
+ * - The file transport keeps mails with their link on disk
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, readdirSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+const mailDir = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({
+  config: {
+    corsOrigin: 'http://markmedit.test/',
+    mail: {
+      transport: 'file',
+      from: 'MarkMEdit <noreply@markmedit.test>',
+      get fileDir() { return mailDir.path; },
+      smtp: {},
+    },
+  },
+}));
+
+import { AuthService } from '../auth.js';
+import { sendPasswordResetMail } from '../mailer.js';
+
+describe('Password reset and email verification', () => {
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+    mailDir.path = mkdtempSync(path.join(tmpdir(), 'markmedit-mail-'));
+    await AuthService.register('alice', 'alice@example.com', 'secret-password');
+  });
+
+  it('should reset the password once and sign out every session', async () => {
+    const login = await AuthService.login('alice', 'secret-password');
+    const reset = await AuthService.createPasswordResetToken('Alice@Example.com');
+    expect(await AuthService.createPasswordResetToken('nobody@example.com')).toBeNull();
+
+    const user = await AuthService.resetPasswordWithToken(reset!.token, 'new-password');
+    expect(user.email_verified).toBe(true);
+    expect(await AuthService.verifyToken(login.token)).toBeNull();
+    await expect(AuthService.login('alice', 'secret-password')).rejects.toThrow('Invalid credentials');
+    await AuthService.login('alice', 'new-password');
+
+    await expect(AuthService.resetPasswordWithToken(reset!.token, 'other-password')).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should only confirm the address a verification token was issued for', async () => {
+    const { user } = await AuthService.login('alice', 'secret-password');
+    expect(user.email_verified).toBe(false);
+
+    const outdated = await AuthService.createEmailVerificationToken(user.id);
+    await AuthService.updateProfile(user.id, { email: 'alice@example.org' });
+    await expect(AuthService.verifyEmail(outdated!.token)).rejects.toThrow('Invalid or expired token');
+
+    const current = await AuthService.createEmailVerificationToken(user.id);
+    const reset = await AuthService.createPasswordResetToken('alice@example.org');
+    await expect(AuthService.verifyEmail(reset!.token)).rejects.toThrow('Invalid or expired token');
+    expect(await AuthService.verifyEmail(current!.token)).toMatchObject({ email: 'alice@example.org', email_verified: true });
+    expect(await AuthService.createEmailVerificationToken(user.id)).toBeNull();
+
+    await AuthService.updateProfile(user.id, { display_name: 'Alice' });
+    expect((await AuthService.getUserById(user.id))!.email_verified).toBe(true);
+  });
+
+  it('should write mails with their link through the file transport', async () => {
+    const reset = await AuthService.createPasswordResetToken('alice@example.com');
+    await sendPasswordResetMail(reset!.user, reset!.token);
+
+    const [file] = readdirSync(mailDir.path);
+    const mail = JSON.parse(readFileSync(path.join(mailDir.path, file), 'utf8'));
+    expect(mail).toMatchObject({
+      from: 'MarkMEdit <noreply@markmedit.test>',
+      to: 'alice@example.com',
+      subject: 'Reset your MarkMEdit password',
+    });
+    expect(mail.text).toContain(`http://markmedit.test/reset-password#token=${reset!.token}`);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Personal API Token Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Tokens authenticate until they expire or are revoked
+ * - authMiddleware enforces the scopes of a token
+ * - Access control and share links can only be changed with a login session
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { AuthService } from '../auth.js';
+import { authenticateApiToken, createApiToken, listApiTokens, revokeApiToken } from '../api-tokens.js';
+import { authMiddleware, type AuthRequest } from '../../middleware/auth.js';
+import permissionsRoutes from '../../routes/permissions.js';
+import { groupRoutes } from '../../routes/groups.js';
+import { shareRoutes } from '../../routes/share.js';
+
+async function runMiddleware(token: string, method: string, baseUrl: string, path = '/') {
+  const req = { headers: { authorization: `Bearer ${token}` }, method, baseUrl, path, ip: '127.0.0.1' } as unknown as AuthRequest;
+  const res = {
+    statusCode: 200,
+    status(code: number) { this.statusCode = code; return this; },
+    json() { return this; },
+  };
+  const next = vi.fn();
+  await authMiddleware(req, res as any, next);
+  return { status: next.mock.calls.length > 0 ? 'next' : res.statusCode, req };
+}
+
+describe('API tokens', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+    ({ user: { id: userId } } = await AuthService.register('alice', 'alice@example.com', 'secret-password'));
+  });
+
+  it('should authenticate until the token is revoked', () => {
+    const { token, apiToken } = createApiToken(userId, { name: 'CI', scopes: ['documents:write'] });
+    expect(apiToken).toMatchObject({ name: 'CI', scopes: ['documents:write'], expires_at: null });
+    expect(token.startsWith(apiToken.token_prefix)).toBe(true);
+
+    expect(authenticateApiToken(token, '10.0.0.1')).toMatchObject({ user: { username: 'alice' }, tokenId: apiToken.id });
+    expect(listApiTokens(userId)[0]).toMatchObject({ last_used_ip: '10.0.0.1' });
+    expect(authenticateApiToken(`${token}x`)).toBeNull();
+
+    expect(revokeApiToken('someone-else', apiToken.id)).toBe(false);
+    expect(revokeApiToken(userId, apiToken.id)).toBe(true);
+    expect(authenticateApiToken(token)).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const { token, apiToken } = createApiToken(userId, { name: 'Short', scopes: ['ai'], expiresInDays: 1 });
+    expect(authenticateApiToken(token)).not.toBeNull();
+
+    db.prepare('UPDATE api_tokens SET expires_at = ? WHERE id = ?').run(Date.now() - 1, apiToken.id);
+    expect(authenticateApiToken(token)).toBeNull();
+  });
+
+  it('should enforce scopes in authMiddleware', async () => {
+    const { token: readToken } = createApiToken(userId, { name: 'Read', scopes: ['documents:read'] });
+    const { token: writeToken } = createApiToken(userId, { name: 'Write', scopes: ['documents:write'] });
+
+    const read = await runMiddleware(readToken, 'GET', '/api/documents');
+    expect(read.status).toBe('next');
+    expect(read.req.apiToken?.scopes).toEqual(['documents:read']);
+    expect(read.req.sessionId).toBeUndefined();
+
+    expect((await runMiddleware(readToken, 'PUT', '/api/documents', '/abc')).status).toBe(403);
+    expect((await runMiddleware(writeToken, 'PUT', '/api/documents', '/abc')).status).toBe('next');
+    expect((await runMiddleware(writeToken, 'GET', '/api/documents')).status).toBe('next');
+    expect((await runMiddleware(writeToken, 'POST', '/api/ai', '/chat')).status).toBe(403);
+  });
+
+  it('should require a login session to change access control', async () => {
+    const { token: writeToken } = createApiToken(userId, { name: 'Write', scopes: ['documents:write', 'admin'] });
+    const { token: sessionToken } = await AuthService.login('alice', 'secret-password');
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/permissions', permissionsRoutes);
+    app.use('/api/groups', groupRoutes);
+    app.use('/api/share', shareRoutes);
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const send = async (token: string, method: string, path: string, body: unknown = {}) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() as any };
+    };
+
+    try {
+      const requests: Array<[string, string]> = [
+        ['POST', '/api/permissions/doc/user'],
+        ['POST', '/api/permissions/doc/transfer'],
+        ['DELETE', '/api/permissions/doc/public'],
+        ['POST', '/api/groups'],
+        ['PUT', '/api/groups/g/members/u'],
+        ['POST', '/api/share/doc/links'],
+        ['DELETE', '/api/share/doc/links/l'],
+      ];
+      for (const [method, path] of requests) {
+        expect(await send(writeToken, method, path), `${method} ${path}`)
+          .toEqual({ status: 403, body: { error: 'This action requires a login session' } });
+      }
+
+      const group = await send(sessionToken, 'POST', '/api/groups', { name: 'Redaktion' });
+      expect(group.status).toBe(201);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Audit Log Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Permission and ownership changes are recorded with their actor
+ * - Entries can be filtered by action prefix, document and time range
+ * - CSV exports quote fields and defuse spreadsheet formulas
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { PermissionService } from '../permissions.js';
+import { auditEntriesToCsv, queryAuditLog, recordAudit } from '../audit.js';
+
+describe('Audit log', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', '');
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+        VALUES ('doc', 'Doc', 'doc', '', 'alice', 1, 1);
+    `);
+  });
+
+  it('should record permission changes with their actor', () => {
+    const context = { actorId: 'alice', ipAddress: '10.0.0.1' };
+    PermissionService.setUserPermission('doc', 'bob', 'write', 'allow', context);
+    PermissionService.removeUserPermission('doc', 'bob', context);
+    PermissionService.removeUserPermission('doc', 'bob', context);
+    PermissionService.transferOwnership('doc', 'bob', context);
+
+    const { entries, total } = queryAuditLog({ documentId: 'doc' });
+    expect(total).toBe(3);
+    expect(entries.map(entry => entry.action).sort()).toEqual(
+      ['document.transfer_ownership', 'permission.remove', 'permission.set']
+    );
+    expect(entries.find(entry => entry.action === 'permission.set')).toMatchObject({
+      actor_id: 'alice',
+      actor_name: 'alice',
+      target_type: 'user',
+      target_id: 'bob',
+      ip_address: '10.0.0.1',
+      details: { level: 'write', effect: 'allow' },
+    });
+    expect(entries.find(entry => entry.action === 'document.transfer_ownership')?.details).toEqual({ previousOwnerId: 'alice' });
+  });
+
+  it('should filter by action prefix and time range', () => {
+    recordAudit({ action: 'auth.login', actorId: 'alice' });
+    recordAudit({ action: 'auth.login_failed', details: { username: 'mallory' } });
+    recordAudit({ action: 'share.enable', actorId: 'alice', documentId: 'doc' });
+    db.prepare("UPDATE audit_log SET created_at = 1000 WHERE action = 'auth.login'").run();
+
+    expect(queryAuditLog({ actions: ['auth.'] }).total).toBe(2);
+    expect(queryAuditLog({ actions: ['auth.login'] }).total).toBe(1);
+    expect(queryAuditLog({ actions: ['auth.login', 'share.enable'], actorId: 'alice' }).total).toBe(2);
+    expect(queryAuditLog({ from: 2000 }).entries.map(entry => entry.action).sort()).toEqual(['auth.login_failed', 'share.enable']);
+    expect(queryAuditLog({ limit: 1 })).toMatchObject({ total: 3, entries: [expect.anything()] });
+  });
+
+  it('should quote CSV fields and defuse formulas', () => {
+    recordAudit({ action: 'mcp_server.delete', targetId: '=HYPERLINK("x")', details: { note: 'a, b' } });
+    const csv = auditEntriesToCsv(queryAuditLog().entries);
+    const [header, line] = csv.trim().split('\r\n');
+
+    expect(header).toBe('time,action,actor_id,actor_name,target_type,target_id,document_id,ip_address,details');
+    expect(line).toContain('"mcp_server.delete"');
+    expect(line).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(line).toContain('"{""note"":""a, b""}"');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Auth Session Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Access tokens stop working when their session is revoked
+ * - Refresh tokens rotate, and reusing an old one revokes the session
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { AuthService } from '../auth.js';
+
+describe('AuthService sessions', () => {
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+    await AuthService.register('alice', 'alice@example.com', 'secret-password');
+  });
+
+  it('should revoke access tokens together with their session', async () => {
+    const first = await AuthService.login('alice', 'secret-password', { userAgent: 'Laptop' });
+    const second = await AuthService.login('alice', 'secret-password', { userAgent: 'Phone' });
+    expect(await AuthService.verifyToken(first.token)).toMatchObject({ username: 'alice' });
+
+    const session = await AuthService.authenticate(first.token);
+    await AuthService.logout(session!.sessionId);
+    expect(await AuthService.verifyToken(first.token)).toBeNull();
+    expect(await AuthService.verifyToken(second.token)).not.toBeNull();
+
+    expect(await AuthService.revokeAllSessions(second.user.id)).toBe(2);
+    expect(await AuthService.verifyToken(second.token)).toBeNull();
+  });
+
+  it('should rotate refresh tokens and revoke the session on reuse', async () => {
+    const login = await AuthService.login('alice', 'secret-password');
+    const refreshed = await AuthService.refresh(login.refreshToken);
+    expect(refreshed.refreshToken).not.toBe(login.refreshToken);
+    expect(await AuthService.verifyToken(refreshed.token)).not.toBeNull();
+
+    await expect(AuthService.refresh(login.refreshToken)).rejects.toThrow('Invalid refresh token');
+    expect(await AuthService.verifyToken(refreshed.token)).toBeNull();
+    await expect(AuthService.refresh(refreshed.refreshToken)).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('should list active sessions with the current one marked', async () => {
+    const login = await AuthService.login('alice', 'secret-password', { userAgent: 'Laptop' });
+    const { sessionId } = (await AuthService.authenticate(login.token))!;
+
+    const sessions = await AuthService.listSessions(login.user.id, sessionId);
+    expect(sessions).toHaveLength(2);
+    expect(sessions.filter(session => session.current)).toMatchObject([{ id: sessionId, user_agent: 'Laptop' }]);
+  });
+});
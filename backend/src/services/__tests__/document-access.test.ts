@@ -0,0 +1,93 @@
+/**
+ * Document Access Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Share analytics count views per day, format, link and referrer
+ * - Unique viewers are counted by hash, not by view
+ * - Shared documents combine permission entries and share link visits
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({ config: { session: { secret: 'test-secret' } } }));
+
+import { getShareAnalytics, listSharedWithUser, recordDocumentOpen } from '../document-access.js';
+import { createShareLink, recordShareView } from '../share-links.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Document access', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', '');
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+        VALUES ('doc', 'Doc', 'doc', '# Doc', 'alice', 1, 1),
+               ('granted', 'Granted', 'granted', '# Granted', 'alice', 2, 2),
+               ('private', 'Private', 'private', '# Private', 'alice', 3, 3),
+               ('own', 'Own', 'own', '# Own', 'bob', 4, 4);
+      INSERT INTO groups (id, name, created_at) VALUES ('team', 'Team', '');
+      INSERT INTO user_groups (user_id, group_id, added_at) VALUES ('bob', 'team', '');
+      INSERT INTO document_permissions (id, document_id, group_id, permission_level, effect, created_at)
+        VALUES ('p1', 'granted', 'team', 'write', 'allow', '');
+    `);
+  });
+
+  it('should break share views down by day, format, link and referrer', async () => {
+    const team = await createShareLink('doc', 'alice', { label: 'Team' });
+    const press = await createShareLink('doc', 'alice', { label: 'Press' });
+
+    recordShareView(team, 'view', { userId: null, ip: '1.1.1.1', referrer: 'news.example' });
+    recordShareView(team, 'pdf', { userId: null, ip: '1.1.1.1' });
+    recordShareView(press, 'view', { userId: 'bob', ip: '2.2.2.2' });
+    db.prepare('UPDATE document_access_log SET accessed_at = accessed_at - ? WHERE share_id = ?').run(DAY, press.id);
+
+    const analytics = getShareAnalytics('doc', 7);
+    expect(analytics.totals).toEqual({ views: 3, uniqueViewers: 2 });
+    expect(analytics.daily).toHaveLength(7);
+    expect(analytics.daily.slice(-2).map(day => day.views)).toEqual([1, 2]);
+    expect(analytics.formats).toEqual([{ format: 'view', views: 2 }, { format: 'pdf', views: 1 }]);
+    expect(analytics.links.map(link => [link.label, link.views, link.uniqueViewers])).toEqual([['Team', 2, 1], ['Press', 1, 1]]);
+    expect(analytics.referrers).toContainEqual({ referrer: 'news.example', views: 1 });
+  });
+
+  it('should leave out views older than the period and in-app opens', async () => {
+    const link = await createShareLink('doc', 'alice');
+    recordShareView(link, 'md', { userId: null, ip: '1.1.1.1' });
+    db.prepare('UPDATE document_access_log SET accessed_at = accessed_at - ?').run(10 * DAY);
+    recordDocumentOpen('doc', 'bob');
+
+    const analytics = getShareAnalytics('doc', 7);
+    expect(analytics.totals.views).toBe(0);
+    expect(analytics.links).toEqual([{ id: link.id, label: null, views: 0, uniqueViewers: 0, lastViewedAt: null }]);
+    expect(getShareAnalytics('doc', 30).totals.views).toBe(1);
+  });
+
+  it('should list documents shared with a user, most recently viewed first', async () => {
+    const link = await createShareLink('private', 'alice');
+    recordShareView(link, 'view', { userId: 'bob' });
+    db.prepare("UPDATE document_access_log SET accessed_at = 100 WHERE document_id = 'private'").run();
+    recordDocumentOpen('own', 'bob');
+
+    let documents = listSharedWithUser('bob');
+    expect(documents.map(doc => [doc.id, doc.shared_via, doc.permission_level])).toEqual([
+      ['private', 'link', null],
+      ['granted', 'permission', 'write'],
+    ]);
+    expect(documents[0]).toMatchObject({ share_id: link.id, view_count: 1, shared_by_email: 'a@example.com' });
+
+    recordDocumentOpen('granted', 'bob');
+    documents = listSharedWithUser('bob');
+    expect(documents[0]).toMatchObject({ id: 'granted', view_count: 1, share_id: null });
+    expect(listSharedWithUser('alice')).toEqual([]);
+  });
+});
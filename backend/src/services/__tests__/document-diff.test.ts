@@ -0,0 +1,162 @@
+/**
+ * Document Diff Tests
+ *
+ * Tests for the pull request diff engine:
+ * - Line hunks with section annotation
+ * - Partial application of hunks
+ * - Three-way merge with upstream edits and conflict markers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffText, applyHunks, mergeThreeWay, hasConflictMarkers, type TextEdit } from '../document-diff.js';
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  let result = text;
+  for (const edit of [...edits].reverse()) {
+    result = result.slice(0, edit.index) + edit.insert + result.slice(edit.index + edit.deleteCount);
+  }
+  return result;
+}
+
+const base = [
+  '# Title',
+  '',
+  '## Intro',
+  'first line',
+  'second line',
+  '',
+  '## Details',
+  'detail one',
+  'detail two',
+].join('\n');
+
+describe('Document Diff', () => {
+  describe('diffLines', () => {
+    it('should return no hunks for identical texts', () => {
+      expect(diffLines(base, base)).toEqual([]);
+    });
+
+    it('should group changed lines into hunks with their section', () => {
+      const changed = base
+        .replace('second line', 'second line, edited')
+        .replace('detail two', 'detail two\ndetail three');
+
+      const hunks = diffLines(base, changed);
+
+      expect(hunks).toHaveLength(2);
+      expect(hunks[0]).toMatchObject({
+        baseStart: 4,
+        baseLength: 1,
+        removed: ['second line'],
+        added: ['second line, edited'],
+        section: 'Intro',
+      });
+      expect(hunks[1]).toMatchObject({ baseStart: 9, baseLength: 0, removed: [], added: ['detail three'], section: 'Details' });
+      expect(hunks[0].contextBefore).toEqual(['', '## Intro', 'first line']);
+    });
+
+    it('should produce stable hunk ids', () => {
+      const changed = base.replace('first line', 'changed');
+      expect(diffLines(base, changed)[0].id).toBe(diffLines(base, changed)[0].id);
+    });
+
+    it('should handle empty texts', () => {
+      expect(applyHunks('', diffLines('', 'a\nb'))).toBe('a\nb');
+      expect(applyHunks('a\nb', diffLines('a\nb', ''))).toBe('');
+    });
+
+    it('should fall back to one replacement for large rewrites', () => {
+      const base = Array.from({ length: 6000 }, (_, i) => `Alte Zeile ${i}`).join('\n');
+      const changed = Array.from({ length: 6000 }, (_, i) => `Neue Zeile ${i}`).join('\n');
+      const framed = (text: string) => `# Titel\n${text}\nEnde`;
+
+      const started = Date.now();
+      const hunks = diffLines(framed(base), framed(changed));
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(hunks).toHaveLength(1);
+      expect(hunks[0]).toMatchObject({ baseStart: 1, baseLength: 6000, section: 'Titel' });
+      expect(applyHunks(framed(base), hunks)).toBe(framed(changed));
+    });
+  });
+
+  describe('diffText', () => {
+    it('should keep unchanged characters of edited lines', () => {
+      const edits = diffText('The quick brown fox.', 'The very quick brown fox jumps.');
+
+      expect(edits).toEqual([
+        { index: 4, deleteCount: 0, insert: 'very ' },
+        { index: 19, deleteCount: 0, insert: ' jumps' },
+      ]);
+    });
+
+    it('should stay within the text when lines are added or removed at the end', () => {
+      const cases: [string, string][] = [
+        ['a\nb', 'a'],
+        ['a', 'a\nb'],
+        ['a\nb\nc', 'a\nc\nd\n'],
+        ['', 'new'],
+        ['old', ''],
+        ['x\r\ny', 'x\r\nz'],
+      ];
+
+      for (const [base, changed] of cases) {
+        const edits = diffText(base, changed);
+        expect(edits.every(edit => edit.index + edit.deleteCount <= base.length)).toBe(true);
+        expect(applyEdits(base, edits)).toBe(changed);
+      }
+    });
+  });
+
+  describe('applyHunks', () => {
+    it('should reproduce the changed text when all hunks are applied', () => {
+      const changed = '# New title\n\n## Intro\nfirst line\n\n## Details\ndetail one\ndetail two\nmore';
+      expect(applyHunks(base, diffLines(base, changed))).toBe(changed);
+    });
+
+    it('should apply only the selected hunks', () => {
+      const changed = base.replace('first line', 'FIRST').replace('detail one', 'DETAIL');
+      const [intro, details] = diffLines(base, changed);
+
+      const result = applyHunks(base, [intro, details], [details.id]);
+
+      expect(result).toContain('first line');
+      expect(result).toContain('DETAIL');
+    });
+  });
+
+  describe('mergeThreeWay', () => {
+    it('should keep upstream edits made since the fork', () => {
+      const ours = base.replace('## Intro', '## Introduction');
+      const theirs = base.replace('detail two', 'detail two (fork)');
+
+      const result = mergeThreeWay(base, ours, theirs);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.content).toContain('## Introduction');
+      expect(result.content).toContain('detail two (fork)');
+    });
+
+    it('should accept identical changes on both sides', () => {
+      const changed = base.replace('first line', 'same edit');
+      const result = mergeThreeWay(base, changed, changed);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.content).toBe(changed);
+    });
+
+    it('should mark conflicting edits of the same lines', () => {
+      const ours = base.replace('first line', 'upstream edit');
+      const theirs = base.replace('first line', 'fork edit');
+
+      const result = mergeThreeWay(base, ours, theirs, { ours: 'Original', theirs: 'Fork' });
+
+      expect(result.hasConflicts).toBe(true);
+      expect(result.conflicts).toEqual([
+        { baseStart: 3, baseLength: 1, base: ['first line'], ours: ['upstream edit'], theirs: ['fork edit'], section: 'Intro' },
+      ]);
+      expect(result.content).toContain('<<<<<<< Original\nupstream edit\n=======\nfork edit\n>>>>>>> Fork');
+      expect(hasConflictMarkers(result.content)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Document Indexer Tests
+ *
+ * Runs against an in-memory stand-in for the documents collection:
+ * - Re-indexing embeds and writes only changed chunks and removes points of deleted ones
+ * - Points from before chunk hashing are matched by their content
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type Point = { id: string; vector: number[]; payload: Record<string, any> };
+
+const points = vi.hoisted(() => new Map<string, Point>());
+const embedded = vi.hoisted(() => [] as string[][]);
+const upserted = vi.hoisted(() => [] as string[][]);
+const vectorsRead = vi.hoisted(() => ({ count: 0 }));
+
+vi.mock('../memory-monitor.js', () => ({
+  memoryMonitor: { trackOperation: (_component: string, _operation: string, fn: () => Promise<unknown>) => fn() },
+}));
+vi.mock('../embedding.js', () => ({
+  getEmbeddingProvider: () => ({ dimensions: 2 }),
+  generateEmbeddingBatch: vi.fn(async (texts: string[]) => {
+    embedded.push(texts);
+    return texts.map(text => [text.length, 1]);
+  }),
+}));
+vi.mock('../qdrant-client.js', () => ({ COLLECTIONS: { DOCUMENTS: 'documents' } }));
+vi.mock('../vector-store.js', () => ({
+  getVectorStore: () => ({
+    scroll: async (_collection: string, request: any) => {
+      const matching = [...points.values()].filter(point => point.payload.document_id === request.filter.must[0].match.value);
+      if (request.with_vector) vectorsRead.count += matching.length;
+      return {
+        points: matching.map(point => ({ ...point, vector: request.with_vector ? point.vector : undefined })),
+        next_page_offset: null,
+      };
+    },
+    upsert: async (_collection: string, request: { points: Point[] }) => {
+      upserted.push(request.points.map(point => point.id));
+      for (const point of request.points) points.set(point.id, point);
+    },
+    setPayload: async (_collection: string, request: { points: Array<{ id: string; payload: Record<string, any> }> }) => {
+      for (const { id, payload } of request.points) {
+        const point = points.get(id)!;
+        points.set(id, { ...point, payload: { ...point.payload, ...payload } });
+      }
+    },
+    delete: async (_collection: string, request: { points: string[] }) => {
+      for (const id of request.points) points.delete(id);
+    },
+  }),
+}));
+
+import { indexDocument } from '../document-indexer.js';
+
+const section = (title: string, text: string) => `## ${title}\n\n${text}. ${'Lorem ipsum dolor sit amet. '.repeat(60)}\n\n`;
+
+describe('Document indexer', () => {
+  beforeEach(() => {
+    points.clear();
+    embedded.length = 0;
+    upserted.length = 0;
+    vectorsRead.count = 0;
+  });
+
+  it('should embed only changed chunks and remove stale points', async () => {
+    const original = `# Handbuch\n\n${section('Eins', 'Erster Teil')}${section('Zwei', 'Zweiter Teil')}${section('Drei', 'Dritter Teil')}`;
+
+    const first = await indexDocument('doc-1', 'Handbuch', original, 1);
+    expect(first.success).toBe(true);
+    expect(first.chunksEmbedded).toBe(first.chunksIndexed);
+    expect(points.size).toBe(first.chunksIndexed);
+    const firstIds = new Set(points.keys());
+
+    const edited = original
+      .replace('Zweiter Teil', 'Zweiter Teil, überarbeitet')
+      .replace(section('Drei', 'Dritter Teil'), '');
+    embedded.length = 0;
+    upserted.length = 0;
+    const second = await indexDocument('doc-1', 'Handbuch', edited, 2);
+
+    expect(second).toMatchObject({ success: true, chunksReused: second.chunksIndexed - 1, chunksEmbedded: 1 });
+    expect(second.chunksRemoved).toBeGreaterThanOrEqual(2);
+    expect(embedded).toHaveLength(1);
+    expect(embedded[0][0]).toContain('überarbeitet');
+    expect(upserted.flat()).toHaveLength(1);
+    expect(vectorsRead.count).toBe(0);
+    expect(points.size).toBe(second.chunksIndexed);
+    expect([...points.values()].every(point => point.payload.version === 2)).toBe(true);
+    expect([...points.keys()].filter(id => firstIds.has(id))).toHaveLength(second.chunksReused);
+
+    // Saving again without changes embeds nothing
+    embedded.length = 0;
+    upserted.length = 0;
+    const third = await indexDocument('doc-1', 'Handbuch', edited, 3);
+    expect(third).toMatchObject({ chunksEmbedded: 0, chunksReused: second.chunksIndexed, chunksRemoved: 0 });
+    expect(embedded).toHaveLength(0);
+    expect(upserted).toHaveLength(0);
+    expect([...points.values()].every(point => point.payload.version === 3)).toBe(true);
+  });
+
+  it('should reuse vectors of points indexed before chunk hashing', async () => {
+    const content = `# Notiz\n\n${section('Eins', 'Kurzer Text')}`;
+    await indexDocument('doc-2', 'Notiz', content, 1);
+
+    // Legacy points: random ids and no content hash
+    const legacy = [...points.values()].map((point, index) => {
+      const { content_hash: _hash, ...payload } = point.payload;
+      return { id: `legacy-${index}`, vector: point.vector, payload };
+    });
+    points.clear();
+    legacy.forEach(point => points.set(point.id, point));
+    embedded.length = 0;
+
+    const result = await indexDocument('doc-2', 'Notiz', content, 2);
+
+    expect(result).toMatchObject({ chunksEmbedded: 0, chunksReused: legacy.length, chunksRemoved: legacy.length });
+    expect([...points.keys()].some(id => id.startsWith('legacy-'))).toBe(false);
+    expect([...points.values()].every(point => typeof point.payload.content_hash === 'string')).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Document Summary Tests
+ *
+ * Tests for tag suggestions derived from a summary:
+ * - Ordering, de-duplication and reuse of existing tags
+ * - No suggestions from the fallback summary
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../config/index.js', () => ({ config: { gemini: { apiKey: 'test', model: 'test' } } }));
+
+import { deriveTagSuggestions, type DocumentSummary } from '../document-summary.js';
+
+const summary = (mainTopics: string[], sectionTopics: string[][]): DocumentSummary => ({
+  summary: '',
+  mainTopics,
+  sections: sectionTopics.map((topics, index) => ({
+    title: `Abschnitt ${index + 1}`,
+    startOffset: 0,
+    endOffset: 0,
+    characterCount: 0,
+    topics,
+  })),
+  totalChars: 0,
+  summaryGeneratedAt: 0,
+});
+
+describe('Document Summary', () => {
+  describe('deriveTagSuggestions', () => {
+    it('should put main topics first and reuse existing tags', () => {
+      const suggestions = deriveTagSuggestions(
+        summary(['Marktkommunikation', 'utilmd'], [['Fristen'], ['Stammdaten', 'Fristen'], ['UTILMD']]),
+        [{ id: 'tag-1', name: 'UTILMD' }]
+      );
+
+      expect(suggestions).toEqual([
+        { name: 'Marktkommunikation', tagId: null },
+        { name: 'UTILMD', tagId: 'tag-1' },
+        { name: 'Fristen', tagId: null },
+        { name: 'Stammdaten', tagId: null },
+      ]);
+    });
+
+    it('should skip sentence-like topics and the fallback summary', () => {
+      const long = 'Ein sehr langer Satz, der eher eine Beschreibung als ein Schlagwort ist';
+      expect(deriveTagSuggestions(summary([long, 'Netz'], []), [])).toEqual([{ name: 'Netz', tagId: null }]);
+      expect(deriveTagSuggestions(summary(['Inhalt nicht analysierbar'], [[]]), [])).toEqual([]);
+    });
+  });
+});
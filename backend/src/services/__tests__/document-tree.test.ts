@@ -0,0 +1,85 @@
+/**
+ * Document Tree Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Moves keep sibling positions dense and reject cycles
+ * - Reordering only permutes the listed siblings
+ * - Permissions on a parent apply to its subtree
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { moveDocument, reorderChildren, getAncestors, DocumentTreeError } from '../document-tree.js';
+import { PermissionService } from '../permissions.js';
+
+function children(parentId: string | null): string[] {
+  const rows = parentId === null
+    ? db.prepare('SELECT id FROM documents WHERE parent_id IS NULL ORDER BY position').all()
+    : db.prepare('SELECT id FROM documents WHERE parent_id = ? ORDER BY position').all(parentId);
+  return (rows as { id: string }[]).map(row => row.id);
+}
+
+function positions(parentId: string): number[] {
+  return (db.prepare('SELECT position FROM documents WHERE parent_id = ? ORDER BY position').all(parentId) as
+    { position: number }[]).map(row => row.position);
+}
+
+describe('Document Tree', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', '');
+    `);
+    const insert = db.prepare(`
+      INSERT INTO documents (id, title, slug, content, parent_id, position, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, '', ?, ?, 'alice', 1, 1)
+    `);
+    insert.run('root', 'Root', 'root', null, 0);
+    insert.run('a', 'A', 'a', 'root', 0);
+    insert.run('b', 'B', 'b', 'root', 1);
+    insert.run('c', 'C', 'c', 'root', 2);
+    insert.run('a1', 'A1', 'a1', 'a', 0);
+  });
+
+  it('should move a document and keep positions dense', () => {
+    moveDocument('a1', 'root', 1);
+
+    expect(children('root')).toEqual(['a', 'a1', 'b', 'c']);
+    expect(positions('root')).toEqual([0, 1, 2, 3]);
+    expect(children('a')).toEqual([]);
+    expect(getAncestors('a1').map(ancestor => ancestor.id)).toEqual(['root']);
+  });
+
+  it('should reject moving a document below itself or its descendants', () => {
+    expect(() => moveDocument('root', 'a1')).toThrow(DocumentTreeError);
+    expect(() => moveDocument('a', 'a')).toThrow(DocumentTreeError);
+  });
+
+  it('should only permute the slots of the listed siblings', () => {
+    reorderChildren('root', ['c', 'a']);
+    expect(children('root')).toEqual(['c', 'b', 'a']);
+
+    expect(() => reorderChildren('root', ['a1'])).toThrow(DocumentTreeError);
+  });
+
+  it('should inherit permissions from parent documents', () => {
+    expect(PermissionService.checkPermission('a1', 'bob', 'read')).toBe(false);
+
+    PermissionService.setUserPermission('root', 'bob', 'write');
+    expect(PermissionService.checkPermission('a1', 'bob', 'write')).toBe(true);
+    expect(PermissionService.checkPermission('a1', 'bob', 'admin')).toBe(false);
+
+    moveDocument('a', null);
+    expect(PermissionService.checkPermission('a1', 'bob', 'read')).toBe(false);
+  });
+});
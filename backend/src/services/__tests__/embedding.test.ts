@@ -0,0 +1,177 @@
+/**
+ * Embedding Provider Tests
+ *
+ * - The hashing provider is deterministic and ranks shared vocabulary higher
+ * - OpenAI-compatible requests are mapped and checked for their dimensions
+ * - Disabled embeddings fail instead of returning zero vectors, batches use the cache
+ * - The cache is keyed by the full text and evicts the least recently used vectors
+ * - A provider change queues one re-embedding job per affected collection
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+const config = vi.hoisted(() => ({
+  gemini: { apiKey: 'test' },
+  openai: { baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-test' },
+  qdrant: { enableEmbedding: true },
+  embedding: { provider: 'hashing' as const, dimensions: 64, cacheMaxMb: 256 } as any,
+}));
+const vectorStore = vi.hoisted(() => ({ count: vi.fn() }));
+const jobQueue = vi.hoisted(() => ({ getJobs: vi.fn(() => [] as any[]), addJob: vi.fn() }));
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({ config }));
+vi.mock('../vector-store.js', () => ({ getVectorStore: () => vectorStore }));
+vi.mock('../job-queue.js', () => ({ jobQueue }));
+
+import { createGeminiEmbeddingProvider, createHashingEmbeddingProvider, createOpenAIEmbeddingProvider, type EmbeddingProvider } from '../embedding-providers.js';
+import {
+  cosineSimilarity,
+  generateEmbedding,
+  generateEmbeddingBatch,
+  getEmbeddingCacheStats,
+  setEmbeddingProvider,
+} from '../embedding.js';
+import { flushEmbeddingCacheCounters } from '../embedding-cache.js';
+import { getVectorCollectionStates, syncEmbeddingProvider } from '../embedding-migration.js';
+
+describe('Embedding providers', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+    config.qdrant.enableEmbedding = true;
+    config.embedding.cacheMaxMb = 256;
+    vectorStore.count.mockReset();
+    jobQueue.getJobs.mockClear();
+    jobQueue.addJob.mockClear();
+  });
+
+  afterEach(() => {
+    flushEmbeddingCacheCounters();
+    setEmbeddingProvider(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('should hash texts into normalised, deterministic vectors', async () => {
+    const provider = createHashingEmbeddingProvider(256);
+    expect(provider.id).toBe('hashing:hashing-v1:256');
+
+    const [query, related, unrelated, again] = await provider.embed(
+      ['Marktlokation anmelden', 'Anmeldung einer Marktlokation beim Netzbetreiber', 'Rezept für Apfelkuchen', 'Marktlokation anmelden'],
+      'RETRIEVAL_DOCUMENT'
+    );
+
+    expect(query).toHaveLength(256);
+    expect(Math.hypot(...query)).toBeCloseTo(1, 6);
+    expect(again).toEqual(query);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.2);
+  });
+
+  it('should map requests of OpenAI-compatible servers and check the dimensions', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: [{ index: 1, embedding: [0, 1, 0] }, { index: 0, embedding: [1, 0, 0] }],
+      })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: [{ index: 0, embedding: [1, 0] }] })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createOpenAIEmbeddingProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'custom', dimensions: 3 });
+    expect(await provider.embed(['a', 'b'], 'RETRIEVAL_QUERY')).toEqual([[1, 0, 0], [0, 1, 0]]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/embeddings');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(JSON.parse(init.body)).toEqual({ model: 'custom', input: ['a', 'b'] });
+
+    await expect(provider.embed(['c'], 'RETRIEVAL_QUERY')).rejects.toThrow('returned 2 dimensions, expected 3');
+    expect(() => createOpenAIEmbeddingProvider({ baseUrl: 'http://x', model: 'mystery' })).toThrow('EMBEDDING_DIMENSIONS');
+  });
+
+  it('should pass the task type on to Gemini', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ embeddings: [{ values: [0.5, 0.5] }] })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createGeminiEmbeddingProvider('test', 'text-embedding-004');
+    // Distinct from the vectors indexed before task types, which get re-embedded
+    expect(provider.id).toBe('gemini:text-embedding-004:768:task');
+    expect(await provider.embed(['Marktlokation'], 'RETRIEVAL_QUERY')).toEqual([[0.5, 0.5]]);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body)).requests[0]).toMatchObject({ taskType: 'RETRIEVAL_QUERY' });
+  });
+
+  it('should refuse to embed when disabled and embed only uncached texts', async () => {
+    const hashing = createHashingEmbeddingProvider(8);
+    const embed = vi.fn(hashing.embed);
+    const provider: EmbeddingProvider = { ...hashing, maxBatchSize: 2, embed };
+    setEmbeddingProvider(provider);
+
+    config.qdrant.enableEmbedding = false;
+    await expect(generateEmbedding('Hallo')).rejects.toThrow('Embeddings are disabled');
+    config.qdrant.enableEmbedding = true;
+
+    const first = await generateEmbedding('Hallo');
+    const batch = await generateEmbeddingBatch(['eins', 'Hallo', 'zwei', 'drei']);
+
+    expect(batch[1]).toEqual(first);
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([['Hallo'], ['eins', 'zwei'], ['drei']]);
+  });
+
+  it('should cache by full content and evict the least recently used vectors', async () => {
+    const hashing = createHashingEmbeddingProvider(8);
+    const embed = vi.fn(hashing.embed);
+    setEmbeddingProvider({ ...hashing, embed });
+    const prefix = 'x'.repeat(300);
+
+    const [a, b] = await generateEmbeddingBatch([`${prefix} eins`, `${prefix} zwei`]);
+    expect(a).not.toEqual(b);
+    expect(await generateEmbeddingBatch([`${prefix} zwei`, `${prefix} eins`])).toEqual([b, a]);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(getEmbeddingCacheStats()).toMatchObject({ entries: 2, sizeBytes: 128, hits: 2, misses: 2, hitRate: 0.5 });
+    // Hits within a minute of the last use are not written back
+    expect(db.prepare('SELECT DISTINCT created_at = last_used_at AS untouched FROM embedding_cache').all())
+      .toEqual([{ untouched: 1 }]);
+
+    // Room for three and a half vectors of 64 bytes
+    config.embedding.cacheMaxMb = 224 / (1024 * 1024);
+    vi.useFakeTimers({ now: Date.now() + 61000 });
+    await generateEmbedding(`${prefix} eins`);
+    vi.advanceTimersByTime(61000);
+    await generateEmbeddingBatch(['drei', 'vier']);
+    vi.useRealTimers();
+
+    expect(getEmbeddingCacheStats()).toMatchObject({ entries: 3, sizeBytes: 192, evictions: 1 });
+    embed.mockClear();
+    await generateEmbeddingBatch([`${prefix} eins`, `${prefix} zwei`, 'drei', 'vier']);
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([[`${prefix} zwei`]]);
+  });
+
+  it('should queue a re-embedding job once per collection after a provider change', async () => {
+    setEmbeddingProvider(createHashingEmbeddingProvider(64));
+    vectorStore.count.mockResolvedValueOnce(0).mockResolvedValueOnce(42);
+
+    // New empty collection with the provider's size, legacy Gemini collection with data
+    const reembedding = await syncEmbeddingProvider({ documents: 64, summaries: 768 });
+
+    expect(reembedding).toEqual(['summaries']);
+    expect(getVectorCollectionStates()).toMatchObject([
+      { name: 'documents', embedding_id: 'hashing:hashing-v1:64', target_embedding_id: null },
+      { name: 'summaries', embedding_id: 'gemini:text-embedding-004:768', target_embedding_id: 'hashing:hashing-v1:64' },
+    ]);
+    expect(jobQueue.addJob).toHaveBeenCalledTimes(1);
+    expect(jobQueue.addJob).toHaveBeenCalledWith(
+      'reembed-collection',
+      { collection: 'summaries', embeddingId: 'hashing:hashing-v1:64', phase: 'embed', offset: null, processed: 0 },
+      { maxAttempts: 5 }
+    );
+
+    // A restart while the job is queued does not queue it again
+    jobQueue.getJobs.mockReturnValue([{ status: 'queued', payload: jobQueue.addJob.mock.calls[0][1] }]);
+    await syncEmbeddingProvider({ documents: 64, summaries: 768 });
+    expect(jobQueue.addJob).toHaveBeenCalledTimes(1);
+    expect(vectorStore.count).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Group Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - The creator becomes owner, and a group always keeps an owner
+ * - System groups cannot be changed
+ * - Deleting a group removes its document permissions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import {
+  createGroup,
+  deleteGroup,
+  getGroupRole,
+  listGroups,
+  removeGroupMember,
+  setGroupMember,
+  updateGroup,
+  GroupConflictError,
+  GroupMembershipError,
+} from '../groups.js';
+import { PermissionService } from '../permissions.js';
+
+describe('Groups', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', '');
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+        VALUES ('doc', 'Doc', 'doc', '', 'alice', 1, 1);
+    `);
+  });
+
+  it('should make the creator owner and keep at least one owner', () => {
+    const group = createGroup(' Team  A ', null, 'alice');
+    expect(group.name).toBe('Team A');
+    expect(getGroupRole(group.id, 'alice')).toBe('owner');
+    expect(() => createGroup('team a', null, 'bob')).toThrow(GroupConflictError);
+
+    setGroupMember(group.id, 'bob');
+    expect(() => setGroupMember(group.id, 'alice', 'admin')).toThrow(GroupMembershipError);
+    expect(() => removeGroupMember(group.id, 'alice')).toThrow(GroupMembershipError);
+
+    setGroupMember(group.id, 'bob', 'owner');
+    expect(removeGroupMember(group.id, 'alice')).toBe(true);
+    expect(listGroups('bob', { mine: true }).map(g => [g.name, g.role, g.member_count])).toEqual([['Team A', 'owner', 1]]);
+  });
+
+  it('should not change system groups', () => {
+    expect(() => updateGroup('_LOGGED_IN', { name: 'Everybody' })).toThrow(GroupMembershipError);
+    expect(() => setGroupMember('_EVERYONE', 'bob')).toThrow(GroupMembershipError);
+    expect(listGroups('bob').filter(g => g.is_system).map(g => g.id)).toEqual(['_EVERYONE', '_LOGGED_IN']);
+  });
+
+  it('should grant and revoke access through the group', () => {
+    const group = createGroup('Team', null, 'alice');
+    setGroupMember(group.id, 'bob');
+    PermissionService.setGroupPermission('doc', group.id, 'write');
+    expect(PermissionService.checkPermission('doc', 'bob', 'write')).toBe(true);
+
+    deleteGroup(group.id);
+    expect(PermissionService.checkPermission('doc', 'bob', 'read')).toBe(false);
+    expect(db.prepare('SELECT COUNT(*) as count FROM document_permissions').get()).toEqual({ count: 0 });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Hybrid Search Tests
+ *
+ * Tests for the ranking building blocks:
+ * - Weighted reciprocal rank fusion
+ * - BM25 ranking of chunks for exact terms
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../config/index.js', () => ({
+  config: { database: { type: 'sqlite' }, search: { hybridKeywordWeight: 0.5, rrfK: 60 }, features: {} },
+}));
+vi.mock('../../db/index.js', () => ({ getDatabase: vi.fn() }));
+vi.mock('../permissions.js', () => ({ PermissionService: { checkPermission: vi.fn() } }));
+vi.mock('../document-indexer.js', () => ({ searchDocumentChunks: vi.fn(), searchUserContext: vi.fn() }));
+
+import { reciprocalRankFusion, rankChunksByTerms } from '../hybrid-search.js';
+import { parseAnyTermQuery } from '../search.js';
+
+describe('Hybrid Search', () => {
+  describe('reciprocalRankFusion', () => {
+    it('should favour items ranked well in both lists', () => {
+      const fused = reciprocalRankFusion(
+        [
+          { items: ['a', 'b'], weight: 0.5 },
+          { items: ['b', 'c'], weight: 0.5 },
+        ],
+        item => item
+      );
+
+      expect(fused.map(entry => entry.key)).toEqual(['b', 'a', 'c']);
+      expect(fused[0].ranks).toEqual([2, 1]);
+      expect(fused[2].ranks).toEqual([undefined, 2]);
+    });
+
+    it('should follow the configured weight', () => {
+      const lists = (keywordWeight: number) => [
+        { items: ['keyword-hit'], weight: keywordWeight },
+        { items: ['vector-hit'], weight: 1 - keywordWeight },
+      ];
+
+      expect(reciprocalRankFusion(lists(0.8), item => item)[0].key).toBe('keyword-hit');
+      expect(reciprocalRankFusion(lists(0.2), item => item)[0].key).toBe('vector-hit');
+    });
+
+    it('should normalise first place in every list to 1', () => {
+      const fused = reciprocalRankFusion([{ items: ['x'], weight: 0.3 }, { items: ['x'], weight: 0.7 }], item => item);
+      expect(fused[0].score).toBeCloseTo(1);
+    });
+  });
+
+  describe('rankChunksByTerms', () => {
+    const chunks = [
+      { content: 'Allgemeine Hinweise zur Marktkommunikation im Energiemarkt.' },
+      { content: 'Steuerbare Verbrauchseinrichtungen nach §14a EnWG werden per UTILMD gemeldet.' },
+      { content: 'Die UTILMD Nachricht enthält Stammdaten.' },
+    ];
+
+    it('should rank chunks with exact codes and paragraphs first', () => {
+      const ranked = rankChunksByTerms(chunks, parseAnyTermQuery('Was gilt für §14a bei UTILMD?')!);
+
+      expect(ranked.map(result => result.chunk)).toEqual([chunks[1], chunks[2]]);
+    });
+
+    it('should match prefixes, phrases and ignore diacritics', () => {
+      expect(rankChunksByTerms(chunks, parseAnyTermQuery('Verbrauchs*')!)).toHaveLength(1);
+      expect(rankChunksByTerms(chunks, parseAnyTermQuery('"utilmd nachricht"')!)[0].chunk).toBe(chunks[2]);
+      expect(rankChunksByTerms(chunks, parseAnyTermQuery('enthalt')!)[0].chunk).toBe(chunks[2]);
+    });
+  });
+});
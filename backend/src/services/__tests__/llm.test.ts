@@ -0,0 +1,200 @@
+/**
+ * LLM Provider Tests
+ *
+ * - Features use their configured provider, tests can swap it out
+ * - The fake provider answers deterministically and chat history keeps tool calls
+ * - OpenAI-compatible and Anthropic requests and answers are mapped correctly
+ * - Requests to unresponsive servers and stalled streams time out
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../config/index.js', () => ({
+  config: {
+    gemini: { apiKey: 'test', model: 'gemini-test' },
+    openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+    anthropic: { apiKey: 'test', baseUrl: 'https://api.anthropic.com', model: 'claude-test', maxTokens: 1024 },
+    llm: { provider: 'fake', features: { summary: 'openai:qwen2.5:7b' }, timeoutMs: 200 },
+  },
+}));
+
+import {
+  getLLMProvider,
+  historyFromMessages,
+  messagesFromHistory,
+  parseProviderSelection,
+  setLLMProvider,
+  LLMError,
+  type LLMMessage,
+} from '../llm.js';
+import { createFakeProvider } from '../llm-fake.js';
+import { createOpenAIProvider } from '../llm-openai.js';
+import { createAnthropicProvider } from '../llm-anthropic.js';
+
+function mockFetch(...responses: Array<{ status?: number; body: unknown }>) {
+  const fetchMock = vi.fn();
+  for (const response of responses) {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(response.body), { status: response.status ?? 200 }));
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    setLLMProvider('*', null);
+    vi.unstubAllGlobals();
+  });
+
+  it('should pick the configured provider per feature', () => {
+    expect(getLLMProvider('chat')).toMatchObject({ name: 'fake', model: 'echo' });
+    expect(getLLMProvider('summary')).toMatchObject({ name: 'openai', model: 'qwen2.5:7b' });
+    expect(getLLMProvider('chat')).toBe(getLLMProvider('chat'));
+
+    const fake = createFakeProvider('override');
+    setLLMProvider('*', fake);
+    expect(getLLMProvider('summary')).toBe(fake);
+
+    expect(() => parseProviderSelection('mistral:large')).toThrow('Unknown LLM provider');
+  });
+
+  it('should answer deterministically and keep tool calls in the chat history', async () => {
+    const fake = createFakeProvider();
+    expect((await fake.generate({ prompt: 'Hallo Welt' })).text).toBe('Echo: Hallo Welt');
+    expect((await fake.generate({ prompt: 'x', json: true })).text).toBe('{"echo":"x"}');
+
+    fake.respondWith({ toolCalls: [{ id: 'c1', name: 'search', args: { q: 'EDIFACT' } }] }, 'Gefunden');
+    const messages: LLMMessage[] = [{ role: 'user', content: 'Suche' }];
+    const first = await fake.generate({ messages });
+    expect(first.finishReason).toBe('tool_calls');
+    messages.push({ role: 'assistant', content: '', toolCalls: first.toolCalls });
+    messages.push({ role: 'tool', results: [{ id: 'c1', name: 'search', result: { hits: 3 } }] });
+    messages.push({ role: 'assistant', content: (await fake.generate({ messages })).text });
+    expect(fake.requests).toHaveLength(4);
+
+    const history = historyFromMessages(messages);
+    expect(history.map(entry => entry.role)).toEqual(['user', 'model', 'function', 'model']);
+    const restored = messagesFromHistory(history);
+    const call = restored[1].role === 'assistant' ? restored[1].toolCalls![0] : null;
+    expect(call).toMatchObject({ name: 'search', args: { q: 'EDIFACT' } });
+    expect(restored[2]).toEqual({ role: 'tool', results: [{ id: call!.id, name: 'search', result: { hits: 3 } }] });
+
+    let streamed = '';
+    for await (const chunk of fake.stream({ prompt: 'eins zwei drei' })) streamed += chunk;
+    expect(streamed).toBe('Echo: eins zwei drei');
+  });
+
+  it('should map requests and answers of OpenAI-compatible servers', async () => {
+    const fetchMock = mockFetch(
+      {
+        body: {
+          choices: [{
+            message: { content: null, tool_calls: [{ id: 'call_9', function: { name: 'search', arguments: '{"q":"MaLo"}' } }] },
+            finish_reason: 'tool_calls',
+          }],
+          usage: { prompt_tokens: 12, completion_tokens: 3 },
+        },
+      },
+      { status: 503, body: { error: { message: 'model is loading' } } },
+    );
+    const provider = createOpenAIProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1' });
+
+    const response = await provider.generate({
+      system: 'Sei knapp',
+      messages: [
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', args: { q: 'a' } }] },
+        { role: 'tool', results: [{ id: 'call_1', name: 'search', result: { hits: 0 } }] },
+      ],
+      prompt: 'Nochmal',
+      tools: [{ name: 'search', description: 'Suche', parameters: { type: 'object', properties: { q: { type: 'string' } } } }],
+    });
+
+    expect(response).toEqual({
+      text: '',
+      toolCalls: [{ id: 'call_9', name: 'search', args: { q: 'MaLo' } }],
+      finishReason: 'tool_calls',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    const body = JSON.parse(init.body);
+    expect(body.messages.map((message: any) => message.role)).toEqual(['system', 'assistant', 'tool', 'user']);
+    expect(body.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '{"hits":0}' });
+    expect(body.tools[0]).toMatchObject({ type: 'function', function: { name: 'search' } });
+
+    const error = await provider.generate({ prompt: 'x' }).catch(err => err);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ status: 503, message: 'openai API error 503: model is loading' });
+  });
+
+  it('should send tool results to Anthropic as user content blocks', async () => {
+    const fetchMock = mockFetch({
+      body: {
+        content: [{ type: 'text', text: 'Drei Treffer' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 20, output_tokens: 4 },
+      },
+    });
+    const provider = createAnthropicProvider({ apiKey: 'key', baseUrl: 'https://api.anthropic.com', model: 'claude-test', maxTokens: 1024 });
+
+    const response = await provider.generate({
+      json: true,
+      messages: [
+        { role: 'user', content: 'Suche' },
+        { role: 'assistant', content: 'Ich suche', toolCalls: [{ id: 'tu_1', name: 'search', args: { q: 'a' } }] },
+        { role: 'tool', results: [{ id: 'tu_1', name: 'search', result: 'drei' }] },
+      ],
+      prompt: 'Fasse zusammen',
+    });
+
+    expect(response).toMatchObject({ text: 'Drei Treffer', finishReason: 'stop', toolCalls: [] });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('key');
+    const body = JSON.parse(init.body);
+    expect(body.max_tokens).toBe(1024);
+    expect(body.system).toContain('JSON');
+    expect(body.messages.map((message: any) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(body.messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'tu_1', content: 'drei' },
+      { type: 'text', text: 'Fasse zusammen' },
+    ]);
+  });
+
+  it('should time out on servers that do not answer or stop streaming', async () => {
+    // Answers nothing to plain requests and one chunk to streaming ones
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        if (JSON.parse(body).stream) {
+          res.writeHead(200, { 'content-type': 'text/event-stream' });
+          res.write('data: {"choices":[{"delta":{"content":"Hallo"}}]}\n\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    const provider = createOpenAIProvider({ baseUrl, model: 'llama3.1' });
+
+    try {
+      const error = await provider.generate({ prompt: 'x' }).catch(err => err);
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.message).toBe(`openai request to ${baseUrl}/chat/completions timed out after 0.2s`);
+
+      const chunks: string[] = [];
+      const streamError = await (async () => {
+        for await (const chunk of provider.stream({ prompt: 'x' })) chunks.push(chunk);
+      })().catch(err => err);
+      expect(chunks).toEqual(['Hallo']);
+      expect(streamError).toBeInstanceOf(LLMError);
+      expect(streamError.message).toContain('timed out');
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * OIDC Login Tests
+ *
+ * Runs the full authorization code flow against a mock provider on a local
+ * port and an in-memory SQLite database:
+ * - The PKCE verifier, nonce and state are checked end to end
+ * - Users are created on first login and recognized by their subject
+ * - Mapped provider groups control plain group memberships
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { createHash, generateKeyPairSync } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+// Settings are passed to the service explicitly
+vi.mock('../../config/index.js', () => ({ config: {} }));
+
+import { AuthService } from '../auth.js';
+import { createGroup, getGroupRole, setGroupMember } from '../groups.js';
+import { completeLogin, createAuthorizationUrl, type OidcClaims, type OidcSettings } from '../oidc.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+/** Claims the mock provider puts into the next ID token */
+let nextClaims: Partial<OidcClaims> = {};
+const pendingCodes = new Map<string, { nonce: string; challenge: string }>();
+
+let server: Server;
+let settings: OidcSettings;
+
+function startProvider(): Promise<string> {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  let issuer = '';
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    expect(req.query.code_challenge_method).toBe('S256');
+    const code = `code-${pendingCodes.size}`;
+    pendingCodes.set(code, { nonce: String(req.query.nonce), challenge: String(req.query.code_challenge) });
+    res.redirect(`${req.query.redirect_uri}?code=${code}&state=${req.query.state}`);
+  });
+
+  app.post('/token', (req, res) => {
+    const pending = pendingCodes.get(req.body.code);
+    pendingCodes.delete(req.body.code);
+    const challenge = createHash('sha256').update(String(req.body.code_verifier)).digest('base64url');
+    if (!pending || challenge !== pending.challenge) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    const idToken = jwt.sign({ sub: 'user-1', nonce: pending.nonce, ...nextClaims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'test-key',
+      issuer,
+      audience: req.body.client_id,
+      expiresIn: 60,
+    });
+    res.json({ access_token: 'access', token_type: 'Bearer', id_token: idToken });
+  });
+
+  return new Promise(resolve => {
+    server = app.listen(0, '127.0.0.1', () => {
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve(issuer);
+    });
+  });
+}
+
+async function login(claims: Partial<OidcClaims>, returnTo = '/documents/1') {
+  nextClaims = claims;
+  const authorizationUrl = await createAuthorizationUrl(returnTo, settings);
+  const response = await fetch(authorizationUrl, { redirect: 'manual' });
+  const callback = new URL(response.headers.get('location')!);
+  return completeLogin(callback.searchParams.get('code')!, callback.searchParams.get('state')!, settings);
+}
+
+describe('OIDC login', () => {
+  beforeAll(async () => {
+    const issuer = await startProvider();
+    settings = {
+      enabled: true,
+      issuer,
+      clientId: 'markmedit',
+      clientSecret: undefined,
+      redirectUri: 'http://localhost:3001/api/auth/oidc/callback',
+      postLoginUrl: undefined,
+      scopes: 'openid profile email',
+      providerName: 'Mock',
+      groupsClaim: 'groups',
+      groupMapping: { editors: 'Redaktion' },
+      createGroups: true,
+    };
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+  });
+
+  it('should create the user on first login and recognize them afterwards', async () => {
+    const first = await login({ preferred_username: 'carol', email: 'carol@example.com', name: 'Carol' });
+    expect(first).toMatchObject({ created: true, returnTo: '/documents/1', user: { username: 'carol', display_name: 'Carol' } });
+    expect(getGroupRole('_LOGGED_IN', first.user.id)).toBe('member');
+
+    const second = await login({ preferred_username: 'renamed', email: 'carol@example.com' }, 'https://evil.example.com');
+    expect(second).toMatchObject({ created: false, returnTo: '/documents', user: { id: first.user.id } });
+
+    // Password login stays impossible for single sign-on accounts
+    await expect(AuthService.login('carol', '!oidc')).rejects.toThrow('Invalid credentials');
+  });
+
+  it('should link existing accounts only by verified email', async () => {
+    const { user: alice } = await AuthService.register('alice', 'alice@example.com', 'secret-password');
+
+    const unverified = await login({ sub: 'other', preferred_username: 'alice', email: 'alice@example.com' });
+    expect(unverified.user.id).not.toBe(alice.id);
+    expect(unverified.user.username).toBe('alice-2');
+
+    const verified = await login({ sub: 'alice-sso', email: 'alice@example.com', email_verified: true });
+    expect(verified).toMatchObject({ created: false, user: { id: alice.id } });
+  });
+
+  it('should follow provider groups for plain memberships only', async () => {
+    const { user } = await login({ groups: ['editors'] });
+    const group = db.prepare("SELECT id FROM groups WHERE name = 'Redaktion'").get() as { id: string };
+    expect(getGroupRole(group.id, user.id)).toBe('member');
+
+    await login({ groups: [] });
+    expect(getGroupRole(group.id, user.id)).toBeNull();
+
+    const { user: owner } = await AuthService.register('owner', 'owner@example.com', 'secret-password');
+    const managed = createGroup('Managed', null, owner.id);
+    settings.groupMapping = { editors: 'Redaktion', leads: managed.id };
+    setGroupMember(managed.id, user.id, 'admin');
+    await login({ groups: [] });
+    expect(getGroupRole(managed.id, user.id)).toBe('admin');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Permission Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Deny entries override grants on the same and on parent documents
+ * - Grants on a document override inherited denies
+ * - The explanation names the entry that decided the level
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { PermissionService } from '../permissions.js';
+
+describe('PermissionService', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', ''),
+               ('bob', 'bob', 'b@example.com', 'x', 'Bob', '', ''),
+               ('carol', 'carol', 'c@example.com', 'x', 'Carol', '', '');
+      INSERT INTO groups (id, name, created_at) VALUES ('team', 'Team', '');
+      INSERT INTO user_groups (user_id, group_id, added_at) VALUES ('bob', 'team', '');
+      INSERT INTO documents (id, title, slug, content, parent_id, owner_id, created_at, updated_at)
+        VALUES ('folder', 'Folder', 'folder', '', NULL, 'alice', 1, 1),
+               ('doc', 'Doc', 'doc', '', 'folder', 'carol', 1, 1);
+    `);
+  });
+
+  it('should explain owner, group and inherited access', () => {
+    expect(PermissionService.getEffectivePermission('doc', 'alice')).toMatchObject({ level: 'admin', reason: 'inherited' });
+    expect(PermissionService.getEffectivePermission('doc', 'carol')).toMatchObject({ level: 'admin', reason: 'owner' });
+
+    PermissionService.setGroupPermission('doc', 'team', 'write');
+    const effective = PermissionService.getEffectivePermission('doc', 'bob');
+    expect(effective).toMatchObject({ level: 'write', reason: 'group' });
+    expect(effective.decidedBy).toMatchObject({ groupId: 'team', documentId: 'doc', inherited: false });
+  });
+
+  it('should let a deny beat a grant on the same document', () => {
+    PermissionService.setGroupPermission('doc', 'team', 'admin');
+    PermissionService.setUserPermission('doc', 'bob', 'write', 'deny');
+
+    expect(PermissionService.getEffectivePermission('doc', 'bob')).toMatchObject({ level: 'read', reason: 'group' });
+    expect(PermissionService.checkPermission('doc', 'bob', 'write')).toBe(false);
+
+    PermissionService.setUserPermission('doc', 'bob', 'read', 'deny');
+    expect(PermissionService.getEffectivePermission('doc', 'bob')).toMatchObject({ level: null, reason: 'denied' });
+  });
+
+  it('should let the nearest document decide between inherited and direct entries', () => {
+    PermissionService.setGroupPermission('folder', 'team', 'write');
+    PermissionService.setUserPermission('doc', 'bob', 'read', 'deny');
+    expect(PermissionService.checkPermission('doc', 'bob', 'read')).toBe(false);
+
+    PermissionService.setUserPermission('folder', 'bob', 'read', 'deny');
+    PermissionService.setUserPermission('doc', 'bob', 'read');
+    expect(PermissionService.getEffectivePermission('doc', 'bob')).toMatchObject({ level: 'read', reason: 'direct' });
+    expect(PermissionService.checkPermission('folder', 'bob', 'read')).toBe(false);
+  });
+
+  it('should apply _EVERYONE to guests and signed-in users but never deny owners', () => {
+    PermissionService.setGroupPermission('folder', '_EVERYONE', 'read');
+    expect(PermissionService.getEffectivePermission('doc', null)).toMatchObject({ level: 'read', reason: 'inherited' });
+    expect(PermissionService.getEffectivePermission('folder', 'bob')).toMatchObject({ level: 'read', reason: 'everyone' });
+
+    PermissionService.setUserPermission('doc', 'carol', 'read', 'deny');
+    PermissionService.setUserPermission('doc', 'alice', 'read', 'deny');
+    expect(PermissionService.checkPermission('doc', 'carol', 'admin')).toBe(true);
+    expect(PermissionService.checkPermission('doc', 'alice', 'admin')).toBe(true);
+  });
+});
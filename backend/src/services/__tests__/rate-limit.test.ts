@@ -0,0 +1,67 @@
+/**
+ * Rate Limit Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Counters refuse requests over the limit until the window ends
+ * - Lockouts start at the threshold and double up to the maximum
+ * - A successful login forgets earlier failures
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { clearLoginFailures, consumeRateLimit, getLockout, recordLoginFailure } from '../rate-limit.js';
+
+const MINUTE = 60 * 1000;
+const policy = { threshold: 3, baseMs: MINUTE, maxMs: 5 * MINUTE };
+
+describe('Rate limits', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+  });
+
+  it('should refuse requests over the limit until the window ends', () => {
+    const rule = { bucket: 'login', limit: 2, windowMs: MINUTE };
+
+    expect(consumeRateLimit(rule, 'ip:1', 0)).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: MINUTE });
+    expect(consumeRateLimit(rule, 'ip:1', 10).allowed).toBe(true);
+    expect(consumeRateLimit(rule, 'ip:1', 20)).toMatchObject({ allowed: false, remaining: 0 });
+    expect(consumeRateLimit(rule, 'ip:2', 20).allowed).toBe(true);
+    expect(consumeRateLimit({ ...rule, bucket: 'ai' }, 'ip:1', 20).allowed).toBe(true);
+
+    expect(consumeRateLimit(rule, 'ip:1', MINUTE + 20)).toMatchObject({ allowed: true, remaining: 1, resetAt: 2 * MINUTE + 20 });
+    // Windows that ended are dropped when the bucket starts a new one
+    expect(db.prepare("SELECT key FROM rate_limits WHERE bucket = 'login'").all()).toEqual([{ key: 'ip:1' }]);
+  });
+
+  it('should lock accounts progressively after repeated failures', () => {
+    expect(recordLoginFailure('Alice', policy, 0).lockedUntil).toBeNull();
+    expect(recordLoginFailure('alice', policy, 1000).lockedUntil).toBeNull();
+    expect(getLockout('alice', 1000)).toBeNull();
+
+    expect(recordLoginFailure('alice', policy, 2000)).toEqual({ failures: 3, lockedUntil: 2000 + MINUTE });
+    expect(getLockout(' ALICE ', 2000 + MINUTE - 1)).toBe(2000 + MINUTE);
+    expect(getLockout('alice', 2000 + MINUTE)).toBeNull();
+
+    expect(recordLoginFailure('alice', policy, 3000).lockedUntil).toBe(3000 + 2 * MINUTE);
+    expect(recordLoginFailure('alice', policy, 4000).lockedUntil).toBe(4000 + 4 * MINUTE);
+    expect(recordLoginFailure('alice', policy, 5000).lockedUntil).toBe(5000 + 5 * MINUTE);
+    expect(getLockout('bob', 5000)).toBeNull();
+  });
+
+  it('should forget failures after a successful login or a quiet day', () => {
+    for (let i = 0; i < 3; i++) recordLoginFailure('alice', policy, 0);
+    clearLoginFailures('Alice');
+    expect(getLockout('alice', 0)).toBeNull();
+    expect(recordLoginFailure('alice', policy, 0).failures).toBe(1);
+
+    recordLoginFailure('alice', policy, 0);
+    expect(recordLoginFailure('alice', policy, 24 * 60 * MINUTE).failures).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Search Query Tests
+ *
+ * Tests for the full-text query parser:
+ * - Terms, prefixes, phrases and boolean operators
+ * - Rendering for SQLite FTS5 and PostgreSQL tsquery
+ * - Rejection of queries without positive terms
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../config/index.js', () => ({ config: { database: { type: 'sqlite' } } }));
+vi.mock('../../db/index.js', () => ({ getDatabase: vi.fn() }));
+vi.mock('../permissions.js', () => ({ PermissionService: { checkPermission: vi.fn() } }));
+
+import { parseSearchQuery, toFtsQuery, toTsQuery, SearchQueryError } from '../search.js';
+
+const fts = (query: string) => toFtsQuery(parseSearchQuery(query));
+const tsquery = (query: string) => toTsQuery(parseSearchQuery(query));
+
+describe('Search Query', () => {
+  it('should combine terms with an implicit AND', () => {
+    expect(fts('Markdown Editor')).toBe('("markdown" AND "editor")');
+    expect(tsquery('Markdown Editor')).toBe("('markdown' & 'editor')");
+  });
+
+  it('should support prefixes and phrases', () => {
+    expect(fts('edit* "pull request"')).toBe('("edit"* AND "pull request")');
+    expect(tsquery('edit* "pull request"')).toBe("('edit':* & ('pull' <-> 'request'))");
+  });
+
+  it('should bind AND tighter than OR and respect parentheses', () => {
+    expect(fts('a b OR c')).toBe('(("a" AND "b") OR "c")');
+    expect(fts('a (b OR c)')).toBe('("a" AND ("b" OR "c"))');
+  });
+
+  it('should render exclusions as binary NOT for FTS5', () => {
+    expect(fts('report -draft NOT old')).toBe('(("report" NOT "draft") NOT "old")');
+    expect(tsquery('report -draft')).toBe("('report' & !'draft')");
+  });
+
+  it('should treat punctuated words as phrases and ignore stray syntax', () => {
+    expect(fts('e-mail')).toBe('"e mail"');
+    expect(fts('") a AND"')).toBe('"a and"');
+    expect(fts('x ) "y')).toBe('("x" AND "y")');
+  });
+
+  it('should reject queries without positive terms', () => {
+    expect(() => parseSearchQuery('-draft')).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery('a OR NOT b')).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery('( ) " "')).toThrow(SearchQueryError);
+  });
+});
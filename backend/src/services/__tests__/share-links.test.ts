@@ -0,0 +1,99 @@
+/**
+ * Share Link Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Links count their own views and keep only the requested formats
+ * - Expired, used up and revoked links report their status
+ * - Passwords are hashed and unlock tokens follow password changes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({ config: { session: { secret: 'test-secret' } } }));
+
+import {
+  createShareLink,
+  getShareLink,
+  isShareUnlockToken,
+  listShareLinks,
+  recordShareView,
+  revokeShareLink,
+  shareUnlockToken,
+  verifySharePassword,
+  ShareLinkError,
+} from '../share-links.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Share links', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+    db.exec(`
+      INSERT INTO users (id, username, email, password_hash, display_name, created_at, updated_at)
+        VALUES ('alice', 'alice', 'a@example.com', 'x', 'Alice', '', '');
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+        VALUES ('doc-1', 'Doc', 'doc', '# Doc', 'alice', 0, 0);
+    `);
+  });
+
+  it('should keep several links per document with their own formats and view counts', async () => {
+    const all = await createShareLink('doc-1', null, { label: 'Team' });
+    const pdfOnly = await createShareLink('doc-1', null, { formats: ['pdf', 'md', 'pdf'] });
+
+    expect(all.formats).toEqual(['view', 'html', 'pdf', 'docx', 'md', 'rss']);
+    expect(pdfOnly.formats).toEqual(['pdf', 'md']);
+    expect(all.id).not.toBe(pdfOnly.id);
+
+    recordShareView(all, 'view', { userId: null });
+    recordShareView(all, 'pdf', { userId: null });
+    recordShareView(pdfOnly, 'pdf', { userId: null });
+
+    const links = listShareLinks('doc-1');
+    expect(links).toHaveLength(2);
+    expect(links.find(link => link.id === all.id)).toMatchObject({ label: 'Team', view_count: 2, status: 'active' });
+    expect(links.find(link => link.id === pdfOnly.id)?.view_count).toBe(1);
+    await expect(createShareLink('doc-1', null, { formats: [] })).rejects.toBeInstanceOf(ShareLinkError);
+  });
+
+  it('should report expired, used up and revoked links', async () => {
+    const expiring = await createShareLink('doc-1', null, { expiresAt: Date.now() + HOUR });
+    const limited = await createShareLink('doc-1', null, { maxViews: 2 });
+    const revoked = await createShareLink('doc-1', null);
+
+    db.prepare('UPDATE share_links SET expires_at = ? WHERE id = ?').run(Date.now() - 1, expiring.id);
+    recordShareView(limited, 'view', { userId: null });
+    expect(getShareLink(limited.id)?.status).toBe('active');
+    recordShareView(limited, 'md', { userId: null });
+    expect(revokeShareLink('doc-1', revoked.id)).toBe(true);
+    expect(revokeShareLink('doc-1', revoked.id)).toBe(false);
+    expect(revokeShareLink('other-doc', limited.id)).toBe(false);
+
+    expect(getShareLink(expiring.id)?.status).toBe('expired');
+    expect(getShareLink(limited.id)?.status).toBe('exhausted');
+    expect(getShareLink(revoked.id)?.status).toBe('revoked');
+    await expect(createShareLink('doc-1', null, { expiresAt: Date.now() - HOUR })).rejects.toThrow('future');
+  });
+
+  it('should protect links with a hashed password', async () => {
+    const open = await createShareLink('doc-1', null);
+    const locked = await createShareLink('doc-1', null, { password: 'geheim' });
+
+    expect(locked.has_password).toBe(true);
+    expect(db.prepare('SELECT password_hash FROM share_links WHERE id = ?').get(locked.id)).not.toEqual({ password_hash: 'geheim' });
+    expect(await verifySharePassword(locked.id, 'geheim')).toBe(true);
+    expect(await verifySharePassword(locked.id, 'falsch')).toBe(false);
+    expect(await verifySharePassword(open.id, '')).toBe(false);
+
+    const token = shareUnlockToken(locked.id)!;
+    expect(shareUnlockToken(open.id)).toBeNull();
+    expect(isShareUnlockToken(locked.id, token)).toBe(true);
+    db.prepare("UPDATE share_links SET password_hash = 'other' WHERE id = ?").run(locked.id);
+    expect(isShareUnlockToken(locked.id, token)).toBe(false);
+  });
+});
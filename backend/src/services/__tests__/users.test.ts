@@ -0,0 +1,69 @@
+/**
+ * User Administration Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - The first registered user becomes admin
+ * - The last active admin cannot be demoted or deactivated
+ * - Viewers only get read access, whatever they were granted
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+
+import { AuthService } from '../auth.js';
+import { PermissionService } from '../permissions.js';
+import { resetUserPassword, updateUser } from '../users.js';
+
+describe('User administration', () => {
+  let admin: string;
+  let editor: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+    const first = await AuthService.register('alice', 'alice@example.com', 'secret-password');
+    const second = await AuthService.register('bob', 'bob@example.com', 'secret-password');
+    admin = first.user.id;
+    editor = second.user.id;
+    expect(first.user.role).toBe('admin');
+    expect(second.user.role).toBe('editor');
+  });
+
+  it('should keep at least one active admin', async () => {
+    await expect(updateUser(admin, admin, { role: 'editor' })).rejects.toThrow('at least one active admin');
+    await expect(updateUser(admin, admin, { is_active: false })).rejects.toThrow('own account');
+
+    await updateUser(admin, editor, { role: 'admin' });
+    expect(await updateUser(editor, admin, { role: 'viewer' })).toMatchObject({ role: 'viewer', is_active: true });
+  });
+
+  it('should sign out deactivated users and users with a reset password', async () => {
+    const login = await AuthService.login('bob', 'secret-password');
+    expect(await updateUser(admin, editor, { is_active: false })).toMatchObject({ is_active: false });
+    expect(await AuthService.verifyToken(login.token)).toBeNull();
+    await expect(AuthService.login('bob', 'secret-password')).rejects.toThrow('Invalid credentials');
+
+    await updateUser(admin, editor, { is_active: true });
+    const again = await AuthService.login('bob', 'secret-password');
+    await resetUserPassword(editor, 'new-password');
+    expect(await AuthService.verifyToken(again.token)).toBeNull();
+    expect((await AuthService.login('bob', 'new-password')).user.id).toBe(editor);
+  });
+
+  it('should limit viewers to read access', async () => {
+    db.prepare(`
+      INSERT INTO documents (id, title, slug, content, owner_id, created_at, updated_at)
+      VALUES ('doc', 'Doc', 'doc', '', ?, 1, 1)
+    `).run(editor);
+    expect(PermissionService.checkPermission('doc', editor, 'write')).toBe(true);
+
+    await updateUser(admin, editor, { role: 'viewer' });
+    expect(PermissionService.checkPermission('doc', editor, 'read')).toBe(true);
+    expect(PermissionService.checkPermission('doc', editor, 'write')).toBe(false);
+  });
+});
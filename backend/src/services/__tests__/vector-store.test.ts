@@ -0,0 +1,143 @@
+/**
+ * Embedded Vector Store Tests
+ *
+ * Runs against an in-memory SQLite database with all migrations applied:
+ * - Collections, upserts, paging, counting and deleting behave like Qdrant
+ * - Filters follow Qdrant's must / should / must_not semantics
+ * - Uploaded file, research source and summary searches work without Qdrant
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateUp } from '../../db/migrator.js';
+
+let db: Database.Database;
+
+// Query vectors by topic, so scores are predictable
+const TOPICS: Record<string, number[]> = {
+  marktlokation: [1, 0, 0],
+  netzentgelt: [0, 1, 0],
+  kochen: [0, 0, 1],
+};
+
+vi.mock('../../db/index.js', () => ({ getDatabase: () => db }));
+vi.mock('../../config/index.js', () => ({
+  config: { vectorStore: { backend: 'embedded' }, qdrant: { url: 'http://qdrant:6333' } },
+}));
+vi.mock('../memory-monitor.js', () => ({
+  memoryMonitor: { trackOperation: (_component: string, _operation: string, fn: () => Promise<unknown>) => fn() },
+}));
+vi.mock('../embedding.js', () => ({
+  getEmbeddingProvider: () => ({ dimensions: 3 }),
+  generateEmbedding: async (query: string) => TOPICS[query],
+}));
+vi.mock('../llm.js', () => ({ getLLMProvider: vi.fn() }));
+
+import { getVectorStore, initializeCollections, setVectorStore, VectorStoreError } from '../vector-store.js';
+import { createEmbeddedVectorStore, matchesVectorFilter } from '../vector-store-embedded.js';
+import { searchUploadedFiles } from '../file-indexer.js';
+import { searchResearchSources } from '../research-indexer.js';
+import { searchSummaries } from '../recursive-summary.js';
+
+describe('Embedded vector store', () => {
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateUp(db as any, 'sqlite');
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+  });
+
+  it('should manage collections and page through points like Qdrant', async () => {
+    const store = createEmbeddedVectorStore();
+    expect(await store.getCollectionDimensions('notes')).toBeNull();
+    await store.createCollection('notes', 3);
+    expect(await store.getCollectionDimensions('notes')).toBe(3);
+
+    await store.upsert('notes', {
+      points: ['a', 'b', 'c', 'd', 'e'].map((id, index) => ({
+        id,
+        vector: [1, index, 0],
+        payload: { document_id: index % 2 === 0 ? 'doc-1' : 'doc-2', content: `Text ${id}` },
+      })),
+    });
+    await store.upsert('notes', { points: [{ id: 'e', vector: [1, 0, 0], payload: { document_id: 'doc-1', content: 'Alt' } }] });
+    await store.setPayload('notes', { points: [{ id: 'e', payload: { content: 'Neu' } }, { id: 'missing', payload: {} }] });
+
+    const error = await store.upsert('notes', { points: [{ id: 'x', vector: [1, 0], payload: {} }] }).catch(err => err);
+    expect(error).toBeInstanceOf(VectorStoreError);
+    expect(error.status).toBe(400);
+    expect(await store.search('missing', { vector: [1, 0, 0], limit: 1 }).catch(err => err.status)).toBe(404);
+
+    const filter = { must: [{ key: 'document_id', match: { value: 'doc-1' } }] };
+    const first = await store.scroll('notes', { filter, limit: 2, with_payload: ['content'] });
+    expect(first).toEqual({ points: [{ id: 'a', payload: { content: 'Text a' } }, { id: 'c', payload: { content: 'Text c' } }], next_page_offset: 'e' });
+    const second = await store.scroll('notes', { filter, limit: 2, offset: first.next_page_offset, with_vector: true });
+    expect(second.points).toEqual([{ id: 'e', payload: { document_id: 'doc-1', content: 'Neu' }, vector: [1, 0, 0] }]);
+    expect(second.next_page_offset).toBeNull();
+
+    expect(await store.count('notes', { filter })).toBe(3);
+    await store.delete('notes', { filter });
+    await store.delete('notes', { points: ['b'] });
+    expect((await store.scroll('notes', {})).points.map(point => point.id)).toEqual(['d']);
+
+    await store.deleteCollection('notes');
+    expect(await store.getCollectionDimensions('notes')).toBeNull();
+  });
+
+  it('should evaluate filters with Qdrant semantics', () => {
+    const payload = { document_id: 'doc-1', summary_level: 2, tags: ['EDIFACT', 'MaLo'], source: { type: 'web' } };
+
+    expect(matchesVectorFilter(payload)).toBe(true);
+    expect(matchesVectorFilter(payload, { must: [{ key: 'summary_level', match: { value: 2 } }] })).toBe(true);
+    // Types are not coerced
+    expect(matchesVectorFilter(payload, { must: [{ key: 'summary_level', match: { value: '2' } }] })).toBe(false);
+    expect(matchesVectorFilter(payload, { must: [{ key: 'tags', match: { value: 'MaLo' } }] })).toBe(true);
+    expect(matchesVectorFilter(payload, { must: [{ key: 'source.type', match: { any: ['pdf', 'web'] } }] })).toBe(true);
+    expect(matchesVectorFilter(payload, {
+      should: [{ key: 'document_id', match: { value: 'doc-2' } }, { key: 'document_id', match: { value: 'doc-3' } }],
+    })).toBe(false);
+    expect(matchesVectorFilter(payload, { should: [], must_not: [{ key: 'missing', match: { value: 'x' } }] })).toBe(true);
+    expect(matchesVectorFilter(payload, { must_not: [{ key: 'tags', match: { any: ['EDIFACT'] } }] })).toBe(false);
+  });
+
+  it('should serve uploaded file, research source and summary searches', async () => {
+    const store = getVectorStore();
+    expect(store.kind).toBe('embedded');
+    expect(await initializeCollections()).toEqual({ documents: 3, research_sources: 3, uploaded_files: 3, summaries: 3 });
+
+    await store.upsert('uploaded_files', {
+      points: [
+        { id: 'u1', vector: [1, 0.1, 0], payload: { document_id: 'doc-1', file_name: 'malo.pdf', file_type: 'pdf', content: 'MaLo-ID' } },
+        { id: 'u2', vector: [1, 0.3, 0], payload: { document_id: 'doc-2', file_name: 'malo.pdf', file_type: 'pdf', content: 'Andere' } },
+        { id: 'u3', vector: [0, 0, 1], payload: { document_id: 'doc-1', file_name: 'rezept.docx', file_type: 'docx', content: 'Kuchen' } },
+      ],
+    });
+    await store.upsert('research_sources', {
+      points: [
+        { id: 'r1', vector: [0.2, 1, 0], payload: { document_id: 'doc-1', source_type: 'web', relevance: 'direct_reference', title: 'BNetzA', url: 'https://bnetza.de', content: 'Entgelte' } },
+        { id: 'r2', vector: [0.1, 1, 0], payload: { document_id: 'doc-1', source_type: 'pdf', relevance: 'direct_reference', title: 'PDF', url: 'x', content: 'Entgelte PDF' } },
+      ],
+    });
+    await store.upsert('summaries', {
+      points: [
+        { id: 's1', vector: [1, 0, 0], payload: { document_id: 'doc-1', summary_level: 1, content: 'Ebene 1' } },
+        { id: 's2', vector: [1, 0.2, 0], payload: { document_id: 'doc-1', summary_level: 2, content: 'Ebene 2' } },
+        { id: 's3', vector: [1, 0, 0], payload: { document_id: 'doc-2', summary_level: 1, content: 'Fremd' } },
+      ],
+    });
+
+    const files = await searchUploadedFiles('marktlokation', { documentId: 'doc-1' });
+    expect(files.map(file => file.content)).toEqual(['MaLo-ID']);
+    expect((await searchUploadedFiles('marktlokation', { fileName: 'malo.pdf' })).map(file => file.content)).toEqual(['MaLo-ID', 'Andere']);
+
+    const sources = await searchResearchSources('netzentgelt', { documentId: 'doc-1', sourceType: 'web', relevance: 'direct_reference' });
+    expect(sources).toEqual([{ content: 'Entgelte', title: 'BNetzA', url: 'https://bnetza.de', score: expect.closeTo(0.98, 2) }]);
+
+    const summaries = await searchSummaries('marktlokation', 'doc-1');
+    expect(summaries.map(summary => [summary.content, summary.level])).toEqual([['Ebene 1', 1], ['Ebene 2', 2]]);
+    expect(await searchSummaries('marktlokation', 'doc-1', 2)).toMatchObject([{ content: 'Ebene 2', level: 2 }]);
+    expect(await searchSummaries('kochen', 'doc-1')).toEqual([]);
+  });
+});
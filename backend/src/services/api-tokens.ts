@@ -0,0 +1,156 @@
+/**
+ * Personal API Tokens
+ * Long-lived Bearer tokens for scripts and CI jobs. Each token carries a
+ * subset of the owner's rights through scopes, can expire and can be revoked
+ * at any time. Tokens are shown once on creation; only their hash is kept.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { getDatabase } from '../db/index.js';
+import { findActiveUser, type AuthUser } from './auth.js';
+
+export type ApiTokenScope = 'documents:read' | 'documents:write' | 'ai' | 'admin';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['documents:read', 'documents:write', 'ai', 'admin'];
+
+// Distinguishes API tokens from session JWTs in the Authorization header
+export const API_TOKEN_PREFIX = 'mme_';
+
+// last_used_at is written at most once per interval and token
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** First characters of the token, to recognize it */
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  last_used_ip: string | null;
+  revoked_at: number | null;
+}
+
+interface ApiTokenRow extends Omit<ApiToken, 'scopes'> {
+  user_id: string;
+  token_hash: string;
+  scopes: string;
+}
+
+export class ApiTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenError';
+    Object.setPrototypeOf(this, ApiTokenError.prototype);
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    token_prefix: row.token_prefix,
+    scopes: row.scopes.split(' ').filter(Boolean) as ApiTokenScope[],
+    created_at: Number(row.created_at),
+    expires_at: row.expires_at === null ? null : Number(row.expires_at),
+    last_used_at: row.last_used_at === null ? null : Number(row.last_used_at),
+    last_used_ip: row.last_used_ip,
+    revoked_at: row.revoked_at === null ? null : Number(row.revoked_at),
+  };
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Whether granted scopes cover a required one; writing documents includes
+ * reading them
+ */
+export function hasScope(scopes: ApiTokenScope[], required: ApiTokenScope): boolean {
+  return scopes.includes(required) || (required === 'documents:read' && scopes.includes('documents:write'));
+}
+
+/**
+ * Create a token for a user
+ * @returns the token itself, which cannot be retrieved again, and its metadata
+ */
+export function createApiToken(
+  userId: string,
+  options: { name: string; scopes: ApiTokenScope[]; expiresInDays?: number | null }
+): { token: string; apiToken: ApiToken } {
+  const scopes = API_TOKEN_SCOPES.filter(scope => options.scopes.includes(scope));
+  if (scopes.length === 0) {
+    throw new ApiTokenError('At least one scope is required');
+  }
+
+  const id = randomUUID();
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const now = Date.now();
+  const expiresAt = options.expiresInDays ? now + options.expiresInDays * 24 * 60 * 60 * 1000 : null;
+
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix, scopes, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, options.name.trim(), hashToken(token), token.slice(0, 12), scopes.join(' '), now, expiresAt);
+
+  const row = db.prepare('SELECT * FROM api_tokens WHERE id = ?').get(id) as ApiTokenRow;
+  return { token, apiToken: toApiToken(row) };
+}
+
+/**
+ * Tokens of a user including revoked and expired ones, newest first
+ */
+export function listApiTokens(userId: string): ApiToken[] {
+  const rows = getDatabase().prepare(
+    'SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC'
+  ).all(userId) as ApiTokenRow[];
+  return rows.map(toApiToken);
+}
+
+/**
+ * Revoke one of the user's tokens
+ * @returns false if the user has no such active token
+ */
+export function revokeApiToken(userId: string, tokenId: string): boolean {
+  return getDatabase().prepare(
+    'UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL'
+  ).run(Date.now(), tokenId, userId).changes > 0;
+}
+
+/**
+ * Resolve a presented token to its user and scopes; null for unknown,
+ * revoked or expired tokens and for disabled users
+ */
+export function authenticateApiToken(
+  token: string,
+  ipAddress?: string
+): { user: AuthUser; tokenId: string; scopes: ApiTokenScope[] } | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM api_tokens WHERE token_hash = ?').get(hashToken(token)) as
+    ApiTokenRow | undefined;
+
+  const now = Date.now();
+  if (!row || row.revoked_at !== null || (row.expires_at !== null && Number(row.expires_at) <= now)) {
+    return null;
+  }
+
+  const user = findActiveUser(row.user_id);
+  if (!user) {
+    return null;
+  }
+
+  if (row.last_used_at === null || now - Number(row.last_used_at) > LAST_USED_INTERVAL_MS) {
+    db.prepare('UPDATE api_tokens SET last_used_at = ?, last_used_ip = ? WHERE id = ?')
+      .run(now, ipAddress ?? null, row.id);
+  }
+
+  const apiToken = toApiToken(row);
+  return { user, tokenId: apiToken.id, scopes: apiToken.scopes };
+}
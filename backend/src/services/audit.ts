@@ -0,0 +1,199 @@
+/**
+ * Audit Log
+ * Records who did what, for compliance reviews: sign-ins, permission and
+ * ownership changes, sharing, document deletion and archival, pull request
+ * merges and MCP server changes. Writing an entry never fails the action
+ * that is being audited.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDatabase } from '../db/index.js';
+
+export type AuditAction =
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.lockout'
+  | 'auth.password_reset_request'
+  | 'auth.password_reset'
+  | 'auth.email_verified'
+  | 'permission.set'
+  | 'permission.remove'
+  | 'document.transfer_ownership'
+  | 'document.delete'
+  | 'document.archive'
+  | 'document.unarchive'
+  | 'share.enable'
+  | 'share.disable'
+  | 'share.create'
+  | 'share.revoke'
+  | 'pull_request.merge'
+  | 'mcp_server.create'
+  | 'mcp_server.update'
+  | 'mcp_server.delete'
+  | 'mcp_server.set_default'
+  | 'user.update'
+  | 'user.reset_password';
+
+/**
+ * Who triggered an action; routes build it from the request
+ */
+export interface AuditContext {
+  actorId?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface AuditEvent extends AuditContext {
+  action: AuditAction;
+  targetType?: string;
+  targetId?: string | null;
+  documentId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  id: string;
+  created_at: number;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_name: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  document_id: string | null;
+  details: Record<string, unknown> | null;
+  ip_address: string | null;
+}
+
+export interface AuditFilter {
+  /** Exact actions, or prefixes ending in "." such as "auth." */
+  actions?: string[];
+  actorId?: string;
+  documentId?: string;
+  targetType?: string;
+  targetId?: string;
+  /** Inclusive range in epoch milliseconds */
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export const MAX_AUDIT_PAGE_SIZE = 500;
+
+/**
+ * The actor of an authenticated request
+ */
+export function auditContext(req: { user?: { id: string }; ip?: string }): AuditContext {
+  return { actorId: req.user?.id ?? null, ipAddress: req.ip ?? null };
+}
+
+export function recordAudit(event: AuditEvent): void {
+  try {
+    const db = getDatabase();
+    const actor = event.actorId
+      ? db.prepare('SELECT username FROM users WHERE id = ?').get(event.actorId) as { username: string } | undefined
+      : undefined;
+
+    db.prepare(`
+      INSERT INTO audit_log (id, created_at, action, actor_id, actor_name, target_type, target_id, document_id, details, ip_address)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      randomUUID(),
+      Date.now(),
+      event.action,
+      event.actorId ?? null,
+      actor?.username ?? null,
+      event.targetType ?? null,
+      event.targetId ?? null,
+      event.documentId ?? null,
+      event.details ? JSON.stringify(event.details) : null,
+      event.ipAddress ?? null
+    );
+  } catch (error) {
+    console.error(`[audit] Failed to record ${event.action}:`, error);
+  }
+}
+
+/**
+ * Entries matching a filter, newest first, and the total number of matches
+ */
+export function queryAuditLog(filter: AuditFilter = {}): { entries: AuditEntry[]; total: number } {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filter.actions?.length) {
+    const actionConditions = filter.actions.map(action => {
+      if (action.endsWith('.')) {
+        params.push(`${action}%`);
+        return 'action LIKE ?';
+      }
+      params.push(action);
+      return 'action = ?';
+    });
+    conditions.push(`(${actionConditions.join(' OR ')})`);
+  }
+  if (filter.actorId) {
+    conditions.push('actor_id = ?');
+    params.push(filter.actorId);
+  }
+  if (filter.documentId) {
+    conditions.push('document_id = ?');
+    params.push(filter.documentId);
+  }
+  if (filter.targetType) {
+    conditions.push('target_type = ?');
+    params.push(filter.targetType);
+  }
+  if (filter.targetId) {
+    conditions.push('target_id = ?');
+    params.push(filter.targetId);
+  }
+  if (filter.from !== undefined) {
+    conditions.push('created_at >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    conditions.push('created_at <= ?');
+    params.push(filter.to);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const db = getDatabase();
+  const { count } = db.prepare(`SELECT COUNT(*) as count FROM audit_log ${where}`).get(...params) as { count: number };
+  const rows = db.prepare(`
+    SELECT * FROM audit_log ${where}
+    ORDER BY created_at DESC, id
+    LIMIT ? OFFSET ?
+  `).all(...params, filter.limit ?? 100, filter.offset ?? 0) as Array<Omit<AuditEntry, 'details'> & { details: string | null }>;
+
+  return {
+    total: Number(count),
+    entries: rows.map(row => ({
+      ...row,
+      created_at: Number(row.created_at),
+      details: row.details ? JSON.parse(row.details) : null,
+    })),
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  // Quote fields and defuse spreadsheet formulas
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const header = ['time', 'action', 'actor_id', 'actor_name', 'target_type', 'target_id', 'document_id', 'ip_address', 'details'];
+  const lines = entries.map(entry => [
+    new Date(entry.created_at).toISOString(),
+    entry.action,
+    entry.actor_id,
+    entry.actor_name,
+    entry.target_type,
+    entry.target_id,
+    entry.document_id,
+    entry.ip_address,
+    entry.details ? JSON.stringify(entry.details) : '',
+  ].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -3,6 +3,7 @@ import { Server as HTTPServer } from 'http';
 import * as Y from 'yjs';
 import { PermissionService } from './permissions.js';
 import { AuthService } from './auth.js';
+import { diffText } from './document-diff.js';
 import { getDatabase } from '../db/index.js';
 
 interface AuthenticatedWebSocket extends WebSocket {
@@ -34,6 +35,18 @@ const connections = new Map<string, Set<AuthenticatedWebSocket>>();
  */
 const activeUsers = new Map<string, Map<string, UserPresence>>();
 
+/**
+ * Debounced saves of collaborative edits (documentId -> timer)
+ */
+const pendingSaves = new Map<string, { timer: NodeJS.Timeout; since: number }>();
+
+/**
+ * Edits are saved once typing pauses for this long, and at least this often
+ * while it goes on
+ */
+const SAVE_DELAY_MS = 1000;
+const SAVE_MAX_DELAY_MS = 5000;
+
 /**
  * Color palette for user cursors
  */
@@ -52,40 +65,180 @@ function getUserColor(userId: string): string {
   return userColors[Math.abs(hash) % userColors.length];
 }
 
+/**
+ * Text anchor stored as two encoded Y.js relative positions
+ */
+export interface TextAnchor {
+  start: string;
+  end: string;
+}
+
+/**
+ * Bring a Y.Text in line with new content through character-level edits, so
+ * relative positions outside the changed characters keep their place.
+ */
+function syncYText(ytext: Y.Text, content: string): boolean {
+  const current = ytext.toString();
+  if (current === content) return false;
+
+  // Apply back to front so earlier offsets stay valid
+  for (const edit of diffText(current, content).reverse()) {
+    if (edit.deleteCount > 0) ytext.delete(edit.index, edit.deleteCount);
+    if (edit.insert) ytext.insert(edit.index, edit.insert);
+  }
+
+  // Safety net: never leave the shared text diverged from the stored content
+  const result = ytext.toString();
+  if (result !== content) {
+    let prefix = 0;
+    while (prefix < result.length && prefix < content.length && result[prefix] === content[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < result.length - prefix &&
+      suffix < content.length - prefix &&
+      result[result.length - 1 - suffix] === content[content.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    ytext.delete(prefix, result.length - prefix - suffix);
+    ytext.insert(prefix, content.slice(prefix, content.length - suffix));
+  }
+
+  return true;
+}
+
+/**
+ * Persist the Y.js state so relative positions stay valid across restarts
+ */
+function persistYDocState(documentId: string, ydoc: Y.Doc): void {
+  getDatabase().prepare(`
+    INSERT OR REPLACE INTO document_collab_state (document_id, state, updated_at)
+    VALUES (?, ?, ?)
+  `).run(documentId, Buffer.from(Y.encodeStateAsUpdate(ydoc)).toString('base64'), Date.now());
+}
+
 /**
  * Get or create Y.Doc for a document
+ * Cached and persisted states are reconciled with the stored content, which
+ * may have been changed through the REST API since.
  */
 function getYDoc(documentId: string): Y.Doc {
+  const db = getDatabase();
+  const doc = db.prepare('SELECT content FROM documents WHERE id = ?').get(documentId) as any;
   let ydoc = documents.get(documentId);
-  
-  if (!ydoc) {
-    ydoc = new Y.Doc();
-    documents.set(documentId, ydoc);
-    
-    // Load content from database
-    const db = getDatabase();
-    const doc = db.prepare('SELECT content FROM documents WHERE id = ?').get(documentId) as any;
-    
-    if (doc?.content) {
-      const ytext = ydoc.getText('content');
-      ytext.insert(0, doc.content);
+
+  if (ydoc) {
+    // Unsaved edits first, or reconciling would revert them
+    if (pendingSaves.has(documentId)) {
+      saveDocumentState(documentId);
     }
-    
-    // Save on update
-    ydoc.on('update', (update: Uint8Array) => {
-      // Persist to database
-      const content = ydoc!.getText('content').toString();
-      db.prepare('UPDATE documents SET content = ?, updated_at = ? WHERE id = ?')
-        .run(content, Date.now(), documentId);
-      
-      // Broadcast to all connected clients
-      broadcastUpdate(documentId, update);
-    });
+    if (doc) {
+      ydoc.transact(() => syncYText(ydoc!.getText('content'), doc.content), 'server');
+    }
+    return ydoc;
   }
-  
+
+  ydoc = new Y.Doc();
+  documents.set(documentId, ydoc);
+
+  // Load persisted state, or start from the database content
+  const stored = db.prepare('SELECT state FROM document_collab_state WHERE document_id = ?').get(documentId) as any;
+  if (stored?.state) {
+    Y.applyUpdate(ydoc, Buffer.from(stored.state, 'base64'));
+  }
+
+  const ytext = ydoc.getText('content');
+  if (syncYText(ytext, doc?.content ?? '') && stored) {
+    persistYDocState(documentId, ydoc);
+  }
+
+  // Save on update
+  ydoc.on('update', (update: Uint8Array) => {
+    scheduleSave(documentId);
+
+    // Broadcast to all connected clients
+    broadcastUpdate(documentId, update);
+  });
+
   return ydoc;
 }
 
+/**
+ * Save content and Y.js state once edits pause, instead of on every keystroke
+ */
+function scheduleSave(documentId: string): void {
+  const pending = pendingSaves.get(documentId);
+  const since = pending?.since ?? Date.now();
+  if (pending) clearTimeout(pending.timer);
+
+  const delay = Math.max(0, Math.min(SAVE_DELAY_MS, since + SAVE_MAX_DELAY_MS - Date.now()));
+  const timer = setTimeout(() => {
+    try {
+      saveDocumentState(documentId);
+    } catch (error) {
+      console.error(`Failed to save collaborative edits of document ${documentId}:`, error);
+    }
+  }, delay);
+  timer.unref();
+  pendingSaves.set(documentId, { timer, since });
+}
+
+/**
+ * Drop a Y.Doc from memory when nobody is editing it collaboratively
+ */
+function releaseYDoc(documentId: string): void {
+  if (connections.has(documentId)) return;
+  if (pendingSaves.has(documentId)) {
+    saveDocumentState(documentId);
+  }
+  documents.get(documentId)?.destroy();
+  documents.delete(documentId);
+}
+
+/**
+ * Anchor a character range of a document. The anchor follows the text
+ * through later edits, collaborative or through the REST API.
+ */
+export function createTextAnchor(documentId: string, from: number, to: number): TextAnchor {
+  const ydoc = getYDoc(documentId);
+  try {
+    const ytext = ydoc.getText('content');
+    const encode = (index: number, assoc: number) =>
+      Buffer.from(Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(ytext, index, assoc))).toString('base64');
+
+    // Start sticks to the following character, end to the preceding one
+    const anchor = { start: encode(from, 0), end: encode(to, -1) };
+    persistYDocState(documentId, ydoc);
+    return anchor;
+  } finally {
+    releaseYDoc(documentId);
+  }
+}
+
+/**
+ * Resolve anchors to current character ranges (null if the anchor is unknown)
+ */
+export function resolveTextAnchors(documentId: string, anchors: TextAnchor[]): ({ from: number; to: number } | null)[] {
+  if (anchors.length === 0) return [];
+
+  const ydoc = getYDoc(documentId);
+  try {
+    const decode = (encoded: string) => Y.createAbsolutePositionFromRelativePosition(
+      Y.decodeRelativePosition(Buffer.from(encoded, 'base64')),
+      ydoc
+    );
+
+    return anchors.map(anchor => {
+      const start = decode(anchor.start);
+      const end = decode(anchor.end);
+      if (!start || !end) return null;
+      return { from: start.index, to: Math.max(start.index, end.index) };
+    });
+  } finally {
+    releaseYDoc(documentId);
+  }
+}
+
 /**
  * Broadcast Y.js update to all clients
  */
@@ -258,7 +411,10 @@ export function initializeCollaborationServer(httpServer: HTTPServer): WebSocket
         conns.delete(ws);
         if (conns.size === 0) {
           connections.delete(documentId);
-          // Keep Y.Doc for a while (could implement cleanup later)
+          // Keep Y.Doc for a while (could implement cleanup later), but save now
+          if (pendingSaves.has(documentId)) {
+            saveDocumentState(documentId);
+          }
         }
       }
 
@@ -308,9 +464,15 @@ export function getCollaborationStats(): { totalDocuments: number; totalUsers: n
 }
 
 /**
- * Force save document state
+ * Force save document state, including edits waiting for their debounced save
  */
 export function saveDocumentState(documentId: string): void {
+  const pending = pendingSaves.get(documentId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(documentId);
+  }
+
   const ydoc = documents.get(documentId);
   if (!ydoc) return;
 
@@ -318,4 +480,5 @@ export function saveDocumentState(documentId: string): void {
   const content = ydoc.getText('content').toString();
   db.prepare('UPDATE documents SET content = ?, updated_at = ? WHERE id = ?')
     .run(content, Date.now(), documentId);
+  persistYDocState(documentId, ydoc);
 }
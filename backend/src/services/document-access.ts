@@ -0,0 +1,206 @@
+/**
+ * Document Access
+ * Reads document_access_log: analytics for a document's share links, and
+ * the documents other people shared with a user together with when the user
+ * last looked at them.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDatabase } from '../db/index.js';
+import { PermissionService, type PermissionLevel } from './permissions.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ShareAnalytics {
+  from: number;
+  to: number;
+  totals: { views: number; uniqueViewers: number };
+  /** One entry per UTC day of the period, days without views included */
+  daily: Array<{ date: string; views: number; uniqueViewers: number }>;
+  formats: Array<{ format: string; views: number }>;
+  links: Array<{ id: string; label: string | null; views: number; uniqueViewers: number; lastViewedAt: number | null }>;
+  /** Hosts of referring pages; null collects direct visits */
+  referrers: Array<{ referrer: string | null; views: number }>;
+}
+
+export interface SharedDocument {
+  id: string;
+  title: string;
+  slug: string;
+  content: string;
+  background_color: string | null;
+  owner_id: string;
+  shared_by_email: string | null;
+  shared_by_name: string | null;
+  updated_at: number;
+  /**
+   * permission: granted to the user or one of their groups; link: seen only
+   * through a share link; public: readable by everyone and opened by the user
+   */
+  shared_via: 'permission' | 'link' | 'public';
+  permission_level: PermissionLevel | null;
+  /** Share link the user last opened the document with */
+  share_id: string | null;
+  last_viewed_at: number | null;
+  view_count: number;
+}
+
+/**
+ * Remember that a signed-in user opened someone else's document in the app
+ */
+export function recordDocumentOpen(documentId: string, userId: string): void {
+  getDatabase().prepare(`
+    INSERT INTO document_access_log (id, document_id, user_id, access_type, accessed_at)
+    VALUES (?, ?, ?, 'open', ?)
+  `).run(randomUUID(), documentId, userId, Date.now());
+}
+
+/**
+ * Views through the document's share links in the last `days` days. Views
+ * logged before viewers were hashed count as views but not as viewers.
+ */
+export function getShareAnalytics(documentId: string, days = 30, now = Date.now()): ShareAnalytics {
+  const db = getDatabase();
+  const firstDay = Math.floor(now / DAY_MS) - days + 1;
+  const from = firstDay * DAY_MS;
+  const params = [documentId, from, now];
+  const where = `document_id = ? AND access_type = 'share_link' AND accessed_at >= ? AND accessed_at <= ?`;
+
+  const totals = db.prepare(`
+    SELECT COUNT(*) AS views, COUNT(DISTINCT viewer_hash) AS unique_viewers
+    FROM document_access_log WHERE ${where}
+  `).get(...params) as { views: number; unique_viewers: number };
+
+  const dailyRows = db.prepare(`
+    SELECT CAST(accessed_at / ${DAY_MS} AS INTEGER) AS day, COUNT(*) AS views, COUNT(DISTINCT viewer_hash) AS unique_viewers
+    FROM document_access_log WHERE ${where}
+    GROUP BY CAST(accessed_at / ${DAY_MS} AS INTEGER)
+  `).all(...params) as Array<{ day: number; views: number; unique_viewers: number }>;
+  const byDay = new Map(dailyRows.map(row => [Number(row.day), row]));
+
+  const daily: ShareAnalytics['daily'] = [];
+  for (let day = firstDay; day * DAY_MS <= now; day++) {
+    const row = byDay.get(day);
+    daily.push({
+      date: new Date(day * DAY_MS).toISOString().slice(0, 10),
+      views: Number(row?.views ?? 0),
+      uniqueViewers: Number(row?.unique_viewers ?? 0),
+    });
+  }
+
+  // Before formats were logged only the preview page was counted
+  const formats = db.prepare(`
+    SELECT COALESCE(format, 'view') AS format, COUNT(*) AS views
+    FROM document_access_log WHERE ${where}
+    GROUP BY COALESCE(format, 'view')
+    ORDER BY views DESC
+  `).all(...params) as Array<{ format: string; views: number }>;
+
+  const links = db.prepare(`
+    SELECT l.id, l.label, COUNT(a.id) AS views, COUNT(DISTINCT a.viewer_hash) AS unique_viewers,
+           MAX(a.accessed_at) AS last_viewed_at
+    FROM share_links l
+    LEFT JOIN document_access_log a
+      ON a.share_id = l.id AND a.access_type = 'share_link' AND a.accessed_at >= ? AND a.accessed_at <= ?
+    WHERE l.document_id = ?
+    GROUP BY l.id, l.label
+    ORDER BY views DESC, l.id
+  `).all(from, now, documentId) as Array<{
+    id: string; label: string | null; views: number; unique_viewers: number; last_viewed_at: number | null;
+  }>;
+
+  const referrers = db.prepare(`
+    SELECT referrer, COUNT(*) AS views
+    FROM document_access_log WHERE ${where}
+    GROUP BY referrer
+    ORDER BY views DESC
+    LIMIT 20
+  `).all(...params) as Array<{ referrer: string | null; views: number }>;
+
+  return {
+    from,
+    to: now,
+    totals: { views: Number(totals.views), uniqueViewers: Number(totals.unique_viewers) },
+    daily,
+    formats: formats.map(row => ({ format: row.format, views: Number(row.views) })),
+    links: links.map(row => ({
+      id: row.id,
+      label: row.label,
+      views: Number(row.views),
+      uniqueViewers: Number(row.unique_viewers),
+      lastViewedAt: row.last_viewed_at === null ? null : Number(row.last_viewed_at),
+    })),
+    referrers: referrers.map(row => ({ referrer: row.referrer, views: Number(row.views) })),
+  };
+}
+
+/**
+ * Documents of other users that were shared with the user through a
+ * permission entry, or that the user opened in the app or through a share
+ * link; most recently viewed first
+ */
+export function listSharedWithUser(userId: string, limit = 100): SharedDocument[] {
+  const db = getDatabase();
+
+  // Entries for the user or one of their groups; the system groups that
+  // open a document to everyone do not make it shared with this user
+  const granted = db.prepare(`
+    SELECT DISTINCT p.document_id
+    FROM document_permissions p
+    INNER JOIN documents d ON d.id = p.document_id
+    WHERE d.owner_id != ? AND p.effect = 'allow'
+      AND (p.user_id = ? OR p.group_id IN (SELECT group_id FROM user_groups WHERE user_id = ?))
+  `).all(userId, userId, userId) as Array<{ document_id: string }>;
+
+  const viewed = db.prepare(`
+    SELECT a.document_id, COUNT(*) AS view_count, MAX(a.accessed_at) AS last_viewed_at,
+      (SELECT x.share_id FROM document_access_log x
+        WHERE x.document_id = a.document_id AND x.user_id = a.user_id AND x.share_id IS NOT NULL
+        ORDER BY x.accessed_at DESC LIMIT 1) AS share_id
+    FROM document_access_log a
+    WHERE a.user_id = ?
+    GROUP BY a.document_id, a.user_id
+  `).all(userId) as Array<{ document_id: string; view_count: number; last_viewed_at: number; share_id: string | null }>;
+  const views = new Map(viewed.map(row => [row.document_id, row]));
+
+  const grantedIds = new Set(granted.map(row => row.document_id));
+  const documentIds = new Set([...grantedIds, ...views.keys()]);
+  const documentQuery = db.prepare(`
+    SELECT d.id, d.title, d.slug, d.content, d.background_color, d.owner_id, d.updated_at, u.email AS shared_by_email, u.display_name AS shared_by_name
+    FROM documents d
+    LEFT JOIN users u ON d.owner_id = u.id
+    WHERE d.id = ?
+  `);
+
+  const documents: SharedDocument[] = [];
+  for (const documentId of documentIds) {
+    const document = documentQuery.get(documentId) as any;
+    if (!document || document.owner_id === userId) continue;
+
+    const level = PermissionService.getEffectivePermission(documentId, userId).level;
+    const view = views.get(documentId);
+    // Documents only seen through a share link stay listed with that link
+    if (!level && !view?.share_id) continue;
+
+    documents.push({
+      id: document.id,
+      title: document.title,
+      slug: document.slug,
+      content: document.content,
+      background_color: document.background_color ?? null,
+      owner_id: document.owner_id,
+      shared_by_email: document.shared_by_email,
+      shared_by_name: document.shared_by_name,
+      updated_at: Number(document.updated_at),
+      shared_via: level && grantedIds.has(documentId) ? 'permission' : level ? 'public' : 'link',
+      permission_level: level,
+      share_id: view?.share_id ?? null,
+      last_viewed_at: view ? Number(view.last_viewed_at) : null,
+      view_count: view ? Number(view.view_count) : 0,
+    });
+  }
+
+  return documents
+    .sort((a, b) => (b.last_viewed_at ?? 0) - (a.last_viewed_at ?? 0) || b.updated_at - a.updated_at)
+    .slice(0, limit);
+}
@@ -1,7 +1,4 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
-
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
+import { getLLMProvider } from './llm.js';
 
 export interface PresentationOptions {
   sourceContent: string;
@@ -34,15 +31,6 @@ export interface PresentationStructure {
  * Converts markdown document to presentation structure using LLM
  */
 export async function convertToPresentation(options: PresentationOptions): Promise<PresentationStructure> {
-  const model = genAI.getGenerativeModel({ 
-    model: config.gemini.model,
-    generationConfig: {
-      temperature: 1.0, // Gemini 3 default - optimized for reasoning
-      maxOutputTokens: 16384, // Increased for large documents
-      responseMimeType: 'application/json', // Force JSON output
-    },
-  });
-
   const systemPrompt = `Du bist ein Experte für die Erstellung professioneller Präsentationen aus Textdokumenten.
 
 WICHTIGE REGELN für Präsentationen:
@@ -133,8 +121,12 @@ Antworte NUR mit dem vollständigen JSON-Objekt, ohne zusätzliche Erklärungen.
   console.log('[Converter] Preview length:', contentPreview.length, 'characters');
 
   try {
-    const result = await model.generateContent(systemPrompt + '\n\n' + prompt);
-    const response = result.response.text();
+    const { text: response } = await getLLMProvider('conversion').generate({
+      prompt: systemPrompt + '\n\n' + prompt,
+      temperature: 1.0, // Gemini 3 default - optimized for reasoning
+      maxTokens: 16384, // Increased for large documents
+      json: true, // Force JSON output
+    });
     
     console.log('[Converter] LLM response received, length:', response.length);
     
@@ -0,0 +1,443 @@
+/**
+ * Document Diff & Merge Service
+ * Line-level diff (Myers), hunks annotated with their markdown section and a
+ * three-way merge with conflict markers, used for fork pull requests.
+ */
+
+import { createHash } from 'crypto';
+
+export interface DiffHunk {
+  /** Stable id derived from position and content, used to (de)select hunks */
+  id: string;
+  /** First affected line in the base text (0-based) */
+  baseStart: number;
+  /** Number of base lines replaced by this hunk (0 for pure insertions) */
+  baseLength: number;
+  /** Lines removed from the base */
+  removed: string[];
+  /** Lines added in the changed text */
+  added: string[];
+  /** Unchanged lines around the hunk for display */
+  contextBefore: string[];
+  contextAfter: string[];
+  /** Nearest markdown heading above the hunk */
+  section: string | null;
+}
+
+export interface MergeConflict {
+  baseStart: number;
+  baseLength: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+  section: string | null;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: MergeConflict[];
+  hasConflicts: boolean;
+}
+
+export interface TextEdit {
+  /** Offset in the base text */
+  index: number;
+  deleteCount: number;
+  insert: string;
+}
+
+export interface MergeLabels {
+  ours?: string;
+  theirs?: string;
+}
+
+const CONTEXT_LINES = 3;
+/** Hunks up to this size are refined to character edits */
+const MAX_CHAR_DIFF_LENGTH = 2000;
+/**
+ * Myers needs O((N+M)D) time and O(D²) memory; beyond this many edits the
+ * changed range is reported as one replacement instead
+ */
+const MAX_EDIT_DISTANCE = 2000;
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+const CONFLICT_MARKER_PATTERN = /^(<{7}|={7}|>{7})( |$)/m;
+
+type EditOp = 'equal' | 'delete' | 'insert';
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Myers O((N+M)D) shortest edit script. Only the relevant diagonal range is
+ * kept per step, so memory stays proportional to D² rather than D·(N+M).
+ * Returns null once the edit distance exceeds `maxDistance`.
+ */
+function myers(a: string[], b: string[], maxDistance: number): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxDistance);
+  const trace: Int32Array[] = [];
+  let v = new Int32Array(3);
+  let offset = 1;
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    const next = new Int32Array(2 * d + 3);
+    const nextOffset = d + 1;
+
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]);
+      let x = down ? v[k + 1 + offset] : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[k + nextOffset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+
+    trace.push(next);
+    v = next;
+    offset = nextOffset;
+  }
+
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the edit operations
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const prevOffset = d;
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + prevOffset] < prev[k + 1 + prevOffset]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + prevOffset];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    ops.push(down ? 'insert' : 'delete');
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push('equal');
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Shortest edit script between two sequences. The common head and tail are
+ * matched directly; if the rest needs more than MAX_EDIT_DISTANCE edits it
+ * becomes a single replacement, which keeps large rewrites cheap.
+ */
+function shortestEditScript(a: string[], b: string[]): EditOp[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const middleA = a.slice(head, a.length - tail);
+  const middleB = b.slice(head, b.length - tail);
+  const middle = myers(middleA, middleB, MAX_EDIT_DISTANCE) ?? [
+    ...new Array<EditOp>(middleA.length).fill('delete'),
+    ...new Array<EditOp>(middleB.length).fill('insert'),
+  ];
+
+  return [...new Array<EditOp>(head).fill('equal'), ...middle, ...new Array<EditOp>(tail).fill('equal')];
+}
+
+function findSection(lines: string[], before: number): string | null {
+  for (let i = Math.min(before, lines.length) - 1; i >= 0; i--) {
+    const match = lines[i].match(HEADING_PATTERN);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+function hunkId(baseStart: number, removed: string[], added: string[]): string {
+  return createHash('sha1')
+    .update(`${baseStart}\0${removed.join('\n')}\0${added.join('\n')}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+function computeHunks(baseLines: string[], changedLines: string[]): DiffHunk[] {
+  const ops = shortestEditScript(baseLines, changedLines);
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+  let j = 0;
+  let p = 0;
+
+  while (p < ops.length) {
+    if (ops[p] === 'equal') {
+      i++;
+      j++;
+      p++;
+      continue;
+    }
+
+    const baseStart = i;
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (p < ops.length && ops[p] !== 'equal') {
+      if (ops[p] === 'delete') removed.push(baseLines[i++]);
+      else added.push(changedLines[j++]);
+      p++;
+    }
+
+    const baseLength = removed.length;
+    hunks.push({
+      id: hunkId(baseStart, removed, added),
+      baseStart,
+      baseLength,
+      removed,
+      added,
+      contextBefore: baseLines.slice(Math.max(0, baseStart - CONTEXT_LINES), baseStart),
+      contextAfter: baseLines.slice(baseStart + baseLength, baseStart + baseLength + CONTEXT_LINES),
+      section: findSection(baseLines, baseStart + (baseLength > 0 ? 1 : 0)) ?? findSection(added, added.length),
+    });
+  }
+
+  return hunks;
+}
+
+/**
+ * Line-level diff between two texts, grouped into hunks
+ */
+export function diffLines(base: string, changed: string): DiffHunk[] {
+  return computeHunks(splitLines(base), splitLines(changed));
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string, prefix: number): number {
+  let length = 0;
+  while (
+    length < a.length - prefix &&
+    length < b.length - prefix &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Character edits turning one segment into another, offset by `index`
+ */
+function segmentEdits(index: number, oldSegment: string, newSegment: string): TextEdit[] {
+  const prefix = commonPrefixLength(oldSegment, newSegment);
+  const suffix = commonSuffixLength(oldSegment, newSegment, prefix);
+  const oldMiddle = oldSegment.slice(prefix, oldSegment.length - suffix);
+  const newMiddle = newSegment.slice(prefix, newSegment.length - suffix);
+  const start = index + prefix;
+
+  if (!oldMiddle && !newMiddle) return [];
+  if (!oldMiddle || !newMiddle || oldMiddle.length + newMiddle.length > MAX_CHAR_DIFF_LENGTH) {
+    return [{ index: start, deleteCount: oldMiddle.length, insert: newMiddle }];
+  }
+
+  const ops = shortestEditScript(oldMiddle.split(''), newMiddle.split(''));
+  const edits: TextEdit[] = [];
+  let i = 0;
+  let j = 0;
+  let p = 0;
+  while (p < ops.length) {
+    if (ops[p] === 'equal') {
+      i++;
+      j++;
+      p++;
+      continue;
+    }
+    const edit: TextEdit = { index: start + i, deleteCount: 0, insert: '' };
+    while (p < ops.length && ops[p] !== 'equal') {
+      if (ops[p] === 'delete') {
+        edit.deleteCount++;
+        i++;
+      } else {
+        edit.insert += newMiddle[j++];
+      }
+      p++;
+    }
+    edits.push(edit);
+  }
+  return edits;
+}
+
+/**
+ * Character-level edits turning `base` into `changed`. Line hunks are refined
+ * to the characters that actually changed, so unchanged text within an edited
+ * line is kept. Edits are ordered by index and do not overlap.
+ */
+export function diffText(base: string, changed: string): TextEdit[] {
+  // Line offsets assume \n endings; anything else gets a single trimmed edit
+  if (base.includes('\r') || changed.includes('\r')) {
+    return segmentEdits(0, base, changed);
+  }
+
+  const baseLines = splitLines(base);
+  const offsets: number[] = [0];
+  for (const line of baseLines) {
+    offsets.push(offsets[offsets.length - 1] + line.length + 1);
+  }
+
+  // Lines are compared with their terminators; the last line gets a virtual one
+  const edits: TextEdit[] = [];
+  for (const hunk of computeHunks(baseLines, splitLines(changed))) {
+    const oldSegment = hunk.removed.map(line => `${line}\n`).join('');
+    const newSegment = hunk.added.map(line => `${line}\n`).join('');
+    edits.push(...segmentEdits(offsets[hunk.baseStart], oldSegment, newSegment));
+  }
+
+  // Edits reaching past the real text are moved onto the newline before them:
+  // deleting "x\n" after a newline equals deleting "\nx", inserting "y\n" equals inserting "\ny"
+  const terminated = `${base}\n`;
+  return edits.map(edit => {
+    if (edit.index + edit.deleteCount <= base.length) return edit;
+    if (edit.index === 0 || terminated[edit.index - 1] !== '\n') return edit;
+    if (edit.insert && !edit.insert.endsWith('\n')) return edit;
+    return {
+      index: edit.index - 1,
+      deleteCount: edit.deleteCount,
+      insert: edit.insert ? `\n${edit.insert.slice(0, -1)}` : '',
+    };
+  });
+}
+
+/**
+ * Apply the selected hunks of a diff to its base text. Hunks are expected to be
+ * the result of diffLines(base, ...), so they never overlap.
+ */
+export function applyHunks(base: string, hunks: DiffHunk[], selectedIds?: Iterable<string>): string {
+  const selected = selectedIds ? new Set(selectedIds) : null;
+  const baseLines = splitLines(base);
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of [...hunks].sort((a, b) => a.baseStart - b.baseStart)) {
+    if (selected && !selected.has(hunk.id)) continue;
+    result.push(...baseLines.slice(cursor, hunk.baseStart), ...hunk.added);
+    cursor = hunk.baseStart + hunk.baseLength;
+  }
+  result.push(...baseLines.slice(cursor));
+
+  return result.join('\n');
+}
+
+/** Base range [start, end) plus the replacement produced by one side */
+interface SideChange {
+  side: 'ours' | 'theirs';
+  hunk: DiffHunk;
+}
+
+/**
+ * Text a side produces for base[start, end) given its hunks in that range
+ */
+function sideText(baseLines: string[], start: number, end: number, hunks: DiffHunk[]): string[] {
+  const result: string[] = [];
+  let cursor = start;
+  for (const hunk of hunks) {
+    result.push(...baseLines.slice(cursor, hunk.baseStart), ...hunk.added);
+    cursor = hunk.baseStart + hunk.baseLength;
+  }
+  result.push(...baseLines.slice(cursor, end));
+  return result;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Three-way merge of two texts derived from a common base. Changes that touch
+ * the same (or adjacent) base lines on both sides are reported as conflicts
+ * and written with git-style conflict markers unless both sides agree.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels: MergeLabels = {}): MergeResult {
+  const baseLines = splitLines(base);
+  const changes: SideChange[] = [
+    ...computeHunks(baseLines, splitLines(ours)).map(hunk => ({ side: 'ours' as const, hunk })),
+    ...computeHunks(baseLines, splitLines(theirs)).map(hunk => ({ side: 'theirs' as const, hunk })),
+  ].sort((a, b) => a.hunk.baseStart - b.hunk.baseStart || a.hunk.baseLength - b.hunk.baseLength);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let cursor = 0;
+  let index = 0;
+
+  while (index < changes.length) {
+    // Collect every change overlapping or touching the current region
+    let start = changes[index].hunk.baseStart;
+    let end = start + changes[index].hunk.baseLength;
+    const region: SideChange[] = [changes[index++]];
+    while (index < changes.length && changes[index].hunk.baseStart <= end) {
+      const { hunk } = changes[index];
+      start = Math.min(start, hunk.baseStart);
+      end = Math.max(end, hunk.baseStart + hunk.baseLength);
+      region.push(changes[index++]);
+    }
+
+    output.push(...baseLines.slice(cursor, start));
+    cursor = end;
+
+    const oursHunks = region.filter(change => change.side === 'ours').map(change => change.hunk);
+    const theirsHunks = region.filter(change => change.side === 'theirs').map(change => change.hunk);
+    const oursText = sideText(baseLines, start, end, oursHunks);
+    const theirsText = sideText(baseLines, start, end, theirsHunks);
+
+    if (theirsHunks.length === 0 || sameLines(oursText, theirsText)) {
+      output.push(...oursText);
+    } else if (oursHunks.length === 0) {
+      output.push(...theirsText);
+    } else {
+      conflicts.push({
+        baseStart: start,
+        baseLength: end - start,
+        base: baseLines.slice(start, end),
+        ours: oursText,
+        theirs: theirsText,
+        section: findSection(baseLines, start + 1),
+      });
+      output.push(
+        `<<<<<<< ${labels.ours ?? 'ours'}`,
+        ...oursText,
+        '=======',
+        ...theirsText,
+        `>>>>>>> ${labels.theirs ?? 'theirs'}`,
+      );
+    }
+  }
+
+  output.push(...baseLines.slice(cursor));
+
+  return {
+    content: output.join('\n'),
+    conflicts,
+    hasConflicts: conflicts.length > 0,
+  };
+}
+
+/**
+ * Check whether a text still contains unresolved conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return CONFLICT_MARKER_PATTERN.test(text);
+}
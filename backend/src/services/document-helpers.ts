@@ -1,5 +1,4 @@
-import { config } from '../config/index.js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider } from './llm.js';
 
 /**
  * Detect language from document content using simple pattern matching
@@ -67,19 +66,6 @@ export function extractMarkdownTitle(content: string): string | null {
  * Generate a title using LLM based on document content
  */
 export async function generateTitleWithLLM(content: string): Promise<string> {
-  if (!config.gemini.apiKey) {
-    throw new Error('Gemini API key is not configured');
-  }
-
-  const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-  const model = genAI.getGenerativeModel({ 
-    model: config.gemini.model,
-    generationConfig: {
-      temperature: 1.0, // Gemini 3 default - optimized for reasoning
-      maxOutputTokens: 50,
-    }
-  });
-
   const prompt = `Analysiere folgenden Dokumentinhalt und generiere einen prägnanten, aussagekräftigen deutschen Titel (maximal 8 Wörter).
 
 WICHTIG: Antworte NUR mit dem Titel selbst, ohne Anführungszeichen oder zusätzlichen Text.
@@ -87,9 +73,12 @@ WICHTIG: Antworte NUR mit dem Titel selbst, ohne Anführungszeichen oder zusätz
 Dokumentinhalt:
 ${content.substring(0, 1000)}${content.length > 1000 ? '...' : ''}`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  let title = response.text().trim();
+  const response = await getLLMProvider('helpers').generate({
+    prompt,
+    temperature: 1.0, // Gemini 3 default - optimized for reasoning
+    maxTokens: 50,
+  });
+  let title = response.text.trim();
 
   // Remove quotes if present
   title = title.replace(/^["']|["']$/g, '');
@@ -140,10 +129,6 @@ export async function getDocumentTitle(content: string, providedTitle?: string):
  * Automatically detects document language and generates summary in that language
  */
 export async function generateChangeSummary(oldContent: string, newContent: string): Promise<string> {
-  if (!config.gemini.apiKey) {
-    return 'Dokument aktualisiert';
-  }
-
   // If content is too similar, return simple message
   if (oldContent === newContent) {
     return 'Keine Änderungen';
@@ -179,15 +164,6 @@ export async function generateChangeSummary(oldContent: string, newContent: stri
 
     const langConfig = languageConfig[detectedLang] || languageConfig.de;
 
-    const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-    const model = genAI.getGenerativeModel({ 
-      model: config.gemini.model,
-      generationConfig: {
-        temperature: 1.0, // Gemini 3 default - optimized for reasoning
-        maxOutputTokens: 512, // Increased from 100 to allow proper summary generation
-      }
-    });
-
     const prompt = `${langConfig.prompt}
 
 Alte Version (erste 500 Zeichen):
@@ -200,31 +176,29 @@ ${newContent.substring(0, 500)}`;
     
     // Add timeout to prevent hanging
     const timeoutPromise = new Promise<never>((_, reject) => 
-      setTimeout(() => reject(new Error('Gemini API timeout')), 30000)
+      setTimeout(() => reject(new Error('LLM timeout')), 30000)
     );
     
-    const result = await Promise.race([
-      model.generateContent(prompt),
+    const response = await Promise.race([
+      getLLMProvider('helpers').generate({
+        prompt,
+        temperature: 1.0, // Gemini 3 default - optimized for reasoning
+        maxTokens: 512, // Increased from 100 to allow proper summary generation
+      }),
       timeoutPromise
     ]);
     
-    const response = result.response;
-    
     // Check for safety blocks or other issues
-    if (response.promptFeedback?.blockReason) {
-      console.error(`[document-helpers] Content blocked: ${response.promptFeedback.blockReason}`);
+    if (response.finishReason === 'blocked') {
+      console.error('[document-helpers] Content blocked');
       return langConfig.fallback;
     }
     
-    let summary = response.text().trim();
+    let summary = response.text.trim();
     
     // Log if empty
     if (!summary) {
-      console.warn(`[document-helpers] Empty response from Gemini. Candidates:`, JSON.stringify(response.candidates?.map(c => ({
-        finishReason: c.finishReason,
-        safetyRatings: c.safetyRatings,
-        hasContent: !!c.content?.parts?.[0]?.text
-      }))));
+      console.warn(`[document-helpers] Empty response from LLM, finish reason: ${response.finishReason}`);
     }
 
     // Limit to 200 characters
@@ -1,16 +1,96 @@
 /**
  * Document Indexer Service
- * Handles async indexing of documents into QDrant vector store
+ * Handles async indexing of documents into the vector store
  */
 
-import { getQdrantClient, COLLECTIONS, deleteDocumentVectors, type DocumentChunkMetadata } from './qdrant-client.js';
-import { generateEmbeddingBatch } from './embedding.js';
+import { createHash } from 'crypto';
+import { COLLECTIONS, type DocumentChunkMetadata } from './qdrant-client.js';
+import { getVectorStore, type VectorPayload, type VectorPointId } from './vector-store.js';
+import { generateEmbeddingBatch, getEmbeddingProvider } from './embedding.js';
 import { chunkMarkdown, getMarkdownStats } from './markdown-chunking.js';
-import { nanoid } from 'nanoid';
 import { memoryMonitor } from './memory-monitor.js';
+import type { IndexDocumentResult } from './job-queue.js';
+
+function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Stable point id of a chunk: the same content in the same document keeps
+ * its id, repeated chunks are told apart by their occurrence
+ */
+function chunkPointId(documentId: string, hash: string, occurrence: number): string {
+  const hex = createHash('sha256').update(`${documentId}:${hash}:${occurrence}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+interface IndexedChunks {
+  /** Every point of the document */
+  ids: Set<string>;
+  /** Content hash by point id */
+  hashes: Map<string, string>;
+  /** Vectors of points indexed before chunk hashing, by the hash of their content */
+  legacyVectors: Map<string, number[]>;
+}
+
+/**
+ * Points currently stored for a document. Ids and content hashes are enough
+ * to tell unchanged chunks; vectors are only read for points indexed before
+ * chunk hashing, which carry just their content.
+ */
+async function getIndexedChunks(documentId: string): Promise<IndexedChunks> {
+  const store = getVectorStore();
+  const filter = { must: [{ key: 'document_id', match: { value: documentId } }] };
+  const indexed: IndexedChunks = { ids: new Set(), hashes: new Map(), legacyVectors: new Map() };
+  let legacy = 0;
+  let offset: VectorPointId | null = null;
+
+  do {
+    const page = await store.scroll(COLLECTIONS.DOCUMENTS, {
+      filter,
+      limit: 256,
+      offset,
+      with_payload: ['content_hash'],
+      with_vector: false,
+    });
+
+    for (const point of page.points) {
+      indexed.ids.add(String(point.id));
+      if (point.payload.content_hash) {
+        indexed.hashes.set(String(point.id), point.payload.content_hash);
+      } else {
+        legacy++;
+      }
+    }
+    offset = page.next_page_offset;
+  } while (offset !== null);
+
+  // Once re-indexed, these points are replaced by hashed ones
+  if (legacy > 0) {
+    do {
+      const page = await store.scroll(COLLECTIONS.DOCUMENTS, {
+        filter,
+        limit: 256,
+        offset,
+        with_payload: ['content', 'content_hash'],
+        with_vector: true,
+      });
+
+      for (const point of page.points) {
+        if (!point.payload.content_hash && point.payload.content !== undefined && point.vector) {
+          indexed.legacyVectors.set(contentHash(point.payload.content), point.vector);
+        }
+      }
+      offset = page.next_page_offset;
+    } while (offset !== null);
+  }
+
+  return indexed;
+}
 
 /**
- * Index a document into QDrant
+ * Index a document into the vector store. Only chunks whose content changed since the
+ * last run are embedded; points of chunks that disappeared are removed.
  * @param documentId Document ID
  * @param title Document title
  * @param content Markdown content
@@ -21,15 +101,16 @@ export async function indexDocument(
   title: string,
   content: string,
   version: number
-): Promise<{ success: boolean; chunksIndexed: number; error?: string }> {
+): Promise<IndexDocumentResult> {
   return memoryMonitor.trackOperation('DocumentIndexer', 'indexDocument', async () => {
     try {
       console.log(`📚 Starting indexing for document ${documentId} (version ${version})...`);
+      const store = getVectorStore();
 
-      // Step 1: Delete old vectors for this document
-      await memoryMonitor.trackOperation('DocumentIndexer', 'deleteVectors', async () => {
-        await deleteDocumentVectors(COLLECTIONS.DOCUMENTS, documentId);
-      });
+      // Step 1: Load the points of the previous run
+      const indexed = await memoryMonitor.trackOperation('DocumentIndexer', 'loadIndexedChunks', async () =>
+        getIndexedChunks(documentId)
+      );
 
       // Step 2: Get stats for logging
       const stats = getMarkdownStats(content);
@@ -39,66 +120,111 @@ export async function indexDocument(
       const chunks = chunkMarkdown(content, 2000);
       console.log(`✂️ Created ${chunks.length} chunks`);
 
-      if (chunks.length === 0) {
-        console.log(`⚠️ No chunks created for document ${documentId}`);
-        return { success: true, chunksIndexed: 0 };
+      // Step 4: Point ids of the chunks; points that already hold the same content are kept
+      const dimensions = getEmbeddingProvider().dimensions;
+      const hashes = chunks.map(chunk => contentHash(chunk.content));
+      const occurrences = new Map<string, number>();
+      const ids = hashes.map(hash => {
+        const occurrence = occurrences.get(hash) ?? 0;
+        occurrences.set(hash, occurrence + 1);
+        return chunkPointId(documentId, hash, occurrence);
+      });
+      const unchanged = ids.map((id, index) => indexed.hashes.get(id) === hashes[index]);
+
+      // Step 5: Embed the remaining chunks unless a legacy point has a vector of the current model
+      const vectors = new Map<string, number[]>();
+      for (const [hash, vector] of indexed.legacyVectors) {
+        if (vector.length === dimensions) vectors.set(hash, vector);
       }
 
-      // Step 4: Generate embeddings for all chunks
-      const texts = chunks.map(chunk => chunk.content);
-      const embeddings = await memoryMonitor.trackOperation(
-        'DocumentIndexer', 
-        `generateEmbeddings(${chunks.length} chunks)`, 
-        async () => generateEmbeddingBatch(texts, 'RETRIEVAL_DOCUMENT')
-      );
+      const changed = [...new Set(hashes.filter((hash, index) => !unchanged[index] && !vectors.has(hash)))];
+      if (changed.length > 0) {
+        const texts = changed.map(hash => chunks[hashes.indexOf(hash)].content);
+        const embeddings = await memoryMonitor.trackOperation(
+          'DocumentIndexer',
+          `generateEmbeddings(${changed.length} chunks)`,
+          async () => generateEmbeddingBatch(texts, 'RETRIEVAL_DOCUMENT')
+        );
+        changed.forEach((hash, index) => vectors.set(hash, embeddings[index]));
+      }
 
-      // Step 5: Prepare points for QDrant
-      const points = chunks.map((chunk, index) => {
-        const metadata: DocumentChunkMetadata = {
-          document_id: documentId,
-          version,
-          title,
-          chapter: chunk.metadata.chapter,
-          section: chunk.metadata.section,
-          heading_level: chunk.metadata.heading_level,
-          heading_text: chunk.metadata.heading_text,
-          chunk_index: index,
-          total_chunks: chunks.length,
-          content_type: chunk.metadata.content_type,
-          char_count: chunk.metadata.char_count,
-          created_at: new Date().toISOString(),
-        };
-
-        return {
-          id: nanoid(),
-          vector: embeddings[index],
-          payload: {
-            ...metadata,
-            content: chunk.content,
-          },
-        };
+      // Step 6: Write new and changed chunks; unchanged ones only get their new position and version
+      const metadata = chunks.map((chunk, index): DocumentChunkMetadata => ({
+        document_id: documentId,
+        version,
+        title,
+        chapter: chunk.metadata.chapter,
+        section: chunk.metadata.section,
+        heading_level: chunk.metadata.heading_level,
+        heading_text: chunk.metadata.heading_text,
+        chunk_index: index,
+        total_chunks: chunks.length,
+        content_type: chunk.metadata.content_type,
+        char_count: chunk.metadata.char_count,
+        content_hash: hashes[index],
+        created_at: new Date().toISOString(),
+      }));
+
+      const points = chunks.flatMap((chunk, index) => unchanged[index] ? [] : [{
+        id: ids[index],
+        vector: vectors.get(hashes[index])!,
+        payload: {
+          ...metadata[index],
+          content: chunk.content,
+        },
+      }]);
+      if (points.length > 0) {
+        await memoryMonitor.trackOperation('DocumentIndexer', 'qdrantUpsert', async () => {
+          await store.upsert(COLLECTIONS.DOCUMENTS, {
+            points,
+            wait: true,
+          });
+        });
+      }
+
+      const moved = ids.flatMap((id, index) => {
+        if (!unchanged[index]) return [];
+        const { created_at: _createdAt, ...payload } = metadata[index];
+        return [{ id, payload: payload as VectorPayload }];
       });
+      if (moved.length > 0) {
+        await memoryMonitor.trackOperation('DocumentIndexer', 'updateChunkPayloads', async () => {
+          await store.setPayload(COLLECTIONS.DOCUMENTS, { points: moved, wait: true });
+        });
+      }
 
-      // Step 6: Upsert points to QDrant
-      await memoryMonitor.trackOperation('DocumentIndexer', 'qdrantUpsert', async () => {
-        const client = getQdrantClient();
-        await client.upsert(COLLECTIONS.DOCUMENTS, {
-          points,
-          wait: true,
+      // Step 7: Remove points of chunks that are gone
+      const current = new Set(ids);
+      const stale = [...indexed.ids].filter(id => !current.has(id));
+      if (stale.length > 0) {
+        await memoryMonitor.trackOperation('DocumentIndexer', 'deleteStaleVectors', async () => {
+          await store.delete(COLLECTIONS.DOCUMENTS, { points: stale, wait: true });
         });
-      });
+      }
 
-      console.log(`✅ Successfully indexed ${chunks.length} chunks for document ${documentId}`);
+      const embeddedHashes = new Set(changed);
+      const chunksEmbedded = hashes.filter(hash => embeddedHashes.has(hash)).length;
+      const reused = chunks.length - chunksEmbedded;
+      console.log(
+        `✅ Indexed ${chunks.length} chunks for document ${documentId} ` +
+        `(${chunksEmbedded} embedded, ${reused} reused, ${stale.length} removed)`
+      );
 
       return {
         success: true,
         chunksIndexed: chunks.length,
+        chunksReused: reused,
+        chunksEmbedded,
+        chunksRemoved: stale.length,
       };
     } catch (error) {
       console.error(`❌ Error indexing document ${documentId}:`, error);
       return {
         success: false,
         chunksIndexed: 0,
+        chunksReused: 0,
+        chunksEmbedded: 0,
+        chunksRemoved: 0,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
@@ -137,7 +263,7 @@ export async function searchUserContext(
   } = options;
 
   try {
-    const client = getQdrantClient();
+    const store = getVectorStore();
     const { generateEmbedding } = await import('./embedding.js');
     
     // Generate embedding for query
@@ -159,7 +285,7 @@ export async function searchUserContext(
 
     // Search 1: Current document (priority 1.0)
     if (currentDocumentId && userDocIds.includes(currentDocumentId) && includeDocuments) {
-      const currentDocResults = await client.search(COLLECTIONS.DOCUMENTS, {
+      const currentDocResults = await store.search(COLLECTIONS.DOCUMENTS, {
         vector: queryEmbedding,
         filter: {
           must: [
@@ -186,7 +312,7 @@ export async function searchUserContext(
         : userDocIds;
 
       if (otherDocIds.length > 0) {
-        const otherDocsResults = await client.search(COLLECTIONS.DOCUMENTS, {
+        const otherDocsResults = await store.search(COLLECTIONS.DOCUMENTS, {
           vector: queryEmbedding,
           filter: {
             should: otherDocIds.map(docId => ({
@@ -211,7 +337,7 @@ export async function searchUserContext(
     // Search 3: Uploaded files (priority 0.4)
     if (includeUploads) {
       try {
-        const uploadResults = await client.search(COLLECTIONS.UPLOADED_FILES, {
+        const uploadResults = await store.search(COLLECTIONS.UPLOADED_FILES, {
           vector: queryEmbedding,
           filter: {
             must: [
@@ -321,14 +447,13 @@ export async function searchDocumentChunks(
       });
     }
 
-    // Search in QDrant
-    const client = getQdrantClient();
-    const searchResults = await client.search(COLLECTIONS.DOCUMENTS, {
+    // Search in the vector store
+    const store = getVectorStore();
+    const searchResults = await store.search(COLLECTIONS.DOCUMENTS, {
       vector: queryVector,
       limit,
       filter: filter.must.length > 0 ? filter : undefined,
       score_threshold: scoreThreshold,
-      with_payload: true,
     });
 
     // Format results
@@ -411,10 +536,10 @@ export async function getDocumentStructure(documentId: string): Promise<{
   totalChunks: number;
 }> {
   try {
-    const client = getQdrantClient();
+    const store = getVectorStore();
     
     // Get all points for this document
-    const results = await client.scroll(COLLECTIONS.DOCUMENTS, {
+    const results = await store.scroll(COLLECTIONS.DOCUMENTS, {
       filter: {
         must: [
           {
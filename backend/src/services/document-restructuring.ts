@@ -4,10 +4,7 @@
  */
 
 import { searchDocumentChunks, getDocumentStructure } from './document-indexer.js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
-
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
+import { getLLMProvider } from './llm.js';
 
 /**
  * Find all chunks related to a specific topic
@@ -206,8 +203,6 @@ export async function generateRestructuringPlan(
   try {
     const analysis = await analyzeDocumentStructure(documentId);
     
-    const model = genAI.getGenerativeModel({ model: config.gemini.model });
-
     const prompt = `
 Du bist ein Experte für Dokumentstruktur und -organisation.
 
@@ -235,8 +230,7 @@ Format:
 **Geschätzter Impact:** [low/medium/high]
 `;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
+    const { text: response } = await getLLMProvider('conversion').generate({ prompt });
 
     // Parse response
     const stepsMatch = response.match(/\*\*Schritte:\*\*\s*([\s\S]+?)\*\*Geschätzter Impact:\*\*/);
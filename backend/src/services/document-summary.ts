@@ -1,9 +1,6 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
+import { getLLMProvider } from './llm.js';
 
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-
-interface DocumentSummary {
+export interface DocumentSummary {
   summary: string;
   mainTopics: string[];
   sections: SectionInfo[];
@@ -29,14 +26,6 @@ export async function generateDocumentSummary(
   title: string,
   language: string = 'de'
 ): Promise<DocumentSummary> {
-  const model = genAI.getGenerativeModel({
-    model: config.gemini.model,
-    generationConfig: {
-      temperature: 1.0, // Gemini 3 default - optimized for reasoning
-      maxOutputTokens: 4096,
-    },
-  });
-
   const languageMap: Record<string, string> = {
     de: 'Deutsch',
     en: 'English',
@@ -83,8 +72,12 @@ WICHTIG:
 - Alles auf ${languageName}`;
 
   try {
-    const result = await model.generateContent(prompt);
-    let responseText = result.response.text().trim();
+    const result = await getLLMProvider('summary').generate({
+      prompt,
+      temperature: 1.0, // Gemini 3 default - optimized for reasoning
+      maxTokens: 4096,
+    });
+    let responseText = result.text.trim();
 
     // Clean up JSON response
     responseText = responseText
@@ -119,6 +112,58 @@ WICHTIG:
   }
 }
 
+export interface TagSuggestion {
+  name: string;
+  /** Id of the existing tag with this name, null for a new tag */
+  tagId: string | null;
+}
+
+/**
+ * Derive tag suggestions from a document summary. Main topics come first,
+ * then section topics by how many sections share them. Topics matching an
+ * existing tag (ignoring case) reuse that tag's spelling.
+ */
+export function deriveTagSuggestions(
+  summary: DocumentSummary,
+  existingTags: Array<{ id: string; name: string }>,
+  limit: number = 8
+): TagSuggestion[] {
+  // The fallback summary carries a placeholder instead of real topics
+  if (summary.mainTopics?.length === 1 && summary.mainTopics[0] === 'Inhalt nicht analysierbar') {
+    return [];
+  }
+
+  const sectionCounts = new Map<string, number>();
+  for (const section of summary.sections || []) {
+    for (const topic of section.topics || []) {
+      const key = topic.trim().toLowerCase();
+      sectionCounts.set(key, (sectionCounts.get(key) || 0) + 1);
+    }
+  }
+
+  const sectionTopics = (summary.sections || [])
+    .flatMap(section => section.topics || [])
+    .sort((a, b) => (sectionCounts.get(b.trim().toLowerCase()) || 0) - (sectionCounts.get(a.trim().toLowerCase()) || 0));
+
+  const tagsByName = new Map(existingTags.map(tag => [tag.name.toLowerCase(), tag]));
+  const suggestions: TagSuggestion[] = [];
+  const seen = new Set<string>();
+
+  for (const topic of [...(summary.mainTopics || []), ...sectionTopics]) {
+    const name = String(topic).trim().replace(/\s+/g, ' ');
+    const key = name.toLowerCase();
+    // Long topics are sentences, not labels
+    if (!name || name.length > 40 || seen.has(key)) continue;
+    seen.add(key);
+
+    const existing = tagsByName.get(key);
+    suggestions.push(existing ? { name: existing.name, tagId: existing.id } : { name, tagId: null });
+    if (suggestions.length >= limit) break;
+  }
+
+  return suggestions;
+}
+
 /**
  * Find relevant sections based on a reference document
  * Uses the summary to identify which parts of the main document are relevant
@@ -130,14 +175,6 @@ export async function findRelevantSections(
   referenceFilename: string,
   language: string = 'de'
 ): Promise<{ relevantSections: number[]; reasoning: string }> {
-  const model = genAI.getGenerativeModel({
-    model: config.gemini.model,
-    generationConfig: {
-      temperature: 1.0, // Gemini 3 default - optimized for reasoning
-      maxOutputTokens: 2048,
-    },
-  });
-
   const languageMap: Record<string, string> = {
     de: 'Deutsch',
     en: 'English',
@@ -180,8 +217,12 @@ WICHTIG:
 - Antworte auf ${languageName}`;
 
   try {
-    const result = await model.generateContent(prompt);
-    let responseText = result.response.text().trim();
+    const result = await getLLMProvider('summary').generate({
+      prompt,
+      temperature: 1.0, // Gemini 3 default - optimized for reasoning
+      maxTokens: 2048,
+    });
+    let responseText = result.text.trim();
 
     responseText = responseText
       .replace(/^```json\n?/i, '')
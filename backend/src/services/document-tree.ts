@@ -0,0 +1,239 @@
+/**
+ * Document Tree
+ * Documents form a tree through parent_id. Siblings are ordered by position,
+ * which is kept dense (0..n-1) for every parent touched by a move or reorder.
+ * Root documents of all users share one sibling list.
+ */
+
+import { getDatabase } from '../db/index.js';
+import { PermissionService } from './permissions.js';
+
+export interface TreeDocument {
+  id: string;
+  title: string;
+  slug: string;
+  parent_id: string | null;
+  position: number;
+  owner_id: string;
+  is_archived: number | null;
+  is_pinned: number | null;
+  updated_at: number;
+}
+
+export interface DocumentTreeNode extends TreeDocument {
+  children: DocumentTreeNode[];
+}
+
+export interface SubtreeDocument {
+  id: string;
+  title: string;
+  slug: string;
+  content: string;
+  /** 0 for the root of the subtree */
+  depth: number;
+}
+
+export class DocumentTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentTreeError';
+    Object.setPrototypeOf(this, DocumentTreeError.prototype);
+  }
+}
+
+// Same order as the document list: manual position first, newest first on ties
+const SIBLING_ORDER = 'position, created_at DESC';
+
+function siblingIds(parentId: string | null): string[] {
+  const rows = parentId === null
+    ? getDatabase().prepare(`SELECT id FROM documents WHERE parent_id IS NULL ORDER BY ${SIBLING_ORDER}`).all()
+    : getDatabase().prepare(`SELECT id FROM documents WHERE parent_id = ? ORDER BY ${SIBLING_ORDER}`).all(parentId);
+  return (rows as { id: string }[]).map(row => row.id);
+}
+
+function writePositions(ids: string[]): void {
+  const update = getDatabase().prepare('UPDATE documents SET position = ? WHERE id = ?');
+  ids.forEach((id, position) => update.run(position, id));
+}
+
+/**
+ * Ancestors of a document, root first. Stops at a broken link or a loop.
+ */
+export function getAncestors(documentId: string): Array<{ id: string; title: string }> {
+  const db = getDatabase();
+  const ancestors: Array<{ id: string; title: string }> = [];
+  const visited = new Set([documentId]);
+
+  let current = db.prepare('SELECT parent_id FROM documents WHERE id = ?').get(documentId) as
+    { parent_id: string | null } | undefined;
+
+  while (current?.parent_id && !visited.has(current.parent_id)) {
+    visited.add(current.parent_id);
+    const parent = db.prepare('SELECT id, title, parent_id FROM documents WHERE id = ?').get(current.parent_id) as
+      { id: string; title: string; parent_id: string | null } | undefined;
+    if (!parent) break;
+    ancestors.unshift({ id: parent.id, title: parent.title });
+    current = parent;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Ids of all documents below a document, breadth first
+ */
+export function getDescendantIds(documentId: string): string[] {
+  const db = getDatabase();
+  const children = db.prepare('SELECT id FROM documents WHERE parent_id = ?');
+  const descendants: string[] = [];
+  const seen = new Set([documentId]);
+  const queue = [documentId];
+
+  while (queue.length > 0) {
+    for (const { id } of children.all(queue.shift()!) as { id: string }[]) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      descendants.push(id);
+      queue.push(id);
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Whether putting a document below newParentId would make it its own ancestor
+ */
+export function wouldCreateCycle(documentId: string, newParentId: string | null): boolean {
+  if (newParentId === null) return false;
+  if (newParentId === documentId) return true;
+  return getAncestors(newParentId).some(ancestor => ancestor.id === documentId);
+}
+
+/**
+ * Move a document below a new parent (null = root) at the given position
+ * among its new siblings, appending when no position is given.
+ */
+export function moveDocument(documentId: string, newParentId: string | null, position?: number): void {
+  const db = getDatabase();
+  const document = db.prepare('SELECT parent_id FROM documents WHERE id = ?').get(documentId) as
+    { parent_id: string | null } | undefined;
+
+  if (!document) {
+    throw new DocumentTreeError('Document not found');
+  }
+  if (newParentId !== null && !db.prepare('SELECT id FROM documents WHERE id = ?').get(newParentId)) {
+    throw new DocumentTreeError('Parent document not found');
+  }
+  if (wouldCreateCycle(documentId, newParentId)) {
+    throw new DocumentTreeError('A document cannot be moved below itself or one of its descendants');
+  }
+
+  db.transaction(() => {
+    const oldParentId = document.parent_id;
+    if (oldParentId !== newParentId) {
+      db.prepare('UPDATE documents SET parent_id = ? WHERE id = ?').run(newParentId, documentId);
+      writePositions(siblingIds(oldParentId));
+    }
+
+    const siblings = siblingIds(newParentId).filter(id => id !== documentId);
+    const index = position === undefined ? siblings.length : Math.min(Math.max(position, 0), siblings.length);
+    siblings.splice(index, 0, documentId);
+    writePositions(siblings);
+  })();
+}
+
+/**
+ * Put the given children of a parent into the given order. Only the slots
+ * these documents occupy are permuted, so siblings the caller cannot see
+ * keep their place.
+ */
+export function reorderChildren(parentId: string | null, orderedIds: string[]): void {
+  const db = getDatabase();
+
+  db.transaction(() => {
+    const siblings = siblingIds(parentId);
+    const reordered = new Set(orderedIds);
+
+    if (reordered.size !== orderedIds.length) {
+      throw new DocumentTreeError('Duplicate document in new order');
+    }
+    const unknown = orderedIds.find(id => !siblings.includes(id));
+    if (unknown) {
+      throw new DocumentTreeError(`Document ${unknown} is not a child of this parent`);
+    }
+
+    let next = 0;
+    writePositions(siblings.map(id => (reordered.has(id) ? orderedIds[next++] : id)));
+  })();
+}
+
+/**
+ * Position for a new document appended below a parent
+ */
+export function nextChildPosition(parentId: string | null): number {
+  const row = (parentId === null
+    ? getDatabase().prepare('SELECT MAX(position) as max_position FROM documents WHERE parent_id IS NULL').get()
+    : getDatabase().prepare('SELECT MAX(position) as max_position FROM documents WHERE parent_id = ?').get(parentId)
+  ) as { max_position: number | null } | undefined;
+  return row?.max_position === null || row?.max_position === undefined ? 0 : Number(row.max_position) + 1;
+}
+
+/**
+ * Tree of all documents the user can read. Documents whose parent is not
+ * readable appear as roots.
+ */
+export function getDocumentTree(userId: string | null, includeArchived: boolean = false): DocumentTreeNode[] {
+  const rows = getDatabase().prepare(`
+    SELECT id, title, slug, parent_id, position, owner_id, is_archived, is_pinned, updated_at
+    FROM documents
+    ${includeArchived ? '' : 'WHERE (is_archived IS NULL OR is_archived = 0)'}
+    ORDER BY ${SIBLING_ORDER}
+  `).all() as TreeDocument[];
+
+  const nodes = new Map<string, DocumentTreeNode>();
+  for (const row of rows) {
+    if (PermissionService.checkPermission(row.id, userId, 'read')) {
+      nodes.set(row.id, { ...row, children: [] });
+    }
+  }
+
+  const roots: DocumentTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * A document and all readable documents below it, depth first in sibling order
+ */
+export function getSubtree(documentId: string, userId: string | null): SubtreeDocument[] {
+  const db = getDatabase();
+  const select = db.prepare('SELECT id, title, slug, content FROM documents WHERE id = ?');
+  const children = db.prepare(`SELECT id FROM documents WHERE parent_id = ? ORDER BY ${SIBLING_ORDER}`);
+  const result: SubtreeDocument[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string, depth: number) => {
+    if (visited.has(id) || !PermissionService.checkPermission(id, userId, 'read')) return;
+    visited.add(id);
+
+    const document = select.get(id) as Omit<SubtreeDocument, 'depth'> | undefined;
+    if (!document) return;
+    result.push({ ...document, depth });
+
+    for (const child of children.all(id) as { id: string }[]) {
+      visit(child.id, depth + 1);
+    }
+  };
+
+  visit(documentId, 0);
+  return result;
+}
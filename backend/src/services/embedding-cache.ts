@@ -0,0 +1,253 @@
+/**
+ * Embedding Cache
+ * Persistent cache of embedding vectors in the database, keyed by the
+ * SHA-256 of the full text, the embedding provider id and the task type.
+ * Hit and miss counters are stored too, so the numbers include lookups made
+ * by the job worker. Lookups stay reads: counters are collected in memory
+ * and written now and then, usage times are only refreshed once a minute.
+ */
+
+import { createHash } from 'crypto';
+import { getDatabase } from '../db/index.js';
+import { config } from '../config/index.js';
+
+/**
+ * Keeps IN lists well below SQLite's parameter limit
+ */
+const LOOKUP_CHUNK_SIZE = 500;
+
+/**
+ * Eviction frees a bit more than necessary, so it does not run on every store
+ */
+const EVICTION_TARGET = 0.9;
+
+/**
+ * An entry's last use is refreshed at most this often, which is precise
+ * enough to tell old entries from recently used ones
+ */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Hit and miss counts wait this long in memory before they are written
+ */
+const COUNTER_FLUSH_MS = 30 * 1000;
+
+const pendingCounters = { hits: 0, misses: 0 };
+let counterFlush: NodeJS.Timeout | null = null;
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float64Array(vector).buffer);
+}
+
+function decodeVector(blob: Buffer): number[] {
+  const vector = new Array<number>(blob.length / 8);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = blob.readDoubleLE(i * 8);
+  }
+  return vector;
+}
+
+function maxBytes(): number {
+  return config.embedding.cacheMaxMb * 1024 * 1024;
+}
+
+function addToCounters(counters: Record<string, number>): void {
+  const increment = getDatabase().prepare(`
+    INSERT INTO embedding_cache_counters (name, value) VALUES (?, ?)
+    ON CONFLICT (name) DO UPDATE SET value = embedding_cache_counters.value + excluded.value
+  `);
+  for (const [name, value] of Object.entries(counters)) {
+    if (value !== 0) increment.run(name, value);
+  }
+}
+
+/**
+ * Total size of the cached vectors, kept as a counter so stores need no
+ * table scan. Caches filled before the counter existed are summed up once.
+ */
+function cachedBytes(): number {
+  const db = getDatabase();
+  const row = db.prepare("SELECT value FROM embedding_cache_counters WHERE name = 'bytes'").get() as { value: number } | undefined;
+  if (row) return Number(row.value);
+
+  const { total } = db.prepare('SELECT COALESCE(SUM(bytes), 0) AS total FROM embedding_cache').get() as { total: number };
+  db.prepare("INSERT INTO embedding_cache_counters (name, value) VALUES ('bytes', ?)").run(total);
+  return Number(total);
+}
+
+/**
+ * Write the hit and miss counts collected in memory
+ */
+export function flushEmbeddingCacheCounters(): void {
+  if (counterFlush) {
+    clearTimeout(counterFlush);
+    counterFlush = null;
+  }
+  if (pendingCounters.hits === 0 && pendingCounters.misses === 0) return;
+
+  const counters = { ...pendingCounters };
+  pendingCounters.hits = 0;
+  pendingCounters.misses = 0;
+  addToCounters(counters);
+}
+
+function countLookups(hits: number, misses: number): void {
+  pendingCounters.hits += hits;
+  pendingCounters.misses += misses;
+  if (!counterFlush) {
+    counterFlush = setTimeout(() => {
+      try {
+        flushEmbeddingCacheCounters();
+      } catch (error) {
+        console.error('Failed to write embedding cache counters:', error);
+      }
+    }, COUNTER_FLUSH_MS);
+    counterFlush.unref();
+  }
+}
+
+/**
+ * Look up cached vectors for several texts at once
+ * @returns One entry per text, undefined where the cache has none
+ */
+export function lookupEmbeddings(embeddingId: string, taskType: string, texts: string[]): Array<number[] | undefined> {
+  const db = getDatabase();
+  const hashes = texts.map(contentHash);
+  const unique = [...new Set(hashes)];
+  const found = new Map<string, number[]>();
+  const now = Date.now();
+
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + LOOKUP_CHUNK_SIZE);
+    const placeholders = chunk.map(() => '?').join(', ');
+    const rows = db.prepare(`
+      SELECT content_hash, vector, last_used_at FROM embedding_cache
+      WHERE embedding_id = ? AND task_type = ? AND content_hash IN (${placeholders})
+    `).all(embeddingId, taskType, ...chunk) as Array<{ content_hash: string; vector: Buffer; last_used_at: number }>;
+
+    for (const row of rows) {
+      found.set(row.content_hash, decodeVector(row.vector));
+    }
+
+    const stale = rows.filter(row => now - Number(row.last_used_at) >= TOUCH_INTERVAL_MS);
+    if (stale.length > 0) {
+      db.prepare(`
+        UPDATE embedding_cache SET last_used_at = ?
+        WHERE embedding_id = ? AND task_type = ? AND content_hash IN (${stale.map(() => '?').join(', ')})
+      `).run(now, embeddingId, taskType, ...stale.map(row => row.content_hash));
+    }
+  }
+
+  const hits = hashes.filter(hash => found.has(hash)).length;
+  countLookups(hits, hashes.length - hits);
+
+  return hashes.map(hash => found.get(hash));
+}
+
+/**
+ * Store freshly computed vectors and evict old ones if the cache got too big
+ */
+export function storeEmbeddings(
+  embeddingId: string,
+  taskType: string,
+  entries: Array<{ text: string; vector: number[] }>
+): void {
+  if (entries.length === 0) return;
+  const db = getDatabase();
+  const now = Date.now();
+
+  flushEmbeddingCacheCounters();
+
+  db.transaction(() => {
+    // Another process may have stored the same text meanwhile; its vector is as good
+    const insert = db.prepare(`
+      INSERT INTO embedding_cache (content_hash, embedding_id, task_type, vector, bytes, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (embedding_id, task_type, content_hash) DO NOTHING
+    `);
+    let total = cachedBytes();
+    let added = 0;
+    for (const { text, vector } of entries) {
+      const blob = encodeVector(vector);
+      if (insert.run(contentHash(text), embeddingId, taskType, blob, blob.length, now, now).changes > 0) {
+        added += blob.length;
+      }
+    }
+    addToCounters({ bytes: added });
+    total += added;
+
+    if (total > maxBytes()) {
+      evictEmbeddings(total);
+    }
+  })();
+}
+
+/**
+ * Drop the least recently used entries until the cache is back below its size
+ */
+function evictEmbeddings(total: number): void {
+  const db = getDatabase();
+  let toFree = total - maxBytes() * EVICTION_TARGET;
+  let cutoff = 0;
+  for (let offset = 0; toFree > 0; offset += LOOKUP_CHUNK_SIZE) {
+    const rows = db.prepare(`
+      SELECT bytes, last_used_at FROM embedding_cache ORDER BY last_used_at LIMIT ? OFFSET ?
+    `).all(LOOKUP_CHUNK_SIZE, offset) as Array<{ bytes: number; last_used_at: number }>;
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      toFree -= row.bytes;
+      cutoff = row.last_used_at;
+      if (toFree <= 0) break;
+    }
+  }
+
+  // Entries used in the same millisecond as the cutoff go as well
+  const { freed } = db.prepare('SELECT COALESCE(SUM(bytes), 0) AS freed FROM embedding_cache WHERE last_used_at <= ?')
+    .get(cutoff) as { freed: number };
+  const evicted = db.prepare('DELETE FROM embedding_cache WHERE last_used_at <= ?').run(cutoff).changes;
+  addToCounters({ evictions: evicted, bytes: -Number(freed) });
+  console.log(`🧹 Evicted ${evicted} cached embeddings`);
+}
+
+/**
+ * Remove all cached embeddings; the counters are kept
+ */
+export function clearEmbeddingCache(): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('DELETE FROM embedding_cache').run();
+    db.prepare("DELETE FROM embedding_cache_counters WHERE name = 'bytes'").run();
+  })();
+  console.log('✓ Embedding cache cleared');
+}
+
+/**
+ * Get cache statistics
+ */
+export function getEmbeddingCacheStats() {
+  flushEmbeddingCacheCounters();
+  const db = getDatabase();
+  const { entries } = db.prepare('SELECT COUNT(*) AS entries FROM embedding_cache').get() as { entries: number };
+  const bytes = cachedBytes();
+  const counters = Object.fromEntries(
+    (db.prepare('SELECT name, value FROM embedding_cache_counters').all() as Array<{ name: string; value: number }>)
+      .map(row => [row.name, Number(row.value)])
+  );
+  const hits = counters.hits ?? 0;
+  const misses = counters.misses ?? 0;
+
+  return {
+    entries: Number(entries),
+    sizeBytes: bytes,
+    maxSizeBytes: maxBytes(),
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    evictions: counters.evictions ?? 0,
+  };
+}
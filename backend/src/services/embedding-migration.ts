@@ -0,0 +1,188 @@
+/**
+ * Embedding Migration
+ * Vectors of one embedding model cannot be searched with another model's
+ * query vectors. vector_collections records which model filled each
+ * collection; when the configured provider differs, a background job
+ * re-embeds the stored chunk texts into a side collection and swaps it in.
+ */
+
+import { getDatabase } from '../db/index.js';
+import { generateEmbeddingBatch, getEmbeddingProvider } from './embedding.js';
+import { embeddingProviderId } from './embedding-providers.js';
+import type { CollectionName } from './qdrant-client.js';
+import { getVectorStore, type VectorPointId } from './vector-store.js';
+
+/**
+ * Before providers were configurable every collection held Gemini vectors
+ */
+const LEGACY_EMBEDDING_ID = embeddingProviderId('gemini', 'text-embedding-004', 768);
+
+const PAGE_SIZE = 64;
+
+export interface ReembedCollectionPayload {
+  collection: CollectionName;
+  embeddingId: string;
+  /** embed: fill the side collection; swap: copy it back under the real name */
+  phase: 'embed' | 'swap';
+  /** Scroll position of the running phase */
+  offset: VectorPointId | null;
+  processed: number;
+}
+
+export interface VectorCollectionState {
+  name: string;
+  embedding_id: string;
+  dimensions: number;
+  target_embedding_id: string | null;
+  updated_at: number;
+}
+
+export function getVectorCollectionStates(): VectorCollectionState[] {
+  return getDatabase().prepare('SELECT * FROM vector_collections ORDER BY name').all() as VectorCollectionState[];
+}
+
+function getState(name: string): VectorCollectionState | undefined {
+  return getDatabase().prepare('SELECT * FROM vector_collections WHERE name = ?').get(name) as VectorCollectionState | undefined;
+}
+
+function reembedName(collection: string): string {
+  return `${collection}__reembed`;
+}
+
+/**
+ * Compare the collections with the configured embedding provider and queue
+ * a re-embedding job for every collection filled by another model
+ * @param sizes Vector size of each collection, as reported by initializeCollections()
+ * @returns Collections that are being re-embedded
+ */
+export async function syncEmbeddingProvider(sizes: Partial<Record<CollectionName, number>>): Promise<CollectionName[]> {
+  const db = getDatabase();
+  const embedder = getEmbeddingProvider();
+  const { jobQueue } = await import('./job-queue.js');
+  const reembedding: CollectionName[] = [];
+
+  for (const [name, dimensions] of Object.entries(sizes) as Array<[CollectionName, number]>) {
+    let state = getState(name);
+    if (!state) {
+      // Fresh collections were just created for the configured provider
+      const isEmpty = (await getVectorStore().count(name)) === 0;
+      const embeddingId = isEmpty && dimensions === embedder.dimensions
+        ? embedder.id
+        : dimensions === 768 ? LEGACY_EMBEDDING_ID : `unknown:${dimensions}`;
+      db.prepare(`
+        INSERT INTO vector_collections (name, embedding_id, dimensions, target_embedding_id, updated_at)
+        VALUES (?, ?, ?, NULL, ?)
+      `).run(name, embeddingId, dimensions, Date.now());
+      state = getState(name)!;
+    }
+
+    if (state.embedding_id === embedder.id) {
+      if (state.target_embedding_id) {
+        // Switched back while a re-embedding ran; the job stops by itself
+        db.prepare('UPDATE vector_collections SET target_embedding_id = NULL, updated_at = ? WHERE name = ?').run(Date.now(), name);
+      }
+      continue;
+    }
+
+    reembedding.push(name);
+    const running = jobQueue.getJobs({ type: 'reembed-collection' }).some(job =>
+      (job.status === 'queued' || job.status === 'processing') &&
+      job.payload.collection === name && job.payload.embeddingId === embedder.id
+    );
+    if (state.target_embedding_id === embedder.id && running) continue;
+
+    db.prepare('UPDATE vector_collections SET target_embedding_id = ?, updated_at = ? WHERE name = ?').run(embedder.id, Date.now(), name);
+    console.log(`🔁 Collection ${name} holds ${state.embedding_id} vectors, re-embedding with ${embedder.id}`);
+    jobQueue.addJob<ReembedCollectionPayload>(
+      'reembed-collection',
+      { collection: name, embeddingId: embedder.id, phase: 'embed', offset: null, processed: 0 },
+      { maxAttempts: 5 }
+    );
+  }
+
+  return reembedding;
+}
+
+/**
+ * One slice of a re-embedding job. Runs until the collection is done or the
+ * time budget is used up; in that case the returned payload continues the
+ * job from where it stopped.
+ */
+export async function reembedCollection(
+  payload: ReembedCollectionPayload,
+  timeBudgetMs: number
+): Promise<{ done: boolean; processed: number; continueWith?: ReembedCollectionPayload }> {
+  const deadline = Date.now() + timeBudgetMs;
+  const db = getDatabase();
+  const store = getVectorStore();
+  const embedder = getEmbeddingProvider();
+  const side = reembedName(payload.collection);
+  let { phase, offset, processed } = payload;
+
+  const state = getState(payload.collection);
+  if (embedder.id !== payload.embeddingId || state?.target_embedding_id !== payload.embeddingId) {
+    console.log(`[Reembed] Provider changed again, dropping re-embedding of ${payload.collection}`);
+    await store.deleteCollection(side);
+    return { done: true, processed };
+  }
+
+  if (phase === 'embed' && offset === null && processed === 0) {
+    await store.deleteCollection(side);
+    await store.createCollection(side, embedder.dimensions);
+  }
+
+  while (Date.now() < deadline) {
+    if (phase === 'embed') {
+      const page = await store.scroll(payload.collection, {
+        limit: PAGE_SIZE,
+        offset,
+        with_payload: true,
+      });
+
+      if (page.points.length > 0) {
+        const texts = page.points.map(point => String(point.payload.content ?? '') || ' ');
+        const vectors = await generateEmbeddingBatch(texts, 'RETRIEVAL_DOCUMENT');
+        await store.upsert(side, {
+          wait: true,
+          points: page.points.map((point, index) => ({ id: point.id, vector: vectors[index], payload: point.payload })),
+        });
+        processed += page.points.length;
+      }
+
+      offset = page.next_page_offset;
+      if (offset === null) {
+        // Everything is embedded: rebuild the real collection with the new size
+        phase = 'swap';
+        await store.deleteCollection(payload.collection);
+        await store.createCollection(payload.collection, embedder.dimensions);
+      }
+    } else {
+      const page = await store.scroll(side, {
+        limit: PAGE_SIZE * 4,
+        offset,
+        with_vector: true,
+      });
+
+      if (page.points.length > 0) {
+        await store.upsert(payload.collection, {
+          wait: true,
+          points: page.points.map(point => ({ id: point.id, vector: point.vector!, payload: point.payload })),
+        });
+      }
+
+      offset = page.next_page_offset;
+      if (offset === null) {
+        await store.deleteCollection(side);
+        db.prepare(`
+          UPDATE vector_collections
+          SET embedding_id = ?, dimensions = ?, target_embedding_id = NULL, updated_at = ?
+          WHERE name = ?
+        `).run(embedder.id, embedder.dimensions, Date.now(), payload.collection);
+        console.log(`✅ Re-embedded ${processed} points of ${payload.collection} with ${embedder.id}`);
+        return { done: true, processed };
+      }
+    }
+  }
+
+  return { done: false, processed, continueWith: { ...payload, phase, offset, processed } };
+}
@@ -0,0 +1,203 @@
+/**
+ * Embedding providers. EMBEDDING_PROVIDER chooses Gemini, an OpenAI-compatible
+ * server (OpenAI, Ollama, llama.cpp, vLLM) or feature hashing, a fallback for
+ * tests and offline setups without semantic similarity.
+ * Vectors of different providers, models or dimensions live in different
+ * vector spaces; the provider id tells them apart.
+ */
+
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { config } from '../config/index.js';
+
+export type EmbeddingTaskType = 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT' | 'SEMANTIC_SIMILARITY';
+
+export const EMBEDDING_PROVIDERS = ['gemini', 'openai', 'hashing'] as const;
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[number];
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  /** provider:model:dimensions; vectors are only comparable within one id */
+  readonly id: string;
+  /** Most texts a single embed() call may take */
+  readonly maxBatchSize: number;
+  embed(texts: string[], taskType: EmbeddingTaskType): Promise<number[][]>;
+}
+
+export type EmbeddingSettings = typeof config.embedding;
+
+/**
+ * Dimensions of well-known models; others need EMBEDDING_DIMENSIONS
+ */
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'text-embedding-004': 768,
+  'embedding-001': 768,
+  'gemini-embedding-001': 3072,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'bge-m3': 1024,
+  'all-minilm': 384,
+};
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  gemini: 'text-embedding-004',
+  openai: 'text-embedding-3-small',
+  hashing: 'hashing-v1',
+};
+
+export function embeddingProviderId(name: EmbeddingProviderName, model: string, dimensions: number): string {
+  return `${name}:${model}:${dimensions}`;
+}
+
+function resolveDimensions(model: string, configured?: number): number {
+  // Ollama names carry a tag, e.g. nomic-embed-text:latest
+  const dimensions = configured ?? KNOWN_DIMENSIONS[model] ?? KNOWN_DIMENSIONS[model.split(':')[0]];
+  if (!dimensions) {
+    throw new Error(`Unknown dimensions of embedding model '${model}', set EMBEDDING_DIMENSIONS`);
+  }
+  return dimensions;
+}
+
+export function createGeminiEmbeddingProvider(apiKey: string, model: string): EmbeddingProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const dimensions = resolveDimensions(model);
+
+  return {
+    name: 'gemini',
+    model,
+    dimensions,
+    // Vectors embedded with a task type differ from those indexed before task
+    // types were passed on, so collections of that time are re-embedded once
+    id: `${embeddingProviderId('gemini', model, dimensions)}:task`,
+    maxBatchSize: 100,
+
+    async embed(texts, taskType) {
+      const result = await genAI.getGenerativeModel({ model }).batchEmbedContents({
+        requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] }, taskType: TaskType[taskType] })),
+      });
+      return result.embeddings.map(embedding => embedding.values);
+    },
+  };
+}
+
+export function createOpenAIEmbeddingProvider(settings: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  dimensions?: number;
+}): EmbeddingProvider {
+  const url = `${settings.baseUrl.replace(/\/$/, '')}/embeddings`;
+  const dimensions = resolveDimensions(settings.model, settings.dimensions);
+  // Only the text-embedding-3 models can shorten their vectors
+  const requestDimensions = settings.dimensions && settings.model.startsWith('text-embedding-3') ? settings.dimensions : undefined;
+
+  return {
+    name: 'openai',
+    model: settings.model,
+    dimensions,
+    id: embeddingProviderId('openai', settings.model, dimensions),
+    maxBatchSize: 64,
+
+    async embed(texts) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: settings.model, input: texts, dimensions: requestDimensions }),
+      });
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`Embedding API error ${response.status}: ${body || response.statusText}`);
+      }
+
+      const data = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+      const vectors = [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+      if (vectors[0] && vectors[0].length !== dimensions) {
+        throw new Error(`Embedding model '${settings.model}' returned ${vectors[0].length} dimensions, expected ${dimensions}`);
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * FNV-1a, 32 bit
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Feature hashing instead of an embedding model, for tests and setups
+ * without network: words and character trigrams are hashed into a fixed
+ * number of dimensions and the vector is normalised. It matches shared
+ * vocabulary and word forms, not meaning; for semantic search offline, run
+ * an embedding model in Ollama and use the openai provider.
+ */
+export function createHashingEmbeddingProvider(dimensions = 384): EmbeddingProvider {
+  const model = DEFAULT_MODELS.hashing;
+
+  const embedText = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The top bit picks the sign, so collisions cancel out instead of piling up
+      vector[h % dimensions] += h & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      add(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  };
+
+  return {
+    name: 'hashing',
+    model,
+    dimensions,
+    id: embeddingProviderId('hashing', model, dimensions),
+    maxBatchSize: 256,
+
+    async embed(texts) {
+      return texts.map(embedText);
+    },
+  };
+}
+
+export function createEmbeddingProvider(settings: EmbeddingSettings = config.embedding): EmbeddingProvider {
+  const model = settings.model || DEFAULT_MODELS[settings.provider];
+
+  switch (settings.provider) {
+    case 'gemini':
+      if (!config.gemini.apiKey) {
+        throw new Error('GEMINI_API_KEY is required for Gemini embeddings');
+      }
+      return createGeminiEmbeddingProvider(config.gemini.apiKey, model);
+    case 'openai':
+      return createOpenAIEmbeddingProvider({
+        baseUrl: settings.baseUrl || config.openai.baseUrl,
+        apiKey: settings.apiKey || config.openai.apiKey,
+        model,
+        dimensions: settings.dimensions,
+      });
+    case 'hashing':
+      return createHashingEmbeddingProvider(settings.dimensions);
+  }
+}
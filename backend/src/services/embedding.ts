@@ -1,71 +1,67 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '../config/index.js';
+import { createEmbeddingProvider, type EmbeddingProvider, type EmbeddingTaskType } from './embedding-providers.js';
+import { lookupEmbeddings, storeEmbeddings } from './embedding-cache.js';
 
-let genAI: GoogleGenerativeAI | null = null;
+export type { EmbeddingTaskType } from './embedding-providers.js';
+export { clearEmbeddingCache, getEmbeddingCacheStats } from './embedding-cache.js';
+
+let provider: EmbeddingProvider | null = null;
 
 /**
- * Initialize Gemini AI client for embeddings
+ * Provider configured through EMBEDDING_PROVIDER
  */
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    genAI = new GoogleGenerativeAI(config.gemini.apiKey);
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider();
   }
-  return genAI;
+  return provider;
 }
 
 /**
- * Cache for embeddings to reduce API calls
+ * Replace the embedding provider; null goes back to the configured one.
+ * Meant for tests.
  */
-const embeddingCache = new Map<string, number[]>();
-const CACHE_MAX_SIZE = 1000;
+export function setEmbeddingProvider(replacement: EmbeddingProvider | null): void {
+  provider = replacement;
+}
+
+function assertEmbeddingEnabled(): void {
+  if (!config.qdrant.enableEmbedding) {
+    throw new Error('Embeddings are disabled (QDRANT_ENABLE_EMBEDDING)');
+  }
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error(`Embedding timeout after ${timeout}ms`)), timeout);
+  });
+  return Promise.race([promise, timeoutPromise]);
+}
 
 /**
- * Generate embedding vector for a text using Gemini text-embedding-004
+ * Generate embedding vector for a text with the configured provider
  * @param text Text to embed
  * @param taskType Optional task type for specialized embeddings
  * @param timeout Timeout in milliseconds (default: 30s)
- * @returns 768-dimensional embedding vector
+ * @returns Embedding vector with the provider's dimensions
  */
 export async function generateEmbedding(
   text: string,
-  taskType: 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT' | 'SEMANTIC_SIMILARITY' = 'RETRIEVAL_DOCUMENT',
+  taskType: EmbeddingTaskType = 'RETRIEVAL_DOCUMENT',
   timeout: number = 30000
 ): Promise<number[]> {
-  // Check cache first
-  const cacheKey = `${taskType}:${text.substring(0, 200)}`;
-  if (embeddingCache.has(cacheKey)) {
-    return embeddingCache.get(cacheKey)!;
-  }
+  assertEmbeddingEnabled();
+  const embedder = getEmbeddingProvider();
 
-  if (!config.qdrant.enableEmbedding) {
-    console.warn('⚠️ Embedding disabled in config, returning zero vector');
-    return new Array(768).fill(0);
+  // Check cache first
+  const [cached] = lookupEmbeddings(embedder.id, taskType, [text]);
+  if (cached) {
+    return cached;
   }
 
   try {
-    const ai = getGenAI();
-    const model = ai.getGenerativeModel({ model: 'text-embedding-004' });
-
-    // Wrap API call with timeout
-    const embeddingPromise = model.embedContent(text);
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error(`Embedding timeout after ${timeout}ms`)), timeout);
-    });
-
-    const result = await Promise.race([embeddingPromise, timeoutPromise]);
-
-    const embedding = result.embedding.values;
-
-    // Cache the result
-    if (embeddingCache.size >= CACHE_MAX_SIZE) {
-      // Remove oldest entry (first key)
-      const firstKey = embeddingCache.keys().next().value;
-      if (firstKey) {
-        embeddingCache.delete(firstKey);
-      }
-    }
-    embeddingCache.set(cacheKey, embedding);
-
+    const [embedding] = await withTimeout(embedder.embed([text], taskType), timeout);
+    storeEmbeddings(embedder.id, taskType, [{ text, vector: embedding }]);
     return embedding;
   } catch (error) {
     console.error('Error generating embedding:', error);
@@ -77,25 +73,43 @@ export async function generateEmbedding(
  * Generate embeddings for multiple texts in batch
  * @param texts Array of texts to embed
  * @param taskType Task type for embeddings
+ * @param timeout Timeout per provider call in milliseconds (default: 60s)
  * @returns Array of embedding vectors
  */
 export async function generateEmbeddingBatch(
   texts: string[],
-  taskType: 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT' | 'SEMANTIC_SIMILARITY' = 'RETRIEVAL_DOCUMENT'
+  taskType: EmbeddingTaskType = 'RETRIEVAL_DOCUMENT',
+  timeout: number = 60000
 ): Promise<number[][]> {
-  const BATCH_SIZE = 100; // Gemini API limit
-  const results: number[][] = [];
-
-  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-    const batch = texts.slice(i, i + BATCH_SIZE);
-    
-    // Process batch in parallel
-    const batchPromises = batch.map(text => generateEmbedding(text, taskType));
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults);
+  assertEmbeddingEnabled();
+  const embedder = getEmbeddingProvider();
+  const results: number[][] = new Array(texts.length);
+
+  const missing: number[] = [];
+  lookupEmbeddings(embedder.id, taskType, texts).forEach((cached, index) => {
+    if (cached) {
+      results[index] = cached;
+    } else {
+      missing.push(index);
+    }
+  });
+
+  for (let i = 0; i < missing.length; i += embedder.maxBatchSize) {
+    const batch = missing.slice(i, i + embedder.maxBatchSize);
+
+    try {
+      const embeddings = await withTimeout(embedder.embed(batch.map(index => texts[index]), taskType), timeout);
+      batch.forEach((index, position) => {
+        results[index] = embeddings[position];
+      });
+      storeEmbeddings(embedder.id, taskType, batch.map((index, position) => ({ text: texts[index], vector: embeddings[position] })));
+    } catch (error) {
+      console.error('Error generating embeddings:', error);
+      throw new Error(`Failed to generate embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
     // Log progress
-    console.log(`📊 Embedded ${Math.min(i + BATCH_SIZE, texts.length)}/${texts.length} texts`);
+    console.log(`📊 Embedded ${Math.min(i + embedder.maxBatchSize, missing.length)}/${missing.length} texts`);
   }
 
   return results;
@@ -124,21 +138,3 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
-
-/**
- * Clear embedding cache
- */
-export function clearEmbeddingCache(): void {
-  embeddingCache.clear();
-  console.log('✓ Embedding cache cleared');
-}
-
-/**
- * Get cache statistics
- */
-export function getEmbeddingCacheStats() {
-  return {
-    size: embeddingCache.size,
-    maxSize: CACHE_MAX_SIZE,
-  };
-}
@@ -3,7 +3,8 @@
  * Handles indexing of uploaded PDF and DOCX files
  */
 
-import { getQdrantClient, COLLECTIONS, type UploadedFileMetadata } from './qdrant-client.js';
+import { COLLECTIONS, type UploadedFileMetadata } from './qdrant-client.js';
+import { getVectorStore } from './vector-store.js';
 import { generateEmbeddingBatch } from './embedding.js';
 import { chunkMarkdown } from './markdown-chunking.js';
 import { nanoid } from 'nanoid';
@@ -56,7 +57,7 @@ async function extractTextFromFile(
 }
 
 /**
- * Index an uploaded file into QDrant
+ * Index an uploaded file into the vector store
  * @param documentId Associated document ID
  * @param file File buffer and metadata
  * @param userId Optional user ID for filtering
@@ -94,7 +95,7 @@ export async function indexUploadedFile(
     const embeddings = await generateEmbeddingBatch(texts, 'RETRIEVAL_DOCUMENT');
 
     // Prepare points
-    const client = getQdrantClient();
+    const store = getVectorStore();
     const points = chunks.map((chunk, index) => {
       const metadata: UploadedFileMetadata = {
         document_id: documentId,
@@ -117,8 +118,8 @@ export async function indexUploadedFile(
       };
     });
 
-    // Upsert to QDrant
-    await client.upsert(COLLECTIONS.UPLOADED_FILES, {
+    // Upsert to the vector store
+    await store.upsert(COLLECTIONS.UPLOADED_FILES, {
       points,
       wait: true,
     });
@@ -174,13 +175,12 @@ export async function searchUploadedFiles(
       });
     }
 
-    const client = getQdrantClient();
-    const results = await client.search(COLLECTIONS.UPLOADED_FILES, {
+    const store = getVectorStore();
+    const results = await store.search(COLLECTIONS.UPLOADED_FILES, {
       vector: queryVector,
       limit,
       filter: filter.must.length > 0 ? filter : undefined,
       score_threshold: 0.6,
-      with_payload: true,
     });
 
     return results.map((r: any) => ({
@@ -200,8 +200,8 @@ export async function searchUploadedFiles(
  */
 export async function deleteUploadedFile(fileId: string): Promise<void> {
   try {
-    const client = getQdrantClient();
-    await client.delete(COLLECTIONS.UPLOADED_FILES, {
+    const store = getVectorStore();
+    await store.delete(COLLECTIONS.UPLOADED_FILES, {
       filter: {
         must: [
           {
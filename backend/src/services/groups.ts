@@ -0,0 +1,227 @@
+/**
+ * Groups
+ * Named sets of users that documents can be shared with in one step.
+ * Every membership has a role: owners manage the group and its admins,
+ * admins manage plain members. The system groups _EVERYONE and _LOGGED_IN
+ * are maintained by the application and cannot be changed here.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDatabase } from '../db/index.js';
+import type { Group, GroupRole } from '../db/schema.js';
+
+export interface GroupSummary extends Group {
+  member_count: number;
+  /** Role of the requesting user, null if not a member */
+  role: GroupRole | null;
+  is_system: boolean;
+}
+
+export interface GroupMember {
+  user_id: string;
+  username: string;
+  display_name: string;
+  role: GroupRole;
+  added_at: string;
+}
+
+export const GROUP_ROLES: GroupRole[] = ['member', 'admin', 'owner'];
+
+const ROLE_RANK: Record<GroupRole, number> = {
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export class GroupNotFoundError extends Error {
+  constructor(identifier: string) {
+    super(`Group not found: ${identifier}`);
+    this.name = 'GroupNotFoundError';
+    Object.setPrototypeOf(this, GroupNotFoundError.prototype);
+  }
+}
+
+export class GroupConflictError extends Error {
+  constructor(name: string) {
+    super(`A group named "${name}" already exists`);
+    this.name = 'GroupConflictError';
+    Object.setPrototypeOf(this, GroupConflictError.prototype);
+  }
+}
+
+/**
+ * A change that would break a group: touching a system group or leaving a
+ * group without an owner
+ */
+export class GroupMembershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GroupMembershipError';
+    Object.setPrototypeOf(this, GroupMembershipError.prototype);
+  }
+}
+
+export function isSystemGroup(groupId: string): boolean {
+  return groupId.startsWith('_');
+}
+
+export function hasGroupRole(role: GroupRole | null, required: GroupRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+function normalizeGroupName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+function requireMutableGroup(groupId: string): Group {
+  const group = getGroup(groupId);
+  if (!group) {
+    throw new GroupNotFoundError(groupId);
+  }
+  if (isSystemGroup(group.id)) {
+    throw new GroupMembershipError('System groups cannot be changed');
+  }
+  return group;
+}
+
+function countOwners(groupId: string): number {
+  const row = getDatabase().prepare(
+    "SELECT COUNT(*) as count FROM user_groups WHERE group_id = ? AND role = 'owner'"
+  ).get(groupId) as { count: number };
+  return Number(row.count);
+}
+
+export function getGroup(id: string): Group | undefined {
+  return getDatabase().prepare('SELECT * FROM groups WHERE id = ?').get(id) as Group | undefined;
+}
+
+function findGroupByName(name: string): Group | undefined {
+  return getDatabase().prepare(
+    'SELECT * FROM groups WHERE LOWER(name) = LOWER(?)'
+  ).get(normalizeGroupName(name)) as Group | undefined;
+}
+
+export function getGroupRole(groupId: string, userId: string): GroupRole | null {
+  const row = getDatabase().prepare(
+    'SELECT role FROM user_groups WHERE group_id = ? AND user_id = ?'
+  ).get(groupId, userId) as { role: GroupRole } | undefined;
+  return row?.role ?? null;
+}
+
+/**
+ * All groups with their member count and the user's role, system groups first
+ */
+export function listGroups(userId: string, options: { mine?: boolean } = {}): GroupSummary[] {
+  const rows = getDatabase().prepare(`
+    SELECT g.*,
+      (SELECT COUNT(*) FROM user_groups ug WHERE ug.group_id = g.id) as member_count,
+      (SELECT ug.role FROM user_groups ug WHERE ug.group_id = g.id AND ug.user_id = ?) as role
+    FROM groups g
+    ORDER BY LOWER(g.name)
+  `).all(userId) as Array<Group & { member_count: number; role: GroupRole | null }>;
+
+  return rows
+    .map(row => ({
+      ...row,
+      member_count: Number(row.member_count),
+      role: row.role ?? null,
+      is_system: isSystemGroup(row.id),
+    }))
+    .filter(group => !options.mine || group.role !== null)
+    .sort((a, b) => Number(b.is_system) - Number(a.is_system));
+}
+
+export function listGroupMembers(groupId: string): GroupMember[] {
+  return getDatabase().prepare(`
+    SELECT ug.user_id, u.username, u.display_name, ug.role, ug.added_at
+    FROM user_groups ug
+    JOIN users u ON u.id = ug.user_id
+    WHERE ug.group_id = ?
+    ORDER BY CASE ug.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, LOWER(u.username)
+  `).all(groupId) as GroupMember[];
+}
+
+/**
+ * Create a group; the creator becomes its first owner
+ */
+export function createGroup(name: string, description: string | null, userId: string): Group {
+  const db = getDatabase();
+  const normalized = normalizeGroupName(name);
+  if (findGroupByName(normalized)) {
+    throw new GroupConflictError(normalized);
+  }
+
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO groups (id, name, description, created_by, created_at) VALUES (?, ?, ?, ?, ?)
+    `).run(id, normalized, description, userId, now);
+    db.prepare(`
+      INSERT INTO user_groups (user_id, group_id, role, added_at) VALUES (?, ?, 'owner', ?)
+    `).run(userId, id, now);
+  })();
+
+  return getGroup(id)!;
+}
+
+export function updateGroup(id: string, changes: { name?: string; description?: string | null }): Group {
+  const group = requireMutableGroup(id);
+
+  const name = changes.name !== undefined ? normalizeGroupName(changes.name) : group.name;
+  const existing = findGroupByName(name);
+  if (existing && existing.id !== id) {
+    throw new GroupConflictError(name);
+  }
+
+  const description = changes.description !== undefined ? changes.description : group.description ?? null;
+  getDatabase().prepare('UPDATE groups SET name = ?, description = ? WHERE id = ?').run(name, description, id);
+
+  return getGroup(id)!;
+}
+
+/**
+ * Delete a group together with its memberships and document permissions
+ */
+export function deleteGroup(id: string): void {
+  requireMutableGroup(id);
+  getDatabase().prepare('DELETE FROM groups WHERE id = ?').run(id);
+}
+
+/**
+ * Add a user to a group or change the role of an existing member
+ */
+export function setGroupMember(groupId: string, userId: string, role: GroupRole = 'member'): void {
+  const db = getDatabase();
+  requireMutableGroup(groupId);
+
+  db.transaction(() => {
+    const current = getGroupRole(groupId, userId);
+    if (current === null) {
+      db.prepare(`
+        INSERT INTO user_groups (user_id, group_id, role, added_at) VALUES (?, ?, ?, ?)
+      `).run(userId, groupId, role, new Date().toISOString());
+      return;
+    }
+
+    if (current === 'owner' && role !== 'owner' && countOwners(groupId) === 1) {
+      throw new GroupMembershipError('A group needs at least one owner');
+    }
+    db.prepare('UPDATE user_groups SET role = ? WHERE group_id = ? AND user_id = ?').run(role, groupId, userId);
+  })();
+}
+
+export function removeGroupMember(groupId: string, userId: string): boolean {
+  const db = getDatabase();
+  requireMutableGroup(groupId);
+
+  let removed = false;
+  db.transaction(() => {
+    if (getGroupRole(groupId, userId) === 'owner' && countOwners(groupId) === 1) {
+      throw new GroupMembershipError('A group needs at least one owner');
+    }
+    removed = db.prepare('DELETE FROM user_groups WHERE group_id = ? AND user_id = ?').run(groupId, userId).changes > 0;
+  })();
+
+  return removed;
+}
@@ -0,0 +1,297 @@
+/**
+ * Hybrid Search
+ * Combines keyword and vector retrieval of document chunks. Keywords find the
+ * exact terms embeddings blur (paragraphs like "§14a", EDIFACT codes like
+ * "UTILMD"), vectors find paraphrases. The two rankings are merged with
+ * weighted reciprocal rank fusion (RRF), which only looks at ranks, so BM25
+ * and cosine scores never have to be calibrated against each other.
+ */
+
+import { config } from '../config/index.js';
+import { getDatabase } from '../db/index.js';
+import { chunkMarkdown } from './markdown-chunking.js';
+import { searchDocumentChunks, searchUserContext } from './document-indexer.js';
+import { PermissionService } from './permissions.js';
+import {
+  collectSearchTerms,
+  findMatchingDocuments,
+  parseAnyTermQuery,
+  type DocumentFilters,
+  type SearchNode,
+} from './search.js';
+
+export type ChunkSource = 'current_doc' | 'user_doc' | 'upload';
+
+export interface HybridChunk {
+  /** Identifies the same chunk in both rankings: doc:<id>:<index> or upload:<file>:<index> */
+  key: string;
+  content: string;
+  source: ChunkSource;
+  documentId?: string;
+  title?: string;
+  heading: string;
+  chapter?: string;
+  section?: string;
+  /** Fused score, 1 = first place in every ranking */
+  score: number;
+  keywordRank?: number;
+  vectorRank?: number;
+  vectorScore?: number;
+}
+
+type RankedChunk = Omit<HybridChunk, 'score' | 'keywordRank' | 'vectorRank'>;
+
+export interface RankedList<T> {
+  items: T[];
+  weight: number;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  /** Share of the keyword ranking (0..1), defaults to config.search.hybridKeywordWeight */
+  keywordWeight?: number;
+}
+
+// Documents whose chunks are scored for keywords; their order comes from FTS
+const KEYWORD_DOCUMENT_LIMIT = 20;
+
+// Same chunking as document-indexer.ts so chunk keys line up with Qdrant points
+const CHUNK_SIZE = 2000;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Weighted reciprocal rank fusion: score(item) = Σ weight / (k + rank).
+ * Scores are normalised so that first place in every list scores 1.
+ * Items found in several lists keep the object from the first list.
+ */
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  keyOf: (item: T) => string,
+  k: number = config.search.rrfK
+): Array<{ key: string; item: T; score: number; ranks: (number | undefined)[] }> {
+  const fused = new Map<string, { key: string; item: T; score: number; ranks: (number | undefined)[] }>();
+  const maxScore = lists.reduce((sum, list) => sum + list.weight, 0) / (k + 1);
+
+  lists.forEach((list, listIndex) => {
+    list.items.forEach((item, index) => {
+      const key = keyOf(item);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { key, item, score: 0, ranks: lists.map(() => undefined) };
+        fused.set(key, entry);
+      }
+      // An item listed twice in one ranking only counts with its best rank
+      if (entry.ranks[listIndex] !== undefined) return;
+      entry.ranks[listIndex] = index + 1;
+      entry.score += list.weight / (k + index + 1);
+    });
+  });
+
+  return [...fused.values()]
+    .map(entry => ({ ...entry, score: maxScore > 0 ? entry.score / maxScore : 0 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+function normalizeWords(text: string): string[] {
+  return (text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+}
+
+/**
+ * Rank text chunks with BM25 against the terms and phrases of a query.
+ * Chunks without any match are dropped.
+ */
+export function rankChunksByTerms<T extends { content: string }>(
+  chunks: T[],
+  tree: SearchNode
+): Array<{ chunk: T; score: number }> {
+  const leaves = collectSearchTerms(tree).map(leaf => ({
+    words: leaf.type === 'term' ? normalizeWords(leaf.value) : leaf.words.flatMap(normalizeWords),
+    prefix: leaf.type === 'term' && leaf.prefix,
+  })).filter(leaf => leaf.words.length > 0);
+
+  const documents = chunks.map(chunk => normalizeWords(chunk.content));
+  const averageLength = documents.reduce((sum, words) => sum + words.length, 0) / Math.max(documents.length, 1);
+
+  const matches = (word: string, expected: string, prefix: boolean) =>
+    prefix ? word.startsWith(expected) : word === expected;
+
+  const frequencies = documents.map(words => leaves.map(leaf => {
+    let count = 0;
+    for (let i = 0; i + leaf.words.length <= words.length; i++) {
+      if (leaf.words.every((expected, offset) =>
+        matches(words[i + offset], expected, leaf.prefix && offset === leaf.words.length - 1)
+      )) {
+        count++;
+      }
+    }
+    return count;
+  }));
+
+  const idf = leaves.map((_, leafIndex) => {
+    const df = frequencies.filter(counts => counts[leafIndex] > 0).length;
+    return Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+  });
+
+  return chunks
+    .map((chunk, index) => {
+      const length = documents[index].length;
+      const score = frequencies[index].reduce((sum, tf, leafIndex) => {
+        if (tf === 0) return sum;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / (averageLength || 1)));
+        return sum + idf[leafIndex] * (tf * (BM25_K1 + 1)) / norm;
+      }, 0);
+      return { chunk, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Keyword ranking of document chunks: FTS preselects the documents, BM25
+ * ranks their chunks. Other documents of the user weigh half as much as the
+ * current one, like in searchUserContext().
+ */
+export function searchKeywordChunks(
+  tree: SearchNode,
+  filters: DocumentFilters,
+  currentDocumentId?: string
+): RankedChunk[] {
+  const matches = findMatchingDocuments(tree, filters).slice(0, KEYWORD_DOCUMENT_LIMIT);
+  if (matches.length === 0) return [];
+
+  const ids = matches.map(match => match.id);
+  const documents = getDatabase().prepare(`
+    SELECT id, title, content FROM documents WHERE id IN (${ids.map(() => '?').join(', ')})
+  `).all(...ids) as { id: string; title: string; content: string }[];
+
+  const chunks: RankedChunk[] = documents.flatMap(document =>
+    chunkMarkdown(document.content, CHUNK_SIZE).map((chunk, index) => ({
+      key: `doc:${document.id}:${index}`,
+      content: chunk.content,
+      source: document.id === currentDocumentId ? 'current_doc' as const : 'user_doc' as const,
+      documentId: document.id,
+      title: document.title,
+      heading: chunk.metadata.heading_text || document.title,
+      chapter: chunk.metadata.chapter,
+      section: chunk.metadata.section,
+    }))
+  );
+
+  return rankChunksByTerms(chunks, tree)
+    .map(({ chunk, score }) => ({ chunk, score: currentDocumentId && chunk.source === 'user_doc' ? score * 0.5 : score }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk }) => chunk);
+}
+
+function resolveKeywordWeight(options: HybridSearchOptions): number {
+  return Math.min(Math.max(options.keywordWeight ?? config.search.hybridKeywordWeight, 0), 1);
+}
+
+function fuse(keyword: RankedChunk[], vector: RankedChunk[], keywordWeight: number, limit: number): HybridChunk[] {
+  return reciprocalRankFusion(
+    [
+      { items: keyword, weight: keywordWeight },
+      { items: vector, weight: 1 - keywordWeight },
+    ].filter(list => list.weight > 0 && list.items.length > 0),
+    chunk => chunk.key
+  )
+    .slice(0, limit)
+    .map(({ key, item, score }) => {
+      const keywordRank = keyword.findIndex(chunk => chunk.key === key);
+      const vectorMatch = vector.findIndex(chunk => chunk.key === key);
+      return {
+        ...item,
+        score,
+        keywordRank: keywordRank === -1 ? undefined : keywordRank + 1,
+        vectorRank: vectorMatch === -1 ? undefined : vectorMatch + 1,
+        vectorScore: vectorMatch === -1 ? undefined : vector[vectorMatch].vectorScore,
+      };
+    });
+}
+
+/**
+ * Hybrid retrieval over the user's own documents and uploads, used as AI
+ * chat context. Works keyword-only when the vector store is disabled or
+ * unavailable.
+ */
+export async function hybridSearchUserContext(
+  userId: string,
+  query: string,
+  currentDocumentId?: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridChunk[]> {
+  const limit = options.limit ?? 10;
+  const keywordWeight = resolveKeywordWeight(options);
+  const tree = parseAnyTermQuery(query);
+
+  const keyword = tree && keywordWeight > 0
+    ? searchKeywordChunks(tree, { userId, ownerId: userId, archived: 'include' }, currentDocumentId).slice(0, limit * 2)
+    : [];
+
+  const vector: RankedChunk[] = config.features.enableVectorStore && keywordWeight < 1
+    ? (await searchUserContext(query, userId, currentDocumentId, {
+        includeDocuments: true,
+        includeUploads: true,
+        limit: limit * 2,
+        scoreThreshold: 0.6,
+      })).map(result => ({
+        key: result.source === 'upload'
+          ? `upload:${result.metadata.file_id}:${result.metadata.chunk_index}`
+          : `doc:${result.metadata.document_id}:${result.metadata.chunk_index}`,
+        content: result.content,
+        source: result.source,
+        documentId: result.source === 'upload' ? undefined : result.metadata.document_id,
+        title: result.metadata.title || result.metadata.file_name,
+        heading: result.metadata.heading_text || result.metadata.file_name || 'Unbekannt',
+        chapter: result.metadata.chapter,
+        section: result.metadata.section,
+        vectorScore: result.score,
+      }))
+    : [];
+
+  return fuse(keyword, vector, keywordWeight, limit);
+}
+
+/**
+ * Hybrid search over all documents the user can read
+ */
+export async function hybridSearchDocuments(
+  query: string,
+  userId: string | null,
+  options: HybridSearchOptions = {}
+): Promise<HybridChunk[]> {
+  const limit = options.limit ?? 10;
+  const keywordWeight = resolveKeywordWeight(options);
+  const tree = parseAnyTermQuery(query);
+
+  const keyword = tree && keywordWeight > 0
+    ? searchKeywordChunks(tree, { userId }).slice(0, limit * 2)
+    : [];
+
+  let vector: RankedChunk[] = [];
+  if (config.features.enableVectorStore && keywordWeight < 1) {
+    try {
+      // Over-fetch: results from documents the user cannot read are dropped
+      const results = await searchDocumentChunks(query, { limit: limit * 4, scoreThreshold: 0.6 });
+      vector = results
+        .filter(result => PermissionService.checkPermission(result.metadata.document_id, userId, 'read'))
+        .map(result => ({
+          key: `doc:${result.metadata.document_id}:${result.metadata.chunk_index}`,
+          content: result.content,
+          source: 'user_doc' as const,
+          documentId: result.metadata.document_id,
+          title: result.metadata.title,
+          heading: result.metadata.heading_text,
+          chapter: result.metadata.chapter,
+          section: result.metadata.section,
+          vectorScore: result.score,
+        }));
+    } catch (error) {
+      console.error('⚠️ Vector search failed, using keyword results only:', error);
+    }
+  }
+
+  return fuse(keyword, vector, keywordWeight, limit);
+}
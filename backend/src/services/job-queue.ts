@@ -10,7 +10,7 @@ import { fork } from 'child_process';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-export type JobType = 'index-document' | 'delete-document-vectors' | 'generate-summary';
+export type JobType = 'index-document' | 'delete-document-vectors' | 'generate-summary' | 'reembed-collection';
 
 export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
 
@@ -36,6 +36,17 @@ export interface IndexDocumentPayload {
   version: number;
 }
 
+export interface IndexDocumentResult {
+  success: boolean;
+  chunksIndexed: number;
+  /** Chunks whose content was unchanged and kept their vector */
+  chunksReused: number;
+  chunksEmbedded: number;
+  /** Points of chunks that no longer exist */
+  chunksRemoved: number;
+  error?: string;
+}
+
 export interface DeleteVectorsPayload {
   documentId: string;
 }
@@ -84,8 +95,6 @@ class JobQueueManager extends EventEmitter {
         throw new Error('Database not initialized');
       }
 
-      this.ensureDbTable(); // Create table if it doesn't exist
-
       // Load pending/processing jobs
       const jobs = db.prepare(`
         SELECT * FROM background_jobs 
@@ -120,35 +129,6 @@ class JobQueueManager extends EventEmitter {
     }
   }
 
-  /**
-   * Ensure database table exists
-   */
-  private ensureDbTable(): void {
-    try {
-      const db = getDatabase();
-      if (!db) return;
-      
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS background_jobs (
-          id TEXT PRIMARY KEY,
-          type TEXT NOT NULL,
-          status TEXT NOT NULL,
-          payload TEXT NOT NULL,
-          priority INTEGER DEFAULT 0,
-          attempts INTEGER DEFAULT 0,
-          max_attempts INTEGER DEFAULT 3,
-          created_at INTEGER NOT NULL,
-          started_at INTEGER,
-          completed_at INTEGER,
-          error TEXT,
-          result TEXT
-        )
-      `);
-    } catch (error) {
-      // Silent fail - will retry on next operation
-    }
-  }
-
   /**
    * Persist job to database
    */
@@ -156,7 +136,6 @@ class JobQueueManager extends EventEmitter {
     if (!this.persistToDb) return;
 
     try {
-      this.ensureDbTable(); // Ensure table exists before insert
       const db = getDatabase();
       if (!db) return;
       
@@ -282,7 +261,6 @@ class JobQueueManager extends EventEmitter {
     // Also clean from database
     if (this.persistToDb) {
       try {
-        this.ensureDbTable();
         const db = getDatabase();
         if (!db) {
           console.warn('[JobQueue] Database not available for cleanup');
@@ -447,6 +425,15 @@ class JobQueueManager extends EventEmitter {
       this.emit('job-completed', job);
 
       console.log(`[JobQueue] ✅ Completed job ${job.id} (${job.type}) in ${job.completedAt - job.startedAt!}ms`);
+      if (job.type === 'index-document' && result?.success) {
+        const { chunksReused, chunksEmbedded, chunksRemoved } = result as IndexDocumentResult;
+        console.log(`[JobQueue]    ${chunksEmbedded} chunks embedded, ${chunksReused} reused, ${chunksRemoved} removed`);
+      }
+
+      // Jobs longer than one worker run hand over a follow-up payload
+      if (result?.continueWith) {
+        this.addJob(job.type, result.continueWith, { priority: job.priority, maxAttempts: job.maxAttempts });
+      }
     } catch (error) {
       // Job failed
       const errorMessage = error instanceof Error ? error.message : String(error);
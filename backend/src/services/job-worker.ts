@@ -62,6 +62,10 @@ process.on('message', async (job: any) => {
 
     let result: any;
 
+    // Jobs read and write the database (embedding cache, collection state)
+    const { initializeDatabase } = await import('../db/index.js');
+    await initializeDatabase();
+
     switch (job.type) {
       case 'index-document': {
         // Dynamic import to avoid circular dependencies
@@ -82,7 +86,8 @@ process.on('message', async (job: any) => {
       }
 
       case 'delete-document-vectors': {
-        const { deleteDocumentVectors, COLLECTIONS } = await import('./qdrant-client.js');
+        const { deleteDocumentVectors } = await import('./vector-store.js');
+        const { COLLECTIONS } = await import('./qdrant-client.js');
         const payload = job.payload;
         
         console.log(`[JobWorker] Deleting vectors for ${payload.documentId}...`);
@@ -99,6 +104,16 @@ process.on('message', async (job: any) => {
         break;
       }
 
+      case 'reembed-collection': {
+        const { reembedCollection } = await import('./embedding-migration.js');
+
+        console.log(`[JobWorker] Re-embedding ${job.payload.collection} (${job.payload.phase}, ${job.payload.processed} done)...`);
+
+        // Stop well before the worker timeout; the queue continues with the returned payload
+        result = await reembedCollection(job.payload, JOB_TIMEOUT_MS - 60000);
+        break;
+      }
+
       default:
         throw new Error(`Unknown job type in worker: ${job.type}`);
     }
@@ -106,6 +121,10 @@ process.on('message', async (job: any) => {
     // Clear timeout on success
     if (jobTimeout) clearTimeout(jobTimeout);
 
+    // Write the cache hits and misses collected during the job before exiting
+    const { flushEmbeddingCacheCounters } = await import('./embedding-cache.js');
+    flushEmbeddingCacheCounters();
+
     // Send success result to parent
     if (process.send) {
       process.send({ success: true, result });
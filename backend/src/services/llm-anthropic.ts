@@ -0,0 +1,131 @@
+/**
+ * Anthropic Messages API
+ */
+
+import {
+  LLMError,
+  postLLMRequest,
+  requestMessages,
+  serverSentEvents,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+} from './llm.js';
+
+export interface AnthropicSettings {
+  apiKey?: string;
+  baseUrl: string;
+  model: string;
+  maxTokens: number;
+}
+
+const API_VERSION = '2023-06-01';
+
+const STOP_REASONS: Record<string, LLMResponse['finishReason']> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'blocked',
+};
+
+/**
+ * Messages as content blocks; tool results travel in user messages and
+ * consecutive messages of one role are merged, since roles must alternate
+ */
+function toMessages(request: LLMRequest): Array<{ role: 'user' | 'assistant'; content: any[] }> {
+  const messages: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+
+  const append = (role: 'user' | 'assistant', blocks: any[]) => {
+    if (blocks.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of requestMessages(request)) {
+    switch (message.role) {
+      case 'user':
+        append('user', message.content ? [{ type: 'text', text: message.content }] : []);
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...(message.toolCalls ?? []).map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.args })),
+        ]);
+        break;
+      case 'tool':
+        append('user', message.results.map(result => ({
+          type: 'tool_result',
+          tool_use_id: result.id,
+          content: typeof result.result === 'string' ? result.result : JSON.stringify(result.result),
+        })));
+        break;
+    }
+  }
+  return messages;
+}
+
+export function createAnthropicProvider(settings: AnthropicSettings): LLMProvider {
+  const url = `${settings.baseUrl.replace(/\/$/, '')}/v1/messages`;
+  const headers: Record<string, string> = {
+    'x-api-key': settings.apiKey ?? '',
+    'anthropic-version': API_VERSION,
+  };
+
+  const body = (request: LLMRequest) => {
+    // There is no JSON mode, so the answer format is asked for in the system prompt
+    const system = [request.system, request.json ? 'Respond with a single JSON document and nothing else.' : undefined]
+      .filter(Boolean)
+      .join('\n\n');
+    return {
+      model: settings.model,
+      max_tokens: request.maxTokens ?? settings.maxTokens,
+      system: system || undefined,
+      messages: toMessages(request),
+      temperature: request.temperature,
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+        : undefined,
+    };
+  };
+
+  return {
+    name: 'anthropic',
+    model: settings.model,
+
+    async generate(request) {
+      const response = await postLLMRequest('anthropic', url, headers, body(request));
+      const data = await response.json() as any;
+      const blocks: any[] = data.content ?? [];
+
+      return {
+        text: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+        toolCalls: blocks
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({ id: block.id, name: block.name, args: block.input ?? {} })),
+        finishReason: STOP_REASONS[data.stop_reason] ?? 'other',
+        usage: data.usage
+          ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+          : undefined,
+      };
+    },
+
+    async *stream(request) {
+      const response = await postLLMRequest('anthropic', url, headers, { ...body({ ...request, tools: undefined }), stream: true }, { stream: true });
+      for await (const { event, data } of serverSentEvents(response.body!)) {
+        if (event === 'error') {
+          throw new LLMError(`anthropic stream error: ${JSON.parse(data).error?.message ?? data}`, 'anthropic');
+        }
+        if (event === 'content_block_delta') {
+          const delta = JSON.parse(data).delta;
+          if (delta?.type === 'text_delta' && delta.text) yield delta.text;
+        }
+        if (event === 'message_stop') break;
+      }
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Deterministic provider for tests and offline development. It echoes the
+ * last user message unless answers were queued with respondWith(), and
+ * records every request it receives.
+ */
+
+import { requestMessages, type LLMProvider, type LLMRequest, type LLMResponse } from './llm.js';
+
+export interface FakeLLMProvider extends LLMProvider {
+  readonly requests: LLMRequest[];
+  /** Queue answers for the next requests; strings become plain text answers */
+  respondWith(...responses: Array<string | Partial<LLMResponse>>): void;
+}
+
+export function createFakeProvider(model = 'echo'): FakeLLMProvider {
+  const requests: LLMRequest[] = [];
+  const queue: Array<string | Partial<LLMResponse>> = [];
+
+  const answer = (request: LLMRequest): LLMResponse => {
+    requests.push(request);
+
+    const queued = queue.shift();
+    if (queued !== undefined) {
+      const response = typeof queued === 'string' ? { text: queued } : queued;
+      const toolCalls = response.toolCalls ?? [];
+      return {
+        text: response.text ?? '',
+        toolCalls,
+        finishReason: response.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+        usage: response.usage,
+      };
+    }
+
+    const lastUser = requestMessages(request).filter(message => message.role === 'user').pop();
+    const content = lastUser?.role === 'user' ? lastUser.content : '';
+    return {
+      text: request.json ? JSON.stringify({ echo: content }) : `Echo: ${content}`,
+      toolCalls: [],
+      finishReason: 'stop',
+    };
+  };
+
+  return {
+    name: 'fake',
+    model,
+    requests,
+
+    respondWith(...responses) {
+      queue.push(...responses);
+    },
+
+    async generate(request) {
+      return answer(request);
+    },
+
+    async *stream(request) {
+      // Word by word, whitespace kept, so the chunks join to the full answer
+      for (const chunk of answer(request).text.split(/(?<=\s)/)) {
+        yield chunk;
+      }
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Gemini through Google's Generative AI SDK
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { Content, EnhancedGenerateContentResponse, GenerationConfig, Tool } from '@google/generative-ai';
+import { config } from '../config/index.js';
+import { requestMessages, type LLMProvider, type LLMRequest, type LLMResponse } from './llm.js';
+
+const BLOCKED_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
+
+function toContents(request: LLMRequest): Content[] {
+  return requestMessages(request).map((message): Content => {
+    switch (message.role) {
+      case 'user':
+        return { role: 'user', parts: [{ text: message.content }] };
+      case 'assistant':
+        return {
+          role: 'model',
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...(message.toolCalls ?? []).map(call => ({ functionCall: { name: call.name, args: call.args } })),
+          ],
+        };
+      case 'tool':
+        return {
+          role: 'function',
+          parts: message.results.map(result => ({
+            functionResponse: {
+              name: result.name,
+              // Gemini only accepts objects as function responses
+              response: result.result && typeof result.result === 'object' && !Array.isArray(result.result)
+                ? result.result as object
+                : { result: result.result },
+            },
+          })),
+        };
+    }
+  });
+}
+
+function toResponse(response: EnhancedGenerateContentResponse): LLMResponse {
+  const candidate = response.candidates?.[0];
+  const text = (candidate?.content?.parts ?? []).map(part => part.text ?? '').join('');
+  const toolCalls = (response.functionCalls() ?? []).map((call, index) => ({
+    id: `call_${index}`,
+    name: call.name,
+    args: (call.args ?? {}) as Record<string, any>,
+  }));
+
+  let finishReason: LLMResponse['finishReason'] = 'other';
+  if (response.promptFeedback?.blockReason || BLOCKED_REASONS.has(String(candidate?.finishReason))) {
+    finishReason = 'blocked';
+  } else if (toolCalls.length > 0) {
+    finishReason = 'tool_calls';
+  } else if (candidate?.finishReason === 'STOP') {
+    finishReason = 'stop';
+  } else if (candidate?.finishReason === 'MAX_TOKENS') {
+    finishReason = 'length';
+  }
+
+  return {
+    text,
+    toolCalls,
+    finishReason,
+    usage: response.usageMetadata
+      ? { inputTokens: response.usageMetadata.promptTokenCount, outputTokens: response.usageMetadata.candidatesTokenCount ?? 0 }
+      : undefined,
+  };
+}
+
+export function createGeminiProvider(apiKey: string, model: string): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const getModel = (request: LLMRequest) => {
+    const generationConfig: GenerationConfig = {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens,
+      responseMimeType: request.json ? 'application/json' : undefined,
+    };
+    // The SDK types parameters with its own schema enum, whose values are the JSON schema type names
+    const tools: Tool[] | undefined = request.tools?.length
+      ? [{ functionDeclarations: request.tools.map(tool => ({ ...tool, parameters: tool.parameters as any })) }]
+      : undefined;
+    return genAI.getGenerativeModel(
+      { model, generationConfig, tools, systemInstruction: request.system },
+      { timeout: config.llm.timeoutMs }
+    );
+  };
+
+  return {
+    name: 'gemini',
+    model,
+
+    async generate(request) {
+      const result = await getModel(request).generateContent({ contents: toContents(request) });
+      return toResponse(result.response);
+    },
+
+    async *stream(request) {
+      const result = await getModel({ ...request, tools: undefined }).generateContentStream({ contents: toContents(request) });
+      for await (const chunk of result.stream) {
+        const text = (chunk.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '').join('');
+        if (text) yield text;
+      }
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * OpenAI chat completions API. Also serves local servers that speak the same
+ * protocol (llama.cpp, Ollama, vLLM, LM Studio) through OPENAI_BASE_URL.
+ */
+
+import {
+  postLLMRequest,
+  requestMessages,
+  serverSentEvents,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+} from './llm.js';
+
+export interface OpenAISettings {
+  apiKey?: string;
+  baseUrl: string;
+  model: string;
+  maxTokens?: number;
+}
+
+const FINISH_REASONS: Record<string, LLMResponse['finishReason']> = {
+  stop: 'stop',
+  length: 'length',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls',
+  content_filter: 'blocked',
+};
+
+function toMessages(request: LLMRequest): any[] {
+  const messages: any[] = request.system ? [{ role: 'system', content: request.system }] : [];
+
+  for (const message of requestMessages(request)) {
+    switch (message.role) {
+      case 'user':
+        messages.push({ role: 'user', content: message.content });
+        break;
+      case 'assistant':
+        messages.push({
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls?.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+          })),
+        });
+        break;
+      case 'tool':
+        for (const result of message.results) {
+          messages.push({
+            role: 'tool',
+            tool_call_id: result.id,
+            content: typeof result.result === 'string' ? result.result : JSON.stringify(result.result),
+          });
+        }
+        break;
+    }
+  }
+  return messages;
+}
+
+function parseArguments(value: string | undefined): Record<string, any> {
+  try {
+    const args = JSON.parse(value || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+export function createOpenAIProvider(settings: OpenAISettings): LLMProvider {
+  const url = `${settings.baseUrl.replace(/\/$/, '')}/chat/completions`;
+  // Local servers usually run without a key
+  const headers: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+  const body = (request: LLMRequest) => ({
+    model: settings.model,
+    messages: toMessages(request),
+    temperature: request.temperature,
+    max_tokens: request.maxTokens ?? settings.maxTokens,
+    response_format: request.json ? { type: 'json_object' } : undefined,
+    tools: request.tools?.length
+      ? request.tools.map(tool => ({ type: 'function', function: tool }))
+      : undefined,
+  });
+
+  return {
+    name: 'openai',
+    model: settings.model,
+
+    async generate(request) {
+      const response = await postLLMRequest('openai', url, headers, body(request));
+      const data = await response.json() as any;
+      const choice = data.choices?.[0];
+
+      return {
+        text: choice?.message?.content ?? '',
+        toolCalls: (choice?.message?.tool_calls ?? []).map((call: any, index: number) => ({
+          id: call.id ?? `call_${index}`,
+          name: call.function?.name,
+          args: parseArguments(call.function?.arguments),
+        })),
+        finishReason: FINISH_REASONS[choice?.finish_reason] ?? 'other',
+        usage: data.usage
+          ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+          : undefined,
+      };
+    },
+
+    async *stream(request) {
+      const response = await postLLMRequest('openai', url, headers, { ...body({ ...request, tools: undefined }), stream: true }, { stream: true });
+      for await (const { data } of serverSentEvents(response.body!)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
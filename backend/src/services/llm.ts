@@ -0,0 +1,320 @@
+/**
+ * LLM providers. AI features ask for their provider by feature name:
+ * LLM_PROVIDER picks the default for all of them and LLM_FEATURE_PROVIDERS
+ * overrides it per feature, optionally with a model ("summary": "openai:llama3.1").
+ */
+
+import { config } from '../config/index.js';
+import { createAnthropicProvider } from './llm-anthropic.js';
+import { createFakeProvider } from './llm-fake.js';
+import { createGeminiProvider } from './llm-gemini.js';
+import { createOpenAIProvider } from './llm-openai.js';
+
+export const LLM_FEATURES = ['chat', 'assistant', 'research', 'summary', 'conversion', 'helpers'] as const;
+export type LLMFeature = typeof LLM_FEATURES[number];
+
+export const LLM_PROVIDERS = ['gemini', 'openai', 'anthropic', 'fake'] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface LLMToolResult {
+  /** Id of the tool call this result answers */
+  id: string;
+  name: string;
+  result: unknown;
+}
+
+export type LLMMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; results: LLMToolResult[] };
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  /** JSON schema of the arguments, always an object schema */
+  parameters: { type: 'object'; properties: Record<string, any>; required?: string[] };
+}
+
+export interface LLMRequest {
+  /** Shorthand for a single user message, appended after `messages` */
+  prompt?: string;
+  messages?: LLMMessage[];
+  system?: string;
+  tools?: LLMTool[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a JSON document as answer */
+  json?: boolean;
+}
+
+export interface LLMResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+  finishReason: 'stop' | 'length' | 'tool_calls' | 'blocked' | 'other';
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  /** Text of the answer in chunks as it is generated; tools are not offered */
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export class LLMError extends Error {
+  constructor(message: string, public provider: LLMProviderName, public status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    Object.setPrototypeOf(this, LLMError.prototype);
+  }
+}
+
+/**
+ * Conversation of a request with the prompt as last user message
+ */
+export function requestMessages(request: LLMRequest): LLMMessage[] {
+  const messages = [...(request.messages ?? [])];
+  if (request.prompt !== undefined) {
+    messages.push({ role: 'user', content: request.prompt });
+  }
+  return messages;
+}
+
+export function createLLMProvider(name: LLMProviderName, model?: string): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      if (!config.gemini.apiKey) {
+        throw new Error('GEMINI_API_KEY is required for the gemini provider');
+      }
+      return createGeminiProvider(config.gemini.apiKey, model || config.gemini.model);
+    case 'openai':
+      return createOpenAIProvider({ ...config.openai, model: model || config.openai.model });
+    case 'anthropic':
+      return createAnthropicProvider({ ...config.anthropic, model: model || config.anthropic.model });
+    case 'fake':
+      return createFakeProvider(model);
+  }
+}
+
+/**
+ * "provider" or "provider:model"; the model may itself contain colons
+ */
+export function parseProviderSelection(selection: string): { name: LLMProviderName; model?: string } {
+  const separator = selection.indexOf(':');
+  const name = (separator === -1 ? selection : selection.slice(0, separator)).trim();
+  const model = separator === -1 ? undefined : selection.slice(separator + 1).trim() || undefined;
+  if (!(LLM_PROVIDERS as readonly string[]).includes(name)) {
+    throw new Error(`Unknown LLM provider '${name}', expected one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+  return { name: name as LLMProviderName, model };
+}
+
+const providers = new Map<LLMFeature, LLMProvider>();
+const overrides = new Map<LLMFeature | '*', LLMProvider>();
+
+export function getLLMProvider(feature: LLMFeature): LLMProvider {
+  const override = overrides.get(feature) ?? overrides.get('*');
+  if (override) return override;
+
+  let provider = providers.get(feature);
+  if (!provider) {
+    const { name, model } = parseProviderSelection(config.llm.features[feature] ?? config.llm.provider);
+    provider = createLLMProvider(name, model);
+    providers.set(feature, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider of one feature, or of all with '*'; null restores
+ * the configured one. Meant for tests.
+ */
+export function setLLMProvider(feature: LLMFeature | '*', provider: LLMProvider | null): void {
+  if (provider) {
+    overrides.set(feature, provider);
+  } else {
+    overrides.delete(feature);
+  }
+}
+
+/**
+ * Chat history in the shape the AI endpoints exchange with the frontend
+ * (Gemini's content format, which the API used before providers were
+ * pluggable)
+ */
+export interface ChatHistoryEntry {
+  role: 'user' | 'model' | 'function' | 'assistant';
+  parts: Array<{
+    text?: string;
+    functionCall?: { name: string; args: Record<string, any> };
+    functionResponse?: { name: string; response: unknown };
+  }>;
+}
+
+export function messagesFromHistory(history: ChatHistoryEntry[]): LLMMessage[] {
+  const messages: LLMMessage[] = [];
+  let pendingCalls: LLMToolCall[] = [];
+
+  history.forEach((entry, index) => {
+    const parts = Array.isArray(entry.parts) ? entry.parts : [];
+    const text = parts.map(part => part.text ?? '').join('');
+
+    if (entry.role === 'user') {
+      messages.push({ role: 'user', content: text });
+    } else if (entry.role === 'function') {
+      // Gemini answers tool calls by position, other providers by id
+      const results = parts
+        .filter(part => part.functionResponse)
+        .map((part, position) => ({
+          id: pendingCalls[position]?.id ?? `call_${index}_${position}`,
+          name: part.functionResponse!.name,
+          result: part.functionResponse!.response,
+        }));
+      messages.push({ role: 'tool', results });
+      pendingCalls = [];
+    } else {
+      pendingCalls = parts
+        .filter(part => part.functionCall)
+        .map((part, position) => ({
+          id: `call_${index}_${position}`,
+          name: part.functionCall!.name,
+          args: part.functionCall!.args ?? {},
+        }));
+      messages.push({ role: 'assistant', content: text, toolCalls: pendingCalls.length > 0 ? pendingCalls : undefined });
+    }
+  });
+
+  return messages;
+}
+
+export function historyFromMessages(messages: LLMMessage[]): ChatHistoryEntry[] {
+  return messages.map((message): ChatHistoryEntry => {
+    switch (message.role) {
+      case 'user':
+        return { role: 'user', parts: [{ text: message.content }] };
+      case 'assistant':
+        return {
+          role: 'model',
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...(message.toolCalls ?? []).map(call => ({ functionCall: { name: call.name, args: call.args } })),
+          ],
+        };
+      case 'tool':
+        return {
+          role: 'function',
+          parts: message.results.map(result => ({ functionResponse: { name: result.name, response: result.result } })),
+        };
+    }
+  });
+}
+
+/**
+ * POST a JSON request to a provider's HTTP API; failures become LLMErrors
+ * with the provider's own error message. The request is aborted with an
+ * LLMError after LLM_TIMEOUT_MS, streams only once no data arrived for that long.
+ */
+export async function postLLMRequest(
+  provider: LLMProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: { stream?: boolean } = {},
+): Promise<Response> {
+  const timeoutMs = config.llm.timeoutMs;
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const startTimeout = () => {
+    clearTimeout(timer);
+    // Reading the body fails with the abort reason, so callers see the LLMError as well
+    timer = setTimeout(() => controller.abort(
+      new LLMError(`${provider} request to ${url} timed out after ${timeoutMs / 1000}s`, provider)
+    ), timeoutMs);
+    timer.unref();
+  };
+
+  let response: Response;
+  startTimeout();
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) throw controller.signal.reason;
+    throw new LLMError(`${provider} request to ${url} failed: ${error instanceof Error ? error.message : error}`, provider);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed.error?.message ?? parsed.message ?? text;
+    } catch {
+      // Not JSON, keep the raw body
+    }
+    throw new LLMError(`${provider} API error ${response.status}: ${message || response.statusText}`, provider, response.status);
+  }
+
+  if (options.stream && response.body) {
+    const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, stream) {
+        startTimeout();
+        stream.enqueue(chunk);
+      },
+      flush() {
+        clearTimeout(timer);
+      },
+    }));
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+  return response;
+}
+
+/**
+ * Events of a server-sent event stream
+ */
+export async function* serverSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parse = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const parsed = parse(block);
+        if (parsed) yield parsed;
+      }
+    }
+    const parsed = parse(buffer + decoder.decode());
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
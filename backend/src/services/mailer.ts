@@ -0,0 +1,110 @@
+/**
+ * Outgoing mail. Messages go through a transport chosen by MAIL_TRANSPORT:
+ * SMTP for real delivery, or a file or console transport that keeps them
+ * local while developing and testing.
+ */
+
+import nodemailer from 'nodemailer';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import type { AuthUser } from './auth.js';
+
+export type MailSettings = typeof config.mail;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export function createMailTransport(settings: MailSettings = config.mail): MailTransport {
+  switch (settings.transport) {
+    case 'smtp': {
+      const transporter = nodemailer.createTransport({
+        host: settings.smtp.host,
+        port: settings.smtp.port,
+        secure: settings.smtp.secure,
+        auth: settings.smtp.user ? { user: settings.smtp.user, pass: settings.smtp.password } : undefined,
+      });
+      return {
+        async send(message) {
+          await transporter.sendMail(message);
+        },
+      };
+    }
+
+    case 'file':
+      return {
+        async send(message) {
+          await mkdir(settings.fileDir, { recursive: true });
+          const file = path.join(settings.fileDir, `${Date.now()}-${randomUUID()}.json`);
+          await writeFile(file, JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2));
+        },
+      };
+
+    case 'console':
+      return {
+        async send(message) {
+          console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+        },
+      };
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= createMailTransport();
+  await transport.send({ from: config.mail.from, ...message });
+}
+
+/**
+ * Link into the frontend; the token travels in the fragment, which never
+ * reaches a server log
+ */
+function appLink(page: string, token: string): string {
+  const base = (config.mail.appUrl || config.corsOrigin).replace(/\/$/, '');
+  return `${base}${page}#${new URLSearchParams({ token })}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function linkMail(to: string, subject: string, intro: string, action: string, link: string, outro: string): MailMessage {
+  return {
+    to,
+    subject,
+    text: `${intro}\n\n${link}\n\n${outro}`,
+    html: `<p>${escapeHtml(intro)}</p><p><a href="${escapeHtml(link)}">${escapeHtml(action)}</a></p><p>${escapeHtml(outro)}</p>`,
+  };
+}
+
+export async function sendPasswordResetMail(user: AuthUser, token: string): Promise<void> {
+  await sendMail(linkMail(
+    user.email,
+    'Reset your MarkMEdit password',
+    `Hello ${user.display_name}, someone asked to reset the password of your MarkMEdit account "${user.username}". Open this link to choose a new one:`,
+    'Choose a new password',
+    appLink('/reset-password', token),
+    'The link expires soon and works once. If you did not ask for it, you can ignore this mail.'
+  ));
+}
+
+export async function sendVerificationMail(user: AuthUser, token: string): Promise<void> {
+  await sendMail(linkMail(
+    user.email,
+    'Confirm your MarkMEdit email address',
+    `Hello ${user.display_name}, please confirm that this address belongs to your MarkMEdit account "${user.username}":`,
+    'Confirm email address',
+    appLink('/verify-email', token),
+    'If you did not create an account, you can ignore this mail.'
+  ));
+}
@@ -0,0 +1,378 @@
+/**
+ * OpenID Connect Login
+ * Authorization code flow with PKCE against any standard OIDC provider.
+ * Users are created on their first login and linked by issuer + subject;
+ * provider groups can be mapped onto MarkMEdit groups, whose plain
+ * memberships then follow the provider on every login.
+ */
+
+import { createHash, createPublicKey, randomBytes, randomUUID, type JsonWebKey, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/index.js';
+import { getDatabase } from '../db/index.js';
+import { findActiveUser, newUserRole, type AuthUser } from './auth.js';
+
+export type OidcSettings = typeof config.oidc;
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface OidcLoginResult {
+  user: AuthUser;
+  /** Path inside the app to continue at */
+  returnTo: string;
+  created: boolean;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+    Object.setPrototypeOf(this, OidcError.prototype);
+  }
+}
+
+// Pending logins expire if the provider does not redirect back in time
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+// Users created through single sign-on cannot log in with a password
+const NO_PASSWORD = '!oidc';
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+
+const metadataCache = new Map<string, ProviderMetadata>();
+const keyCache = new Map<string, Map<string, KeyObject>>();
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+/**
+ * Whether the settings are complete enough for the login flow
+ */
+export function isOidcEnabled(settings: OidcSettings = config.oidc): boolean {
+  return settings.enabled && !!settings.issuer && !!settings.clientId && !!settings.redirectUri;
+}
+
+function requireSettings(settings: OidcSettings): Required<Pick<OidcSettings, 'issuer' | 'clientId' | 'redirectUri'>> {
+  if (!isOidcEnabled(settings)) {
+    throw new OidcError('OIDC login is not configured');
+  }
+  return { issuer: settings.issuer!, clientId: settings.clientId!, redirectUri: settings.redirectUri! };
+}
+
+/**
+ * Only paths inside the app are accepted, so the login cannot be used to
+ * redirect to another site
+ */
+export function sanitizeReturnTo(returnTo: unknown): string {
+  return typeof returnTo === 'string' && /^\/(?![/\\])/.test(returnTo) ? returnTo : '/documents';
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new OidcError(`${url} answered ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function getProviderMetadata(issuer: string): Promise<ProviderMetadata> {
+  let metadata = metadataCache.get(issuer);
+  if (!metadata) {
+    metadata = await fetchJson<ProviderMetadata>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    if (metadata.issuer.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+      throw new OidcError(`Provider reports issuer ${metadata.issuer}, expected ${issuer}`);
+    }
+    metadataCache.set(issuer, metadata);
+  }
+  return metadata;
+}
+
+/**
+ * Signing key for an ID token. The key set is fetched again once when a key
+ * id is unknown, which picks up key rotation at the provider.
+ */
+async function getSigningKey(metadata: ProviderMetadata, kid: string | undefined): Promise<KeyObject> {
+  const lookup = (keys: Map<string, KeyObject>) =>
+    kid ? keys.get(kid) : keys.size === 1 ? keys.values().next().value : undefined;
+
+  const cached = keyCache.get(metadata.jwks_uri);
+  const cachedKey = cached && lookup(cached);
+  if (cachedKey) return cachedKey;
+
+  const { keys } = await fetchJson<{ keys: Array<JsonWebKey & { kid?: string; use?: string }> }>(metadata.jwks_uri);
+  const keySet = new Map<string, KeyObject>();
+  keys
+    .filter(key => !key.use || key.use === 'sig')
+    .forEach((key, index) => keySet.set(key.kid ?? `#${index}`, createPublicKey({ key, format: 'jwk' })));
+  keyCache.set(metadata.jwks_uri, keySet);
+
+  const key = lookup(keySet);
+  if (!key) {
+    throw new OidcError(`No signing key ${kid ?? ''} at ${metadata.jwks_uri}`);
+  }
+  return key;
+}
+
+/**
+ * Start a login: remember state, nonce and PKCE verifier and return the
+ * provider URL to send the browser to
+ */
+export async function createAuthorizationUrl(
+  returnTo: unknown,
+  settings: OidcSettings = config.oidc
+): Promise<string> {
+  const { issuer, clientId, redirectUri } = requireSettings(settings);
+  const metadata = await getProviderMetadata(issuer);
+
+  const state = base64url(randomBytes(24));
+  const nonce = base64url(randomBytes(24));
+  const codeVerifier = base64url(randomBytes(48));
+  const codeChallenge = base64url(createHash('sha256').update(codeVerifier).digest());
+
+  const db = getDatabase();
+  db.prepare('DELETE FROM oidc_login_states WHERE created_at < ?').run(Date.now() - LOGIN_STATE_TTL_MS);
+  db.prepare(`
+    INSERT INTO oidc_login_states (state, nonce, code_verifier, return_to, created_at) VALUES (?, ?, ?, ?, ?)
+  `).run(state, nonce, codeVerifier, sanitizeReturnTo(returnTo), Date.now());
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: settings.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Finish a login after the provider redirected back: exchange the code,
+ * verify the ID token and provision the user
+ */
+export async function completeLogin(
+  code: string,
+  state: string,
+  settings: OidcSettings = config.oidc
+): Promise<OidcLoginResult> {
+  const { issuer, clientId, redirectUri } = requireSettings(settings);
+  const db = getDatabase();
+
+  // A state can be used once
+  const pending = db.prepare('SELECT * FROM oidc_login_states WHERE state = ?').get(state) as
+    { state: string; nonce: string; code_verifier: string; return_to: string | null; created_at: number } | undefined;
+  db.prepare('DELETE FROM oidc_login_states WHERE state = ?').run(state);
+  if (!pending || Number(pending.created_at) < Date.now() - LOGIN_STATE_TTL_MS) {
+    throw new OidcError('Login request expired or unknown, please try again');
+  }
+
+  const metadata = await getProviderMetadata(issuer);
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: pending.code_verifier,
+  });
+  if (settings.clientSecret) {
+    headers.Authorization = `Basic ${Buffer.from(
+      `${encodeURIComponent(clientId)}:${encodeURIComponent(settings.clientSecret)}`
+    ).toString('base64')}`;
+  } else {
+    body.set('client_id', clientId);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body,
+  });
+  if (!tokens.id_token) {
+    throw new OidcError('Provider did not return an ID token');
+  }
+
+  const header = jwt.decode(tokens.id_token, { complete: true })?.header;
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(tokens.id_token, await getSigningKey(metadata, header?.kid), {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: clientId,
+      nonce: pending.nonce,
+    }) as OidcClaims;
+  } catch (error) {
+    throw new OidcError(`Invalid ID token: ${(error as Error).message}`);
+  }
+
+  // Providers often leave profile and group claims out of the ID token
+  if (metadata.userinfo_endpoint && tokens.access_token && !(settings.groupsClaim in claims && claims.email)) {
+    const userinfo = await fetchJson<OidcClaims>(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userinfo.sub === claims.sub) {
+      claims = { ...userinfo, ...claims, [settings.groupsClaim]: claims[settings.groupsClaim] ?? userinfo[settings.groupsClaim] };
+    }
+  }
+
+  const { user, created } = provisionUser(metadata.issuer, claims);
+  syncGroups(user.id, claimedGroups(claims, settings.groupsClaim), settings);
+
+  return { user, returnTo: sanitizeReturnTo(pending.return_to), created };
+}
+
+function claimedGroups(claims: OidcClaims, groupsClaim: string): string[] {
+  // Dotted names reach into nested claims, e.g. realm_access.roles
+  const value = groupsClaim.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    claims
+  );
+  if (Array.isArray(value)) return value.filter((group): group is string => typeof group === 'string');
+  return typeof value === 'string' ? [value] : [];
+}
+
+function uniqueUsername(claims: OidcClaims): string {
+  const db = getDatabase();
+  const base = (claims.preferred_username || claims.email?.split('@')[0] || `user-${claims.sub}`)
+    .replace(/[^\w.-]+/g, '-')
+    .slice(0, 40) || 'user';
+
+  let candidate = base;
+  for (let suffix = 2; db.prepare('SELECT id FROM users WHERE username = ?').get(candidate); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Find the user linked to a provider account or create one. An existing
+ * account is linked by email only if the provider verified that address.
+ */
+export function provisionUser(issuer: string, claims: OidcClaims): { user: AuthUser; created: boolean } {
+  const db = getDatabase();
+  const now = Date.now();
+  let created = false;
+
+  const userId = db.transaction(() => {
+    const identity = db.prepare('SELECT user_id FROM user_identities WHERE issuer = ? AND subject = ?')
+      .get(issuer, claims.sub) as { user_id: string } | undefined;
+    if (identity) {
+      db.prepare('UPDATE user_identities SET last_login_at = ?, email = ? WHERE issuer = ? AND subject = ?')
+        .run(now, claims.email ?? null, issuer, claims.sub);
+      return identity.user_id;
+    }
+
+    const existing = claims.email && claims.email_verified === true
+      ? db.prepare('SELECT id FROM users WHERE LOWER(email) = LOWER(?)').get(claims.email) as { id: string } | undefined
+      : undefined;
+
+    let id = existing?.id;
+    if (id) {
+      // The provider vouches for the address the account was linked by
+      db.prepare('UPDATE users SET email_verified_at = COALESCE(email_verified_at, ?) WHERE id = ?')
+        .run(new Date(now).toISOString(), id);
+    } else {
+      id = randomUUID();
+      const timestamp = new Date(now).toISOString();
+      const username = uniqueUsername(claims);
+      // The email column is unique; an unverified address already taken is not adopted
+      const emailTaken = claims.email
+        ? db.prepare('SELECT id FROM users WHERE LOWER(email) = LOWER(?)').get(claims.email)
+        : true;
+      db.prepare(
+        `INSERT INTO users (id, username, email, password_hash, display_name, role, email_verified_at, created_at, updated_at, is_active)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1)`
+      ).run(
+        id,
+        username,
+        emailTaken ? `${id}@oidc.invalid` : claims.email,
+        NO_PASSWORD,
+        claims.name || username,
+        newUserRole(),
+        !emailTaken && claims.email_verified === true ? timestamp : null,
+        timestamp,
+        timestamp
+      );
+      db.prepare(
+        `INSERT INTO user_groups (user_id, group_id, added_at) VALUES (?, '_LOGGED_IN', ?)`
+      ).run(id, timestamp);
+      created = true;
+    }
+
+    db.prepare(`
+      INSERT INTO user_identities (issuer, subject, user_id, email, created_at, last_login_at) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(issuer, claims.sub, id, claims.email ?? null, now, now);
+    return id;
+  })() as string;
+
+  const user = findActiveUser(userId);
+  if (!user) {
+    throw new OidcError('This account is disabled');
+  }
+  return { user, created };
+}
+
+/**
+ * Align memberships in mapped groups with the provider groups. Only plain
+ * memberships are touched; admins and owners are managed in MarkMEdit.
+ */
+export function syncGroups(userId: string, providerGroups: string[], settings: OidcSettings = config.oidc): void {
+  const mapping = Object.entries(settings.groupMapping);
+  if (mapping.length === 0) return;
+
+  const db = getDatabase();
+  const claimed = new Set(providerGroups);
+
+  db.transaction(() => {
+    const wanted = new Set<string>();
+    const managed = new Set<string>();
+
+    for (const [providerGroup, target] of mapping) {
+      let group = db.prepare('SELECT id FROM groups WHERE id = ? OR LOWER(name) = LOWER(?)').get(target, target) as
+        { id: string } | undefined;
+      if (!group && settings.createGroups && claimed.has(providerGroup) && !target.startsWith('_')) {
+        group = { id: randomUUID() };
+        db.prepare('INSERT INTO groups (id, name, description, created_at) VALUES (?, ?, ?, ?)')
+          .run(group.id, target, `Synchronized from ${providerGroup}`, new Date().toISOString());
+      }
+      if (!group || group.id.startsWith('_')) continue;
+
+      managed.add(group.id);
+      if (claimed.has(providerGroup)) wanted.add(group.id);
+    }
+
+    const memberships = new Map(
+      (db.prepare('SELECT group_id, role FROM user_groups WHERE user_id = ?').all(userId) as
+        { group_id: string; role: string }[]).map(row => [row.group_id, row.role])
+    );
+
+    for (const groupId of managed) {
+      if (wanted.has(groupId) && !memberships.has(groupId)) {
+        db.prepare(`
+          INSERT INTO user_groups (user_id, group_id, role, added_at) VALUES (?, ?, 'member', ?)
+        `).run(userId, groupId, new Date().toISOString());
+      } else if (!wanted.has(groupId) && memberships.get(groupId) === 'member') {
+        db.prepare('DELETE FROM user_groups WHERE user_id = ? AND group_id = ?').run(userId, groupId);
+      }
+    }
+  })();
+}
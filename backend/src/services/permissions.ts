@@ -1,98 +1,193 @@
 import { getDatabase } from '../db/index.js';
-import type { DocumentPermission } from '../db/schema.js';
 import { randomUUID } from 'crypto';
+import { recordAudit, type AuditContext } from './audit.js';
 
 export type PermissionLevel = 'read' | 'write' | 'admin';
 
+/**
+ * allow grants the level and everything below it, deny withholds the level
+ * and everything above it (deny write still leaves read).
+ */
+export type PermissionEffect = 'allow' | 'deny';
+
 export interface Permission {
   user_id?: string;
   group_id?: string;
   permission_level: PermissionLevel;
+  effect?: PermissionEffect;
 }
 
 export interface DocumentPermissions {
   owner_id: string;
-  user_permissions: Array<{ user_id: string; username: string; permission_level: PermissionLevel }>;
-  group_permissions: Array<{ group_id: string; group_name: string; permission_level: PermissionLevel }>;
+  user_permissions: Array<{ user_id: string; username: string; permission_level: PermissionLevel; effect: PermissionEffect }>;
+  group_permissions: Array<{ group_id: string; group_name: string; permission_level: PermissionLevel; effect: PermissionEffect }>;
+}
+
+/**
+ * A grant or deny that applies to a user, on the document or an ancestor
+ */
+export interface PermissionSource {
+  type: 'owner' | 'user' | 'group' | 'everyone';
+  effect: PermissionEffect;
+  level: PermissionLevel;
+  documentId: string;
+  documentTitle: string;
+  /** Set when the entry belongs to an ancestor of the document */
+  inherited: boolean;
+  groupId?: string;
+  groupName?: string;
+}
+
+export type PermissionReason = 'owner' | 'direct' | 'group' | 'everyone' | 'inherited' | 'denied' | 'none';
+
+export interface EffectivePermission {
+  documentId: string;
+  userId: string | null;
+  /** Highest level the user has, null for no access */
+  level: PermissionLevel | null;
+  reason: PermissionReason;
+  /** The entry that decided the level (or denied read access) */
+  decidedBy: PermissionSource | null;
+  /** All entries that apply to the user, nearest document first */
+  sources: PermissionSource[];
 }
 
+const LEVELS: PermissionLevel[] = ['read', 'write', 'admin'];
+
+const LEVEL_RANK: Record<PermissionLevel, number> = {
+  read: 1,
+  write: 2,
+  admin: 3,
+};
+
 export class PermissionService {
   /**
-   * Check if user has permission to access document
+   * Check if user has permission to access document. Users with the site
+   * role viewer only ever get read access, whatever they were granted.
    */
   static checkPermission(
     documentId: string,
     userId: string | null,
     requiredLevel: PermissionLevel
   ): boolean {
-    const db = getDatabase();
+    if (userId && requiredLevel !== 'read') {
+      const user = getDatabase().prepare('SELECT role FROM users WHERE id = ?').get(userId) as
+        { role: string } | undefined;
+      if (user?.role === 'viewer') return false;
+    }
 
-    // Get document owner
-    const doc = db.prepare('SELECT owner_id FROM documents WHERE id = ?').get(documentId) as { owner_id: string } | undefined;
+    const effective = PermissionService.getEffectivePermission(documentId, userId);
+    return effective.level !== null && LEVEL_RANK[effective.level] >= LEVEL_RANK[requiredLevel];
+  }
 
-    if (!doc) {
-      return false;
-    }
+  /**
+   * Work out a user's access to a document and why.
+   *
+   * Owning the document or one of its ancestors gives admin access that
+   * cannot be denied. Otherwise every level is decided by the nearest
+   * document (the document itself, then its parents) that has an entry
+   * covering it; on that document a deny beats an allow. _EVERYONE entries
+   * apply to guests and signed-in users alike.
+   */
+  static getEffectivePermission(documentId: string, userId: string | null): EffectivePermission {
+    const db = getDatabase();
+    const sources: PermissionSource[] = [];
+    const chain: string[] = [];
+    const visited = new Set<string>();
+    let currentId: string | null = documentId;
 
-    // Owner has full access
-    if (userId && doc.owner_id === userId) {
-      return true;
-    }
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
 
-    // Permission level hierarchy
-    const levels: Record<PermissionLevel, number> = {
-      read: 1,
-      write: 2,
-      admin: 3,
-    };
+      const doc = db.prepare('SELECT title, owner_id, parent_id FROM documents WHERE id = ?').get(currentId) as
+        { title: string; owner_id: string; parent_id: string | null } | undefined;
+      if (!doc) break;
 
-    const required = levels[requiredLevel];
+      chain.push(currentId);
+      const inherited = currentId !== documentId;
 
-    // Check user-specific permissions
-    if (userId) {
-      const userPerm = db.prepare(
-        'SELECT permission_level FROM document_permissions WHERE document_id = ? AND user_id = ?'
-      ).get(documentId, userId) as DocumentPermission | undefined;
+      if (userId && doc.owner_id === userId) {
+        sources.push({ type: 'owner', effect: 'allow', level: 'admin', documentId: currentId, documentTitle: doc.title, inherited });
+      }
 
-      if (userPerm && levels[userPerm.permission_level] >= required) {
-        return true;
+      const entries = db.prepare(`
+        SELECT dp.user_id, dp.group_id, dp.permission_level, dp.effect, g.name AS group_name
+        FROM document_permissions dp
+        LEFT JOIN groups g ON g.id = dp.group_id
+        WHERE dp.document_id = ?
+          AND (dp.user_id = ?
+            OR dp.group_id = '_EVERYONE'
+            OR dp.group_id IN (SELECT group_id FROM user_groups WHERE user_id = ?))
+        ORDER BY dp.user_id IS NULL
+      `).all(currentId, userId, userId) as Array<{
+        user_id: string | null;
+        group_id: string | null;
+        permission_level: PermissionLevel;
+        effect: PermissionEffect | null;
+        group_name: string | null;
+      }>;
+
+      for (const entry of entries) {
+        sources.push({
+          type: entry.user_id ? 'user' : entry.group_id === '_EVERYONE' ? 'everyone' : 'group',
+          effect: entry.effect || 'allow',
+          level: entry.permission_level,
+          documentId: currentId,
+          documentTitle: doc.title,
+          inherited,
+          ...(entry.group_id ? { groupId: entry.group_id, groupName: entry.group_name || entry.group_id } : {}),
+        });
       }
-    }
 
-    // Check group permissions
-    const groupQuery = userId
-      ? `SELECT dp.permission_level 
-         FROM document_permissions dp
-         INNER JOIN user_groups ug ON dp.group_id = ug.group_id
-         WHERE dp.document_id = ? AND ug.user_id = ?`
-      : `SELECT permission_level 
-         FROM document_permissions 
-         WHERE document_id = ? AND group_id = '_EVERYONE'`;
+      currentId = doc.parent_id;
+    }
 
-    const params = userId ? [documentId, userId] : [documentId];
+    const owner = sources.find(source => source.type === 'owner');
+    if (owner) {
+      return {
+        documentId,
+        userId,
+        level: 'admin',
+        reason: owner.inherited ? 'inherited' : 'owner',
+        decidedBy: owner,
+        sources,
+      };
+    }
 
-    const groupPerms = db.prepare(groupQuery).all(...params) as DocumentPermission[];
+    // Decide each level on the nearest document with a covering entry
+    const decide = (level: PermissionLevel): PermissionSource | null => {
+      for (const id of chain) {
+        const onDocument = sources.filter(source => source.documentId === id);
+        const deny = onDocument.find(source => source.effect === 'deny' && LEVEL_RANK[source.level] <= LEVEL_RANK[level]);
+        if (deny) return deny;
+        const allow = onDocument.find(source => source.effect === 'allow' && LEVEL_RANK[source.level] >= LEVEL_RANK[level]);
+        if (allow) return allow;
+      }
+      return null;
+    };
 
-    for (const perm of groupPerms) {
-      if (levels[perm.permission_level] >= required) {
-        return true;
+    let level: PermissionLevel | null = null;
+    let decidedBy: PermissionSource | null = null;
+    for (const candidate of LEVELS) {
+      const source = decide(candidate);
+      if (!source || source.effect === 'deny') {
+        if (level === null) decidedBy = source;
+        break;
       }
+      level = candidate;
+      decidedBy = source;
     }
 
-    // Check EVERYONE group if not logged in
-    if (!userId) {
-      const everyonePerm = db.prepare(
-        `SELECT permission_level 
-         FROM document_permissions 
-         WHERE document_id = ? AND group_id = '_EVERYONE'`
-      ).get(documentId) as DocumentPermission | undefined;
-
-      if (everyonePerm && levels[everyonePerm.permission_level] >= required) {
-        return true;
-      }
+    let reason: PermissionReason;
+    if (level === null) {
+      reason = decidedBy ? 'denied' : 'none';
+    } else if (decidedBy!.inherited) {
+      reason = 'inherited';
+    } else {
+      reason = decidedBy!.type === 'user' ? 'direct' : decidedBy!.type === 'everyone' ? 'everyone' : 'group';
     }
 
-    return false;
+    return { documentId, userId, level, reason, decidedBy, sources };
   }
 
   /**
@@ -110,7 +205,7 @@ export class PermissionService {
 
     // Get user permissions
     const userPerms = db.prepare(
-      `SELECT dp.user_id, u.username, dp.permission_level
+      `SELECT dp.user_id, u.username, dp.permission_level, dp.effect
        FROM document_permissions dp
        INNER JOIN users u ON dp.user_id = u.id
        WHERE dp.document_id = ? AND dp.user_id IS NOT NULL`
@@ -118,11 +213,12 @@ export class PermissionService {
       user_id: string;
       username: string;
       permission_level: PermissionLevel;
+      effect: PermissionEffect;
     }>;
 
     // Get group permissions
     const groupPerms = db.prepare(
-      `SELECT dp.group_id, g.name as group_name, dp.permission_level
+      `SELECT dp.group_id, g.name as group_name, dp.permission_level, dp.effect
        FROM document_permissions dp
        INNER JOIN groups g ON dp.group_id = g.id
        WHERE dp.document_id = ? AND dp.group_id IS NOT NULL`
@@ -130,6 +226,7 @@ export class PermissionService {
       group_id: string;
       group_name: string;
       permission_level: PermissionLevel;
+      effect: PermissionEffect;
     }>;
 
     return {
@@ -140,12 +237,15 @@ export class PermissionService {
   }
 
   /**
-   * Set permission for a user
+   * Set permission for a user, replacing any existing grant or deny.
+   * Changes to permissions and ownership are written to the audit log.
    */
   static setUserPermission(
     documentId: string,
     userId: string,
-    permissionLevel: PermissionLevel
+    permissionLevel: PermissionLevel,
+    effect: PermissionEffect = 'allow',
+    context: AuditContext = {}
   ): void {
     const db = getDatabase();
 
@@ -156,23 +256,34 @@ export class PermissionService {
 
     if (existing) {
       db.prepare(
-        'UPDATE document_permissions SET permission_level = ? WHERE document_id = ? AND user_id = ?'
-      ).run(permissionLevel, documentId, userId);
+        'UPDATE document_permissions SET permission_level = ?, effect = ? WHERE document_id = ? AND user_id = ?'
+      ).run(permissionLevel, effect, documentId, userId);
     } else {
       db.prepare(
-        `INSERT INTO document_permissions (id, document_id, user_id, permission_level, created_at)
-         VALUES (?, ?, ?, ?, ?)`
-      ).run(randomUUID(), documentId, userId, permissionLevel, new Date().toISOString());
+        `INSERT INTO document_permissions (id, document_id, user_id, permission_level, effect, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(randomUUID(), documentId, userId, permissionLevel, effect, new Date().toISOString());
     }
+
+    recordAudit({
+      ...context,
+      action: 'permission.set',
+      targetType: 'user',
+      targetId: userId,
+      documentId,
+      details: { level: permissionLevel, effect },
+    });
   }
 
   /**
-   * Set permission for a group
+   * Set permission for a group, replacing any existing grant or deny
    */
   static setGroupPermission(
     documentId: string,
     groupId: string,
-    permissionLevel: PermissionLevel
+    permissionLevel: PermissionLevel,
+    effect: PermissionEffect = 'allow',
+    context: AuditContext = {}
   ): void {
     const db = getDatabase();
 
@@ -182,41 +293,69 @@ export class PermissionService {
 
     if (existing) {
       db.prepare(
-        'UPDATE document_permissions SET permission_level = ? WHERE document_id = ? AND group_id = ?'
-      ).run(permissionLevel, documentId, groupId);
+        'UPDATE document_permissions SET permission_level = ?, effect = ? WHERE document_id = ? AND group_id = ?'
+      ).run(permissionLevel, effect, documentId, groupId);
     } else {
       db.prepare(
-        `INSERT INTO document_permissions (id, document_id, group_id, permission_level, created_at)
-         VALUES (?, ?, ?, ?, ?)`
-      ).run(randomUUID(), documentId, groupId, permissionLevel, new Date().toISOString());
+        `INSERT INTO document_permissions (id, document_id, group_id, permission_level, effect, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(randomUUID(), documentId, groupId, permissionLevel, effect, new Date().toISOString());
     }
+
+    recordAudit({
+      ...context,
+      action: 'permission.set',
+      targetType: 'group',
+      targetId: groupId,
+      documentId,
+      details: { level: permissionLevel, effect },
+    });
   }
 
   /**
    * Remove user permission
    */
-  static removeUserPermission(documentId: string, userId: string): void {
+  static removeUserPermission(documentId: string, userId: string, context: AuditContext = {}): void {
     const db = getDatabase();
-    db.prepare(
+    const result = db.prepare(
       'DELETE FROM document_permissions WHERE document_id = ? AND user_id = ?'
     ).run(documentId, userId);
+
+    if (result.changes > 0) {
+      recordAudit({ ...context, action: 'permission.remove', targetType: 'user', targetId: userId, documentId });
+    }
   }
 
   /**
    * Remove group permission
    */
-  static removeGroupPermission(documentId: string, groupId: string): void {
+  static removeGroupPermission(documentId: string, groupId: string, context: AuditContext = {}): void {
     const db = getDatabase();
-    db.prepare(
+    const result = db.prepare(
       'DELETE FROM document_permissions WHERE document_id = ? AND group_id = ?'
     ).run(documentId, groupId);
+
+    if (result.changes > 0) {
+      recordAudit({ ...context, action: 'permission.remove', targetType: 'group', targetId: groupId, documentId });
+    }
   }
 
   /**
    * Transfer document ownership
    */
-  static transferOwnership(documentId: string, newOwnerId: string): void {
+  static transferOwnership(documentId: string, newOwnerId: string, context: AuditContext = {}): void {
     const db = getDatabase();
+    const previous = db.prepare('SELECT owner_id FROM documents WHERE id = ?').get(documentId) as
+      { owner_id: string } | undefined;
     db.prepare('UPDATE documents SET owner_id = ? WHERE id = ?').run(newOwnerId, documentId);
+
+    recordAudit({
+      ...context,
+      action: 'document.transfer_ownership',
+      targetType: 'user',
+      targetId: newOwnerId,
+      documentId,
+      details: { previousOwnerId: previous?.owner_id ?? null },
+    });
   }
 }
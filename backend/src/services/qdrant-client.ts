@@ -1,6 +1,5 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { config } from '../config/index.js';
-import { memoryMonitor } from './memory-monitor.js';
 
 let qdrantClient: QdrantClient | null = null;
 
@@ -59,109 +58,7 @@ export const COLLECTIONS = {
   SUMMARIES: 'summaries',
 } as const;
 
-/**
- * Vector dimensions for Gemini text-embedding-004
- */
-export const VECTOR_DIMENSIONS = 768;
-
-/**
- * Create all required collections if they don't exist
- */
-export async function initializeCollections(): Promise<void> {
-  const client = getQdrantClient();
-  
-  const collections = [
-    {
-      name: COLLECTIONS.DOCUMENTS,
-      description: 'Document chunks with hierarchical metadata',
-    },
-    {
-      name: COLLECTIONS.RESEARCH_SOURCES,
-      description: 'External research sources and web content',
-    },
-    {
-      name: COLLECTIONS.UPLOADED_FILES,
-      description: 'Content from uploaded PDFs and DOCX files',
-    },
-    {
-      name: COLLECTIONS.SUMMARIES,
-      description: 'Recursive summaries for large documents',
-    },
-  ];
-
-  for (const collection of collections) {
-    try {
-      const exists = await collectionExists(collection.name);
-      
-      if (!exists) {
-        console.log(`📦 Creating collection: ${collection.name}`);
-        await client.createCollection(collection.name, {
-          vectors: {
-            size: VECTOR_DIMENSIONS,
-            distance: 'Cosine',
-          },
-          optimizers_config: {
-            default_segment_number: 2,
-          },
-          replication_factor: 1,
-        });
-        console.log(`✓ Created collection: ${collection.name}`);
-      } else {
-        console.log(`✓ Collection exists: ${collection.name}`);
-      }
-    } catch (error) {
-      console.error(`✗ Failed to create collection ${collection.name}:`, error);
-      throw error;
-    }
-  }
-}
-
-/**
- * Check if a collection exists
- */
-async function collectionExists(name: string): Promise<boolean> {
-  try {
-    const client = getQdrantClient();
-    const result = await client.getCollection(name);
-    return !!result;
-  } catch (error: any) {
-    if (error.status === 404) {
-      return false;
-    }
-    throw error;
-  }
-}
-
-/**
- * Delete all points for a specific document (before re-indexing)
- */
-export async function deleteDocumentVectors(
-  collectionName: string,
-  documentId: string
-): Promise<void> {
-  return memoryMonitor.trackOperation('QDrant', `deleteVectors(${collectionName})`, async () => {
-    const client = getQdrantClient();
-    
-    try {
-      await client.delete(collectionName, {
-        filter: {
-          must: [
-            {
-              key: 'document_id',
-              match: {
-                value: documentId,
-              },
-            },
-          ],
-        },
-      });
-      console.log(`✓ Deleted vectors for document ${documentId} from ${collectionName}`);
-    } catch (error) {
-      console.error(`✗ Failed to delete vectors for document ${documentId}:`, error);
-      throw error;
-    }
-  });
-}
+export type CollectionName = typeof COLLECTIONS[keyof typeof COLLECTIONS];
 
 /**
  * Metadata structure for document chunks
@@ -178,6 +75,8 @@ export interface DocumentChunkMetadata {
   total_chunks: number;
   content_type: 'text' | 'code' | 'table' | 'list' | 'quote';
   char_count: number;
+  /** SHA-256 of the chunk content, missing on points indexed before chunk hashing */
+  content_hash?: string;
   created_at: string;
 }
 
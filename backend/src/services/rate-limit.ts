@@ -0,0 +1,123 @@
+/**
+ * Rate Limits and Login Lockout
+ * Fixed-window counters per bucket (what is limited) and key (who is
+ * limited, e.g. an IP address), and a progressive lockout for account names
+ * that keep failing to log in. Both are stored in the database.
+ */
+
+import { getDatabase } from '../db/index.js';
+
+// Failed logins are forgotten a day after the last one
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitRule {
+  bucket: string;
+  /** Requests allowed per window; 0 turns the limit off */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** When the current window ends (ms) */
+  resetAt: number;
+}
+
+export interface LockoutPolicy {
+  /** Failures in a row before the first lockout; 0 turns lockouts off */
+  threshold: number;
+  /** First lockout; every further failure doubles it */
+  baseMs: number;
+  maxMs: number;
+}
+
+/**
+ * Count a request against a rule
+ */
+export function consumeRateLimit(rule: RateLimitRule, key: string, now = Date.now()): RateLimitResult {
+  if (rule.limit <= 0) {
+    return { allowed: true, limit: 0, remaining: 0, resetAt: now };
+  }
+
+  const db = getDatabase();
+  return db.transaction(() => {
+    const row = db.prepare('SELECT window_start, hits FROM rate_limits WHERE bucket = ? AND key = ?')
+      .get(rule.bucket, key) as { window_start: number; hits: number } | undefined;
+
+    let windowStart = now;
+    let hits = 1;
+    if (row && now - Number(row.window_start) < rule.windowMs) {
+      windowStart = Number(row.window_start);
+      hits = Number(row.hits) + 1;
+    } else {
+      // Starting a new window is a good moment to drop the bucket's stale ones
+      db.prepare('DELETE FROM rate_limits WHERE bucket = ? AND window_start <= ?').run(rule.bucket, now - rule.windowMs);
+    }
+
+    db.prepare(`
+      INSERT INTO rate_limits (bucket, key, window_start, hits) VALUES (?, ?, ?, ?)
+      ON CONFLICT (bucket, key) DO UPDATE SET window_start = excluded.window_start, hits = excluded.hits
+    `).run(rule.bucket, key, windowStart, hits);
+
+    return {
+      allowed: hits <= rule.limit,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - hits),
+      resetAt: windowStart + rule.windowMs,
+    };
+  })() as RateLimitResult;
+}
+
+function normalizeAccount(account: string): string {
+  return account.trim().toLowerCase();
+}
+
+/**
+ * End of the account's current lockout, or null if it may log in
+ */
+export function getLockout(account: string, now = Date.now()): number | null {
+  const row = getDatabase().prepare('SELECT locked_until FROM login_failures WHERE account = ?')
+    .get(normalizeAccount(account)) as { locked_until: number | null } | undefined;
+  const lockedUntil = row?.locked_until == null ? null : Number(row.locked_until);
+  return lockedUntil !== null && lockedUntil > now ? lockedUntil : null;
+}
+
+/**
+ * Count a failed login; from the threshold on, each failure locks the
+ * account for twice as long as the one before, up to the maximum
+ */
+export function recordLoginFailure(
+  account: string,
+  policy: LockoutPolicy,
+  now = Date.now()
+): { failures: number; lockedUntil: number | null } {
+  const db = getDatabase();
+  const key = normalizeAccount(account);
+
+  return db.transaction(() => {
+    const row = db.prepare('SELECT failures, last_failure_at FROM login_failures WHERE account = ?')
+      .get(key) as { failures: number; last_failure_at: number } | undefined;
+
+    const failures = row && now - Number(row.last_failure_at) < FAILURE_MEMORY_MS ? Number(row.failures) + 1 : 1;
+    const lockedUntil = policy.threshold > 0 && failures >= policy.threshold
+      ? now + Math.min(policy.maxMs, policy.baseMs * 2 ** (failures - policy.threshold))
+      : null;
+
+    db.prepare(`
+      INSERT INTO login_failures (account, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?)
+      ON CONFLICT (account) DO UPDATE SET
+        failures = excluded.failures, last_failure_at = excluded.last_failure_at, locked_until = excluded.locked_until
+    `).run(key, failures, now, lockedUntil);
+
+    return { failures, lockedUntil };
+  })() as { failures: number; lockedUntil: number | null };
+}
+
+/**
+ * Forget failed logins after a successful login or password reset
+ */
+export function clearLoginFailures(account: string): void {
+  getDatabase().prepare('DELETE FROM login_failures WHERE account = ?').run(normalizeAccount(account));
+}
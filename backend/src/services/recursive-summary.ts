@@ -3,20 +3,16 @@
  * Creates multi-level summaries for large documents
  */
 
-import { getQdrantClient, COLLECTIONS, type SummaryMetadata } from './qdrant-client.js';
+import { COLLECTIONS, type SummaryMetadata } from './qdrant-client.js';
+import { getVectorStore } from './vector-store.js';
 import { generateEmbeddingBatch } from './embedding.js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
+import { getLLMProvider } from './llm.js';
 import { nanoid } from 'nanoid';
 
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-
 /**
  * Generate summary for a batch of text chunks
  */
 async function generateSummary(texts: string[], level: number): Promise<string> {
-  const model = genAI.getGenerativeModel({ model: config.gemini.model });
-
   const combinedText = texts.join('\n\n---\n\n');
   
   const prompt = level === 1
@@ -31,8 +27,8 @@ async function generateSummary(texts: string[], level: number): Promise<string>
        
        ${combinedText}`;
 
-  const result = await model.generateContent(prompt);
-  return result.response.text();
+  const { text } = await getLLMProvider('summary').generate({ prompt });
+  return text;
 }
 
 /**
@@ -56,7 +52,7 @@ export async function createRecursiveSummaries(
       return { success: true, totalSummaries: 0 };
     }
 
-    const client = getQdrantClient();
+    const store = getVectorStore();
     let currentLevel = 1;
     let currentChunks = chunks;
     let totalSummaries = 0;
@@ -87,7 +83,7 @@ export async function createRecursiveSummaries(
       const summaryTexts = summaryChunks.map(s => s.content);
       const embeddings = await generateEmbeddingBatch(summaryTexts, 'RETRIEVAL_DOCUMENT');
 
-      // Store summaries in QDrant
+      // Store summaries in the vector store
       const points = summaryChunks.map((chunk, index) => {
         const metadata: SummaryMetadata = {
           document_id: documentId,
@@ -106,7 +102,7 @@ export async function createRecursiveSummaries(
         };
       });
 
-      await client.upsert(COLLECTIONS.SUMMARIES, {
+      await store.upsert(COLLECTIONS.SUMMARIES, {
         points,
         wait: true,
       });
@@ -139,10 +135,10 @@ export async function getDocumentOverview(documentId: string): Promise<{
   levels: number;
 } | null> {
   try {
-    const client = getQdrantClient();
+    const store = getVectorStore();
 
     // Find highest level summary
-    const results = await client.scroll(COLLECTIONS.SUMMARIES, {
+    const results = await store.scroll(COLLECTIONS.SUMMARIES, {
       filter: {
         must: [
           {
@@ -213,13 +209,12 @@ export async function searchSummaries(
       });
     }
 
-    const client = getQdrantClient();
-    const results = await client.search(COLLECTIONS.SUMMARIES, {
+    const store = getVectorStore();
+    const results = await store.search(COLLECTIONS.SUMMARIES, {
       vector: queryVector,
       limit: 5,
       filter,
       score_threshold: 0.6,
-      with_payload: true,
     });
 
     return results.map((r: any) => ({
@@ -3,13 +3,14 @@
  * Handles indexing of external research sources into vector store
  */
 
-import { getQdrantClient, COLLECTIONS, type ResearchSourceMetadata } from './qdrant-client.js';
+import { COLLECTIONS, type ResearchSourceMetadata } from './qdrant-client.js';
+import { getVectorStore } from './vector-store.js';
 import { generateEmbeddingBatch } from './embedding.js';
 import { chunkMarkdown } from './markdown-chunking.js';
 import { nanoid } from 'nanoid';
 
 /**
- * Index a research source into QDrant
+ * Index a research source into the vector store
  * @param documentId Associated document ID
  * @param source Research source data
  */
@@ -39,7 +40,7 @@ export async function indexResearchSource(
     const embeddings = await generateEmbeddingBatch(texts, 'RETRIEVAL_DOCUMENT');
 
     // Prepare points
-    const client = getQdrantClient();
+    const store = getVectorStore();
     const points = chunks.map((chunk, index) => {
       const metadata: ResearchSourceMetadata = {
         document_id: documentId,
@@ -63,8 +64,8 @@ export async function indexResearchSource(
       };
     });
 
-    // Upsert to QDrant
-    await client.upsert(COLLECTIONS.RESEARCH_SOURCES, {
+    // Upsert to the vector store
+    await store.upsert(COLLECTIONS.RESEARCH_SOURCES, {
       points,
       wait: true,
     });
@@ -128,13 +129,12 @@ export async function searchResearchSources(
       });
     }
 
-    const client = getQdrantClient();
-    const results = await client.search(COLLECTIONS.RESEARCH_SOURCES, {
+    const store = getVectorStore();
+    const results = await store.search(COLLECTIONS.RESEARCH_SOURCES, {
       vector: queryVector,
       limit,
       filter: filter.must.length > 0 ? filter : undefined,
       score_threshold: 0.6,
-      with_payload: true,
     });
 
     return results.map((r: any) => ({
@@ -154,8 +154,8 @@ export async function searchResearchSources(
  */
 export async function deleteResearchSource(sourceId: string): Promise<void> {
   try {
-    const client = getQdrantClient();
-    await client.delete(COLLECTIONS.RESEARCH_SOURCES, {
+    const store = getVectorStore();
+    await store.delete(COLLECTIONS.RESEARCH_SOURCES, {
       filter: {
         must: [
           {
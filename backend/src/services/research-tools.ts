@@ -1,5 +1,4 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
+import { getLLMProvider, type LLMProviderName } from './llm.js';
 
 export type TransformationType = 
   | 'summary' 
@@ -22,7 +21,7 @@ export interface TransformationOptions {
 export interface TransformationResult {
   type: TransformationType;
   output: string;
-  provider: 'gemini';
+  provider: LLMProviderName;
   model: string;
   timestamp: number;
 }
@@ -30,14 +29,9 @@ export interface TransformationResult {
 /**
  * Research Tools Service for Content Transformations
  * Inspired by Open-Notebook's transformation capabilities
- * Uses existing Gemini LLM integration
+ * Uses the LLM provider configured for research
  */
 export class ResearchToolsService {
-  private genAI: GoogleGenerativeAI;
-
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-  }
 
   /**
    * Transform content based on type
@@ -45,17 +39,15 @@ export class ResearchToolsService {
   async transform(options: TransformationOptions): Promise<TransformationResult> {
     try {
       const prompt = this.buildPrompt(options);
-      const model = this.genAI.getGenerativeModel({ model: config.gemini.model });
+      const provider = getLLMProvider('research');
       
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
+      const { text } = await provider.generate({ prompt });
 
       return {
         type: options.type,
         output: text,
-        provider: 'gemini',
-        model: config.gemini.model,
+        provider: provider.name,
+        model: provider.model,
         timestamp: Date.now(),
       };
     } catch (error) {
@@ -92,9 +84,8 @@ ${content}
 
 Return the script with clear host labels (e.g., "HOST 1:", "HOST 2:").`;
 
-    const model = this.genAI.getGenerativeModel({ model: config.gemini.model });
-    const result = await model.generateContent(prompt);
-    return result.response.text();
+    const { text } = await getLLMProvider('research').generate({ prompt });
+    return text;
   }
 
   /**
@@ -112,9 +103,7 @@ ${content}
 
 Return only the citations, one per line.`;
 
-    const model = this.genAI.getGenerativeModel({ model: config.gemini.model });
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const { text } = await getLLMProvider('research').generate({ prompt });
 
     // Split by newlines and filter empty lines
     return text.split('\n').filter((line: string) => line.trim().length > 0);
@@ -136,9 +125,7 @@ ${content}
 
 Return only the questions, one per line, numbered.`;
 
-    const model = this.genAI.getGenerativeModel({ model: config.gemini.model });
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const { text } = await getLLMProvider('research').generate({ prompt });
 
     return text.split('\n').filter((line: string) => line.trim().length > 0);
   }
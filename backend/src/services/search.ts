@@ -0,0 +1,459 @@
+/**
+ * Full-text document search
+ *
+ * Works without the vector store: SQLite queries the FTS5 index from
+ * migration 006, PostgreSQL the equivalent tsvector index. User input is
+ * parsed into a small query tree first and rendered for either engine, so
+ * operators behave the same on both and malformed input never reaches the
+ * database as a syntax error.
+ *
+ * Query syntax:
+ *   word          term (AND is implied between terms)
+ *   wor*          prefix
+ *   "some words"  phrase
+ *   a OR b        either term
+ *   NOT a, -a     exclude
+ *   ( ... )       grouping
+ */
+
+import { getDatabase } from '../db/index.js';
+import { config } from '../config/index.js';
+import { PermissionService } from './permissions.js';
+
+export type SearchNode =
+  | { type: 'term'; value: string; prefix: boolean }
+  | { type: 'phrase'; words: string[] }
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode };
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+export interface SearchOptions {
+  query: string;
+  userId: string | null;
+  /** Tag id or name */
+  tag?: string;
+  ownerId?: string;
+  archived?: 'exclude' | 'include' | 'only';
+  limit?: number;
+  offset?: number;
+}
+
+/** Search options without the query and paging */
+export type DocumentFilters = Omit<SearchOptions, 'query' | 'limit' | 'offset'>;
+
+export interface DocumentMatch {
+  id: string;
+  score: number;
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  owner_id: string;
+  is_archived: number;
+  updated_at: number;
+  score: number;
+  /** Title and content excerpt as HTML: matches wrapped in <mark>, everything else escaped */
+  titleHighlight: string;
+  snippet: string;
+}
+
+type Token =
+  | { type: 'word'; value: string; prefix: boolean }
+  | { type: 'phrase'; value: string }
+  | { type: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MAX_QUERY_LENGTH = 500;
+
+// Match markers; control characters do not occur in regular text
+const MARK_START = '\u0001';
+const MARK_END = '\u0002';
+
+function words(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(word => word.toLowerCase());
+}
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(")([^"]*)"?|(\()|(\))|(-)?([^\s()"]+))/gy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < input.length && (match = pattern.exec(input))) {
+    const [, quote, phrase, open, close, minus, word] = match;
+    if (quote) {
+      tokens.push({ type: 'phrase', value: phrase });
+    } else if (open) {
+      tokens.push({ type: 'open' });
+    } else if (close) {
+      tokens.push({ type: 'close' });
+    } else {
+      if (minus) tokens.push({ type: 'not' });
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ type: 'word', value: word.replace(/\*+$/, ''), prefix: word.endsWith('*') });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a user query. Precedence: NOT binds tightest, then (implicit) AND, then OR.
+ */
+export function parseSearchQuery(input: string): SearchNode {
+  if (input.length > MAX_QUERY_LENGTH) {
+    throw new SearchQueryError(`Search query is too long (max ${MAX_QUERY_LENGTH} characters)`);
+  }
+
+  const tokens = lex(input);
+  let position = 0;
+  let depth = 0;
+
+  const peek = () => tokens[position];
+
+  const parseOr = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    for (;;) {
+      const child = parseAnd();
+      if (child) children.push(child);
+      if (peek()?.type !== 'or') break;
+      position++;
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    for (;;) {
+      const token = peek();
+      if (!token || token.type === 'or' || (token.type === 'close' && depth > 0)) break;
+      if (token.type === 'and' || token.type === 'close') {
+        // Stray closing parentheses are ignored
+        position++;
+        continue;
+      }
+      const child = parseUnary();
+      if (child) children.push(child);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): SearchNode | null => {
+    const token = tokens[position++];
+
+    if (token.type === 'not') {
+      const child = peek() && !['or', 'close', 'and'].includes(peek().type) ? parseUnary() : null;
+      return child ? { type: 'not', child } : null;
+    }
+
+    if (token.type === 'open') {
+      depth++;
+      const inner = parseOr();
+      depth--;
+      if (peek()?.type === 'close') position++;
+      return inner;
+    }
+
+    if (token.type === 'phrase' || token.type === 'word') {
+      const parts = words(token.value);
+      if (parts.length === 0) return null;
+      if (token.type === 'word' && parts.length === 1) {
+        return { type: 'term', value: parts[0], prefix: token.prefix };
+      }
+      // Words joined by punctuation (e-mail, v2.1) are matched as a phrase
+      return parts.length === 1 ? { type: 'term', value: parts[0], prefix: false } : { type: 'phrase', words: parts };
+    }
+
+    return null;
+  };
+
+  const root = parseOr();
+  if (!root) {
+    throw new SearchQueryError('Search query contains no search terms');
+  }
+
+  assertPositive(root);
+  return root;
+}
+
+type SearchLeaf = Extract<SearchNode, { type: 'term' | 'phrase' }>;
+
+/**
+ * Terms and phrases a document should contain, i.e. all leaves outside NOT
+ */
+export function collectSearchTerms(node: SearchNode): SearchLeaf[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [node];
+    case 'not':
+      return [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectSearchTerms);
+  }
+}
+
+/**
+ * Loose variant for natural-language input such as chat questions: any of
+ * the terms may match, operators and exclusions are dropped. Returns null
+ * if the input has no usable terms.
+ */
+export function parseAnyTermQuery(input: string): SearchNode | null {
+  let tree: SearchNode;
+  try {
+    tree = parseSearchQuery(input.slice(0, MAX_QUERY_LENGTH));
+  } catch (error) {
+    if (error instanceof SearchQueryError) return null;
+    throw error;
+  }
+
+  const seen = new Set<string>();
+  const leaves = collectSearchTerms(tree).filter(leaf => {
+    const key = JSON.stringify(leaf);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (leaves.length === 0) return null;
+  return leaves.length === 1 ? leaves[0] : { type: 'or', children: leaves };
+}
+
+/**
+ * Neither engine can answer "everything except x": every AND group needs a
+ * positive term and NOT may not stand alone.
+ */
+function assertPositive(node: SearchNode): void {
+  if (node.type === 'not') {
+    throw new SearchQueryError('Search query needs at least one term that is not excluded');
+  }
+  if (node.type === 'or') {
+    node.children.forEach(assertPositive);
+  }
+  if (node.type === 'and') {
+    const positive = node.children.filter(child => child.type !== 'not');
+    if (positive.length === 0) {
+      throw new SearchQueryError('Search query needs at least one term that is not excluded');
+    }
+    positive.forEach(assertPositive);
+    node.children.filter(child => child.type === 'not').forEach(child => assertPositive((child as { child: SearchNode }).child));
+  }
+}
+
+/**
+ * Render a query tree as an FTS5 MATCH expression
+ */
+export function toFtsQuery(node: SearchNode): string {
+  switch (node.type) {
+    case 'term':
+      return `"${node.value}"${node.prefix ? '*' : ''}`;
+    case 'phrase':
+      return `"${node.words.join(' ')}"`;
+    case 'or':
+      return `(${node.children.map(toFtsQuery).join(' OR ')})`;
+    case 'not':
+      return toFtsQuery(node.child);
+    case 'and': {
+      // FTS5 only knows binary NOT: "positive NOT negative"
+      const positive = node.children.filter(child => child.type !== 'not').map(toFtsQuery);
+      const negative = node.children.filter(child => child.type === 'not').map(toFtsQuery);
+      const included = positive.length === 1 ? positive[0] : `(${positive.join(' AND ')})`;
+      return negative.reduce((query, excluded) => `(${query} NOT ${excluded})`, included);
+    }
+  }
+}
+
+/**
+ * Render a query tree as a PostgreSQL tsquery (for to_tsquery('simple', ...))
+ */
+export function toTsQuery(node: SearchNode): string {
+  const lexeme = (word: string) => `'${word.replace(/['\\]/g, '\\$&')}'`;
+
+  switch (node.type) {
+    case 'term':
+      return `${lexeme(node.value)}${node.prefix ? ':*' : ''}`;
+    case 'phrase':
+      return `(${node.words.map(lexeme).join(' <-> ')})`;
+    case 'or':
+      return `(${node.children.map(toTsQuery).join(' | ')})`;
+    case 'not':
+      return `!${toTsQuery(node.child)}`;
+    case 'and':
+      return `(${node.children.map(toTsQuery).join(' & ')})`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toHighlightHtml(text: string | null): string {
+  return escapeHtml(text || '')
+    .replace(new RegExp(MARK_START, 'g'), '<mark>')
+    .replace(new RegExp(MARK_END, 'g'), '</mark>');
+}
+
+interface Highlight {
+  id: string;
+  title_highlight: string | null;
+  snippet: string | null;
+}
+
+/**
+ * Filters shared by both engines; `d` is the documents table
+ */
+function buildFilters(options: DocumentFilters): { sql: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  const archived = options.archived ?? 'exclude';
+  if (archived === 'exclude') {
+    clauses.push('(d.is_archived IS NULL OR d.is_archived = 0)');
+  } else if (archived === 'only') {
+    clauses.push('d.is_archived = 1');
+  }
+
+  if (options.ownerId) {
+    clauses.push('d.owner_id = ?');
+    params.push(options.ownerId);
+  }
+
+  if (options.tag) {
+    clauses.push(`EXISTS (
+      SELECT 1 FROM document_tags dt
+      INNER JOIN tags t ON dt.tag_id = t.id
+      WHERE dt.document_id = d.id AND (t.id = ? OR LOWER(t.name) = LOWER(?))
+    )`);
+    params.push(options.tag, options.tag);
+  }
+
+  return { sql: clauses.map(clause => ` AND ${clause}`).join(''), params };
+}
+
+function findCandidatesSqlite(query: string, options: DocumentFilters): DocumentMatch[] {
+  const filters = buildFilters(options);
+  // Title matches weigh ten times as much as content matches
+  return getDatabase().prepare(`
+    SELECT d.id, -bm25(documents_fts, 0, 10.0, 1.0) AS score
+    FROM documents_fts
+    INNER JOIN documents d ON d.id = documents_fts.document_id
+    WHERE documents_fts MATCH ?${filters.sql}
+    ORDER BY score DESC, d.updated_at DESC
+  `).all(query, ...filters.params) as DocumentMatch[];
+}
+
+function highlightSqlite(query: string, ids: string[]): Highlight[] {
+  return getDatabase().prepare(`
+    SELECT
+      document_id AS id,
+      highlight(documents_fts, 1, ?, ?) AS title_highlight,
+      snippet(documents_fts, 2, ?, ?, '…', 24) AS snippet
+    FROM documents_fts
+    WHERE documents_fts MATCH ? AND document_id IN (${ids.map(() => '?').join(', ')})
+  `).all(MARK_START, MARK_END, MARK_START, MARK_END, query, ...ids) as Highlight[];
+}
+
+const TS_VECTOR = "to_tsvector('simple', coalesce(d.title, '') || ' ' || coalesce(d.content, ''))";
+
+function findCandidatesPostgres(query: string, options: DocumentFilters): DocumentMatch[] {
+  const filters = buildFilters(options);
+  return getDatabase().prepare(`
+    SELECT d.id, ts_rank(
+      setweight(to_tsvector('simple', coalesce(d.title, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(d.content, '')), 'D'),
+      to_tsquery('simple', ?)
+    ) AS score
+    FROM documents d
+    WHERE ${TS_VECTOR} @@ to_tsquery('simple', ?)${filters.sql}
+    ORDER BY score DESC, d.updated_at DESC
+  `).all(query, query, ...filters.params) as DocumentMatch[];
+}
+
+function highlightPostgres(query: string, ids: string[]): Highlight[] {
+  const marks = `StartSel=${MARK_START}, StopSel=${MARK_END}`;
+  return getDatabase().prepare(`
+    SELECT
+      d.id,
+      ts_headline('simple', d.title, to_tsquery('simple', ?), ?) AS title_highlight,
+      ts_headline('simple', d.content, to_tsquery('simple', ?), ?) AS snippet
+    FROM documents d
+    WHERE d.id IN (${ids.map(() => '?').join(', ')})
+  `).all(
+    query, `${marks}, HighlightAll=true`,
+    query, `${marks}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`,
+    ...ids
+  ) as Highlight[];
+}
+
+/**
+ * Documents matching a parsed query that the user can read, best matches first
+ */
+export function findMatchingDocuments(tree: SearchNode, filters: DocumentFilters): DocumentMatch[] {
+  const matches = config.database.type === 'postgres'
+    ? findCandidatesPostgres(toTsQuery(tree), filters)
+    : findCandidatesSqlite(toFtsQuery(tree), filters);
+
+  return matches.filter(match => PermissionService.checkPermission(match.id, filters.userId, 'read'));
+}
+
+/**
+ * Search documents the user can read, best matches first
+ */
+export function searchDocuments(options: SearchOptions): { results: SearchResult[]; total: number } {
+  const tree = parseSearchQuery(options.query);
+  const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const postgres = config.database.type === 'postgres';
+  const query = postgres ? toTsQuery(tree) : toFtsQuery(tree);
+
+  const candidates = findMatchingDocuments(tree, options);
+
+  const page = candidates.slice(offset, offset + limit);
+  if (page.length === 0) {
+    return { results: [], total: candidates.length };
+  }
+
+  const ids = page.map(candidate => candidate.id);
+  const db = getDatabase();
+  const documents = new Map(
+    (db.prepare(`
+      SELECT id, title, slug, owner_id, is_archived, updated_at
+      FROM documents WHERE id IN (${ids.map(() => '?').join(', ')})
+    `).all(...ids) as Omit<SearchResult, 'score' | 'titleHighlight' | 'snippet'>[]).map(doc => [doc.id, doc])
+  );
+  const highlights = new Map(
+    (postgres ? highlightPostgres(query, ids) : highlightSqlite(query, ids)).map(row => [row.id, row])
+  );
+
+  const results = page.map(candidate => {
+    const document = documents.get(candidate.id)!;
+    const highlight = highlights.get(candidate.id);
+    return {
+      ...document,
+      is_archived: document.is_archived ? 1 : 0,
+      score: candidate.score,
+      titleHighlight: highlight?.title_highlight ? toHighlightHtml(highlight.title_highlight) : escapeHtml(document.title),
+      snippet: toHighlightHtml(highlight?.snippet ?? null),
+    };
+  });
+
+  return { results, total: candidates.length };
+}
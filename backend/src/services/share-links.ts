@@ -0,0 +1,237 @@
+/**
+ * Share Links
+ * Public links to a document for readers without an account. A document can
+ * have several links, each with its own label, allowed formats, optional
+ * password, expiry date and view limit. Every delivered view is logged in
+ * document_access_log, which is also where the view counts come from.
+ */
+
+import bcrypt from 'bcryptjs';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { getDatabase } from '../db/index.js';
+
+/** view is the HTML preview page, the others are downloads and feeds */
+export type ShareFormat = 'view' | 'html' | 'pdf' | 'docx' | 'md' | 'rss';
+
+export const SHARE_FORMATS: ShareFormat[] = ['view', 'html', 'pdf', 'docx', 'md', 'rss'];
+
+export type ShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+const SALT_ROUNDS = 10;
+
+export interface ShareLink {
+  id: string;
+  document_id: string;
+  label: string | null;
+  formats: ShareFormat[];
+  has_password: boolean;
+  expires_at: number | null;
+  max_views: number | null;
+  created_by: string | null;
+  created_at: number;
+  revoked_at: number | null;
+  view_count: number;
+  last_viewed_at: number | null;
+  status: ShareLinkStatus;
+}
+
+interface ShareLinkRow {
+  id: string;
+  document_id: string;
+  label: string | null;
+  formats: string;
+  password_hash: string | null;
+  expires_at: number | null;
+  max_views: number | null;
+  created_by: string | null;
+  created_at: number;
+  revoked_at: number | null;
+  view_count: number;
+  last_viewed_at: number | null;
+}
+
+export interface ShareLinkOptions {
+  label?: string | null;
+  formats?: ShareFormat[];
+  password?: string | null;
+  expiresAt?: number | null;
+  maxViews?: number | null;
+}
+
+/** Who requested a shared document, for the access log */
+export interface ShareViewer {
+  userId: string | null;
+  ip?: string | null;
+  /** Host of the referring page */
+  referrer?: string | null;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+    Object.setPrototypeOf(this, ShareLinkError.prototype);
+  }
+}
+
+const LINK_QUERY = `
+  SELECT l.*,
+    (SELECT COUNT(*) FROM document_access_log a WHERE a.share_id = l.id) AS view_count,
+    (SELECT MAX(a.accessed_at) FROM document_access_log a WHERE a.share_id = l.id) AS last_viewed_at
+  FROM share_links l
+`;
+
+function toShareLink(row: ShareLinkRow, now = Date.now()): ShareLink {
+  const expiresAt = row.expires_at === null ? null : Number(row.expires_at);
+  const maxViews = row.max_views === null ? null : Number(row.max_views);
+  const viewCount = Number(row.view_count);
+  const status: ShareLinkStatus = row.revoked_at !== null ? 'revoked'
+    : expiresAt !== null && expiresAt <= now ? 'expired'
+    : maxViews !== null && viewCount >= maxViews ? 'exhausted'
+    : 'active';
+
+  return {
+    id: row.id,
+    document_id: row.document_id,
+    label: row.label,
+    formats: row.formats.split(' ').filter(Boolean) as ShareFormat[],
+    has_password: row.password_hash !== null,
+    expires_at: expiresAt,
+    max_views: maxViews,
+    created_by: row.created_by,
+    created_at: Number(row.created_at),
+    revoked_at: row.revoked_at === null ? null : Number(row.revoked_at),
+    view_count: viewCount,
+    last_viewed_at: row.last_viewed_at === null ? null : Number(row.last_viewed_at),
+    status,
+  };
+}
+
+function findRow(linkId: string): ShareLinkRow | undefined {
+  return getDatabase().prepare(`${LINK_QUERY} WHERE l.id = ?`).get(linkId) as ShareLinkRow | undefined;
+}
+
+/**
+ * Create a link; without formats it allows all of them
+ */
+export async function createShareLink(documentId: string, userId: string | null, options: ShareLinkOptions = {}): Promise<ShareLink> {
+  const formats = SHARE_FORMATS.filter(format => (options.formats ?? SHARE_FORMATS).includes(format));
+  if (formats.length === 0) {
+    throw new ShareLinkError('At least one format is required');
+  }
+
+  const now = Date.now();
+  if (options.expiresAt != null && options.expiresAt <= now) {
+    throw new ShareLinkError('The expiry date must be in the future');
+  }
+  if (options.maxViews != null && !(Number.isInteger(options.maxViews) && options.maxViews > 0)) {
+    throw new ShareLinkError('The view limit must be a positive number');
+  }
+  if (options.password != null && options.password.length < 4) {
+    throw new ShareLinkError('The password must be at least 4 characters');
+  }
+
+  const db = getDatabase();
+  let id = randomBytes(8).toString('base64url');
+  for (let attempt = 0; db.prepare('SELECT id FROM share_links WHERE id = ?').get(id); attempt++) {
+    if (attempt >= 10) {
+      throw new Error('Could not generate unique share ID');
+    }
+    id = randomBytes(8).toString('base64url');
+  }
+
+  const passwordHash = options.password ? await bcrypt.hash(options.password, SALT_ROUNDS) : null;
+  db.prepare(`
+    INSERT INTO share_links (id, document_id, label, formats, password_hash, expires_at, max_views, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    documentId,
+    options.label?.trim().slice(0, 100) || null,
+    formats.join(' '),
+    passwordHash,
+    options.expiresAt ?? null,
+    options.maxViews ?? null,
+    userId,
+    now
+  );
+
+  return toShareLink(findRow(id)!);
+}
+
+/**
+ * All links of a document including revoked and expired ones, newest first
+ */
+export function listShareLinks(documentId: string): ShareLink[] {
+  const rows = getDatabase().prepare(`${LINK_QUERY} WHERE l.document_id = ? ORDER BY l.created_at DESC`)
+    .all(documentId) as ShareLinkRow[];
+  const now = Date.now();
+  return rows.map(row => toShareLink(row, now));
+}
+
+export function getShareLink(linkId: string): ShareLink | null {
+  const row = findRow(linkId);
+  return row ? toShareLink(row) : null;
+}
+
+/**
+ * Revoke one of the document's links
+ * @returns false if the document has no such active link
+ */
+export function revokeShareLink(documentId: string, linkId: string): boolean {
+  return getDatabase().prepare(
+    'UPDATE share_links SET revoked_at = ? WHERE id = ? AND document_id = ? AND revoked_at IS NULL'
+  ).run(Date.now(), linkId, documentId).changes > 0;
+}
+
+export async function verifySharePassword(linkId: string, password: string): Promise<boolean> {
+  const row = getDatabase().prepare('SELECT password_hash FROM share_links WHERE id = ?').get(linkId) as
+    { password_hash: string | null } | undefined;
+  return !!row?.password_hash && bcrypt.compare(password, row.password_hash);
+}
+
+/**
+ * Proof that a reader entered the link's password, kept in a cookie. It
+ * stops working when the password changes.
+ */
+export function shareUnlockToken(linkId: string): string | null {
+  const row = getDatabase().prepare('SELECT password_hash FROM share_links WHERE id = ?').get(linkId) as
+    { password_hash: string | null } | undefined;
+  if (!row?.password_hash) return null;
+  return createHmac('sha256', config.session.secret).update(`${linkId}:${row.password_hash}`).digest('base64url');
+}
+
+export function isShareUnlockToken(linkId: string, token: string): boolean {
+  const expected = shareUnlockToken(linkId);
+  return !!expected && expected.length === token.length && timingSafeEqual(Buffer.from(expected), Buffer.from(token));
+}
+
+/**
+ * Keyed hash that tells viewers apart without storing who they are; signed-in
+ * readers are recognised across devices, guests by their IP address
+ */
+function viewerHash(viewer: ShareViewer): string | null {
+  const identity = viewer.userId ? `user:${viewer.userId}` : viewer.ip ? `ip:${viewer.ip}` : null;
+  return identity ? createHmac('sha256', config.session.secret).update(identity).digest('base64url').slice(0, 22) : null;
+}
+
+/**
+ * Log a delivered view; the user is known only if the reader is signed in
+ */
+export function recordShareView(link: ShareLink, format: ShareFormat, viewer: ShareViewer): void {
+  getDatabase().prepare(`
+    INSERT INTO document_access_log
+      (id, document_id, user_id, access_type, share_id, format, viewer_hash, referrer, accessed_at)
+    VALUES (?, ?, ?, 'share_link', ?, ?, ?, ?, ?)
+  `).run(
+    randomUUID(),
+    link.document_id,
+    viewer.userId,
+    link.id,
+    format,
+    viewerHash(viewer),
+    viewer.referrer ?? null,
+    Date.now()
+  );
+}
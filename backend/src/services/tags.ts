@@ -0,0 +1,181 @@
+/**
+ * Tags
+ * Tags are global labels; which documents carry a tag is only visible as far
+ * as the user can read them. Names are unique regardless of case.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDatabase } from '../db/index.js';
+import type { Tag } from '../db/schema.js';
+import { PermissionService } from './permissions.js';
+
+export type DocumentTag = Pick<Tag, 'id' | 'name' | 'color'>;
+
+export interface TagWithCount extends Tag {
+  document_count: number;
+}
+
+export class TagNotFoundError extends Error {
+  constructor(identifier: string) {
+    super(`Tag not found: ${identifier}`);
+    this.name = 'TagNotFoundError';
+    Object.setPrototypeOf(this, TagNotFoundError.prototype);
+  }
+}
+
+export class TagConflictError extends Error {
+  constructor(name: string) {
+    super(`A tag named "${name}" already exists`);
+    this.name = 'TagConflictError';
+    Object.setPrototypeOf(this, TagConflictError.prototype);
+  }
+}
+
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+export function getTag(id: string): Tag | undefined {
+  return getDatabase().prepare('SELECT * FROM tags WHERE id = ?').get(id) as Tag | undefined;
+}
+
+/**
+ * Look up a tag by id or by case-insensitive name
+ */
+export function findTag(idOrName: string): Tag | undefined {
+  return getTag(idOrName) ?? getDatabase().prepare(
+    'SELECT * FROM tags WHERE LOWER(name) = LOWER(?)'
+  ).get(normalizeTagName(idOrName)) as Tag | undefined;
+}
+
+/**
+ * All tags with the number of documents the user can read carrying them
+ */
+export function listTags(userId: string | null): TagWithCount[] {
+  const db = getDatabase();
+  const tags = db.prepare('SELECT * FROM tags ORDER BY LOWER(name)').all() as Tag[];
+  const assignments = db.prepare('SELECT document_id, tag_id FROM document_tags').all() as
+    { document_id: string; tag_id: string }[];
+
+  const readable = new Map<string, boolean>();
+  const counts = new Map<string, number>();
+  for (const { document_id, tag_id } of assignments) {
+    if (!readable.has(document_id)) {
+      readable.set(document_id, PermissionService.checkPermission(document_id, userId, 'read'));
+    }
+    if (readable.get(document_id)) {
+      counts.set(tag_id, (counts.get(tag_id) || 0) + 1);
+    }
+  }
+
+  return tags.map(tag => ({ ...tag, document_count: counts.get(tag.id) || 0 }));
+}
+
+export function createTag(name: string, color: string | null, userId: string): Tag {
+  const normalized = normalizeTagName(name);
+  if (findTag(normalized)) {
+    throw new TagConflictError(normalized);
+  }
+
+  const id = randomUUID();
+  getDatabase().prepare(`
+    INSERT INTO tags (id, name, color, created_by, created_at) VALUES (?, ?, ?, ?, ?)
+  `).run(id, normalized, color, userId, Date.now());
+
+  return getTag(id)!;
+}
+
+export function updateTag(id: string, changes: { name?: string; color?: string | null }): Tag {
+  const tag = getTag(id);
+  if (!tag) {
+    throw new TagNotFoundError(id);
+  }
+
+  const name = changes.name !== undefined ? normalizeTagName(changes.name) : tag.name;
+  const existing = findTag(name);
+  if (existing && existing.id !== id) {
+    throw new TagConflictError(name);
+  }
+
+  const color = changes.color !== undefined ? changes.color : tag.color;
+  getDatabase().prepare('UPDATE tags SET name = ?, color = ? WHERE id = ?').run(name, color, id);
+
+  return getTag(id)!;
+}
+
+export function deleteTag(id: string): void {
+  const result = getDatabase().prepare('DELETE FROM tags WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new TagNotFoundError(id);
+  }
+}
+
+/**
+ * Resolve a tag by id or name, creating it when no tag of that name exists
+ */
+export function findOrCreateTag(idOrName: string, userId: string, color: string | null = null): Tag {
+  return findTag(idOrName) ?? createTag(idOrName, color, userId);
+}
+
+export function getDocumentTags(documentId: string): DocumentTag[] {
+  return getDatabase().prepare(`
+    SELECT t.id, t.name, t.color FROM document_tags dt
+    JOIN tags t ON t.id = dt.tag_id
+    WHERE dt.document_id = ?
+    ORDER BY LOWER(t.name)
+  `).all(documentId) as DocumentTag[];
+}
+
+/**
+ * Tags of many documents at once, keyed by document id
+ */
+export function getTagsByDocument(documentIds: string[]): Map<string, DocumentTag[]> {
+  const tagsByDocument = new Map<string, DocumentTag[]>(documentIds.map(id => [id, []]));
+  if (documentIds.length === 0) return tagsByDocument;
+
+  const rows = getDatabase().prepare(`
+    SELECT dt.document_id, t.id, t.name, t.color FROM document_tags dt
+    JOIN tags t ON t.id = dt.tag_id
+    ORDER BY LOWER(t.name)
+  `).all() as Array<DocumentTag & { document_id: string }>;
+
+  for (const { document_id, ...tag } of rows) {
+    tagsByDocument.get(document_id)?.push(tag);
+  }
+
+  return tagsByDocument;
+}
+
+export function addDocumentTag(documentId: string, tagId: string): void {
+  getDatabase().prepare(`
+    INSERT OR IGNORE INTO document_tags (document_id, tag_id) VALUES (?, ?)
+  `).run(documentId, tagId);
+}
+
+export function removeDocumentTag(documentId: string, tagId: string): boolean {
+  const result = getDatabase().prepare(`
+    DELETE FROM document_tags WHERE document_id = ? AND tag_id = ?
+  `).run(documentId, tagId);
+  return result.changes > 0;
+}
+
+/**
+ * Replace the tags of a document. Unknown names become new tags.
+ */
+export function setDocumentTags(documentId: string, idsOrNames: string[], userId: string): DocumentTag[] {
+  const db = getDatabase();
+
+  db.transaction(() => {
+    const tagIds = new Set(
+      idsOrNames
+        .filter(value => normalizeTagName(value).length > 0)
+        .map(value => findOrCreateTag(value, userId).id)
+    );
+    db.prepare('DELETE FROM document_tags WHERE document_id = ?').run(documentId);
+    for (const tagId of tagIds) {
+      addDocumentTag(documentId, tagId);
+    }
+  })();
+
+  return getDocumentTags(documentId);
+}
@@ -0,0 +1,108 @@
+/**
+ * User Administration
+ * Site-wide roles and account status, managed by admins. There is always at
+ * least one active admin, so the installation cannot lock itself out.
+ */
+
+import { getDatabase } from '../db/index.js';
+import type { UserRole } from '../db/schema.js';
+import { AuthService } from './auth.js';
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'viewer'];
+
+export interface UserSummary {
+  id: string;
+  username: string;
+  email: string;
+  display_name: string;
+  role: UserRole;
+  is_active: boolean;
+  created_at: string;
+  /** Most recent activity of any session */
+  last_seen_at: string | null;
+}
+
+export class UserAdminError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserAdminError';
+    Object.setPrototypeOf(this, UserAdminError.prototype);
+  }
+}
+
+export class UserNotFoundError extends Error {
+  constructor(userId: string) {
+    super(`User not found: ${userId}`);
+    this.name = 'UserNotFoundError';
+    Object.setPrototypeOf(this, UserNotFoundError.prototype);
+  }
+}
+
+function countActiveAdmins(): number {
+  const row = getDatabase().prepare(
+    "SELECT COUNT(*) as count FROM users WHERE role = 'admin' AND is_active = 1"
+  ).get() as { count: number };
+  return Number(row.count);
+}
+
+export function listUsers(): UserSummary[] {
+  const rows = getDatabase().prepare(`
+    SELECT u.id, u.username, u.email, u.display_name, u.role, u.is_active, u.created_at,
+      (SELECT MAX(s.last_seen_at) FROM sessions s WHERE s.user_id = u.id) as last_seen_at
+    FROM users u
+    ORDER BY LOWER(u.username)
+  `).all() as Array<Omit<UserSummary, 'is_active'> & { is_active: number | boolean }>;
+
+  return rows.map(row => ({ ...row, is_active: Boolean(row.is_active), last_seen_at: row.last_seen_at ?? null }));
+}
+
+export function getUserSummary(userId: string): UserSummary | undefined {
+  return listUsers().find(user => user.id === userId);
+}
+
+/**
+ * Change role or account status. Deactivated users are signed out at once;
+ * their API tokens stop working while the account is inactive.
+ */
+export async function updateUser(
+  actorId: string,
+  userId: string,
+  changes: { role?: UserRole; is_active?: boolean }
+): Promise<UserSummary> {
+  const db = getDatabase();
+  const user = getUserSummary(userId);
+  if (!user) {
+    throw new UserNotFoundError(userId);
+  }
+
+  if (changes.is_active === false && userId === actorId) {
+    throw new UserAdminError('You cannot deactivate your own account');
+  }
+
+  const losesAdmin = user.role === 'admin' && user.is_active &&
+    ((changes.role !== undefined && changes.role !== 'admin') || changes.is_active === false);
+  if (losesAdmin && countActiveAdmins() === 1) {
+    throw new UserAdminError('There must be at least one active admin');
+  }
+
+  const role = changes.role ?? user.role;
+  const isActive = changes.is_active ?? user.is_active;
+  db.prepare('UPDATE users SET role = ?, is_active = ?, updated_at = ? WHERE id = ?')
+    .run(role, isActive ? 1 : 0, new Date().toISOString(), userId);
+
+  if (!isActive) {
+    await AuthService.revokeAllSessions(userId);
+  }
+
+  return getUserSummary(userId)!;
+}
+
+/**
+ * Set a new password for a user and sign out all their sessions
+ */
+export async function resetUserPassword(userId: string, password: string): Promise<void> {
+  if (!getUserSummary(userId)) {
+    throw new UserNotFoundError(userId);
+  }
+  await AuthService.resetPassword(userId, password);
+}
@@ -3,7 +3,8 @@
  * Builds enhanced context for AI using vector search
  */
 
-import { searchDocumentChunks, searchUserContext } from './document-indexer.js';
+import { searchDocumentChunks } from './document-indexer.js';
+import { hybridSearchUserContext } from './hybrid-search.js';
 import { config } from '../config/index.js';
 
 export interface VectorContext {
@@ -21,7 +22,9 @@ export interface VectorContext {
 
 /**
  * Build enhanced multi-source context for AI queries
- * Includes current document, user's other documents, and uploads
+ * Includes current document, user's other documents, and uploads.
+ * Chunks are found by hybrid keyword + vector search, so exact terms are
+ * matched too and the context works without the vector store.
  * @param userId User ID
  * @param query User's question or prompt
  * @param currentDocumentId Optional current document ID
@@ -33,16 +36,9 @@ export async function buildEnhancedVectorContext(
   currentDocumentId?: string,
   maxChunks: number = 10
 ): Promise<VectorContext | null> {
-  if (!config.features.enableVectorStore) {
-    return null;
-  }
-
   try {
-    const results = await searchUserContext(query, userId, currentDocumentId, {
-      includeDocuments: true,
-      includeUploads: true,
+    const results = await hybridSearchUserContext(userId, query, currentDocumentId, {
       limit: maxChunks,
-      scoreThreshold: 0.6,
     });
 
     if (results.length === 0) {
@@ -51,9 +47,9 @@ export async function buildEnhancedVectorContext(
 
     const chunks = results.map(r => ({
       content: r.content,
-      heading: r.metadata.heading_text || r.metadata.filename || 'Unbekannt',
-      chapter: r.metadata.chapter,
-      section: r.metadata.section,
+      heading: r.heading,
+      chapter: r.chapter,
+      section: r.section,
       relevance: r.score,
       source: r.source,
     }));
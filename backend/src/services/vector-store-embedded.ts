@@ -0,0 +1,270 @@
+/**
+ * Vector store in the application database. Searches compare the query
+ * with every point of a collection (cosine similarity), so it suits small
+ * installations and tests; filters behave like Qdrant's. Point ids come
+ * back as strings.
+ */
+
+import { getDatabase } from '../db/index.js';
+import {
+  VectorStoreError,
+  type StoredVectorPoint,
+  type VectorCondition,
+  type VectorFilter,
+  type VectorPayload,
+  type VectorStore,
+} from './vector-store.js';
+
+/**
+ * Rows read per query while scanning a collection
+ */
+const PAGE_SIZE = 1000;
+
+/**
+ * Keeps IN lists well below SQLite's parameter limit
+ */
+const DELETE_CHUNK_SIZE = 500;
+
+interface PointRow {
+  id: string;
+  payload: string;
+  vector?: Buffer;
+}
+
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Buffer): Float32Array {
+  // Copy, since the blob's offset need not be aligned for a Float32Array view
+  const bytes = new Uint8Array(blob);
+  return new Float32Array(bytes.buffer, 0, bytes.length / 4);
+}
+
+function payloadValue(payload: VectorPayload, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (value, part) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined),
+    payload
+  );
+}
+
+function matchesCondition(payload: VectorPayload, condition: VectorCondition): boolean {
+  const value = payloadValue(payload, condition.key);
+  const candidates = Array.isArray(value) ? value : [value];
+  const accepted: unknown[] = 'any' in condition.match ? condition.match.any : [condition.match.value];
+  return candidates.some(candidate => accepted.includes(candidate));
+}
+
+/**
+ * Qdrant filter semantics: every must, at least one should (if given), no must_not
+ */
+export function matchesVectorFilter(payload: VectorPayload, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  if (filter.must && !filter.must.every(condition => matchesCondition(payload, condition))) return false;
+  if (filter.should?.length && !filter.should.some(condition => matchesCondition(payload, condition))) return false;
+  if (filter.must_not?.some(condition => matchesCondition(payload, condition))) return false;
+  return true;
+}
+
+function pickPayload(payload: VectorPayload, withPayload: boolean | string[]): VectorPayload {
+  if (withPayload === true) return payload;
+  if (withPayload === false) return {};
+  return Object.fromEntries(withPayload.filter(key => key in payload).map(key => [key, payload[key]]));
+}
+
+export function createEmbeddedVectorStore(): VectorStore {
+  const dimensionsOf = (name: string): number | null => {
+    const row = getDatabase().prepare('SELECT dimensions FROM vector_store_collections WHERE name = ?').get(name) as
+      { dimensions: number } | undefined;
+    return row ? Number(row.dimensions) : null;
+  };
+
+  const requireCollection = (name: string): number => {
+    const dimensions = dimensionsOf(name);
+    if (dimensions === null) {
+      throw new VectorStoreError(`Collection \`${name}\` doesn't exist!`, 404);
+    }
+    return dimensions;
+  };
+
+  const checkDimensions = (vector: number[], expected: number) => {
+    if (vector.length !== expected) {
+      throw new VectorStoreError(`Vector dimension error: expected dim: ${expected}, got ${vector.length}`, 400);
+    }
+  };
+
+  /**
+   * Walk the points of a collection in id order, page by page; the callback
+   * returns false to stop
+   */
+  const scan = (
+    collection: string,
+    options: { from?: string; withVector: boolean },
+    visit: (row: PointRow, payload: VectorPayload) => boolean | void
+  ) => {
+    const db = getDatabase();
+    const columns = options.withVector ? 'id, payload, vector' : 'id, payload';
+    let cursor = options.from;
+    let inclusive = true;
+
+    for (;;) {
+      const rows = (cursor === undefined
+        ? db.prepare(`SELECT ${columns} FROM vector_store_points WHERE collection = ? ORDER BY id LIMIT ?`)
+          .all(collection, PAGE_SIZE)
+        : db.prepare(`SELECT ${columns} FROM vector_store_points WHERE collection = ? AND id ${inclusive ? '>=' : '>'} ? ORDER BY id LIMIT ?`)
+          .all(collection, cursor, PAGE_SIZE)) as PointRow[];
+
+      for (const row of rows) {
+        if (visit(row, JSON.parse(row.payload)) === false) return;
+      }
+      if (rows.length < PAGE_SIZE) return;
+      cursor = rows[rows.length - 1].id;
+      inclusive = false;
+    }
+  };
+
+  const deleteIds = (collection: string, ids: string[]) => {
+    const db = getDatabase();
+    for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + DELETE_CHUNK_SIZE);
+      db.prepare(`DELETE FROM vector_store_points WHERE collection = ? AND id IN (${chunk.map(() => '?').join(', ')})`)
+        .run(collection, ...chunk);
+    }
+  };
+
+  return {
+    kind: 'embedded',
+
+    async getCollectionDimensions(name) {
+      return dimensionsOf(name);
+    },
+
+    async createCollection(name, dimensions) {
+      if (dimensionsOf(name) !== null) {
+        throw new VectorStoreError(`Collection \`${name}\` already exists!`, 409);
+      }
+      getDatabase().prepare('INSERT INTO vector_store_collections (name, dimensions, created_at) VALUES (?, ?, ?)')
+        .run(name, dimensions, Date.now());
+    },
+
+    async deleteCollection(name) {
+      const db = getDatabase();
+      db.transaction(() => {
+        db.prepare('DELETE FROM vector_store_points WHERE collection = ?').run(name);
+        db.prepare('DELETE FROM vector_store_collections WHERE name = ?').run(name);
+      })();
+    },
+
+    async upsert(collection, request) {
+      const dimensions = requireCollection(collection);
+      request.points.forEach(point => checkDimensions(point.vector, dimensions));
+
+      const db = getDatabase();
+      db.transaction(() => {
+        const upsert = db.prepare(`
+          INSERT INTO vector_store_points (collection, id, vector, payload) VALUES (?, ?, ?, ?)
+          ON CONFLICT (collection, id) DO UPDATE SET vector = excluded.vector, payload = excluded.payload
+        `);
+        for (const point of request.points) {
+          upsert.run(collection, String(point.id), encodeVector(point.vector), JSON.stringify(point.payload ?? {}));
+        }
+      })();
+    },
+
+    async setPayload(collection, request) {
+      requireCollection(collection);
+
+      const db = getDatabase();
+      db.transaction(() => {
+        const select = db.prepare('SELECT payload FROM vector_store_points WHERE collection = ? AND id = ?');
+        const update = db.prepare('UPDATE vector_store_points SET payload = ? WHERE collection = ? AND id = ?');
+        for (const point of request.points) {
+          const row = select.get(collection, String(point.id)) as { payload: string } | undefined;
+          if (row) {
+            update.run(JSON.stringify({ ...JSON.parse(row.payload), ...point.payload }), collection, String(point.id));
+          }
+        }
+      })();
+    },
+
+    async search(collection, request) {
+      checkDimensions(request.vector, requireCollection(collection));
+      const query = Float32Array.from(request.vector);
+      const queryNorm = Math.hypot(...query);
+      const threshold = request.score_threshold ?? -Infinity;
+      const best: Array<{ id: string; score: number; payload: VectorPayload }> = [];
+
+      scan(collection, { withVector: true }, (row, payload) => {
+        if (!matchesVectorFilter(payload, request.filter)) return;
+
+        const vector = decodeVector(row.vector!);
+        let dot = 0;
+        let norm = 0;
+        for (let i = 0; i < vector.length; i++) {
+          dot += vector[i] * query[i];
+          norm += vector[i] * vector[i];
+        }
+        const score = norm > 0 && queryNorm > 0 ? dot / (Math.sqrt(norm) * queryNorm) : 0;
+        if (score < threshold) return;
+
+        // Keep the best `limit` results, sorted
+        if (best.length === request.limit && score <= best[best.length - 1].score) return;
+        const index = best.findIndex(result => result.score < score);
+        best.splice(index === -1 ? best.length : index, 0, { id: row.id, score, payload });
+        if (best.length > request.limit) best.pop();
+      });
+
+      return best;
+    },
+
+    async scroll(collection, request) {
+      requireCollection(collection);
+      const limit = request.limit ?? 10;
+      const withVector = request.with_vector ?? false;
+      const matches: StoredVectorPoint[] = [];
+
+      scan(
+        collection,
+        { from: request.offset === undefined || request.offset === null ? undefined : String(request.offset), withVector },
+        (row, payload) => {
+          if (!matchesVectorFilter(payload, request.filter)) return;
+          matches.push({
+            id: row.id,
+            payload: pickPayload(payload, request.with_payload ?? true),
+            vector: withVector ? Array.from(decodeVector(row.vector!)) : undefined,
+          });
+          // One more than requested tells where the next page starts
+          return matches.length <= limit;
+        }
+      );
+
+      return {
+        points: matches.slice(0, limit),
+        next_page_offset: matches.length > limit ? matches[limit].id : null,
+      };
+    },
+
+    async delete(collection, request) {
+      requireCollection(collection);
+      if ('points' in request) {
+        deleteIds(collection, request.points.map(String));
+        return;
+      }
+
+      const ids: string[] = [];
+      scan(collection, { withVector: false }, (row, payload) => {
+        if (matchesVectorFilter(payload, request.filter)) ids.push(row.id);
+      });
+      deleteIds(collection, ids);
+    },
+
+    async count(collection, request = {}) {
+      requireCollection(collection);
+      let count = 0;
+      scan(collection, { withVector: false }, (_row, payload) => {
+        if (matchesVectorFilter(payload, request.filter)) count++;
+      });
+      return count;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Vector store backed by a Qdrant server (QDRANT_URL)
+ */
+
+import { getQdrantClient } from './qdrant-client.js';
+import type { VectorPayload, VectorPointId, VectorStore } from './vector-store.js';
+
+export function createQdrantVectorStore(): VectorStore {
+  const client = getQdrantClient();
+
+  return {
+    kind: 'qdrant',
+
+    async getCollectionDimensions(name) {
+      try {
+        const result = await client.getCollection(name);
+        const vectors = result.config.params.vectors as { size?: number } | undefined;
+        return vectors?.size ?? null;
+      } catch (error: any) {
+        if (error.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async createCollection(name, dimensions) {
+      await client.createCollection(name, {
+        vectors: {
+          size: dimensions,
+          distance: 'Cosine',
+        },
+        optimizers_config: {
+          default_segment_number: 2,
+        },
+        replication_factor: 1,
+      });
+    },
+
+    async deleteCollection(name) {
+      try {
+        await client.deleteCollection(name);
+      } catch (error: any) {
+        if (error.status !== 404) throw error;
+      }
+    },
+
+    async upsert(collection, request) {
+      await client.upsert(collection, { points: request.points, wait: request.wait });
+    },
+
+    async setPayload(collection, request) {
+      if (request.points.length === 0) return;
+      await client.batchUpdate(collection, {
+        wait: request.wait,
+        operations: request.points.map(point => ({ set_payload: { payload: point.payload, points: [point.id] } })),
+      });
+    },
+
+    async search(collection, request) {
+      const results = await client.search(collection, { ...request, with_payload: true });
+      return results.map(result => ({ id: result.id, score: result.score, payload: result.payload ?? {} }));
+    },
+
+    async scroll(collection, request) {
+      const page = await client.scroll(collection, {
+        filter: request.filter,
+        limit: request.limit,
+        offset: request.offset ?? undefined,
+        with_payload: request.with_payload ?? true,
+        with_vector: request.with_vector ?? false,
+      });
+      return {
+        points: page.points.map(point => ({
+          id: point.id,
+          payload: (point.payload ?? {}) as VectorPayload,
+          vector: Array.isArray(point.vector) ? point.vector as number[] : undefined,
+        })),
+        next_page_offset: (page.next_page_offset as VectorPointId | null | undefined) ?? null,
+      };
+    },
+
+    async delete(collection, request) {
+      await client.delete(collection, request);
+    },
+
+    async count(collection, request = {}) {
+      const result = await client.count(collection, { filter: request.filter, exact: true });
+      return result.count;
+    },
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Vector Store
+ * Semantic features store and search vectors through this interface. Qdrant
+ * is the regular backend; the embedded store keeps vectors in the
+ * application database for small installations and tests. Requests and
+ * filters use Qdrant's shapes, the embedded store evaluates them the same way.
+ */
+
+import { config } from '../config/index.js';
+import { memoryMonitor } from './memory-monitor.js';
+import { getEmbeddingProvider } from './embedding.js';
+import { checkQdrantHealth, COLLECTIONS, type CollectionName } from './qdrant-client.js';
+import { createQdrantVectorStore } from './vector-store-qdrant.js';
+import { createEmbeddedVectorStore } from './vector-store-embedded.js';
+
+export type VectorPointId = string | number;
+
+export type VectorPayload = Record<string, any>;
+
+export interface VectorPoint {
+  id: VectorPointId;
+  vector: number[];
+  payload: VectorPayload;
+}
+
+/**
+ * A payload field equals a value or one of several values; array fields
+ * match when any element does
+ */
+export interface VectorCondition {
+  key: string;
+  match: { value: string | number | boolean } | { any: Array<string | number> };
+}
+
+/**
+ * All must conditions hold, at least one should condition holds (if there
+ * are any) and no must_not condition holds
+ */
+export interface VectorFilter {
+  must?: VectorCondition[];
+  should?: VectorCondition[];
+  must_not?: VectorCondition[];
+}
+
+export interface ScoredVectorPoint {
+  id: VectorPointId;
+  /** Cosine similarity */
+  score: number;
+  payload: VectorPayload;
+}
+
+export interface StoredVectorPoint {
+  id: VectorPointId;
+  payload: VectorPayload;
+  vector?: number[];
+}
+
+export interface VectorStore {
+  readonly kind: 'qdrant' | 'embedded';
+  /** Vector size of a collection, null if it does not exist */
+  getCollectionDimensions(name: string): Promise<number | null>;
+  createCollection(name: string, dimensions: number): Promise<void>;
+  /** Missing collections are ignored */
+  deleteCollection(name: string): Promise<void>;
+  upsert(collection: string, request: { points: VectorPoint[]; wait?: boolean }): Promise<void>;
+  /** Merge payload fields into existing points, leaving their vectors alone */
+  setPayload(collection: string, request: {
+    points: Array<{ id: VectorPointId; payload: VectorPayload }>;
+    wait?: boolean;
+  }): Promise<void>;
+  /** Best matches first; payloads are always included */
+  search(collection: string, request: {
+    vector: number[];
+    limit: number;
+    filter?: VectorFilter;
+    score_threshold?: number;
+  }): Promise<ScoredVectorPoint[]>;
+  /** Page through points in id order; next_page_offset is null on the last page */
+  scroll(collection: string, request: {
+    filter?: VectorFilter;
+    limit?: number;
+    offset?: VectorPointId | null;
+    with_payload?: boolean | string[];
+    with_vector?: boolean;
+  }): Promise<{ points: StoredVectorPoint[]; next_page_offset: VectorPointId | null }>;
+  delete(collection: string, request: { points: VectorPointId[]; wait?: boolean } | { filter: VectorFilter; wait?: boolean }): Promise<void>;
+  count(collection: string, request?: { filter?: VectorFilter }): Promise<number>;
+}
+
+/**
+ * Raised by the embedded store where Qdrant answers with an error status
+ */
+export class VectorStoreError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'VectorStoreError';
+    Object.setPrototypeOf(this, VectorStoreError.prototype);
+  }
+}
+
+let store: VectorStore | null = null;
+
+/**
+ * Store chosen by initializeVectorStore(), Qdrant until then
+ */
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    store = config.vectorStore.backend === 'embedded' ? createEmbeddedVectorStore() : createQdrantVectorStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the vector store; null goes back to the configured one.
+ * Meant for tests.
+ */
+export function setVectorStore(replacement: VectorStore | null): void {
+  store = replacement;
+}
+
+/**
+ * Pick the backend configured through VECTOR_STORE. In auto mode the
+ * embedded store takes over when Qdrant cannot be reached.
+ * @returns The store, or null if Qdrant is required but unreachable
+ */
+export async function initializeVectorStore(): Promise<VectorStore | null> {
+  const backend = config.vectorStore.backend;
+
+  if (backend === 'embedded') {
+    store = createEmbeddedVectorStore();
+  } else if (await checkQdrantHealth()) {
+    store = createQdrantVectorStore();
+  } else if (backend === 'qdrant') {
+    return null;
+  } else {
+    console.warn(`⚠️ QDrant not reachable at ${config.qdrant.url}, using the embedded vector store`);
+    store = createEmbeddedVectorStore();
+  }
+
+  // Job workers inherit the environment and so use the same store
+  process.env.VECTOR_STORE = store.kind;
+  return store;
+}
+
+const COLLECTION_DESCRIPTIONS: Record<CollectionName, string> = {
+  [COLLECTIONS.DOCUMENTS]: 'Document chunks with hierarchical metadata',
+  [COLLECTIONS.RESEARCH_SOURCES]: 'External research sources and web content',
+  [COLLECTIONS.UPLOADED_FILES]: 'Content from uploaded PDFs and DOCX files',
+  [COLLECTIONS.SUMMARIES]: 'Recursive summaries for large documents',
+};
+
+/**
+ * Create all required collections if they don't exist
+ * @param dimensions Vector size for new collections, one for all or per collection
+ * @returns Vector size of every collection; existing collections keep
+ * theirs until they are re-embedded
+ */
+export async function initializeCollections(
+  dimensions: number | Partial<Record<CollectionName, number>> = getEmbeddingProvider().dimensions
+): Promise<Record<CollectionName, number>> {
+  const vectorStore = getVectorStore();
+  const sizes = {} as Record<CollectionName, number>;
+
+  for (const [name, description] of Object.entries(COLLECTION_DESCRIPTIONS) as Array<[CollectionName, string]>) {
+    try {
+      const existing = await vectorStore.getCollectionDimensions(name);
+
+      if (existing === null) {
+        const size = typeof dimensions === 'number' ? dimensions : dimensions[name] ?? getEmbeddingProvider().dimensions;
+        console.log(`📦 Creating collection: ${name} (${description}, ${size} dimensions)`);
+        await vectorStore.createCollection(name, size);
+        sizes[name] = size;
+        console.log(`✓ Created collection: ${name}`);
+      } else {
+        sizes[name] = existing;
+        console.log(`✓ Collection exists: ${name} (${existing} dimensions)`);
+      }
+    } catch (error) {
+      console.error(`✗ Failed to create collection ${name}:`, error);
+      throw error;
+    }
+  }
+
+  return sizes;
+}
+
+/**
+ * Delete all points for a specific document (before re-indexing)
+ */
+export async function deleteDocumentVectors(
+  collectionName: string,
+  documentId: string
+): Promise<void> {
+  return memoryMonitor.trackOperation('VectorStore', `deleteVectors(${collectionName})`, async () => {
+    try {
+      await getVectorStore().delete(collectionName, {
+        filter: {
+          must: [
+            {
+              key: 'document_id',
+              match: {
+                value: documentId,
+              },
+            },
+          ],
+        },
+      });
+      console.log(`✓ Deleted vectors for document ${documentId} from ${collectionName}`);
+    } catch (error) {
+      console.error(`✗ Failed to delete vectors for document ${documentId}:`, error);
+      throw error;
+    }
+  });
+}
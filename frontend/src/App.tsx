@@ -5,8 +5,15 @@ import { DocumentList } from './pages/DocumentList';
 import { DocumentEditor } from './pages/DocumentEditor';
 import { ArtifactLibrary } from './pages/ArtifactLibrary';
 import { MCPServerManagement } from './pages/MCPServerManagement';
+import { GroupManagement } from './pages/GroupManagement';
+import { Profile } from './pages/Profile';
+import { AdminConsole } from './pages/AdminConsole';
 import { LoginPage } from './pages/Login';
+import { OidcCallbackPage } from './pages/OidcCallback';
 import { RegisterPage } from './pages/Register';
+import { ForgotPasswordPage } from './pages/ForgotPassword';
+import { ResetPasswordPage } from './pages/ResetPassword';
+import { VerifyEmailPage } from './pages/VerifyEmail';
 import { PublicDocument } from './pages/PublicDocument';
 
 function App() {
@@ -15,7 +22,11 @@ function App() {
       <Router>
         <Routes>
           <Route path="/login" element={<LoginPage />} />
+          <Route path="/login/oidc" element={<OidcCallbackPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
           <Route path="/public/:id" element={<PublicDocument />} />
           <Route path="/*" element={<Layout />}>
             <Route index element={<Navigate to="/documents" replace />} />
@@ -23,6 +34,9 @@ function App() {
             <Route path="documents/:id" element={<DocumentEditor />} />
             <Route path="artifacts" element={<ArtifactLibrary />} />
             <Route path="mcp-servers" element={<MCPServerManagement />} />
+            <Route path="groups" element={<GroupManagement />} />
+            <Route path="profile" element={<Profile />} />
+            <Route path="admin" element={<AdminConsole />} />
           </Route>
         </Routes>
       </Router>
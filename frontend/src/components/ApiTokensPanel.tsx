@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { authApi, type ApiToken, type ApiTokenScope } from '../lib/auth-api';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'documents:read': 'Dokumente lesen',
+  'documents:write': 'Dokumente schreiben',
+  ai: 'KI-Funktionen',
+  admin: 'Administration',
+};
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '7 Tage', days: 7 },
+  { label: '30 Tage', days: 30 },
+  { label: '90 Tage', days: 90 },
+  { label: '1 Jahr', days: 365 },
+  { label: 'Kein Ablauf', days: null },
+];
+
+const formatDate = (value: number | null) =>
+  value ? new Date(value).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' }) : '–';
+
+function tokenStatus(token: ApiToken): { label: string; className: string } | null {
+  if (token.revoked_at) return { label: 'Widerrufen', className: 'bg-red-800 text-red-100' };
+  if (token.expires_at && token.expires_at <= Date.now()) {
+    return { label: 'Abgelaufen', className: 'bg-gray-600 text-gray-200' };
+  }
+  return null;
+}
+
+/**
+ * Personal API tokens for scripts and CI jobs
+ */
+export function ApiTokensPanel() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['documents:read']);
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery({
+    queryKey: ['api-tokens'],
+    queryFn: authApi.getApiTokens,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => authApi.createApiToken(name, scopes, expiryDays),
+    onSuccess: (result) => {
+      setCreatedToken(result.token);
+      setName('');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+    },
+    onError: (err: any) => setError(err.response?.data?.error || 'Token konnte nicht erstellt werden'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: string) => authApi.revokeApiToken(tokenId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['api-tokens'] }),
+    onError: (err: any) => setError(err.response?.data?.error || 'Token konnte nicht widerrufen werden'),
+  });
+
+  const toggleScope = (scope: ApiTokenScope) =>
+    setScopes(current => current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]);
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-white">API-Tokens</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          Für Skripte und CI-Jobs: als <code className="text-gray-300">Authorization: Bearer &lt;Token&gt;</code> senden
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded text-sm border bg-red-900/40 border-red-700 text-red-200">❌ {error}</div>
+      )}
+
+      {createdToken && (
+        <div className="p-3 rounded border bg-green-900/40 border-green-700 space-y-2">
+          <p className="text-sm text-green-200">
+            Neues Token – es wird nur jetzt angezeigt, bitte sicher speichern:
+          </p>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={createdToken}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white font-mono text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(createdToken)}
+              className="btn-secondary text-sm"
+            >
+              Kopieren
+            </button>
+            <button type="button" onClick={() => setCreatedToken(null)} className="btn-secondary text-sm">
+              Fertig
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+        className="space-y-3"
+      >
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, z.B. CI-Deployment"
+            className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+          />
+          <select
+            value={expiryDays ?? ''}
+            onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+            className="px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map(scope => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          className="btn-primary"
+          disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+        >
+          Token erstellen
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-gray-400">Lade Tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-400">Noch keine Tokens erstellt.</p>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map((token) => {
+            const status = tokenStatus(token);
+            return (
+              <div key={token.id} className="flex items-center justify-between px-4 py-3 bg-gray-900 rounded">
+                <div>
+                  <div className="text-white">
+                    {token.name}
+                    <span className="ml-2 text-xs text-gray-500 font-mono">{token.token_prefix}…</span>
+                    {status && (
+                      <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {token.scopes.map(scope => SCOPE_LABELS[scope] ?? scope).join(', ')}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Erstellt: {formatDate(token.created_at)} • Läuft ab: {formatDate(token.expires_at)}
+                    {' '}• Zuletzt benutzt: {formatDate(token.last_used_at)}
+                  </div>
+                </div>
+                {!token.revoked_at && (
+                  <button
+                    onClick={() => {
+                      if (confirm(`Token "${token.name}" widerrufen?`)) revokeMutation.mutate(token.id);
+                    }}
+                    className="text-sm text-red-400 hover:text-red-300"
+                    disabled={revokeMutation.isPending}
+                  >
+                    Widerrufen
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
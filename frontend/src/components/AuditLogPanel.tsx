@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api, type AuditQuery } from '../lib/api';
+
+const PAGE_SIZE = 50;
+
+const ACTION_FILTERS: Array<{ label: string; value: string }> = [
+  { label: 'Alle Aktionen', value: '' },
+  { label: 'Anmeldungen', value: 'auth.' },
+  { label: 'Fehlgeschlagene Anmeldungen', value: 'auth.login_failed' },
+  { label: 'Berechtigungen', value: 'permission.,document.transfer_ownership' },
+  { label: 'Freigaben', value: 'share.' },
+  { label: 'Löschen & Archivieren', value: 'document.delete,document.archive,document.unarchive' },
+  { label: 'Pull Requests', value: 'pull_request.' },
+  { label: 'MCP Server', value: 'mcp_server.' },
+  { label: 'Nutzerverwaltung', value: 'user.' },
+];
+
+const formatTime = (value: number) =>
+  new Date(value).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'medium' });
+
+/**
+ * Filterable audit log with CSV/JSON export, for admins
+ */
+export function AuditLogPanel() {
+  const [action, setAction] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const query: AuditQuery = {
+    action: action || undefined,
+    from: from || undefined,
+    // The end date includes the whole day
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit-log', query, page],
+    queryFn: () => api.getAuditLog({ ...query, limit: PAGE_SIZE, offset: page * PAGE_SIZE }),
+  });
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const blob = await api.exportAuditLog(query, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch {
+      setError('Der Export ist fehlgeschlagen.');
+    }
+  };
+
+  const total = data?.total ?? 0;
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold text-white">Audit-Log ({total})</h2>
+        <div className="flex gap-2">
+          <button onClick={() => handleExport('csv')} className="btn-secondary text-sm">⬇️ CSV</button>
+          <button onClick={() => handleExport('json')} className="btn-secondary text-sm">⬇️ JSON</button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded text-sm border bg-red-900/40 border-red-700 text-red-200">❌ {error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={action}
+          onChange={(e) => { setAction(e.target.value); setPage(0); }}
+          className="px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+        >
+          {ACTION_FILTERS.map(filter => (
+            <option key={filter.label} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => { setFrom(e.target.value); setPage(0); }}
+          title="Von"
+          className="px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => { setTo(e.target.value); setPage(0); }}
+          title="Bis"
+          className="px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-400">Lade Audit-Log...</p>
+      ) : !data?.entries.length ? (
+        <p className="text-sm text-gray-400">Keine Einträge gefunden.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2">Zeit</th>
+              <th className="py-2">Aktion</th>
+              <th className="py-2">Nutzer</th>
+              <th className="py-2">Ziel</th>
+              <th className="py-2">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.entries.map((entry) => (
+              <tr key={entry.id} className="border-b border-gray-700/50 align-top">
+                <td className="py-2 text-gray-400 whitespace-nowrap">{formatTime(entry.created_at)}</td>
+                <td className="py-2 text-white font-mono text-xs">{entry.action}</td>
+                <td className="py-2 text-gray-300">
+                  {entry.actor_name ? `@${entry.actor_name}` : '–'}
+                  {entry.ip_address && <div className="text-xs text-gray-500">{entry.ip_address}</div>}
+                </td>
+                <td className="py-2 text-gray-400 text-xs break-all">
+                  {entry.target_type && <span>{entry.target_type}: {entry.target_id ?? '–'}</span>}
+                  {entry.document_id && <div>Dokument: {entry.document_id}</div>}
+                </td>
+                <td className="py-2 text-gray-400 text-xs font-mono break-all">
+                  {entry.details ? JSON.stringify(entry.details) : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-400">
+          <button onClick={() => setPage(page - 1)} disabled={page === 0} className="btn-secondary text-sm">←</button>
+          Seite {page + 1} von {pages}
+          <button onClick={() => setPage(page + 1)} disabled={page + 1 >= pages} className="btn-secondary text-sm">→</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import type * as Monaco from 'monaco-editor';
+import {
+  api,
+  type CreateDocumentCommentData,
+  type DocumentComment,
+  type DocumentCommentThread,
+} from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+
+interface CommentsPanelProps {
+  documentId: string;
+  editor: Monaco.editor.IStandaloneCodeEditor | null;
+}
+
+type StatusFilter = 'open' | 'resolved' | 'mentioned';
+
+function authorName(comment: { display_name: string | null; username: string | null }) {
+  return comment.display_name || comment.username || 'Unbekannt';
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleString('de-DE');
+}
+
+function useDocumentComments(documentId: string) {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['document-comments', documentId] });
+  };
+
+  const onError = (error: any) => {
+    alert(`❌ ${error.response?.data?.message || 'Kommentar konnte nicht gespeichert werden.'}`);
+  };
+
+  const createComment = useMutation({
+    mutationFn: (comment: CreateDocumentCommentData) => api.createDocumentComment(documentId, comment),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateComment = useMutation({
+    mutationFn: ({ commentId, body }: { commentId: string; body: string }) =>
+      api.updateDocumentComment(documentId, commentId, body),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const setStatus = useMutation({
+    mutationFn: ({ commentId, resolved }: { commentId: string; resolved: boolean }) =>
+      resolved
+        ? api.resolveDocumentComment(documentId, commentId)
+        : api.reopenDocumentComment(documentId, commentId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteComment = useMutation({
+    mutationFn: (commentId: string) => api.deleteDocumentComment(documentId, commentId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return { createComment, updateComment, setStatus, deleteComment };
+}
+
+/**
+ * Comment textarea that suggests readers of the document after typing "@"
+ */
+function MentionForm({
+  documentId,
+  placeholder,
+  submitLabel,
+  isPending,
+  initialValue = '',
+  onSubmit,
+  onCancel,
+}: {
+  documentId: string;
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  initialValue?: string;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialValue);
+  const mentionQuery = body.match(/(?:^|\s)@([\w.-]*)$/)?.[1];
+
+  const { data: mentionable } = useQuery({
+    queryKey: ['document-comment-mentionable', documentId, mentionQuery],
+    queryFn: () => api.getMentionableUsers(documentId, mentionQuery!),
+    enabled: mentionQuery !== undefined,
+  });
+
+  const insertMention = (username: string) => {
+    setBody(body.replace(/@[\w.-]*$/, `@${username} `));
+  };
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+        onSubmit(body.trim());
+        setBody('');
+      }}
+    >
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full bg-gray-900 text-gray-200 text-sm p-2 rounded border border-gray-700 focus:border-blue-600 outline-none"
+      />
+      {mentionQuery !== undefined && mentionable && mentionable.users.length > 0 && (
+        <div className="bg-gray-900 border border-gray-700 rounded text-sm">
+          {mentionable.users.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              onClick={() => insertMention(user.username)}
+              className="block w-full text-left px-2 py-1 text-gray-300 hover:bg-gray-700"
+            >
+              @{user.username}
+              {user.display_name && <span className="text-gray-500 ml-2">{user.display_name}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2 justify-end">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-xs text-gray-400 hover:text-gray-200">
+            Abbrechen
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isPending || !body.trim()}
+          className="px-3 py-1 text-xs bg-blue-900 text-blue-200 rounded hover:bg-blue-800 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function CommentView({ documentId, comment, canDelete }: { documentId: string; comment: DocumentComment; canDelete: boolean }) {
+  const { user } = useAuth();
+  const { updateComment, deleteComment } = useDocumentComments(documentId);
+  const [editing, setEditing] = useState(false);
+  const isAuthor = user?.id === comment.user_id;
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="font-semibold text-gray-300">{authorName(comment)}</span>
+        <span>{formatDate(comment.created_at)}</span>
+        {comment.updated_at > comment.created_at && <span>(bearbeitet)</span>}
+        {!editing && (
+          <span className="ml-auto flex gap-2">
+            {isAuthor && (
+              <button onClick={() => setEditing(true)} className="hover:text-gray-300">Bearbeiten</button>
+            )}
+            {(isAuthor || canDelete) && (
+              <button
+                onClick={() => {
+                  if (confirm('Kommentar löschen?')) deleteComment.mutate(comment.id);
+                }}
+                className="hover:text-red-400"
+              >
+                Löschen
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+      {editing ? (
+        <MentionForm
+          documentId={documentId}
+          placeholder="Kommentar bearbeiten..."
+          submitLabel="Speichern"
+          initialValue={comment.body}
+          isPending={updateComment.isPending}
+          onSubmit={(body) => {
+            updateComment.mutate({ commentId: comment.id, body });
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <p className="text-gray-200 whitespace-pre-wrap mt-1">{comment.body}</p>
+      )}
+    </div>
+  );
+}
+
+function CommentThreadView({
+  documentId,
+  thread,
+  canResolve,
+  onSelect,
+}: {
+  documentId: string;
+  thread: DocumentCommentThread;
+  canResolve: boolean;
+  onSelect: (thread: DocumentCommentThread) => void;
+}) {
+  const { user } = useAuth();
+  const { createComment, setStatus } = useDocumentComments(documentId);
+  const [replying, setReplying] = useState(false);
+  const resolved = thread.status === 'resolved';
+
+  return (
+    <div className={`bg-gray-900 rounded p-3 space-y-3 border ${resolved ? 'border-gray-800 opacity-70' : 'border-gray-700'}`}>
+      {thread.quote && (
+        <button
+          onClick={() => onSelect(thread)}
+          disabled={thread.orphaned}
+          className="block w-full text-left text-xs text-yellow-200 bg-yellow-900/20 border-l-2 border-yellow-600 px-2 py-1 rounded line-clamp-3 disabled:cursor-default"
+          title={thread.orphaned ? undefined : 'Im Editor markieren'}
+        >
+          {thread.quote}
+        </button>
+      )}
+      {thread.orphaned && (
+        <div className="text-xs text-yellow-500">Der kommentierte Text wurde gelöscht.</div>
+      )}
+      <CommentView documentId={documentId} comment={thread} canDelete={canResolve} />
+      {thread.replies.map(reply => (
+        <div key={reply.id} className="pl-4 border-l border-gray-700">
+          <CommentView documentId={documentId} comment={reply} canDelete={canResolve} />
+        </div>
+      ))}
+      {replying ? (
+        <MentionForm
+          documentId={documentId}
+          placeholder="Antworten..."
+          submitLabel="Antworten"
+          isPending={createComment.isPending}
+          onSubmit={(body) => {
+            createComment.mutate({ body, parentId: thread.id });
+            setReplying(false);
+          }}
+          onCancel={() => setReplying(false)}
+        />
+      ) : (
+        <div className="flex gap-3 text-xs">
+          <button onClick={() => setReplying(true)} className="text-blue-400 hover:text-blue-300">
+            ↩ Antworten
+          </button>
+          {(canResolve || thread.user_id === user?.id) && (
+            <button
+              onClick={() => setStatus.mutate({ commentId: thread.id, resolved: !resolved })}
+              disabled={setStatus.isPending}
+              className="ml-auto text-green-400 hover:text-green-300 disabled:opacity-50"
+            >
+              {resolved ? '↺ Wieder öffnen' : '✓ Erledigt'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Inline comments of a document, anchored to text ranges in the editor
+ */
+export function CommentsPanel({ documentId, editor }: CommentsPanelProps) {
+  const { createComment } = useDocumentComments(documentId);
+  const [filter, setFilter] = useState<StatusFilter>('open');
+  const [selection, setSelection] = useState<{ from: number; to: number; quote: string } | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['document-comments', documentId, filter],
+    queryFn: () => api.getDocumentComments(
+      documentId,
+      filter === 'mentioned' ? { mentioned: 'me' } : { status: filter }
+    ),
+    enabled: !!documentId,
+  });
+
+  // Track the editor selection as the range for a new comment
+  useEffect(() => {
+    if (!editor) return;
+
+    const update = () => {
+      const model = editor.getModel();
+      const range = editor.getSelection();
+      if (!model || !range || range.isEmpty()) {
+        setSelection(null);
+        return;
+      }
+      setSelection({
+        from: model.getOffsetAt(range.getStartPosition()),
+        to: model.getOffsetAt(range.getEndPosition()),
+        quote: model.getValueInRange(range),
+      });
+    };
+
+    update();
+    const listener = editor.onDidChangeCursorSelection(update);
+    return () => listener.dispose();
+  }, [editor]);
+
+  // Highlight commented passages of open threads
+  useEffect(() => {
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+
+    const decorations = (data?.comments || [])
+      .filter(thread => thread.status === 'open' && thread.anchor && !thread.orphaned)
+      .map(thread => {
+        const start = model.getPositionAt(thread.anchor!.from);
+        const end = model.getPositionAt(thread.anchor!.to);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          options: {
+            inlineClassName: 'document-comment-range',
+            hoverMessage: { value: `💬 ${authorName(thread)}: ${thread.body}` },
+          },
+        };
+      });
+
+    const collection = editor.createDecorationsCollection(decorations);
+    return () => collection.clear();
+  }, [editor, data]);
+
+  const selectThread = (thread: DocumentCommentThread) => {
+    const model = editor?.getModel();
+    if (!editor || !model || !thread.anchor) return;
+
+    const start = model.getPositionAt(thread.anchor.from);
+    const end = model.getPositionAt(thread.anchor.to);
+    const range = {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
+    editor.setSelection(range);
+    editor.revealRangeInCenter(range);
+    editor.focus();
+  };
+
+  const filters: { value: StatusFilter; label: string }[] = [
+    { value: 'open', label: 'Offen' },
+    { value: 'resolved', label: 'Erledigt' },
+    { value: 'mentioned', label: '@ Erwähnungen' },
+  ];
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-3 border-b border-gray-700 space-y-2">
+        {selection ? (
+          <>
+            <div className="text-xs text-yellow-200 bg-yellow-900/20 border-l-2 border-yellow-600 px-2 py-1 rounded line-clamp-2">
+              {selection.quote}
+            </div>
+            <MentionForm
+              documentId={documentId}
+              placeholder="Kommentar zur Auswahl... (@name erwähnt Personen)"
+              submitLabel="Kommentieren"
+              isPending={createComment.isPending}
+              onSubmit={(body) => createComment.mutate({ body, ...selection })}
+            />
+          </>
+        ) : (
+          <p className="text-xs text-gray-400">Text im Editor markieren, um einen Kommentar hinzuzufügen.</p>
+        )}
+      </div>
+
+      <div className="flex border-b border-gray-700">
+        {filters.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`flex-1 px-2 py-1.5 text-xs ${
+              filter === option.value ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {isLoading ? (
+          <div className="text-sm text-gray-400">Lade Kommentare...</div>
+        ) : data?.comments.length ? (
+          data.comments.map(thread => (
+            <CommentThreadView
+              key={thread.id}
+              documentId={documentId}
+              thread={thread}
+              canResolve={data.canResolve}
+              onSelect={selectThread}
+            />
+          ))
+        ) : (
+          <div className="text-sm text-gray-500">Keine Kommentare.</div>
+        )}
+      </div>
+    </div>
+  );
+}
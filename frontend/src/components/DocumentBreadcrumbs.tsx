@@ -0,0 +1,34 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { api } from '../lib/api';
+
+interface DocumentBreadcrumbsProps {
+  documentId: string;
+}
+
+/**
+ * Parent documents of the current document, shown before its title
+ */
+export function DocumentBreadcrumbs({ documentId }: DocumentBreadcrumbsProps) {
+  const { data } = useQuery({
+    queryKey: ['document-breadcrumbs', documentId],
+    queryFn: () => api.getDocumentBreadcrumbs(documentId),
+  });
+
+  if (!data || data.breadcrumbs.length === 0) return null;
+
+  return (
+    <nav className="flex items-center gap-1 text-sm text-gray-400 min-w-0" aria-label="Übergeordnete Dokumente">
+      {data.truncated && <span title="Weitere übergeordnete Dokumente ohne Zugriff">…</span>}
+      {data.truncated && <span>›</span>}
+      {data.breadcrumbs.map(crumb => (
+        <span key={crumb.id} className="flex items-center gap-1 min-w-0">
+          <Link to={`/documents/${crumb.id}`} className="hover:text-white truncate max-w-[12rem]" title={crumb.title}>
+            {crumb.title}
+          </Link>
+          <span>›</span>
+        </span>
+      ))}
+    </nav>
+  );
+}
@@ -1,6 +1,46 @@
 import React, { useState, useEffect } from 'react';
-import { permissionsApi, type DocumentPermissions } from '../lib/permissions-api';
+import {
+  permissionsApi,
+  type DocumentPermissions,
+  type EffectivePermission,
+  type PermissionEffect,
+  type PermissionLevel,
+  type PermissionSource,
+} from '../lib/permissions-api';
+import { api, type Group } from '../lib/api';
 import { useAuth } from '../contexts/AuthContext';
+import { ShareLinksPanel } from './ShareLinksPanel';
+import { ShareAnalyticsPanel } from './ShareAnalyticsPanel';
+
+const SYSTEM_GROUP_LABELS: Record<string, string> = {
+  _EVERYONE: 'Everyone (Public)',
+  _LOGGED_IN: 'Logged In Users',
+};
+
+const badgeClass = (level: PermissionLevel, effect: PermissionEffect = 'allow') =>
+  effect === 'deny'
+    ? 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 line-through'
+    : level === 'admin'
+    ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+    : level === 'write'
+    ? 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+    : 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200';
+
+const describeSource = (source: PermissionSource): string => {
+  const where = source.inherited ? ` on parent "${source.documentTitle}"` : '';
+  if (source.type === 'owner') {
+    return source.inherited ? `Owner of parent "${source.documentTitle}"` : 'Owner of this document';
+  }
+  const verb = source.effect === 'deny' ? `Denied ${source.level}` : `Granted ${source.level}`;
+  switch (source.type) {
+    case 'user':
+      return `${verb} directly${where}`;
+    case 'group':
+      return `${verb} via group ${source.groupName || source.groupId}${where}`;
+    default:
+      return `${verb} to everyone${where}`;
+  }
+};
 
 interface DocumentPermissionsModalProps {
   documentId: string;
@@ -20,12 +60,15 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
   
   // Form state
   const [newUserEmail, setNewUserEmail] = useState('');
-  const [newUserPermission, setNewUserPermission] = useState<'read' | 'write' | 'admin'>('read');
-  const [newGroupPermission, setNewGroupPermission] = useState<'read' | 'write' | 'admin'>('read');
+  const [newUserPermission, setNewUserPermission] = useState<PermissionLevel>('read');
+  const [newUserEffect, setNewUserEffect] = useState<PermissionEffect>('allow');
+  const [newGroupPermission, setNewGroupPermission] = useState<PermissionLevel>('read');
+  const [newGroupEffect, setNewGroupEffect] = useState<PermissionEffect>('allow');
   const [selectedGroup, setSelectedGroup] = useState<string>('_LOGGED_IN');
-  const [shareId, setShareId] = useState<string | null>(null);
-  const [shareEnabled, setShareEnabled] = useState(false);
-  const [copiedFormat, setCopiedFormat] = useState<string | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [effective, setEffective] = useState<EffectivePermission | null>(null);
+  const [explainUserId, setExplainUserId] = useState('');
+  const [groups, setGroups] = useState<Group[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -33,6 +76,31 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
     }
   }, [isOpen, documentId]);
 
+  useEffect(() => {
+    if (isOpen) {
+      api.getGroups()
+        .then(data => setGroups(data.groups))
+        .catch(err => console.error('Error loading groups:', err));
+    }
+  }, [isOpen]);
+
+  const loadEffective = async (userId: string) => {
+    try {
+      setEffective(await permissionsApi.getEffectivePermission(documentId, userId));
+    } catch (err: any) {
+      setEffective(null);
+      if (userId !== 'me') {
+        setError(err.response?.data?.error || 'Failed to explain permissions');
+      }
+    }
+  };
+
+  const handleExplain = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    loadEffective(explainUserId.trim() || 'me');
+  };
+
   const loadPermissions = async () => {
     try {
       setLoading(true);
@@ -40,10 +108,7 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
       const data = await permissionsApi.getDocumentPermissions(documentId);
       setPermissions(data);
 
-      // Check share status (new system)
-      const shareStatus = await permissionsApi.getShareStatus(documentId);
-      setShareEnabled(shareStatus.shareEnabled);
-      setShareId(shareStatus.shareId);
+      await loadEffective(explainUserId.trim() || 'me');
     } catch (err) {
       setError('Failed to load permissions');
       console.error('Error loading permissions:', err);
@@ -60,7 +125,7 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
       setLoading(true);
       // Note: In a real implementation, you'd need to look up the user ID by email
       // For now, we'll assume the email is the user ID (this should be changed)
-      await permissionsApi.setUserPermission(documentId, newUserEmail, newUserPermission);
+      await permissionsApi.setUserPermission(documentId, newUserEmail, newUserPermission, newUserEffect);
       setNewUserEmail('');
       await loadPermissions();
     } catch (err) {
@@ -76,7 +141,7 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
 
     try {
       setLoading(true);
-      await permissionsApi.setGroupPermission(documentId, selectedGroup, newGroupPermission);
+      await permissionsApi.setGroupPermission(documentId, selectedGroup, newGroupPermission, newGroupEffect);
       await loadPermissions();
     } catch (err) {
       setError('Failed to add group permission');
@@ -112,51 +177,6 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
     }
   };
 
-  const handleToggleShareLink = async () => {
-    try {
-      setLoading(true);
-      if (shareEnabled) {
-        await permissionsApi.disableShare(documentId);
-        setShareEnabled(false);
-        setShareId(null);
-      } else {
-        const result = await permissionsApi.enableShare(documentId);
-        setShareEnabled(true);
-        setShareId(result.shareId);
-      }
-      await loadPermissions();
-    } catch (err) {
-      setError('Failed to toggle share link');
-      console.error('Error toggling share link:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleCopyShareUrl = (format: string) => {
-    const baseUrl = `${window.location.origin}/share/${shareId}`;
-    let url = baseUrl;
-    
-    switch (format) {
-      case 'html':
-        url = `${baseUrl}.html`;
-        break;
-      case 'rss':
-        url = `${baseUrl}.rss`;
-        break;
-      case 'pdf':
-        url = `${baseUrl}.pdf`;
-        break;
-      case 'docx':
-        url = `${baseUrl}.docx`;
-        break;
-    }
-    
-    navigator.clipboard.writeText(url);
-    setCopiedFormat(format);
-    setTimeout(() => setCopiedFormat(null), 2000);
-  };
-
   if (!isOpen) return null;
 
   const isOwner = user && permissions && user.id === permissions.owner_id;
@@ -195,199 +215,78 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
               <div className="border-b border-gray-200 dark:border-gray-700 pb-4">
                 <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">🔗 Öffentliche Share-Links</h3>
                 
-                <div className="flex items-center justify-between mb-3">
-                  <div>
-                    <p className="text-sm text-gray-700 dark:text-gray-300">
-                      Öffentlichen Zugriff aktivieren (auch für nicht registrierte Nutzer)
-                    </p>
-                  </div>
-                  <label className="relative inline-flex items-center cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={shareEnabled}
-                      onChange={handleToggleShareLink}
-                      className="sr-only peer"
-                      disabled={loading}
-                    />
-                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-green-300 dark:peer-focus:ring-green-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-green-600"></div>
-                  </label>
-                </div>
-
-                {shareEnabled && shareId && (
-                  <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded p-3 space-y-3">
-                    {/* HTML Preview */}
-                    <div>
-                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 font-semibold">📄 HTML Preview:</p>
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={`${window.location.origin}/share/${shareId}`}
-                          readOnly
-                          className="flex-1 px-2 py-1.5 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono"
-                        />
-                        <button
-                          onClick={() => handleCopyShareUrl('preview')}
-                          className="px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded text-xs flex items-center gap-1"
-                        >
-                          {copiedFormat === 'preview' ? (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                              ✓
-                            </>
-                          ) : (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                              </svg>
-                              Copy
-                            </>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* HTML Download */}
-                    <div>
-                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 font-semibold">💾 HTML Download:</p>
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={`${window.location.origin}/share/${shareId}.html`}
-                          readOnly
-                          className="flex-1 px-2 py-1.5 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono"
-                        />
-                        <button
-                          onClick={() => handleCopyShareUrl('html')}
-                          className="px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded text-xs flex items-center gap-1"
-                        >
-                          {copiedFormat === 'html' ? (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                              ✓
-                            </>
-                          ) : (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                              </svg>
-                              Copy
-                            </>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* RSS Feed */}
-                    <div>
-                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 font-semibold">📡 RSS Feed (Versionshistorie):</p>
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={`${window.location.origin}/share/${shareId}.rss`}
-                          readOnly
-                          className="flex-1 px-2 py-1.5 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono"
-                        />
-                        <button
-                          onClick={() => handleCopyShareUrl('rss')}
-                          className="px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded text-xs flex items-center gap-1"
-                        >
-                          {copiedFormat === 'rss' ? (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                              ✓
-                            </>
-                          ) : (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                              </svg>
-                              Copy
-                            </>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* PDF Export */}
-                    <div>
-                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 font-semibold">📋 PDF Export:</p>
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={`${window.location.origin}/share/${shareId}.pdf`}
-                          readOnly
-                          className="flex-1 px-2 py-1.5 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono"
-                        />
-                        <button
-                          onClick={() => handleCopyShareUrl('pdf')}
-                          className="px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded text-xs flex items-center gap-1"
-                        >
-                          {copiedFormat === 'pdf' ? (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                              ✓
-                            </>
-                          ) : (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                              </svg>
-                              Copy
-                            </>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* DOCX Export */}
-                    <div>
-                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 font-semibold">📝 DOCX Export:</p>
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={`${window.location.origin}/share/${shareId}.docx`}
-                          readOnly
-                          className="flex-1 px-2 py-1.5 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono"
-                        />
-                        <button
-                          onClick={() => handleCopyShareUrl('docx')}
-                          className="px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded text-xs flex items-center gap-1"
-                        >
-                          {copiedFormat === 'docx' ? (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                              ✓
-                            </>
-                          ) : (
-                            <>
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                              </svg>
-                              Copy
-                            </>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-
-                    <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-2 pt-2 border-t border-green-200 dark:border-green-800">
-                      ⚠️ Achtung: Jeder mit diesen Links kann das Dokument lesen (ohne Anmeldung).
-                    </p>
+                <ShareLinksPanel documentId={documentId} />
+                <button
+                  onClick={() => setShowAnalytics(!showAnalytics)}
+                  className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  📊 {showAnalytics ? 'Statistik ausblenden' : 'Statistik anzeigen'}
+                </button>
+                {showAnalytics && (
+                  <div className="mt-3">
+                    <ShareAnalyticsPanel documentId={documentId} />
                   </div>
                 )}
               </div>
             )}
 
+            {/* Effective Access */}
+            <div className="border-b border-gray-200 dark:border-gray-700 pb-4">
+              <h3 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">Effective Access</h3>
+              {effective ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {effective.user ? effective.user.display_name || effective.user.username : 'Guests (not signed in)'}
+                      {effective.userId === user?.id && <span className="ml-2 text-sm text-blue-500">(You)</span>}
+                    </span>
+                    {effective.level ? (
+                      <span className={`px-3 py-1 rounded-full text-sm ${badgeClass(effective.level)}`}>
+                        {effective.level}
+                      </span>
+                    ) : (
+                      <span className={`px-3 py-1 rounded-full text-sm ${badgeClass('read', 'deny')}`}>no access</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {effective.decidedBy
+                      ? `Why: ${describeSource(effective.decidedBy)}`
+                      : 'Why: no entry grants access to this document or its parents'}
+                  </p>
+                  {effective.sources.length > 1 && (
+                    <ul className="text-xs text-gray-500 dark:text-gray-400 list-disc ml-5 space-y-0.5">
+                      {effective.sources.map((source, index) => (
+                        <li key={index} className={JSON.stringify(source) === JSON.stringify(effective.decidedBy) ? 'font-semibold' : ''}>
+                          {describeSource(source)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400">Could not determine access</p>
+              )}
+
+              {isOwner && (
+                <form onSubmit={handleExplain} className="flex gap-2 mt-3">
+                  <input
+                    type="text"
+                    placeholder="User ID, &quot;guest&quot; or empty for yourself"
+                    value={explainUserId}
+                    onChange={(e) => setExplainUserId(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded"
+                    disabled={loading}
+                  >
+                    Explain
+                  </button>
+                </form>
+              )}
+            </div>
+
             {/* Owner Info */}
             <div className="border-b border-gray-200 dark:border-gray-700 pb-4">
               <h3 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">Owner</h3>
@@ -415,14 +314,11 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
                     >
                       <span className="text-gray-700 dark:text-gray-300">{perm.username}</span>
                       <div className="flex items-center gap-2">
-                        <span className={`px-3 py-1 rounded-full text-sm ${
-                          perm.permission_level === 'admin'
-                            ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
-                            : perm.permission_level === 'write'
-                            ? 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
-                            : 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
-                        }`}>
-                          {perm.permission_level}
+                        <span
+                          className={`px-3 py-1 rounded-full text-sm ${badgeClass(perm.permission_level, perm.effect)}`}
+                          title={perm.effect === 'deny' ? `Denies ${perm.permission_level} and above` : undefined}
+                        >
+                          {perm.effect === 'deny' ? `deny ${perm.permission_level}` : perm.permission_level}
                         </span>
                         {isOwner && (
                           <button
@@ -452,13 +348,21 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
                   />
                   <select
                     value={newUserPermission}
-                    onChange={(e) => setNewUserPermission(e.target.value as any)}
+                    onChange={(e) => setNewUserPermission(e.target.value as PermissionLevel)}
                     className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
                     <option value="read">Read</option>
                     <option value="write">Write</option>
                     <option value="admin">Admin</option>
                   </select>
+                  <select
+                    value={newUserEffect}
+                    onChange={(e) => setNewUserEffect(e.target.value as PermissionEffect)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="allow">Allow</option>
+                    <option value="deny">Deny</option>
+                  </select>
                   <button
                     type="submit"
                     className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded"
@@ -481,16 +385,15 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
                       key={perm.group_id}
                       className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded"
                     >
-                      <span className="text-gray-700 dark:text-gray-300">{perm.group_name}</span>
+                      <span className="text-gray-700 dark:text-gray-300">
+                        {SYSTEM_GROUP_LABELS[perm.group_id] ?? perm.group_name}
+                      </span>
                       <div className="flex items-center gap-2">
-                        <span className={`px-3 py-1 rounded-full text-sm ${
-                          perm.permission_level === 'admin'
-                            ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
-                            : perm.permission_level === 'write'
-                            ? 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
-                            : 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
-                        }`}>
-                          {perm.permission_level}
+                        <span
+                          className={`px-3 py-1 rounded-full text-sm ${badgeClass(perm.permission_level, perm.effect)}`}
+                          title={perm.effect === 'deny' ? `Denies ${perm.permission_level} and above` : undefined}
+                        >
+                          {perm.effect === 'deny' ? `deny ${perm.permission_level}` : perm.permission_level}
                         </span>
                         {isOwner && (
                           <button
@@ -516,18 +419,35 @@ export const DocumentPermissionsModal: React.FC<DocumentPermissionsModalProps> =
                     onChange={(e) => setSelectedGroup(e.target.value)}
                     className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
-                    <option value="_EVERYONE">Everyone (Public)</option>
-                    <option value="_LOGGED_IN">Logged In Users</option>
+                    {groups.length === 0 && (
+                      <>
+                        <option value="_EVERYONE">{SYSTEM_GROUP_LABELS._EVERYONE}</option>
+                        <option value="_LOGGED_IN">{SYSTEM_GROUP_LABELS._LOGGED_IN}</option>
+                      </>
+                    )}
+                    {groups.map((group) => (
+                      <option key={group.id} value={group.id}>
+                        {SYSTEM_GROUP_LABELS[group.id] ?? `${group.name} (${group.member_count})`}
+                      </option>
+                    ))}
                   </select>
                   <select
                     value={newGroupPermission}
-                    onChange={(e) => setNewGroupPermission(e.target.value as any)}
+                    onChange={(e) => setNewGroupPermission(e.target.value as PermissionLevel)}
                     className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
                     <option value="read">Read</option>
                     <option value="write">Write</option>
                     <option value="admin">Admin</option>
                   </select>
+                  <select
+                    value={newGroupEffect}
+                    onChange={(e) => setNewGroupEffect(e.target.value as PermissionEffect)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="allow">Allow</option>
+                    <option value="deny">Deny</option>
+                  </select>
                   <button
                     type="submit"
                     className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded"
@@ -0,0 +1,75 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { useState } from 'react';
+import { api, type DocumentSearchParams } from '../lib/api';
+
+const PAGE_SIZE = 20;
+const MAX_RESULTS = 100;
+
+interface DocumentSearchResultsProps {
+  query: string;
+  archived: DocumentSearchParams['archived'];
+  ownOnly: boolean;
+  tag?: string;
+}
+
+/**
+ * Full-text search results with highlighted matches
+ */
+export function DocumentSearchResults({ query, archived, ownOnly, tag }: DocumentSearchResultsProps) {
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['document-search', query, archived, ownOnly, tag, limit],
+    queryFn: () => api.searchDocuments({ q: query, archived, owner: ownOnly ? 'me' : undefined, tag, limit }),
+    placeholderData: (previous) => previous,
+  });
+
+  if (isLoading) {
+    return <div className="text-center text-gray-400 mt-8">Suche...</div>;
+  }
+
+  if (error) {
+    const message = (error as any).response?.data?.message || 'Die Suche ist fehlgeschlagen.';
+    return <div className="text-center text-red-400 mt-8">❌ {message}</div>;
+  }
+
+  if (!data || data.results.length === 0) {
+    return <div className="text-center text-gray-400 mt-8">Keine Treffer für „{query}“.</div>;
+  }
+
+  return (
+    <div className="space-y-3 max-w-4xl">
+      <div className="text-sm text-gray-400">
+        {data.total} Treffer{isFetching && ' · aktualisiere...'}
+      </div>
+      {data.results.map(result => (
+        <Link
+          key={result.id}
+          to={`/documents/${result.id}`}
+          className="block card hover:shadow-lg transition-all search-result"
+        >
+          <h3
+            className="font-semibold text-lg text-white"
+            dangerouslySetInnerHTML={{ __html: result.titleHighlight }}
+          />
+          {result.snippet && (
+            <p
+              className="text-sm text-gray-400 mt-1"
+              dangerouslySetInnerHTML={{ __html: result.snippet }}
+            />
+          )}
+          <div className="mt-2 flex gap-3 text-xs text-gray-500">
+            {result.is_archived ? <span>📦 Archiviert</span> : null}
+            <span>Bearbeitet: {new Date(Number(result.updated_at)).toLocaleDateString('de-DE')}</span>
+          </div>
+        </Link>
+      ))}
+      {data.total > data.results.length && limit < MAX_RESULTS && (
+        <button onClick={() => setLimit(Math.min(limit + PAGE_SIZE, MAX_RESULTS))} className="btn-secondary w-full">
+          Weitere Treffer laden
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { api, type TagSuggestion } from '../lib/api';
+import { TagChips } from './TagChips';
+
+interface DocumentTagsModalProps {
+  documentId: string;
+  documentTitle: string;
+  onClose: () => void;
+}
+
+/**
+ * Assign and remove tags of a document, with AI suggestions from its summary
+ */
+export function DocumentTagsModal({ documentId, documentTitle, onClose }: DocumentTagsModalProps) {
+  const queryClient = useQueryClient();
+  const [tagName, setTagName] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: documentTags, isLoading } = useQuery({
+    queryKey: ['document-tags', documentId],
+    queryFn: () => api.getDocumentTags(documentId),
+  });
+
+  const { data: allTags } = useQuery({
+    queryKey: ['tags'],
+    queryFn: () => api.getTags(),
+  });
+
+  const onChanged = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['document-tags', documentId] });
+    queryClient.invalidateQueries({ queryKey: ['tags'] });
+    queryClient.invalidateQueries({ queryKey: ['documents'] });
+    queryClient.invalidateQueries({ queryKey: ['documents-archived'] });
+  };
+
+  const onError = (err: any) => {
+    setError(err.response?.data?.message || 'Tags konnten nicht gespeichert werden.');
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (name: string) => api.addDocumentTag(documentId, { name }),
+    onSuccess: (_data, name) => {
+      setTagName('');
+      setSuggestions(current => current?.filter(s => s.name.toLowerCase() !== name.toLowerCase()) ?? null);
+      onChanged();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (tagId: string) => api.removeDocumentTag(documentId, tagId),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: () => api.suggestDocumentTags(documentId),
+    onSuccess: (data) => setSuggestions(data.suggestions),
+    onError: (err: any) => setError(err.response?.data?.message || 'Vorschläge konnten nicht erstellt werden.'),
+  });
+
+  const assigned = documentTags?.tags || [];
+  const assignedIds = new Set(assigned.map(tag => tag.id));
+  const available = (allTags?.tags || []).filter(tag => !assignedIds.has(tag.id));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tagName.trim()) {
+      addMutation.mutate(tagName.trim());
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg p-6 max-w-md w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Tags bearbeiten</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-3">
+          Tags für: <span className="text-white font-semibold">{documentTitle}</span>
+        </p>
+
+        <div className="mb-4 min-h-[2rem]">
+          {isLoading ? (
+            <span className="text-sm text-gray-400">Lade Tags...</span>
+          ) : assigned.length === 0 ? (
+            <span className="text-sm text-gray-500">Noch keine Tags</span>
+          ) : (
+            <TagChips tags={assigned} onRemove={(tag) => removeMutation.mutate(tag.id)} />
+          )}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={tagName}
+            onChange={(e) => setTagName(e.target.value)}
+            list="document-tags-modal-options"
+            maxLength={50}
+            placeholder="Tag hinzufügen..."
+            className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <datalist id="document-tags-modal-options">
+            {available.map(tag => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+          </datalist>
+          <button type="submit" disabled={!tagName.trim() || addMutation.isPending} className="btn-primary">
+            {addMutation.isPending ? '...' : 'Hinzufügen'}
+          </button>
+        </form>
+
+        <div className="border-t border-gray-700 pt-4">
+          <button
+            onClick={() => suggestMutation.mutate()}
+            disabled={suggestMutation.isPending}
+            className="btn-secondary w-full"
+          >
+            {suggestMutation.isPending ? '✨ Analysiere Dokument...' : '✨ KI-Vorschläge'}
+          </button>
+
+          {suggestions && (
+            <div className="mt-3">
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">Keine Vorschläge gefunden.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {suggestions.map(suggestion => (
+                    <button
+                      key={suggestion.name}
+                      onClick={() => addMutation.mutate(suggestion.name)}
+                      disabled={addMutation.isPending}
+                      className="px-2 py-0.5 rounded-full text-xs border border-dashed border-gray-500 text-gray-300 hover:border-blue-500 hover:text-white"
+                      title={suggestion.tagId ? 'Vorhandenen Tag zuweisen' : 'Neuen Tag anlegen und zuweisen'}
+                    >
+                      + {suggestion.name}{!suggestion.tagId && ' (neu)'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-400 mt-3">❌ {error}</p>}
+
+        <div className="flex gap-2 justify-end mt-4">
+          <button onClick={onClose} className="btn-secondary">
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
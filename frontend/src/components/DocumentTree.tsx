@@ -0,0 +1,244 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { api, type DocumentTreeNode } from '../lib/api';
+
+type DropZone = 'before' | 'inside' | 'after';
+
+interface DropTarget {
+  id: string;
+  zone: DropZone;
+}
+
+interface DocumentTreeProps {
+  includeArchived?: boolean;
+}
+
+function containsNode(node: DocumentTreeNode, id: string): boolean {
+  return node.id === id || node.children.some(child => containsNode(child, id));
+}
+
+function findNode(nodes: DocumentTreeNode[], id: string): DocumentTreeNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findNode(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Documents as an outline. Drag a document onto the upper or lower edge of
+ * another one to place it before or after, onto the middle to nest it.
+ */
+export function DocumentTree({ includeArchived = false }: DocumentTreeProps) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['document-tree', includeArchived],
+    queryFn: () => api.getDocumentTree({ include_archived: includeArchived }),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ id, parentId, position }: { id: string; parentId: string | null; position?: number }) =>
+      api.moveDocument(id, parentId, position),
+    onSuccess: () => {
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['document-tree'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['document-breadcrumbs'] });
+    },
+    onError: (err: any) => {
+      setError(err.response?.data?.message || 'Das Dokument konnte nicht verschoben werden.');
+    },
+  });
+
+  const createChildMutation = useMutation({
+    mutationFn: (parentId: string) => api.createDocument({
+      title: 'Neues Unterdokument',
+      content: '# Neues Unterdokument\n\nBeginne hier mit deinem Inhalt...',
+      parent_id: parentId,
+    }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['document-tree'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      navigate(`/documents/${result.document.id}`);
+    },
+    onError: (err: any) => {
+      setError(err.response?.data?.message || 'Das Unterdokument konnte nicht erstellt werden.');
+    },
+  });
+
+  const handleExport = async (node: DocumentTreeNode) => {
+    try {
+      const blob = await api.exportDocument({
+        documentId: node.id,
+        format: 'markdown',
+        options: { includeChildren: true },
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${node.slug}${node.children.length > 0 ? '-bundle' : ''}.md`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Der Export ist fehlgeschlagen.');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const zoneFor = (e: React.DragEvent<HTMLDivElement>): DropZone => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+  };
+
+  const handleDrop = (target: DocumentTreeNode, zone: DropZone) => {
+    const dragged = draggedId && data ? findNode(data.tree, draggedId) : undefined;
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!dragged || containsNode(dragged, target.id)) return;
+
+    if (zone === 'inside') {
+      moveMutation.mutate({ id: dragged.id, parentId: target.id });
+      setCollapsed(current => {
+        const next = new Set(current);
+        next.delete(target.id);
+        return next;
+      });
+      return;
+    }
+
+    // Positions are counted without the dragged document itself
+    let position = target.position + (zone === 'after' ? 1 : 0);
+    if (dragged.parent_id === target.parent_id && dragged.position < target.position) {
+      position -= 1;
+    }
+    moveMutation.mutate({ id: dragged.id, parentId: target.parent_id, position });
+  };
+
+  const renderNode = (node: DocumentTreeNode, depth: number) => {
+    const isCollapsed = collapsed.has(node.id);
+    const isTarget = dropTarget?.id === node.id;
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedId(node.id);
+          }}
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropTarget(null);
+          }}
+          onDragOver={(e) => {
+            const dragged = draggedId && data ? findNode(data.tree, draggedId) : undefined;
+            if (!dragged || containsNode(dragged, node.id)) return;
+            e.preventDefault();
+            const zone = zoneFor(e);
+            if (dropTarget?.id !== node.id || dropTarget.zone !== zone) {
+              setDropTarget({ id: node.id, zone });
+            }
+          }}
+          onDragLeave={() => isTarget && setDropTarget(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(node, zoneFor(e));
+          }}
+          className={`group flex items-center gap-2 py-1.5 pr-2 rounded border-y-2 ${
+            isTarget && dropTarget.zone === 'before' ? 'border-t-blue-500' : 'border-t-transparent'
+          } ${
+            isTarget && dropTarget.zone === 'after' ? 'border-b-blue-500' : 'border-b-transparent'
+          } ${
+            isTarget && dropTarget.zone === 'inside' ? 'bg-blue-900/40' : 'hover:bg-gray-800'
+          } ${draggedId === node.id ? 'opacity-50' : ''}`}
+          style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+        >
+          <button
+            onClick={() => toggle(node.id)}
+            className={`w-4 text-gray-400 hover:text-white ${node.children.length === 0 ? 'invisible' : ''}`}
+            title={isCollapsed ? 'Aufklappen' : 'Zuklappen'}
+          >
+            {isCollapsed ? '▸' : '▾'}
+          </button>
+          <span className="cursor-grab text-gray-500" title="Ziehen zum Verschieben">⠿</span>
+          <Link to={`/documents/${node.id}`} className="flex-1 truncate text-white hover:text-blue-300">
+            {node.is_pinned ? '📌 ' : ''}{node.title}
+          </Link>
+          {node.is_archived ? <span className="text-xs text-gray-500">📦</span> : null}
+          {node.children.length > 0 && (
+            <span className="text-xs text-gray-500">{node.children.length}</span>
+          )}
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => createChildMutation.mutate(node.id)}
+              disabled={createChildMutation.isPending}
+              className="text-gray-400 hover:text-white px-1"
+              title="Unterdokument erstellen"
+            >
+              +
+            </button>
+            <button
+              onClick={() => handleExport(node)}
+              className="text-gray-400 hover:text-white px-1"
+              title="Mit Unterdokumenten als Markdown exportieren"
+            >
+              ⬇️
+            </button>
+          </div>
+        </div>
+        {!isCollapsed && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return <div className="text-center text-gray-400 mt-8">Lade Dokumente...</div>;
+  }
+
+  if (!data || data.tree.length === 0) {
+    return <div className="text-center text-gray-400 mt-8">Keine Dokumente vorhanden</div>;
+  }
+
+  return (
+    <div className="max-w-4xl">
+      {error && <div className="mb-3 text-sm text-red-400">❌ {error}</div>}
+      <div className="card p-2">
+        {data.tree.map(node => renderNode(node, 0))}
+      </div>
+      <div
+        onDragOver={(e) => draggedId && e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (draggedId) moveMutation.mutate({ id: draggedId, parentId: null });
+          setDraggedId(null);
+          setDropTarget(null);
+        }}
+        className={`mt-2 p-3 text-center text-sm text-gray-500 border-2 border-dashed rounded ${
+          draggedId ? 'border-gray-600' : 'border-transparent'
+        }`}
+      >
+        {draggedId ? 'Hier ablegen, um auf oberste Ebene zu verschieben' : ''}
+      </div>
+    </div>
+  );
+}
@@ -57,12 +57,32 @@ export function Layout() {
           </Link>
 
           <Link
-            to="/mcp-servers"
-            className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${isActive('/mcp-servers')}`}
+            to="/groups"
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${isActive('/groups')}`}
           >
-            <span>⚙️</span>
-            <span>MCP Server</span>
+            <span>👥</span>
+            <span>Gruppen</span>
           </Link>
+
+          {user?.role === 'admin' && (
+            <>
+              <Link
+                to="/mcp-servers"
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${isActive('/mcp-servers')}`}
+              >
+                <span>⚙️</span>
+                <span>MCP Server</span>
+              </Link>
+
+              <Link
+                to="/admin"
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${isActive('/admin')}`}
+              >
+                <span>🛡️</span>
+                <span>Administration</span>
+              </Link>
+            </>
+          )}
         </nav>
         
         <div className="p-4 border-t border-gray-700">
@@ -78,9 +98,9 @@ export function Layout() {
           
           {/* User info and logout */}
           <div className="pt-3 border-t border-gray-600">
-            <div className="text-sm text-gray-300 mb-2">
+            <Link to="/profile" className="block text-sm text-gray-300 hover:text-white mb-2" title="Profil und Sitzungen">
               👤 {user?.username || user?.email}
-            </div>
+            </Link>
             <button
               onClick={handleLogout}
               className="w-full px-3 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
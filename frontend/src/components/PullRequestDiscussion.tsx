@@ -0,0 +1,287 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import {
+  api,
+  type CreatePullRequestCommentData,
+  type PullRequestComment,
+  type PullRequestThread,
+  type PullRequestTimelineEntry,
+} from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const TIMELINE_LABELS: Record<PullRequestTimelineEntry['type'], string> = {
+  opened: '📬 hat den Pull Request erstellt',
+  comment: '💬 hat kommentiert',
+  updated: '🔄 hat den Pull Request aktualisiert',
+  changes_requested: '✋ hat Änderungen angefordert',
+  merged: '✅ hat den Pull Request übernommen',
+  rejected: '❌ hat den Pull Request abgelehnt',
+};
+
+function authorName(entry: { display_name: string | null; username: string | null }) {
+  return entry.display_name || entry.username || 'Unbekannt';
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleString('de-DE');
+}
+
+function usePullRequestComments(prId: string) {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['pull-request-comments', prId] });
+    queryClient.invalidateQueries({ queryKey: ['pull-request-timeline', prId] });
+  };
+
+  const onError = (error: any) => {
+    alert(`❌ ${error.response?.data?.message || 'Kommentar konnte nicht gespeichert werden.'}`);
+  };
+
+  const createComment = useMutation({
+    mutationFn: (comment: CreatePullRequestCommentData) => api.createPullRequestComment(prId, comment),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateComment = useMutation({
+    mutationFn: ({ commentId, body }: { commentId: string; body: string }) =>
+      api.updatePullRequestComment(prId, commentId, body),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteComment = useMutation({
+    mutationFn: (commentId: string) => api.deletePullRequestComment(prId, commentId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return { createComment, updateComment, deleteComment };
+}
+
+function CommentForm({
+  placeholder,
+  submitLabel,
+  isPending,
+  initialValue = '',
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  initialValue?: string;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialValue);
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+        onSubmit(body.trim());
+        setBody('');
+      }}
+    >
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full bg-gray-800 text-gray-200 text-sm p-2 rounded border border-gray-700 focus:border-blue-600 outline-none"
+      />
+      <div className="flex gap-2 justify-end">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-xs text-gray-400 hover:text-gray-200">
+            Abbrechen
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isPending || !body.trim()}
+          className="px-3 py-1 text-xs bg-blue-900 text-blue-200 rounded hover:bg-blue-800 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function CommentView({ prId, comment }: { prId: string; comment: PullRequestComment }) {
+  const { user } = useAuth();
+  const { updateComment, deleteComment } = usePullRequestComments(prId);
+  const [editing, setEditing] = useState(false);
+  const isAuthor = user?.id === comment.user_id;
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="font-semibold text-gray-300">{authorName(comment)}</span>
+        <span>{formatDate(comment.created_at)}</span>
+        {comment.updated_at > comment.created_at && <span>(bearbeitet)</span>}
+        {isAuthor && !editing && (
+          <span className="ml-auto flex gap-2">
+            <button onClick={() => setEditing(true)} className="hover:text-gray-300">Bearbeiten</button>
+            <button
+              onClick={() => {
+                if (confirm('Kommentar löschen?')) deleteComment.mutate(comment.id);
+              }}
+              className="hover:text-red-400"
+            >
+              Löschen
+            </button>
+          </span>
+        )}
+      </div>
+      {editing ? (
+        <CommentForm
+          placeholder="Kommentar bearbeiten..."
+          submitLabel="Speichern"
+          initialValue={comment.body}
+          isPending={updateComment.isPending}
+          onSubmit={(body) => {
+            updateComment.mutate({ commentId: comment.id, body });
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <p className="text-gray-200 whitespace-pre-wrap mt-1">{comment.body}</p>
+      )}
+    </div>
+  );
+}
+
+function CommentThreadView({ prId, thread }: { prId: string; thread: PullRequestThread }) {
+  const { createComment } = usePullRequestComments(prId);
+  const [replying, setReplying] = useState(false);
+
+  return (
+    <div className="bg-gray-800 rounded p-3 space-y-3 border border-gray-700">
+      {thread.outdated && (
+        <div className="text-xs text-yellow-500">Veraltet: Die kommentierte Änderung ist nicht mehr Teil des Pull Requests.</div>
+      )}
+      <CommentView prId={prId} comment={thread} />
+      {thread.replies.map(reply => (
+        <div key={reply.id} className="pl-4 border-l border-gray-700">
+          <CommentView prId={prId} comment={reply} />
+        </div>
+      ))}
+      {replying ? (
+        <CommentForm
+          placeholder="Antworten..."
+          submitLabel="Antworten"
+          isPending={createComment.isPending}
+          onSubmit={(body) => {
+            createComment.mutate({ body, parentId: thread.id });
+            setReplying(false);
+          }}
+          onCancel={() => setReplying(false)}
+        />
+      ) : (
+        <button onClick={() => setReplying(true)} className="text-xs text-blue-400 hover:text-blue-300">
+          ↩ Antworten
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function usePullRequestThreads(prId: string | undefined) {
+  return useQuery({
+    queryKey: ['pull-request-comments', prId],
+    queryFn: () => api.getPullRequestComments(prId!),
+    enabled: !!prId,
+  });
+}
+
+/**
+ * Review threads anchored to one diff hunk, plus a form to start a new one
+ */
+export function HunkComments({ prId, hunkId, threads }: { prId: string; hunkId: string; threads: PullRequestThread[] }) {
+  const { createComment } = usePullRequestComments(prId);
+  const [commenting, setCommenting] = useState(false);
+  const hunkThreads = threads.filter(thread => thread.hunk_id === hunkId);
+
+  return (
+    <div className="px-3 pb-3 space-y-2">
+      {hunkThreads.map(thread => (
+        <CommentThreadView key={thread.id} prId={prId} thread={thread} />
+      ))}
+      {commenting ? (
+        <CommentForm
+          placeholder="Kommentar zu dieser Änderung..."
+          submitLabel="Kommentieren"
+          isPending={createComment.isPending}
+          onSubmit={(body) => {
+            createComment.mutate({ body, hunkId });
+            setCommenting(false);
+          }}
+          onCancel={() => setCommenting(false)}
+        />
+      ) : (
+        <button onClick={() => setCommenting(true)} className="text-xs text-blue-400 hover:text-blue-300">
+          💬 Kommentieren
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Chronological history of a pull request with general discussion threads
+ */
+export function PullRequestTimeline({ prId, threads }: { prId: string; threads: PullRequestThread[] }) {
+  const { createComment } = usePullRequestComments(prId);
+  const { data, isLoading } = useQuery({
+    queryKey: ['pull-request-timeline', prId],
+    queryFn: () => api.getPullRequestTimeline(prId),
+  });
+
+  // General threads and outdated hunk threads are discussed below the timeline
+  const discussionThreads = threads.filter(thread => !thread.hunk_id || thread.outdated);
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-semibold text-gray-300">Verlauf</h4>
+      {isLoading ? (
+        <div className="text-sm text-gray-400">Lade Verlauf...</div>
+      ) : (
+        <ol className="border-l border-gray-700 ml-2 space-y-3">
+          {data?.timeline.map(entry => (
+            <li key={`${entry.type}-${entry.id}`} className="pl-4 text-sm">
+              <div className="text-gray-400">
+                <span className="font-semibold text-gray-200">{authorName(entry)}</span>{' '}
+                {entry.type === 'comment' && entry.parent_id
+                  ? '↩ hat geantwortet'
+                  : entry.type === 'comment' && entry.hunk_id
+                    ? '💬 hat eine Änderung kommentiert'
+                    : TIMELINE_LABELS[entry.type]}
+                <span className="text-xs text-gray-500 ml-2">{formatDate(entry.created_at)}</span>
+              </div>
+              {entry.message && (
+                <p className="text-gray-300 whitespace-pre-wrap mt-1 line-clamp-3">{entry.message}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <h4 className="text-sm font-semibold text-gray-300">Diskussion</h4>
+      {discussionThreads.map(thread => (
+        <CommentThreadView key={thread.id} prId={prId} thread={thread} />
+      ))}
+      <CommentForm
+        placeholder="Allgemeiner Kommentar zum Pull Request..."
+        submitLabel="Kommentieren"
+        isPending={createComment.isPending}
+        onSubmit={(body) => createComment.mutate({ body })}
+      />
+    </div>
+  );
+}
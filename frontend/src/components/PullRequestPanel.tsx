@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '../lib/api';
-import { useState } from 'react';
+import { api, type AcceptPullRequestOptions, type PullRequestHunk } from '../lib/api';
+import { useEffect, useState, type ReactNode } from 'react';
+import { HunkComments, PullRequestTimeline, usePullRequestThreads } from './PullRequestDiscussion';
 
 interface PullRequest {
   id: string;
@@ -10,7 +11,8 @@ interface PullRequest {
   fork_slug: string;
   pull_request_message: string;
   pull_request_diff: string;
-  status: 'pending' | 'merged' | 'rejected';
+  status: 'pending' | 'changes_requested' | 'merged' | 'rejected';
+  comment_count: number;
   created_at: number;
 }
 
@@ -20,10 +22,56 @@ interface PullRequestPanelProps {
   onClose: () => void;
 }
 
+function HunkView({
+  hunk,
+  selected,
+  conflicting,
+  onToggle,
+  children,
+}: {
+  hunk: PullRequestHunk;
+  selected: boolean;
+  conflicting: boolean;
+  onToggle: () => void;
+  children?: ReactNode;
+}) {
+  return (
+    <div className={`bg-gray-900 rounded-lg border ${conflicting ? 'border-yellow-700' : 'border-gray-700'}`}>
+      <label className="flex items-center gap-3 px-4 py-2 border-b border-gray-700 cursor-pointer">
+        <input type="checkbox" checked={selected} onChange={onToggle} />
+        <span className="text-sm text-gray-300">
+          {hunk.section ? `§ ${hunk.section}` : 'Dokumentanfang'}
+          <span className="text-gray-500"> · Zeile {hunk.baseStart + 1}</span>
+        </span>
+        {conflicting && (
+          <span className="ml-auto text-xs text-yellow-400">⚠️ Konflikt mit Änderungen im Original</span>
+        )}
+      </label>
+      <pre className="text-xs font-mono whitespace-pre-wrap p-3 overflow-auto max-h-80">
+        {hunk.contextBefore.map((line, i) => (
+          <div key={`b${i}`} className="text-gray-500">{'  '}{line}</div>
+        ))}
+        {hunk.removed.map((line, i) => (
+          <div key={`r${i}`} className="text-red-300 bg-red-950/50">{'- '}{line}</div>
+        ))}
+        {hunk.added.map((line, i) => (
+          <div key={`a${i}`} className="text-green-300 bg-green-950/50">{'+ '}{line}</div>
+        ))}
+        {hunk.contextAfter.map((line, i) => (
+          <div key={`c${i}`} className="text-gray-500">{'  '}{line}</div>
+        ))}
+      </pre>
+      {children}
+    </div>
+  );
+}
+
 export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPanelProps) {
   const queryClient = useQueryClient();
   const [selectedPR, setSelectedPR] = useState<PullRequest | null>(null);
   const [showDiff, setShowDiff] = useState(false);
+  const [selectedHunks, setSelectedHunks] = useState<Set<string>>(new Set());
+  const [conflictContent, setConflictContent] = useState<string | null>(null);
 
   const { data, isLoading } = useQuery({
     queryKey: ['pull-requests', documentId],
@@ -31,17 +79,57 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
     enabled: isOpen,
   });
 
+  const { data: diff, isLoading: isDiffLoading, isError: isDiffError } = useQuery({
+    queryKey: ['pull-request-diff', selectedPR?.id],
+    queryFn: () => api.getPullRequestDiff(selectedPR!.id),
+    enabled: isOpen && showDiff && !!selectedPR,
+  });
+
+  const { data: comments } = usePullRequestThreads(showDiff ? selectedPR?.id : undefined);
+  const threads = comments?.threads ?? [];
+
+  // Select every hunk when a pull request is opened
+  useEffect(() => {
+    setSelectedHunks(new Set(diff?.hunks.map(hunk => hunk.id) ?? []));
+    setConflictContent(null);
+  }, [diff]);
+
+  const closeDiff = () => {
+    setShowDiff(false);
+    setSelectedPR(null);
+    setConflictContent(null);
+  };
+
   const acceptMutation = useMutation({
-    mutationFn: (prId: string) => api.acceptPullRequest(prId),
-    onSuccess: () => {
+    mutationFn: ({ prId, options }: { prId: string; options: AcceptPullRequestOptions }) =>
+      api.acceptPullRequest(prId, options),
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['pull-requests', documentId] });
       queryClient.invalidateQueries({ queryKey: ['document', documentId] });
-      setSelectedPR(null);
-      setShowDiff(false);
-      alert('✅ Pull Request erfolgreich akzeptiert und übernommen!');
+      closeDiff();
+      alert(result.acceptedHunks < result.totalHunks
+        ? `✅ ${result.acceptedHunks} von ${result.totalHunks} Änderungen übernommen!`
+        : '✅ Pull Request erfolgreich akzeptiert und übernommen!');
+    },
+    onError: (error: any) => {
+      if (error.response?.status === 409) {
+        // Let the user resolve the conflict markers by hand
+        setConflictContent(error.response.data.content);
+        return;
+      }
+      alert(`❌ Fehler beim Akzeptieren des Pull Requests: ${error.response?.data?.message || error.message}`);
+    },
+  });
+
+  const requestChangesMutation = useMutation({
+    mutationFn: ({ prId, message }: { prId: string; message?: string }) => api.requestPullRequestChanges(prId, message),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pull-requests', documentId] });
+      queryClient.invalidateQueries({ queryKey: ['pull-request-timeline', selectedPR?.id] });
+      setSelectedPR(prev => (prev ? { ...prev, status: 'changes_requested' } : prev));
     },
     onError: () => {
-      alert('❌ Fehler beim Akzeptieren des Pull Requests.');
+      alert('❌ Fehler beim Anfordern von Änderungen.');
     },
   });
 
@@ -49,8 +137,7 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
     mutationFn: (prId: string) => api.rejectPullRequest(prId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['pull-requests', documentId] });
-      setSelectedPR(null);
-      setShowDiff(false);
+      closeDiff();
       alert('Pull Request abgelehnt.');
     },
     onError: () => {
@@ -61,17 +148,40 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
   if (!isOpen) return null;
 
   const pullRequests = data?.pullRequests || [];
-  const pendingPRs = pullRequests.filter((pr: PullRequest) => pr.status === 'pending');
-
-  const getDiff = (pr: PullRequest) => {
-    try {
-      const diff = JSON.parse(pr.pull_request_diff);
-      return diff;
-    } catch {
-      return null;
+  const pendingPRs = pullRequests.filter(
+    (pr: PullRequest) => pr.status === 'pending' || pr.status === 'changes_requested'
+  );
+
+  const toggleHunk = (hunkId: string) => {
+    setSelectedHunks(prev => {
+      const next = new Set(prev);
+      if (next.has(hunkId)) next.delete(hunkId);
+      else next.add(hunkId);
+      return next;
+    });
+  };
+
+  const acceptSelected = () => {
+    if (!selectedPR || !diff) return;
+    const partial = selectedHunks.size < diff.hunks.length;
+    const question = partial
+      ? `Möchten Sie ${selectedHunks.size} von ${diff.hunks.length} Änderungen übernehmen? Dies wird Ihr Dokument aktualisieren.`
+      : 'Möchten Sie diese Änderungen wirklich übernehmen? Dies wird Ihr Dokument aktualisieren.';
+    if (confirm(question)) {
+      acceptMutation.mutate({ prId: selectedPR.id, options: { hunkIds: [...selectedHunks] } });
     }
   };
 
+  const acceptResolved = () => {
+    if (!selectedPR || conflictContent === null) return;
+    acceptMutation.mutate({
+      prId: selectedPR.id,
+      options: { hunkIds: [...selectedHunks], resolvedContent: conflictContent },
+    });
+  };
+
+  const hasUnresolvedMarkers = conflictContent !== null && /^(<{7}|={7}|>{7})( |$)/m.test(conflictContent);
+
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
@@ -115,10 +225,7 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
             /* Diff View */
             <div className="space-y-4">
               <button
-                onClick={() => {
-                  setShowDiff(false);
-                  setSelectedPR(null);
-                }}
+                onClick={closeDiff}
                 className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
               >
                 ← Zurück zur Liste
@@ -133,44 +240,87 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
                 </p>
                 <p className="text-xs text-gray-500">
                   Erstellt am {new Date(selectedPR.created_at).toLocaleString('de-DE')}
+                  {selectedPR.status === 'changes_requested' && (
+                    <span className="ml-2 text-yellow-400">✋ Änderungen angefordert</span>
+                  )}
                 </p>
               </div>
 
               {/* Diff Display */}
-              {(() => {
-                const diff = getDiff(selectedPR);
-                if (!diff) {
-                  return (
-                    <div className="text-gray-400">
-                      Diff konnte nicht geladen werden.
-                    </div>
-                  );
-                }
-
-                return (
-                  <div className="grid grid-cols-2 gap-4">
-                    {/* Original */}
-                    <div className="bg-gray-900 rounded-lg p-4 border border-red-900">
-                      <h4 className="text-sm font-semibold text-red-400 mb-3">
-                        ❌ Aktueller Stand (Original)
-                      </h4>
-                      <pre className="text-xs text-gray-300 whitespace-pre-wrap font-mono max-h-96 overflow-auto">
-                        {diff.source}
-                      </pre>
+              {isDiffLoading ? (
+                <div className="text-center text-gray-400 py-8">Lade Änderungen...</div>
+              ) : isDiffError || !diff ? (
+                <div className="text-gray-400">
+                  Diff konnte nicht geladen werden.
+                </div>
+              ) : conflictContent !== null ? (
+                /* Manual conflict resolution */
+                <div className="space-y-3">
+                  <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-3 text-sm text-yellow-200">
+                    ⚠️ Die ausgewählten Änderungen überschneiden sich mit Änderungen, die seit dem Fork im Original
+                    gemacht wurden. Lösen Sie die markierten Konflikte auf (<code>{'<<<<<<<'}</code> Original,
+                    <code> =======</code>, <code>{'>>>>>>>'}</code> Fork) und übernehmen Sie das Ergebnis.
+                  </div>
+                  <textarea
+                    value={conflictContent}
+                    onChange={(e) => setConflictContent(e.target.value)}
+                    className="w-full h-96 bg-gray-900 text-gray-200 font-mono text-xs p-3 rounded-lg border border-gray-700"
+                    spellCheck={false}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {diff.sourceChanged && (
+                    <div className="bg-blue-900/30 border border-blue-800 rounded-lg p-3 text-sm text-blue-200">
+                      ℹ️ Das Original wurde seit dem Fork geändert. Diese Änderungen bleiben beim Übernehmen erhalten.
+                      {diff.conflictingHunkIds.length > 0 && (
+                        <> {diff.conflictingHunkIds.length} Änderung(en) stehen im Konflikt und müssen manuell aufgelöst werden.</>
+                      )}
                     </div>
+                  )}
 
-                    {/* Proposed Changes */}
-                    <div className="bg-gray-900 rounded-lg p-4 border border-green-900">
-                      <h4 className="text-sm font-semibold text-green-400 mb-3">
-                        ✅ Vorgeschlagene Änderungen (Fork)
-                      </h4>
-                      <pre className="text-xs text-gray-300 whitespace-pre-wrap font-mono max-h-96 overflow-auto">
-                        {diff.fork}
-                      </pre>
-                    </div>
+                  {diff.hunks.length === 0 ? (
+                    <div className="text-gray-400">Keine Änderungen gegenüber dem Original.</div>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between text-sm text-gray-400">
+                        <span>
+                          {selectedHunks.size} von {diff.hunks.length} Änderungen ausgewählt
+                        </span>
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => setSelectedHunks(new Set(diff.hunks.map(hunk => hunk.id)))}
+                            className="text-blue-400 hover:text-blue-300"
+                          >
+                            Alle auswählen
+                          </button>
+                          <button
+                            onClick={() => setSelectedHunks(new Set())}
+                            className="text-blue-400 hover:text-blue-300"
+                          >
+                            Keine
+                          </button>
+                        </div>
+                      </div>
+                      {diff.hunks.map(hunk => (
+                        <HunkView
+                          key={hunk.id}
+                          hunk={hunk}
+                          selected={selectedHunks.has(hunk.id)}
+                          conflicting={diff.conflictingHunkIds.includes(hunk.id)}
+                          onToggle={() => toggleHunk(hunk.id)}
+                        >
+                          <HunkComments prId={selectedPR.id} hunkId={hunk.id} threads={threads} />
+                        </HunkView>
+                      ))}
+                    </>
+                  )}
+
+                  <div className="pt-4 border-t border-gray-700">
+                    <PullRequestTimeline prId={selectedPR.id} threads={threads} />
                   </div>
-                );
-              })()}
+                </div>
+              )}
 
               {/* Actions */}
               <div className="flex gap-3 justify-end pt-4 border-t border-gray-700">
@@ -181,17 +331,50 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
                 >
                   {rejectMutation.isPending ? 'Wird abgelehnt...' : '❌ Ablehnen'}
                 </button>
-                <button
-                  onClick={() => {
-                    if (confirm('Möchten Sie diese Änderungen wirklich übernehmen? Dies wird Ihr Dokument aktualisieren.')) {
-                      acceptMutation.mutate(selectedPR.id);
-                    }
-                  }}
-                  disabled={acceptMutation.isPending}
-                  className="px-4 py-2 bg-green-900 text-green-200 rounded hover:bg-green-800 transition-colors"
-                >
-                  {acceptMutation.isPending ? 'Wird übernommen...' : '✅ Akzeptieren & Übernehmen'}
-                </button>
+                {selectedPR.status === 'pending' && conflictContent === null && (
+                  <button
+                    onClick={() => {
+                      const message = prompt('Welche Änderungen sind nötig? (optional)');
+                      if (message !== null) {
+                        requestChangesMutation.mutate({ prId: selectedPR.id, message: message || undefined });
+                      }
+                    }}
+                    disabled={requestChangesMutation.isPending}
+                    className="px-4 py-2 bg-yellow-900 text-yellow-200 rounded hover:bg-yellow-800 transition-colors"
+                  >
+                    ✋ Änderungen anfordern
+                  </button>
+                )}
+                {conflictContent !== null ? (
+                  <>
+                    <button
+                      onClick={() => setConflictContent(null)}
+                      className="px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+                    >
+                      Abbrechen
+                    </button>
+                    <button
+                      onClick={acceptResolved}
+                      disabled={acceptMutation.isPending || hasUnresolvedMarkers}
+                      title={hasUnresolvedMarkers ? 'Es sind noch Konfliktmarkierungen vorhanden' : undefined}
+                      className="px-4 py-2 bg-green-900 text-green-200 rounded hover:bg-green-800 transition-colors disabled:opacity-50"
+                    >
+                      {acceptMutation.isPending ? 'Wird übernommen...' : '✅ Konfliktlösung übernehmen'}
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={acceptSelected}
+                    disabled={acceptMutation.isPending || !diff || selectedHunks.size === 0}
+                    className="px-4 py-2 bg-green-900 text-green-200 rounded hover:bg-green-800 transition-colors disabled:opacity-50"
+                  >
+                    {acceptMutation.isPending
+                      ? 'Wird übernommen...'
+                      : diff && selectedHunks.size < diff.hunks.length
+                        ? `✅ ${selectedHunks.size} Änderungen übernehmen`
+                        : '✅ Akzeptieren & Übernehmen'}
+                  </button>
+                )}
               </div>
             </div>
           ) : (
@@ -212,6 +395,10 @@ export function PullRequestPanel({ documentId, isOpen, onClose }: PullRequestPan
                       </p>
                       <p className="text-xs text-gray-500">
                         Erstellt am {new Date(pr.created_at).toLocaleString('de-DE')}
+                        {pr.comment_count > 0 && ` · 💬 ${pr.comment_count}`}
+                        {pr.status === 'changes_requested' && (
+                          <span className="ml-2 text-yellow-400">✋ Änderungen angefordert</span>
+                        )}
                       </p>
                     </div>
                     <button
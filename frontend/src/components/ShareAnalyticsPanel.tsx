@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { permissionsApi, type ShareFormat } from '../lib/permissions-api';
+
+const FORMAT_LABELS: Record<ShareFormat, string> = {
+  view: 'Vorschau',
+  html: 'HTML',
+  pdf: 'PDF',
+  docx: 'DOCX',
+  md: 'Markdown',
+  rss: 'RSS',
+};
+
+const PERIODS = [7, 30, 90];
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
+
+function BarList({ rows }: { rows: Array<{ label: string; value: number }> }) {
+  const max = Math.max(1, ...rows.map(row => row.value));
+  return (
+    <div className="space-y-1">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2 text-xs">
+          <span className="w-28 truncate text-gray-700 dark:text-gray-300" title={row.label}>{row.label}</span>
+          <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded">
+            <div className="h-3 bg-blue-500 rounded" style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right text-gray-600 dark:text-gray-400">{row.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Views of a document's share links: per day, format, link and referrer
+ */
+export function ShareAnalyticsPanel({ documentId }: { documentId: string }) {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['share-analytics', documentId, days],
+    queryFn: () => permissionsApi.getShareAnalytics(documentId, days),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Lade Statistik...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-red-600 dark:text-red-400">Statistik konnte nicht geladen werden</p>;
+  }
+
+  const maxDaily = Math.max(1, ...data.daily.map(day => day.views));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-4 text-sm text-gray-900 dark:text-white">
+          <div><span className="text-2xl font-semibold">{data.totals.views}</span> Aufrufe</div>
+          <div><span className="text-2xl font-semibold">{data.totals.uniqueViewers}</span> Besucher</div>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+        >
+          {PERIODS.map(period => (
+            <option key={period} value={period}>Letzte {period} Tage</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <div className="flex items-end gap-px h-24" aria-label="Aufrufe pro Tag">
+          {data.daily.map(day => (
+            <div
+              key={day.date}
+              className="flex-1 bg-blue-500 hover:bg-blue-400 rounded-t min-h-[1px]"
+              style={{ height: `${(day.views / maxDaily) * 100}%` }}
+              title={`${formatDay(day.date)}: ${day.views} Aufrufe, ${day.uniqueViewers} Besucher`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <span>{formatDay(data.daily[0].date)}</span>
+          <span>{formatDay(data.daily[data.daily.length - 1].date)}</span>
+        </div>
+      </div>
+
+      {data.totals.views > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-white">Nach Format</h4>
+            <BarList rows={data.formats.map(row => ({ label: FORMAT_LABELS[row.format] ?? row.format, value: row.views }))} />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-white">Herkunft</h4>
+            <BarList rows={data.referrers.map(row => ({ label: row.referrer ?? 'Direkt', value: row.views }))} />
+          </div>
+          <div className="md:col-span-2">
+            <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-white">Nach Link</h4>
+            <BarList
+              rows={data.links.map(link => ({
+                label: `${link.label || link.id} (${link.uniqueViewers} Besucher)`,
+                value: link.views,
+              }))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { permissionsApi, type ShareFormat, type ShareLink } from '../lib/permissions-api';
+
+const FORMAT_LABELS: Record<ShareFormat, string> = {
+  view: '📄 Vorschau',
+  html: '💾 HTML',
+  pdf: '📋 PDF',
+  docx: '📝 DOCX',
+  md: '⬇️ Markdown',
+  rss: '📡 RSS',
+};
+
+const STATUS_LABELS: Record<ShareLink['status'], { label: string; className: string }> = {
+  active: { label: 'Aktiv', className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' },
+  expired: { label: 'Abgelaufen', className: 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200' },
+  exhausted: { label: 'Aufrufe verbraucht', className: 'bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200' },
+  revoked: { label: 'Widerrufen', className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200' },
+};
+
+const formatDate = (value: number | null) =>
+  value ? new Date(value).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' }) : '–';
+
+const shareUrl = (link: ShareLink, format: ShareFormat) =>
+  `${window.location.origin}/share/${link.id}${format === 'view' ? '' : `.${format}`}`;
+
+const inputClass =
+  'px-2 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white';
+
+/**
+ * Public links to a document; each one with its own formats, password,
+ * expiry date and view limit
+ */
+export function ShareLinksPanel({ documentId }: { documentId: string }) {
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState('');
+  const [formats, setFormats] = useState<ShareFormat[]>(['view', 'pdf']);
+  const [password, setPassword] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['share-links', documentId],
+    queryFn: () => permissionsApi.listShareLinks(documentId),
+  });
+  const links = data?.links ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: () => permissionsApi.createShareLink(documentId, {
+      label: label.trim() || null,
+      formats,
+      password: password || null,
+      // The link stays valid until the end of the chosen day
+      expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).getTime() : null,
+      maxViews: maxViews ? Number(maxViews) : null,
+    }),
+    onSuccess: () => {
+      setLabel('');
+      setPassword('');
+      setExpiresOn('');
+      setMaxViews('');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['share-links', documentId] });
+    },
+    onError: (err: any) =>
+      setError(err.response?.data?.message || err.response?.data?.error || 'Link konnte nicht erstellt werden'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: string) => permissionsApi.revokeShareLink(documentId, linkId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['share-links', documentId] }),
+    onError: (err: any) =>
+      setError(err.response?.data?.message || err.response?.data?.error || 'Link konnte nicht widerrufen werden'),
+  });
+
+  const toggleFormat = (format: ShareFormat) =>
+    setFormats(current => current.includes(format) ? current.filter(f => f !== format) : [...current, format]);
+
+  const copyUrl = (link: ShareLink, format: ShareFormat) => {
+    navigator.clipboard.writeText(shareUrl(link, format));
+    setCopied(`${link.id}:${format}`);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-2 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded text-sm">{error}</div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+        className="bg-gray-50 dark:bg-gray-900/40 border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2"
+      >
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Bezeichnung, z.B. Kunde ACME"
+          maxLength={100}
+          className={`${inputClass} w-full`}
+        />
+        <div className="flex flex-wrap gap-3">
+          {(Object.keys(FORMAT_LABELS) as ShareFormat[]).map(format => (
+            <label key={format} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={formats.includes(format)} onChange={() => toggleFormat(format)} />
+              {FORMAT_LABELS[format]}
+            </label>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Passwort (optional)"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            title="Gültig bis (optional)"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={1}
+            value={maxViews}
+            onChange={(e) => setMaxViews(e.target.value)}
+            placeholder="Max. Aufrufe"
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded text-sm disabled:opacity-50"
+          disabled={formats.length === 0 || (password.length > 0 && password.length < 4) || createMutation.isPending}
+        >
+          Link erstellen
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Lade Links...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Noch keine Share-Links erstellt.</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map(link => {
+            const status = STATUS_LABELS[link.status];
+            return (
+              <div key={link.id} className="border border-gray-200 dark:border-gray-700 rounded p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm text-gray-900 dark:text-white">
+                    {link.label || <span className="font-mono text-gray-500">{link.id}</span>}
+                    {link.has_password && <span className="ml-2" title="Passwortgeschützt">🔒</span>}
+                    <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+                  </div>
+                  {link.status !== 'revoked' && (
+                    <button
+                      onClick={() => {
+                        if (confirm(`Link "${link.label || link.id}" widerrufen?`)) revokeMutation.mutate(link.id);
+                      }}
+                      className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                      disabled={revokeMutation.isPending}
+                    >
+                      Widerrufen
+                    </button>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Aufrufe: {link.view_count}{link.max_views ? ` / ${link.max_views}` : ''}
+                  {' '}• Zuletzt: {formatDate(link.last_viewed_at)}
+                  {' '}• Gültig bis: {link.expires_at ? formatDate(link.expires_at) : 'unbegrenzt'}
+                </div>
+                {link.status === 'active' && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {link.formats.map(format => (
+                      <button
+                        key={format}
+                        onClick={() => copyUrl(link, format)}
+                        title={shareUrl(link, format)}
+                        className="px-2 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-xs"
+                      >
+                        {copied === `${link.id}:${format}` ? '✓ Kopiert' : FORMAT_LABELS[format]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-yellow-700 dark:text-yellow-400">
+        ⚠️ Achtung: Jeder mit einem aktiven Link kann das Dokument ohne Anmeldung lesen.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { DocumentTag } from '../lib/api';
+
+interface TagChipsProps {
+  tags: DocumentTag[];
+  onSelect?: (tag: DocumentTag) => void;
+  onRemove?: (tag: DocumentTag) => void;
+  activeTagId?: string;
+}
+
+/**
+ * Colored tag labels; clicking a chip selects the tag, × removes it
+ */
+export function TagChips({ tags, onSelect, onRemove, activeTagId }: TagChipsProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map(tag => (
+        <span
+          key={tag.id}
+          onClick={onSelect ? (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onSelect(tag);
+          } : undefined}
+          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-white ${
+            onSelect ? 'cursor-pointer hover:opacity-80' : ''
+          } ${activeTagId === tag.id ? 'ring-2 ring-white' : ''}`}
+          style={{ backgroundColor: tag.color || '#4b5563' }}
+          title={onSelect ? `Nach „${tag.name}“ filtern` : tag.name}
+        >
+          🏷️ {tag.name}
+          {onRemove && (
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onRemove(tag);
+              }}
+              className="text-white/70 hover:text-white"
+              title="Tag entfernen"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
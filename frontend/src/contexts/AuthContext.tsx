@@ -6,8 +6,12 @@ interface AuthContextType {
   loading: boolean;
   isAuthenticated: boolean;
   login: (username: string, password: string) => Promise<void>;
+  completeOidcLogin: (token: string, refreshToken: string) => Promise<void>;
   logout: () => Promise<void>;
-  register: (username: string, email: string, password: string, display_name?: string) => Promise<void>;
+  logoutAll: () => Promise<void>;
+  /** Resolves with whether the email address has to be confirmed before signing in */
+  register: (username: string, email: string, password: string, display_name?: string) => Promise<{ verificationRequired: boolean }>;
+  verifyEmail: (token: string) => Promise<void>;
   updateProfile: (updates: { display_name?: string; email?: string }) => Promise<void>;
 }
 
@@ -41,15 +45,33 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setUser(data.user);
   };
 
+  const completeOidcLogin = async (token: string, refreshToken: string) => {
+    const loggedIn = await authApi.completeOidcLogin(token, refreshToken);
+    setUser(loggedIn);
+  };
+
   const logout = async () => {
     await authApi.logout();
     setUser(null);
   };
 
+  const logoutAll = async () => {
+    await authApi.logoutAll();
+    setUser(null);
+  };
+
   const register = async (username: string, email: string, password: string, display_name?: string) => {
-    await authApi.register(username, email, password, display_name);
-    // Auto-login after registration
-    await login(username, password);
+    const data = await authApi.register(username, email, password, display_name);
+    if ('verificationRequired' in data) {
+      return { verificationRequired: true };
+    }
+    setUser(data.user);
+    return { verificationRequired: false };
+  };
+
+  const verifyEmail = async (token: string) => {
+    const verified = await authApi.verifyEmail(token);
+    setUser(current => (current?.id === verified.id ? verified : current));
   };
 
   const updateProfile = async (updates: { display_name?: string; email?: string }) => {
@@ -64,8 +86,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         loading,
         isAuthenticated: !!user,
         login,
+        completeOidcLogin,
         logout,
+        logoutAll,
         register,
+        verifyEmail,
         updateProfile,
       }}
     >
@@ -1,41 +1,25 @@
 import axios from 'axios';
+import { withAuth } from './auth-api';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api';
 
-const client = axios.create({
+// Auth token is added to requests and refreshed when it expires
+const client = withAuth(axios.create({
   baseURL: API_URL,
   headers: {
     'Content-Type': 'application/json',
   },
   timeout: 30000, // 30 seconds default timeout
-});
-
-// Add auth token to requests
-client.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
+}));
 
 // Longer timeout for AI/MCP requests (can take several minutes with complex multi-tool queries)
-const aiClient = axios.create({
+const aiClient = withAuth(axios.create({
   baseURL: API_URL,
   headers: {
     'Content-Type': 'application/json',
   },
   timeout: 300000, // 5 minutes for complex MCP tool chains (e.g., database queries with joins)
-});
-
-// Add auth token to AI requests too
-aiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
+}));
 
 export interface Artifact {
   id: string;
@@ -201,6 +185,231 @@ export interface ConvertToPresentationResponse {
   html: string;
 }
 
+export interface PullRequestHunk {
+  id: string;
+  baseStart: number;
+  baseLength: number;
+  removed: string[];
+  added: string[];
+  contextBefore: string[];
+  contextAfter: string[];
+  section: string | null;
+}
+
+export interface PullRequestConflict {
+  baseStart: number;
+  baseLength: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+  section: string | null;
+}
+
+export interface PullRequestDiff {
+  hunks: PullRequestHunk[];
+  conflictingHunkIds: string[];
+  sourceChanged: boolean;
+  merge: {
+    content: string;
+    conflicts: PullRequestConflict[];
+    hasConflicts: boolean;
+  };
+}
+
+export interface PullRequestComment {
+  id: string;
+  parent_id: string | null;
+  hunk_id: string | null;
+  body: string;
+  created_at: number;
+  updated_at: number;
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+}
+
+export interface PullRequestThread extends PullRequestComment {
+  outdated: boolean;
+  replies: PullRequestComment[];
+}
+
+export interface PullRequestTimelineEntry {
+  id: string;
+  type: 'opened' | 'comment' | 'updated' | 'changes_requested' | 'merged' | 'rejected';
+  message: string | null;
+  hunk_id?: string | null;
+  parent_id?: string | null;
+  created_at: number;
+  user_id: string | null;
+  username: string | null;
+  display_name: string | null;
+}
+
+export interface CreatePullRequestCommentData {
+  body: string;
+  hunkId?: string;
+  parentId?: string;
+}
+
+export interface DocumentCommentUser {
+  id: string;
+  username: string;
+  display_name: string | null;
+}
+
+export interface DocumentComment {
+  id: string;
+  parent_id: string | null;
+  body: string;
+  created_at: number;
+  updated_at: number;
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  mentions: DocumentCommentUser[];
+}
+
+export interface DocumentCommentThread extends DocumentComment {
+  status: 'open' | 'resolved';
+  resolved_by: string | null;
+  resolved_at: number | null;
+  quote: string | null;
+  anchor: { from: number; to: number } | null;
+  orphaned: boolean;
+  replies: DocumentComment[];
+}
+
+export interface CreateDocumentCommentData {
+  body: string;
+  parentId?: string;
+  from?: number;
+  to?: number;
+  quote?: string;
+}
+
+export interface DocumentSearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  owner_id: string;
+  is_archived: number;
+  updated_at: number;
+  score: number;
+  /** HTML with matches wrapped in <mark>; all other markup is escaped by the server */
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface DocumentSearchParams {
+  q: string;
+  tag?: string;
+  owner?: string;
+  archived?: 'exclude' | 'include' | 'only';
+  limit?: number;
+  offset?: number;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+  created_by: string | null;
+  created_at: number | null;
+  /** Number of documents the current user can read that carry this tag */
+  document_count: number;
+}
+
+export type DocumentTag = Pick<Tag, 'id' | 'name' | 'color'>;
+
+export interface TagSuggestion {
+  name: string;
+  /** Id of the existing tag, null if accepting the suggestion creates a new tag */
+  tagId: string | null;
+}
+
+export interface DocumentTreeNode {
+  id: string;
+  title: string;
+  slug: string;
+  parent_id: string | null;
+  position: number;
+  owner_id: string;
+  is_archived: number | null;
+  is_pinned: number | null;
+  updated_at: number;
+  children: DocumentTreeNode[];
+}
+
+export interface DocumentBreadcrumb {
+  id: string;
+  title: string;
+}
+
+export type GroupRole = 'member' | 'admin' | 'owner';
+
+export interface Group {
+  id: string;
+  name: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  member_count: number;
+  /** Role of the current user, null if not a member */
+  role: GroupRole | null;
+  /** _EVERYONE and _LOGGED_IN, maintained by the application */
+  is_system: boolean;
+}
+
+export interface GroupMember {
+  user_id: string;
+  username: string;
+  display_name: string;
+  role: GroupRole;
+  added_at: string;
+}
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  email: string;
+  display_name: string;
+  role: UserRole;
+  is_active: boolean;
+  created_at: string;
+  last_seen_at: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  created_at: number;
+  action: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  document_id: string | null;
+  details: Record<string, unknown> | null;
+  ip_address: string | null;
+}
+
+export interface AuditQuery {
+  /** Comma-separated actions; "auth." matches all auth actions */
+  action?: string;
+  actor?: string;
+  document?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AcceptPullRequestOptions {
+  hunkIds?: string[];
+  resolvedContent?: string;
+}
+
 interface MCPReasoningParams {
   query: string;
   context?: string;
@@ -240,11 +449,21 @@ interface MCPEdifactModifyParams {
 
 export const api = {
   // Documents
-  getDocuments: async (options?: { include_archived?: boolean }) => {
+  searchDocuments: async (
+    params: DocumentSearchParams
+  ): Promise<{ query: string; results: DocumentSearchResult[]; total: number; limit: number; offset: number }> => {
+    const { data } = await client.get('/search', { params });
+    return data;
+  },
+
+  getDocuments: async (options?: { include_archived?: boolean; tag?: string }) => {
     const params = new URLSearchParams();
     if (options?.include_archived) {
       params.append('include_archived', 'true');
     }
+    if (options?.tag) {
+      params.append('tag', options.tag);
+    }
     const url = params.toString() ? `/documents?${params.toString()}` : '/documents';
     const { data } = await client.get(url);
     return data;
@@ -260,7 +479,29 @@ export const api = {
     return data;
   },
   
-  createDocument: async (document: { title: string; content: string }) => {
+  getDocumentTree: async (options?: { include_archived?: boolean }): Promise<{ tree: DocumentTreeNode[] }> => {
+    const { data } = await client.get('/documents/tree', {
+      params: options?.include_archived ? { include_archived: 'true' } : undefined,
+    });
+    return data;
+  },
+
+  getDocumentBreadcrumbs: async (id: string): Promise<{ breadcrumbs: DocumentBreadcrumb[]; truncated: boolean }> => {
+    const { data } = await client.get(`/documents/${id}/breadcrumbs`);
+    return data;
+  },
+
+  moveDocument: async (id: string, parentId: string | null, position?: number) => {
+    const { data } = await client.post(`/documents/${id}/move`, { parentId, position });
+    return data;
+  },
+
+  reorderDocuments: async (parentId: string | null, orderedIds: string[]) => {
+    const { data } = await client.post('/documents/reorder', { parentId, orderedIds });
+    return data;
+  },
+
+  createDocument: async (document: { title: string; content: string; parent_id?: string }) => {
     const { data } = await client.post('/documents', document);
     return data;
   },
@@ -799,13 +1040,205 @@ export const api = {
     return data;
   },
 
-  acceptPullRequest: async (prId: string) => {
-    const { data } = await client.post(`/documents/pull-requests/${prId}/accept`);
+  getPullRequestDiff: async (prId: string): Promise<PullRequestDiff> => {
+    const { data } = await client.get(`/documents/pull-requests/${prId}/diff`);
+    return data;
+  },
+
+  acceptPullRequest: async (prId: string, options: AcceptPullRequestOptions = {}) => {
+    const { data } = await client.post(`/documents/pull-requests/${prId}/accept`, options);
+    return data;
+  },
+
+  rejectPullRequest: async (prId: string, message?: string) => {
+    const { data } = await client.post(`/documents/pull-requests/${prId}/reject`, { message });
+    return data;
+  },
+
+  requestPullRequestChanges: async (prId: string, message?: string) => {
+    const { data } = await client.post(`/documents/pull-requests/${prId}/request-changes`, { message });
+    return data;
+  },
+
+  getPullRequestComments: async (prId: string): Promise<{ threads: PullRequestThread[] }> => {
+    const { data } = await client.get(`/documents/pull-requests/${prId}/comments`);
+    return data;
+  },
+
+  createPullRequestComment: async (prId: string, comment: CreatePullRequestCommentData) => {
+    const { data } = await client.post(`/documents/pull-requests/${prId}/comments`, comment);
+    return data;
+  },
+
+  updatePullRequestComment: async (prId: string, commentId: string, body: string) => {
+    const { data } = await client.put(`/documents/pull-requests/${prId}/comments/${commentId}`, { body });
+    return data;
+  },
+
+  deletePullRequestComment: async (prId: string, commentId: string) => {
+    const { data } = await client.delete(`/documents/pull-requests/${prId}/comments/${commentId}`);
+    return data;
+  },
+
+  getPullRequestTimeline: async (prId: string): Promise<{ status: string; timeline: PullRequestTimelineEntry[] }> => {
+    const { data } = await client.get(`/documents/pull-requests/${prId}/timeline`);
+    return data;
+  },
+
+  // Inline document comments
+  getDocumentComments: async (
+    documentId: string,
+    params?: { status?: 'open' | 'resolved'; mentioned?: 'me' }
+  ): Promise<{ comments: DocumentCommentThread[]; canResolve: boolean }> => {
+    const { data } = await client.get(`/documents/${documentId}/comments`, { params });
+    return data;
+  },
+
+  createDocumentComment: async (documentId: string, comment: CreateDocumentCommentData) => {
+    const { data } = await client.post(`/documents/${documentId}/comments`, comment);
+    return data;
+  },
+
+  updateDocumentComment: async (documentId: string, commentId: string, body: string) => {
+    const { data } = await client.put(`/documents/${documentId}/comments/${commentId}`, { body });
+    return data;
+  },
+
+  resolveDocumentComment: async (documentId: string, commentId: string) => {
+    const { data } = await client.post(`/documents/${documentId}/comments/${commentId}/resolve`);
+    return data;
+  },
+
+  reopenDocumentComment: async (documentId: string, commentId: string) => {
+    const { data } = await client.post(`/documents/${documentId}/comments/${commentId}/reopen`);
+    return data;
+  },
+
+  deleteDocumentComment: async (documentId: string, commentId: string) => {
+    const { data } = await client.delete(`/documents/${documentId}/comments/${commentId}`);
+    return data;
+  },
+
+  getMentionableUsers: async (documentId: string, query: string): Promise<{ users: DocumentCommentUser[] }> => {
+    const { data } = await client.get(`/documents/${documentId}/comments/mentionable`, { params: { q: query } });
+    return data;
+  },
+
+  // Tags
+  getTags: async (): Promise<{ tags: Tag[] }> => {
+    const { data } = await client.get('/tags');
+    return data;
+  },
+
+  createTag: async (tag: { name: string; color?: string | null }) => {
+    const { data } = await client.post('/tags', tag);
+    return data;
+  },
+
+  updateTag: async (tagId: string, updates: { name?: string; color?: string | null }) => {
+    const { data } = await client.put(`/tags/${tagId}`, updates);
+    return data;
+  },
+
+  deleteTag: async (tagId: string) => {
+    const { data } = await client.delete(`/tags/${tagId}`);
+    return data;
+  },
+
+  getDocumentTags: async (documentId: string): Promise<{ tags: DocumentTag[] }> => {
+    const { data } = await client.get(`/documents/${documentId}/tags`);
+    return data;
+  },
+
+  addDocumentTag: async (documentId: string, tag: { tagId?: string; name?: string; color?: string | null }) => {
+    const { data } = await client.post(`/documents/${documentId}/tags`, tag);
+    return data;
+  },
+
+  removeDocumentTag: async (documentId: string, tagId: string) => {
+    const { data } = await client.delete(`/documents/${documentId}/tags/${tagId}`);
+    return data;
+  },
+
+  setDocumentTags: async (documentId: string, tags: string[]) => {
+    const { data } = await client.put(`/documents/${documentId}/tags`, { tags });
+    return data;
+  },
+
+  suggestDocumentTags: async (documentId: string): Promise<{ suggestions: TagSuggestion[] }> => {
+    const { data } = await client.post(`/documents/${documentId}/tags/suggest`);
+    return data;
+  },
+
+  // Groups
+  getGroups: async (params: { mine?: boolean } = {}): Promise<{ groups: Group[] }> => {
+    const { data } = await client.get('/groups', { params: params.mine ? { mine: 'true' } : undefined });
+    return data;
+  },
+
+  getGroup: async (groupId: string): Promise<{
+    group: Omit<Group, 'member_count'>;
+    members: GroupMember[] | null;
+  }> => {
+    const { data } = await client.get(`/groups/${groupId}`);
+    return data;
+  },
+
+  createGroup: async (group: { name: string; description?: string | null }) => {
+    const { data } = await client.post('/groups', group);
+    return data;
+  },
+
+  updateGroup: async (groupId: string, updates: { name?: string; description?: string | null }) => {
+    const { data } = await client.put(`/groups/${groupId}`, updates);
+    return data;
+  },
+
+  deleteGroup: async (groupId: string) => {
+    const { data } = await client.delete(`/groups/${groupId}`);
+    return data;
+  },
+
+  /** user may be an id, username or email */
+  addGroupMember: async (groupId: string, user: string, role: GroupRole = 'member'): Promise<{ members: GroupMember[] }> => {
+    const { data } = await client.post(`/groups/${groupId}/members`, { user, role });
+    return data;
+  },
+
+  updateGroupMember: async (groupId: string, userId: string, role: GroupRole): Promise<{ members: GroupMember[] }> => {
+    const { data } = await client.put(`/groups/${groupId}/members/${userId}`, { role });
+    return data;
+  },
+
+  /** userId "me" leaves the group */
+  removeGroupMember: async (groupId: string, userId: string) => {
+    const { data } = await client.delete(`/groups/${groupId}/members/${userId}`);
+    return data;
+  },
+
+  // Administration (admins only)
+  getAdminUsers: async (): Promise<{ users: AdminUser[] }> => {
+    const { data } = await client.get('/admin/users');
+    return data;
+  },
+
+  updateAdminUser: async (userId: string, changes: { role?: UserRole; is_active?: boolean }): Promise<{ user: AdminUser }> => {
+    const { data } = await client.patch(`/admin/users/${userId}`, changes);
+    return data;
+  },
+
+  resetUserPassword: async (userId: string, password: string) => {
+    const { data } = await client.post(`/admin/users/${userId}/password`, { password });
+    return data;
+  },
+
+  getAuditLog: async (query: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number; limit: number; offset: number }> => {
+    const { data } = await client.get('/audit', { params: query });
     return data;
   },
 
-  rejectPullRequest: async (prId: string) => {
-    const { data } = await client.post(`/documents/pull-requests/${prId}/reject`);
+  exportAuditLog: async (query: AuditQuery, format: 'csv' | 'json'): Promise<Blob> => {
+    const { data } = await client.get('/audit/export', { params: { ...query, format }, responseType: 'blob' });
     return data;
   },
 };
@@ -1,30 +1,118 @@
-import axios from 'axios';
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 
-const api = axios.create({
+// Refresh the access token when it expires within this margin
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+let refreshing: Promise<string | null> | null = null;
+
+const clearSession = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('refresh_token');
+  localStorage.removeItem('user');
+};
+
+const storeSession = (data: { token: string; refreshToken: string; user: User }) => {
+  localStorage.setItem('auth_token', data.token);
+  localStorage.setItem('refresh_token', data.refreshToken);
+  localStorage.setItem('user', JSON.stringify(data.user));
+};
+
+const tokenExpiresAt = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Exchange the refresh token for a new token pair. Concurrent callers share
+ * one request, since every refresh token can only be used once.
+ */
+export const refreshSession = (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem('refresh_token');
+  if (!refreshToken) return Promise.resolve(null);
+
+  if (!refreshing) {
+    refreshing = axios
+      .post<LoginResponse>(`${API_BASE_URL}/api/auth/refresh`, { refreshToken })
+      .then(({ data }) => {
+        storeSession(data);
+        return data.token;
+      })
+      .catch(() => {
+        clearSession();
+        return null;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+/**
+ * The stored access token, refreshed first if it is about to expire
+ */
+export const getFreshToken = async (): Promise<string | null> => {
+  const token = localStorage.getItem('auth_token');
+  if (!token) return null;
+
+  const expiresAt = tokenExpiresAt(token);
+  if (expiresAt !== null && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    return refreshSession();
+  }
+  return token;
+};
+
+/**
+ * Send the access token with every request of a client and retry once with
+ * a refreshed token when the server rejects it
+ */
+export const withAuth = (client: AxiosInstance): AxiosInstance => {
+  client.interceptors.request.use(async (config) => {
+    const token = await getFreshToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    async (error) => {
+      const config = error.config as (InternalAxiosRequestConfig & { _authRetried?: boolean }) | undefined;
+      if (error.response?.status === 401 && config && !config._authRetried && localStorage.getItem('refresh_token')) {
+        config._authRetried = true;
+        const token = await refreshSession();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+          return client.request(config);
+        }
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+};
+
+const api = withAuth(axios.create({
   baseURL: `${API_BASE_URL}/api`,
   headers: {
     'Content-Type': 'application/json',
   },
-});
+}));
 
-// Add auth token to requests
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-// Handle auth errors
+// Handle auth errors that survive a refresh
 api.interceptors.response.use(
   (response) => response,
   (error) => {
     if (error.response?.status === 401) {
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('user');
+      clearSession();
       window.location.href = '/login';
     }
     return Promise.reject(error);
@@ -36,21 +124,62 @@ export interface User {
   username: string;
   email: string;
   display_name: string;
+  role: 'admin' | 'editor' | 'viewer';
+  email_verified: boolean;
 }
 
 export interface LoginResponse {
   user: User;
   token: string;
+  refreshToken: string;
+  /** Lifetime of the access token in seconds */
+  expiresIn: number;
+}
+
+/** Without a session while the email address still has to be confirmed */
+export type RegisterResponse = LoginResponse | { user: User; verificationRequired: true };
+
+export interface OidcConfig {
+  enabled: boolean;
+  providerName: string;
+}
+
+export type ApiTokenScope = 'documents:read' | 'documents:write' | 'ai' | 'admin';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  last_used_ip: string | null;
+  revoked_at: number | null;
+}
+
+export interface ActiveSession {
+  id: string;
+  created_at: string;
+  last_seen_at: string | null;
+  expires_at: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  current: boolean;
 }
 
 export const authApi = {
   register: async (username: string, email: string, password: string, display_name?: string) => {
-    const { data } = await api.post<{ user: User }>('/auth/register', {
+    const { data } = await api.post<RegisterResponse>('/auth/register', {
       username,
       email,
       password,
       display_name,
     });
+    // Registration signs the user in, unless the address has to be confirmed first
+    if ('token' in data) {
+      storeSession(data);
+    }
     return data;
   },
 
@@ -59,9 +188,51 @@ export const authApi = {
       username,
       password,
     });
-    // Store token and user
-    localStorage.setItem('auth_token', data.token);
+    // Store tokens and user
+    storeSession(data);
+    return data;
+  },
+
+  getOidcConfig: async () => {
+    const { data } = await api.get<OidcConfig>('/auth/oidc/config');
+    return data;
+  },
+
+  /** Browser URL that starts the single sign-on login */
+  oidcLoginUrl: (returnTo = '/documents') =>
+    `${API_BASE_URL}/api/auth/oidc/login?${new URLSearchParams({ returnTo })}`,
+
+  /** Take over the tokens handed back by the single sign-on callback */
+  completeOidcLogin: async (token: string, refreshToken: string) => {
+    localStorage.setItem('auth_token', token);
+    localStorage.setItem('refresh_token', refreshToken);
+    const { data } = await api.get<{ user: User }>('/auth/me');
     localStorage.setItem('user', JSON.stringify(data.user));
+    return data.user;
+  },
+
+  /** Always succeeds, whether or not an account uses the address */
+  forgotPassword: async (email: string) => {
+    const { data } = await api.post<{ message: string }>('/auth/forgot-password', { email });
+    return data;
+  },
+
+  /** Signs out every session of the account */
+  resetPassword: async (token: string, new_password: string) => {
+    const { data } = await api.post<{ message: string }>('/auth/reset-password', { token, new_password });
+    return data;
+  },
+
+  verifyEmail: async (token: string) => {
+    const { data } = await api.post<{ user: User }>('/auth/verify-email', { token });
+    if (getStoredUser()?.id === data.user.id) {
+      localStorage.setItem('user', JSON.stringify(data.user));
+    }
+    return data.user;
+  },
+
+  resendVerification: async (email: string) => {
+    const { data } = await api.post<{ message: string }>('/auth/resend-verification', { email });
     return data;
   },
 
@@ -69,11 +240,47 @@ export const authApi = {
     try {
       await api.post('/auth/logout');
     } finally {
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('user');
+      clearSession();
+    }
+  },
+
+  /** Revoke every session of the user, including this one */
+  logoutAll: async () => {
+    try {
+      await api.post('/auth/logout-all');
+    } finally {
+      clearSession();
     }
   },
 
+  getSessions: async () => {
+    const { data } = await api.get<{ sessions: ActiveSession[] }>('/auth/sessions');
+    return data.sessions;
+  },
+
+  revokeSession: async (sessionId: string) => {
+    await api.delete(`/auth/sessions/${sessionId}`);
+  },
+
+  getApiTokens: async () => {
+    const { data } = await api.get<{ tokens: ApiToken[] }>('/auth/tokens');
+    return data.tokens;
+  },
+
+  /** The returned token is shown only once */
+  createApiToken: async (name: string, scopes: ApiTokenScope[], expires_in_days: number | null) => {
+    const { data } = await api.post<{ token: string; apiToken: ApiToken }>('/auth/tokens', {
+      name,
+      scopes,
+      expires_in_days,
+    });
+    return data;
+  },
+
+  revokeApiToken: async (tokenId: string) => {
+    await api.delete(`/auth/tokens/${tokenId}`);
+  },
+
   getCurrentUser: async () => {
     const { data } = await api.get<{ user: User }>('/auth/me');
     return data.user;
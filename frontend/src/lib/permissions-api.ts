@@ -1,40 +1,43 @@
 import axios from 'axios';
+import { withAuth } from './auth-api';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api';
 
 // Create axios instance with auth interceptor
-const client = axios.create({
+const client = withAuth(axios.create({
   baseURL: API_URL,
   headers: {
     'Content-Type': 'application/json',
   },
-});
+}));
 
-// Add auth token to requests
-client.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
+export type PermissionLevel = 'read' | 'write' | 'admin';
+
+/**
+ * allow grants the level and everything below it, deny withholds the level
+ * and everything above it
+ */
+export type PermissionEffect = 'allow' | 'deny';
 
 export interface Permission {
   user_id?: string;
   group_id?: string;
-  permission_level: 'read' | 'write' | 'admin';
+  permission_level: PermissionLevel;
+  effect?: PermissionEffect;
 }
 
 export interface UserPermission {
   user_id: string;
   username: string;
-  permission_level: 'read' | 'write' | 'admin';
+  permission_level: PermissionLevel;
+  effect: PermissionEffect;
 }
 
 export interface GroupPermission {
   group_id: string;
   group_name: string;
-  permission_level: 'read' | 'write' | 'admin';
+  permission_level: PermissionLevel;
+  effect: PermissionEffect;
 }
 
 export interface DocumentPermissions {
@@ -43,6 +46,65 @@ export interface DocumentPermissions {
   group_permissions: GroupPermission[];
 }
 
+export interface PermissionSource {
+  type: 'owner' | 'user' | 'group' | 'everyone';
+  effect: PermissionEffect;
+  level: PermissionLevel;
+  documentId: string;
+  documentTitle: string;
+  inherited: boolean;
+  groupId?: string;
+  groupName?: string;
+}
+
+export interface EffectivePermission {
+  documentId: string;
+  userId: string | null;
+  level: PermissionLevel | null;
+  reason: 'owner' | 'direct' | 'group' | 'everyone' | 'inherited' | 'denied' | 'none';
+  decidedBy: PermissionSource | null;
+  sources: PermissionSource[];
+  user: { id: string; username: string; display_name: string } | null;
+}
+
+/** view is the HTML preview page, the others are downloads and feeds */
+export type ShareFormat = 'view' | 'html' | 'pdf' | 'docx' | 'md' | 'rss';
+
+export interface ShareLink {
+  id: string;
+  document_id: string;
+  label: string | null;
+  formats: ShareFormat[];
+  has_password: boolean;
+  expires_at: number | null;
+  max_views: number | null;
+  created_by: string | null;
+  created_at: number;
+  revoked_at: number | null;
+  view_count: number;
+  last_viewed_at: number | null;
+  status: 'active' | 'expired' | 'exhausted' | 'revoked';
+}
+
+export interface CreateShareLinkOptions {
+  label?: string | null;
+  formats?: ShareFormat[];
+  password?: string | null;
+  expiresAt?: number | null;
+  maxViews?: number | null;
+}
+
+export interface ShareAnalytics {
+  from: number;
+  to: number;
+  totals: { views: number; uniqueViewers: number };
+  daily: Array<{ date: string; views: number; uniqueViewers: number }>;
+  formats: Array<{ format: ShareFormat; views: number }>;
+  links: Array<{ id: string; label: string | null; views: number; uniqueViewers: number; lastViewedAt: number | null }>;
+  /** Hosts of referring pages; null for direct visits */
+  referrers: Array<{ referrer: string | null; views: number }>;
+}
+
 export const permissionsApi = {
   /**
    * Get all permissions for a document
@@ -52,17 +114,28 @@ export const permissionsApi = {
     return response.data;
   },
 
+  /**
+   * Explain a user's effective access ("me" for the current user, "guest"
+   * for visitors who are not signed in)
+   */
+  async getEffectivePermission(documentId: string, userId: string = 'me'): Promise<EffectivePermission> {
+    const response = await client.get(`/permissions/${documentId}/effective/${encodeURIComponent(userId)}`);
+    return response.data;
+  },
+
   /**
    * Set permission for a specific user
    */
   async setUserPermission(
     documentId: string,
     userId: string,
-    permissionLevel: 'read' | 'write' | 'admin'
+    permissionLevel: PermissionLevel,
+    effect: PermissionEffect = 'allow'
   ): Promise<void> {
     await client.post(`/permissions/${documentId}/user`, {
       userId,
       permissionLevel,
+      effect,
     });
   },
 
@@ -72,11 +145,13 @@ export const permissionsApi = {
   async setGroupPermission(
     documentId: string,
     groupId: string,
-    permissionLevel: 'read' | 'write' | 'admin'
+    permissionLevel: PermissionLevel,
+    effect: PermissionEffect = 'allow'
   ): Promise<void> {
     await client.post(`/permissions/${documentId}/group`, {
       groupId,
       permissionLevel,
+      effect,
     });
   },
 
@@ -125,36 +200,40 @@ export const permissionsApi = {
     try {
       const permissions = await client.get(`/permissions/${documentId}`);
       const groupPerms = permissions.data.group_permissions || [];
-      return groupPerms.some((gp: GroupPermission) => gp.group_id === '_EVERYONE');
+      return groupPerms.some((gp: GroupPermission) => gp.group_id === '_EVERYONE' && gp.effect !== 'deny');
     } catch {
       return false;
     }
   },
 
   /**
-   * Enable public share link (new share system)
+   * Share links of a document, including revoked and expired ones
    */
-  async enableShare(documentId: string): Promise<{ shareId: string; shareUrl: string }> {
-    const response = await client.post(`/share/${documentId}/enable`);
+  async listShareLinks(documentId: string): Promise<{ links: ShareLink[]; formats: ShareFormat[] }> {
+    const response = await client.get(`/share/${documentId}/links`);
     return response.data;
   },
 
   /**
-   * Disable public share link
+   * Create a public share link
    */
-  async disableShare(documentId: string): Promise<void> {
-    await client.post(`/share/${documentId}/disable`);
+  async createShareLink(documentId: string, options: CreateShareLinkOptions): Promise<{ link: ShareLink; shareUrl: string }> {
+    const response = await client.post(`/share/${documentId}/links`, options);
+    return response.data;
   },
 
   /**
-   * Get share status for a document
+   * Views of the document's share links over the last days
    */
-  async getShareStatus(documentId: string): Promise<{
-    shareId: string | null;
-    shareEnabled: boolean;
-    shareUrl: string | null;
-  }> {
-    const response = await client.get(`/share/${documentId}/status`);
+  async getShareAnalytics(documentId: string, days = 30): Promise<ShareAnalytics> {
+    const response = await client.get(`/share/${documentId}/analytics`, { params: { days } });
     return response.data;
   },
+
+  /**
+   * Revoke a share link
+   */
+  async revokeShareLink(documentId: string, linkId: string): Promise<void> {
+    await client.delete(`/share/${documentId}/links/${linkId}`);
+  },
 };
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type AdminUser, type UserRole } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { AuditLogPanel } from '../components/AuditLogPanel';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  editor: 'Redakteur',
+  viewer: 'Leser',
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' }) : '–';
+
+export function AdminConsole() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [filter, setFilter] = useState('');
+  const [passwordFor, setPasswordFor] = useState<AdminUser | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-users'],
+    queryFn: () => api.getAdminUsers(),
+    enabled: user?.role === 'admin',
+  });
+
+  const onError = (err: any) =>
+    setMessage({ type: 'error', text: err.response?.data?.message || err.response?.data?.error || 'Aktion fehlgeschlagen' });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ userId, changes }: { userId: string; changes: { role?: UserRole; is_active?: boolean } }) =>
+      api.updateAdminUser(userId, changes),
+    onSuccess: () => {
+      setMessage(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+    },
+    onError,
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: () => api.resetUserPassword(passwordFor!.id, newPassword),
+    onSuccess: () => {
+      setMessage({ type: 'success', text: `Passwort für @${passwordFor!.username} gesetzt, alle Sitzungen beendet` });
+      setPasswordFor(null);
+      setNewPassword('');
+    },
+    onError,
+  });
+
+  if (user?.role !== 'admin') {
+    return <Navigate to="/documents" replace />;
+  }
+
+  const query = filter.trim().toLowerCase();
+  const users = (data?.users ?? []).filter(entry =>
+    !query || [entry.username, entry.email, entry.display_name].some(value => value.toLowerCase().includes(query))
+  );
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-8 max-w-6xl mx-auto space-y-6 pb-16">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Administration</h1>
+          <p className="text-gray-400">
+            Rollen: Admins verwalten Nutzer und Server-Einstellungen, Redakteure erstellen Dokumente, Leser lesen nur
+          </p>
+        </div>
+
+        {message && (
+          <div className={`p-3 rounded text-sm border ${
+            message.type === 'success'
+              ? 'bg-green-900/40 border-green-700 text-green-200'
+              : 'bg-red-900/40 border-red-700 text-red-200'
+          }`}>
+            {message.type === 'success' ? '✅' : '❌'} {message.text}
+          </div>
+        )}
+
+        {passwordFor && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              passwordMutation.mutate();
+            }}
+            className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-3"
+          >
+            <h2 className="text-xl font-semibold text-white">Passwort zurücksetzen: @{passwordFor.username}</h2>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="Neues Passwort (mindestens 8 Zeichen)"
+              autoComplete="new-password"
+              className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="btn-primary"
+                disabled={newPassword.length < 8 || passwordMutation.isPending}
+              >
+                Passwort setzen
+              </button>
+              <button type="button" onClick={() => setPasswordFor(null)} className="btn-secondary">
+                Abbrechen
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4 gap-4">
+            <h2 className="text-xl font-semibold text-white">Nutzer ({data?.users.length ?? 0})</h2>
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Suchen..."
+              className="px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+            />
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-400">Lade Nutzer...</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2">Nutzer</th>
+                  <th className="py-2">Rolle</th>
+                  <th className="py-2">Zuletzt aktiv</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((entry) => {
+                  const isSelf = entry.id === user.id;
+                  return (
+                    <tr key={entry.id} className="border-b border-gray-700/50">
+                      <td className="py-3">
+                        <div className="text-white">
+                          {entry.display_name}
+                          {isSelf && <span className="ml-2 text-xs text-blue-400">(Du)</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">@{entry.username} • {entry.email}</div>
+                      </td>
+                      <td className="py-3">
+                        <select
+                          value={entry.role}
+                          onChange={(e) => updateMutation.mutate({
+                            userId: entry.id,
+                            changes: { role: e.target.value as UserRole },
+                          })}
+                          className="px-2 py-1 bg-gray-900 border border-gray-600 rounded text-white"
+                        >
+                          {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-3 text-gray-400">{formatDate(entry.last_seen_at)}</td>
+                      <td className="py-3">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${
+                          entry.is_active ? 'bg-green-800 text-green-100' : 'bg-gray-600 text-gray-300'
+                        }`}>
+                          {entry.is_active ? 'Aktiv' : 'Deaktiviert'}
+                        </span>
+                      </td>
+                      <td className="py-3 text-right space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => {
+                            setPasswordFor(entry);
+                            setNewPassword('');
+                          }}
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          Passwort
+                        </button>
+                        {!isSelf && (
+                          <button
+                            onClick={() => updateMutation.mutate({
+                              userId: entry.id,
+                              changes: { is_active: !entry.is_active },
+                            })}
+                            className={entry.is_active ? 'text-red-400 hover:text-red-300' : 'text-green-400 hover:text-green-300'}
+                          >
+                            {entry.is_active ? 'Deaktivieren' : 'Aktivieren'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <AuditLogPanel />
+      </div>
+    </div>
+  );
+}
@@ -17,10 +17,12 @@ import ConvertToPresentationModal from '../components/ConvertToPresentationModal
 import PresentationViewer from '../components/PresentationViewer';
 import { MarkdownWithMermaid } from '../components/MarkdownWithMermaid';
 import { PullRequestPanel } from '../components/PullRequestPanel';
+import { CommentsPanel } from '../components/CommentsPanel';
+import { DocumentBreadcrumbs } from '../components/DocumentBreadcrumbs';
 import type * as Monaco from 'monaco-editor';
 
 type ViewMode = 'editor' | 'split' | 'preview';
-type RightPanelTab = 'ai' | 'artifacts' | 'transform' | 'research';
+type RightPanelTab = 'ai' | 'artifacts' | 'transform' | 'research' | 'comments';
 
 /**
  * Parse embedded artifacts from markdown content
@@ -478,6 +480,7 @@ graph TD
         {/* Header */}
         <div className="bg-gray-800 border-b border-gray-700 p-3 flex items-center justify-between gap-2">
           <div className="flex items-center gap-2 min-w-0">
+            <DocumentBreadcrumbs documentId={document.id} />
             <h2 className="text-lg font-semibold text-white truncate">{document.title}</h2>
             
             {/* Import/Fork Badges */}
@@ -820,6 +823,16 @@ graph TD
                 >
                   ✨ Transform
                 </button>
+                <button
+                  onClick={() => setRightPanelTab('comments')}
+                  className={`flex-1 px-3 py-2 text-xs font-medium transition-colors ${
+                    rightPanelTab === 'comments'
+                      ? 'bg-gray-900 text-white border-b-2 border-blue-500'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-750'
+                  }`}
+                >
+                  💬 Kommentare
+                </button>
                 
                 {/* Collapse button */}
                 <button
@@ -869,6 +882,12 @@ graph TD
                     onInsertContent={insertTextAtCursor}
                   />
                 )}
+                {rightPanelTab === 'comments' && (
+                  <CommentsPanel
+                    documentId={id || ''}
+                    editor={editorReady ? editorRef.current : null}
+                  />
+                )}
               </div>
             </div>
           )}
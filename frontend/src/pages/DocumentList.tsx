@@ -1,11 +1,15 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link, useNavigate } from 'react-router-dom';
-import { api } from '../lib/api';
-import { useState, useRef } from 'react';
+import { api, type DocumentTag } from '../lib/api';
+import { useState, useRef, useEffect } from 'react';
+import { DocumentSearchResults } from '../components/DocumentSearchResults';
+import { DocumentTagsModal } from '../components/DocumentTagsModal';
+import { TagChips } from '../components/TagChips';
+import { DocumentTree } from '../components/DocumentTree';
 
 type SortField = 'title' | 'updated_at' | 'created_at' | 'version';
 type SortOrder = 'asc' | 'desc';
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'tree';
 type DocumentFilter = 'all' | 'shared' | 'archived';
 
 interface Document {
@@ -16,15 +20,23 @@ interface Document {
   updated_at: string | number;
   version?: number;
   owner_id?: string;
-  accessed_at?: string | number;
-  share_id?: string;
+  last_viewed_at?: number | null;
+  share_id?: string | null;
   shared_by_email?: string;
+  shared_via?: 'permission' | 'link' | 'public';
   background_color?: string;
   is_pinned?: boolean;
   is_archived?: boolean;
   archived_at?: number;
+  tags?: DocumentTag[];
 }
 
+/**
+ * Documents only reachable through a share link open on the public share page
+ */
+const documentHref = (doc: Document) =>
+  doc.shared_via === 'link' && doc.share_id ? `/share/${doc.share_id}` : `/documents/${doc.id}`;
+
 export function DocumentList() {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
@@ -39,10 +51,26 @@ export function DocumentList() {
   const [showImportModal, setShowImportModal] = useState(false);
   const [importUrl, setImportUrl] = useState('');
   const importFileInputRef = useRef<HTMLInputElement>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOwnOnly, setSearchOwnOnly] = useState(false);
+  const [tagFilter, setTagFilter] = useState<DocumentTag | null>(null);
+  const [taggingDoc, setTaggingDoc] = useState<Document | null>(null);
+
+  // Search once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
   
   const { data, isLoading } = useQuery({
-    queryKey: ['documents'],
-    queryFn: () => api.getDocuments(),
+    queryKey: ['documents', tagFilter?.id],
+    queryFn: () => api.getDocuments({ tag: tagFilter?.id }),
+  });
+
+  const { data: tagsData } = useQuery({
+    queryKey: ['tags'],
+    queryFn: () => api.getTags(),
   });
 
   const { data: sharedData, isLoading: sharedLoading } = useQuery({
@@ -52,8 +80,8 @@ export function DocumentList() {
   });
 
   const { data: archivedData, isLoading: archivedLoading } = useQuery({
-    queryKey: ['documents-archived'],
-    queryFn: () => api.getDocuments({ include_archived: true }),
+    queryKey: ['documents-archived', tagFilter?.id],
+    queryFn: () => api.getDocuments({ include_archived: true, tag: tagFilter?.id }),
     enabled: filter === 'archived',
   });
 
@@ -254,8 +282,8 @@ export function DocumentList() {
   }) : [];
 
   const sortedSharedDocuments = sharedData?.documents ? [...sharedData.documents].sort((a: Document, b: Document) => {
-    const aVal = Number(a.accessed_at || 0);
-    const bVal = Number(b.accessed_at || 0);
+    const aVal = Number(a.last_viewed_at || 0);
+    const bVal = Number(b.last_viewed_at || 0);
     return bVal - aVal; // Most recent first
   }) : [];
 
@@ -347,6 +375,42 @@ export function DocumentList() {
           >
             📦 Archiv
           </button>
+
+          <div className="flex items-center gap-2 ml-auto">
+            {filter !== 'shared' && (
+              <select
+                value={tagFilter?.id || ''}
+                onChange={(e) => setTagFilter(tagsData?.tags.find(tag => tag.id === e.target.value) || null)}
+                className="bg-gray-700 text-white text-sm py-2 px-3 rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                title="Nach Tag filtern"
+              >
+                <option value="">🏷️ Alle Tags</option>
+                {tagsData?.tags.map(tag => (
+                  <option key={tag.id} value={tag.id}>
+                    {tag.name} ({tag.document_count})
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchInput('')}
+              placeholder='🔍 Suchen... ("Phrase", Präfix*, OR, -Ausschluss)'
+              className="w-80 bg-gray-700 text-white text-sm py-2 px-3 rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+            />
+            {searchQuery && (
+              <label className="flex items-center gap-1 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={searchOwnOnly}
+                  onChange={(e) => setSearchOwnOnly(e.target.checked)}
+                />
+                Nur eigene
+              </label>
+            )}
+          </div>
         </div>
 
         <div className="flex items-center justify-between">
@@ -354,6 +418,13 @@ export function DocumentList() {
             <span className="text-sm text-gray-400">
               {displayDocuments.length} Dokument{displayDocuments.length !== 1 ? 'e' : ''}
             </span>
+
+            {tagFilter && filter !== 'shared' && (
+              <span className="flex items-center gap-1 text-sm text-gray-400">
+                Tag:
+                <TagChips tags={[tagFilter]} onRemove={() => setTagFilter(null)} />
+              </span>
+            )}
             
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-400">Sortieren:</span>
@@ -394,19 +465,39 @@ export function DocumentList() {
             >
               Liste
             </button>
+            <button
+              onClick={() => setViewMode('tree')}
+              className={`px-3 py-1 rounded text-sm ${
+                viewMode === 'tree' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+              title="Dokumente als Gliederung anzeigen und per Drag & Drop anordnen"
+            >
+              Baum
+            </button>
           </div>
         </div>
       </div>
       
       <div className="flex-1 overflow-auto p-6">
-        {displayLoading ? (
+        {searchQuery ? (
+          <DocumentSearchResults
+            key={`${searchQuery}-${filter}-${searchOwnOnly}-${tagFilter?.id}`}
+            query={searchQuery}
+            archived={filter === 'archived' ? 'only' : 'exclude'}
+            ownOnly={searchOwnOnly}
+            tag={filter !== 'shared' ? tagFilter?.id : undefined}
+          />
+        ) : viewMode === 'tree' && filter !== 'shared' ? (
+          <DocumentTree includeArchived={filter === 'archived'} />
+        ) : displayLoading ? (
           <div className="text-center text-gray-400 mt-8">Lade Dokumente...</div>
         ) : viewMode === 'grid' ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {displayDocuments.map((doc: Document) => (
               <div key={doc.id} className="relative group">
                 <Link
-                  to={`/documents/${doc.id}`}
+                  to={documentHref(doc)}
+                  reloadDocument={doc.shared_via === 'link'}
                   className="card hover:shadow-lg transition-all cursor-pointer block h-full"
                   style={{
                     backgroundColor: doc.background_color || undefined,
@@ -422,15 +513,20 @@ export function DocumentList() {
                   <p className="text-sm text-gray-400 line-clamp-3 mb-4">
                     {extractPreview(doc.content)}
                   </p>
+                  {doc.tags && doc.tags.length > 0 && (
+                    <div className="mb-3">
+                      <TagChips tags={doc.tags} onSelect={setTagFilter} activeTagId={tagFilter?.id} />
+                    </div>
+                  )}
                   <div className="mt-auto space-y-1 text-xs text-gray-500">
                     {filter === 'shared' && doc.shared_by_email && (
                       <div className="flex items-center gap-1 text-blue-400">
-                        <span>🔗</span>
+                        <span>{doc.shared_via === 'link' ? '🔗' : '👥'}</span>
                         <span>Geteilt von: {doc.shared_by_email}</span>
                       </div>
                     )}
-                    {filter === 'shared' && doc.accessed_at ? (
-                      <div>Aufgerufen: {new Date(Number(doc.accessed_at)).toLocaleDateString('de-DE')}</div>
+                    {filter === 'shared' && doc.last_viewed_at ? (
+                      <div>Aufgerufen: {new Date(Number(doc.last_viewed_at)).toLocaleDateString('de-DE')}</div>
                     ) : (
                       <div>Bearbeitet: {new Date(Number(doc.updated_at)).toLocaleDateString('de-DE')}</div>
                     )}
@@ -464,6 +560,20 @@ export function DocumentList() {
                     🎨
                   </button>
 
+                  {filter !== 'shared' && (
+                    <button
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setTaggingDoc(doc);
+                      }}
+                      className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded"
+                      title="Tags bearbeiten"
+                    >
+                      🏷️
+                    </button>
+                  )}
+
                   {filter === 'archived' ? (
                     <button
                       onClick={(e) => handleUnarchive(doc, e)}
@@ -502,7 +612,8 @@ export function DocumentList() {
             {displayDocuments.map((doc: Document) => (
               <div key={doc.id} className="card hover:shadow-lg transition-shadow flex items-center justify-between">
                 <Link
-                  to={`/documents/${doc.id}`}
+                  to={documentHref(doc)}
+                  reloadDocument={doc.shared_via === 'link'}
                   className="flex-1 flex items-center gap-4"
                 >
                   <div className="flex-1">
@@ -512,20 +623,34 @@ export function DocumentList() {
                     <p className="text-sm text-gray-400 line-clamp-1">
                       {extractPreview(doc.content)}
                     </p>
+                    {doc.tags && doc.tags.length > 0 && (
+                      <div className="mt-1">
+                        <TagChips tags={doc.tags} onSelect={setTagFilter} activeTagId={tagFilter?.id} />
+                      </div>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 text-right whitespace-nowrap">
-                    {filter === 'shared' && doc.accessed_at ? (
-                      <div>Aufgerufen: {new Date(Number(doc.accessed_at)).toLocaleDateString('de-DE')}</div>
+                    {filter === 'shared' && doc.last_viewed_at ? (
+                      <div>Aufgerufen: {new Date(Number(doc.last_viewed_at)).toLocaleDateString('de-DE')}</div>
                     ) : (
                       <div>{new Date(Number(doc.updated_at)).toLocaleDateString('de-DE')}</div>
                     )}
                     {doc.version && <div className="text-xs">v{doc.version}</div>}
                     {filter === 'shared' && doc.shared_by_email && (
-                      <div className="text-xs text-blue-400">🔗 {doc.shared_by_email}</div>
+                      <div className="text-xs text-blue-400">{doc.shared_via === 'link' ? '🔗' : '👥'} {doc.shared_by_email}</div>
                     )}
                   </div>
                 </Link>
                 <div className="flex gap-2 ml-4">
+                  {filter !== 'shared' && (
+                    <button
+                      onClick={() => setTaggingDoc(doc)}
+                      className="text-gray-400 hover:text-white p-2"
+                      title="Tags bearbeiten"
+                    >
+                      🏷️
+                    </button>
+                  )}
                   {filter === 'archived' ? (
                     <button
                       onClick={(e) => handleUnarchive(doc, e)}
@@ -556,7 +681,7 @@ export function DocumentList() {
           </div>
         )}
         
-        {!displayLoading && displayDocuments.length === 0 && (
+        {!displayLoading && displayDocuments.length === 0 && !(viewMode === 'tree' && filter !== 'shared') && (
           <div className="text-center text-gray-400 mt-8">
             {filter === 'archived' ? (
               <>
@@ -565,8 +690,15 @@ export function DocumentList() {
               </>
             ) : filter === 'shared' ? (
               <>
-                <p>Keine geteilten Dokumente aufgerufen</p>
-                <p className="text-sm mt-2">Dokumente, die über Share-Links aufgerufen werden, erscheinen hier.</p>
+                <p>Keine geteilten Dokumente</p>
+                <p className="text-sm mt-2">Dokumente, die mit dir geteilt oder über Share-Links aufgerufen wurden, erscheinen hier.</p>
+              </>
+            ) : tagFilter ? (
+              <>
+                <p>Keine Dokumente mit dem Tag „{tagFilter.name}“</p>
+                <button onClick={() => setTagFilter(null)} className="text-sm mt-2 text-blue-400 hover:text-blue-300">
+                  Filter entfernen
+                </button>
               </>
             ) : (
               <>
@@ -736,6 +868,14 @@ export function DocumentList() {
         </div>
       )}
 
+      {taggingDoc && (
+        <DocumentTagsModal
+          documentId={taggingDoc.id}
+          documentTitle={extractTitle(taggingDoc.content)}
+          onClose={() => setTaggingDoc(null)}
+        />
+      )}
+
       {/* Import modal */}
       {showImportModal && (
         <div 
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { authApi } from '../lib/auth-api';
+
+export const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await authApi.forgotPassword(email);
+      setSent(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not send the reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900">
+      <div className="max-w-md w-full space-y-8 p-8 bg-gray-800 rounded-lg shadow-xl">
+        <div>
+          <h2 className="text-center text-3xl font-extrabold text-white">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-400">
+            Remembered it?{' '}
+            <Link to="/login" className="font-medium text-blue-500 hover:text-blue-400">
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+        {sent ? (
+          <div className="rounded-md bg-green-900/40 p-4 text-sm text-green-200">
+            If an account exists for <span className="font-medium">{email}</span>, we sent it a link to
+            choose a new password. The link expires soon.
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="rounded-md bg-red-900/50 p-4">
+                <div className="text-sm text-red-200">{error}</div>
+              </div>
+            )}
+            <div>
+              <label htmlFor="email" className="sr-only">
+                Email
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-700 placeholder-gray-500 text-white bg-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
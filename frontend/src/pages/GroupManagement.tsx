@@ -0,0 +1,371 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type Group, type GroupRole } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const ROLE_LABELS: Record<GroupRole, string> = {
+  member: 'Mitglied',
+  admin: 'Admin',
+  owner: 'Eigentümer',
+};
+
+const SYSTEM_GROUP_LABELS: Record<string, string> = {
+  _EVERYONE: 'Alle (auch Gäste)',
+  _LOGGED_IN: 'Alle angemeldeten Nutzer',
+};
+
+function groupLabel(group: Pick<Group, 'id' | 'name'>): string {
+  return SYSTEM_GROUP_LABELS[group.id] ?? group.name;
+}
+
+export function GroupManagement() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [editing, setEditing] = useState<{ name: string; description: string } | null>(null);
+  const [memberInput, setMemberInput] = useState('');
+  const [memberRole, setMemberRole] = useState<GroupRole>('member');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: groupsData, isLoading } = useQuery({
+    queryKey: ['groups'],
+    queryFn: () => api.getGroups(),
+  });
+
+  const { data: details } = useQuery({
+    queryKey: ['group', selectedId],
+    queryFn: () => api.getGroup(selectedId!),
+    enabled: !!selectedId,
+  });
+
+  const groups = groupsData?.groups ?? [];
+  const role = details?.group.role ?? null;
+  const canManage = role === 'admin' || role === 'owner';
+  const isOwner = role === 'owner';
+
+  const onError = (err: any) => setError(err.response?.data?.message || 'Aktion fehlgeschlagen');
+
+  const refresh = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['groups'] });
+    queryClient.invalidateQueries({ queryKey: ['group', selectedId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createGroup({ name: newName, description: newDescription || null }),
+    onSuccess: (result) => {
+      setNewName('');
+      setNewDescription('');
+      setSelectedId(result.group.id);
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (updates: { name: string; description: string }) =>
+      api.updateGroup(selectedId!, { name: updates.name, description: updates.description || null }),
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (groupId: string) => api.deleteGroup(groupId),
+    onSuccess: () => {
+      setSelectedId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: () => api.addGroupMember(selectedId!, memberInput, memberRole),
+    onSuccess: () => {
+      setMemberInput('');
+      setMemberRole('member');
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: GroupRole }) =>
+      api.updateGroupMember(selectedId!, userId, role),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => api.removeGroupMember(selectedId!, userId),
+    onSuccess: (_result, userId) => {
+      if (userId === 'me') setSelectedId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const handleDelete = (group: Pick<Group, 'id' | 'name'>) => {
+    if (confirm(`Gruppe "${group.name}" wirklich löschen? Alle Freigaben für die Gruppe werden entfernt.`)) {
+      deleteMutation.mutate(group.id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full text-white">
+        Lade Gruppen...
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-8 max-w-6xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-white mb-2">Gruppen</h1>
+          <p className="text-gray-400">
+            Fasse Nutzer zu Teams zusammen, um Dokumente in einem Schritt freizugeben
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/40 border border-red-700 rounded text-sm text-red-200">
+            ❌ {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-6 pb-8">
+          {/* Group list */}
+          <div className="space-y-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newName.trim()) createMutation.mutate();
+              }}
+              className="bg-gray-800 rounded-lg border border-gray-700 p-4 space-y-2"
+            >
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Name der neuen Gruppe"
+                className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+              />
+              <input
+                type="text"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+                placeholder="Beschreibung (optional)"
+                className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+              />
+              <button type="submit" className="btn-primary w-full" disabled={!newName.trim() || createMutation.isPending}>
+                ➕ Gruppe erstellen
+              </button>
+            </form>
+
+            <div className="space-y-2">
+              {groups.map((group) => (
+                <button
+                  key={group.id}
+                  onClick={() => {
+                    setSelectedId(group.id);
+                    setEditing(null);
+                    setError(null);
+                  }}
+                  className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                    selectedId === group.id
+                      ? 'bg-blue-900/40 border-blue-600'
+                      : 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-white font-medium truncate">{groupLabel(group)}</span>
+                    {group.is_system ? (
+                      <span className="px-2 py-0.5 text-xs bg-gray-600 text-gray-300 rounded-full">System</span>
+                    ) : group.role ? (
+                      <span className="px-2 py-0.5 text-xs bg-primary-600 text-white rounded-full">
+                        {ROLE_LABELS[group.role]}
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">{group.member_count} Mitglieder</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Group details */}
+          <div className="col-span-2">
+            {!selectedId || !details ? (
+              <div className="text-center py-12 text-gray-400">Wähle eine Gruppe aus</div>
+            ) : (
+              <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-6">
+                {editing ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      updateMutation.mutate(editing);
+                    }}
+                    className="space-y-2"
+                  >
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+                    />
+                    <input
+                      type="text"
+                      value={editing.description}
+                      onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                      placeholder="Beschreibung"
+                      className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+                    />
+                    <div className="flex gap-2">
+                      <button type="submit" className="btn-primary text-sm" disabled={updateMutation.isPending}>
+                        Speichern
+                      </button>
+                      <button type="button" onClick={() => setEditing(null)} className="btn-secondary text-sm">
+                        Abbrechen
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h2 className="text-xl font-semibold text-white">{groupLabel(details.group)}</h2>
+                      {details.group.description && (
+                        <p className="text-gray-400 text-sm mt-1">{details.group.description}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {canManage && !details.group.is_system && (
+                        <button
+                          onClick={() => setEditing({
+                            name: details.group.name,
+                            description: details.group.description ?? '',
+                          })}
+                          className="btn-secondary text-sm"
+                        >
+                          ✏️ Bearbeiten
+                        </button>
+                      )}
+                      {isOwner && (
+                        <button onClick={() => handleDelete(details.group)} className="btn-error text-sm">
+                          🗑️ Löschen
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {details.group.is_system ? (
+                  <p className="text-sm text-gray-400">
+                    Systemgruppen werden automatisch gepflegt und können nicht bearbeitet werden.
+                  </p>
+                ) : details.members === null ? (
+                  <p className="text-sm text-gray-400">Nur Mitglieder sehen die Mitgliederliste.</p>
+                ) : (
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-300 mb-2">
+                      👥 Mitglieder ({details.members.length})
+                    </h3>
+                    <div className="space-y-2">
+                      {details.members.map((member) => {
+                        const isSelf = member.user_id === user?.id;
+                        // Admins manage plain members, owners everyone
+                        const canEditMember = isOwner || (canManage && member.role === 'member');
+                        return (
+                          <div
+                            key={member.user_id}
+                            className="flex items-center justify-between px-3 py-2 bg-gray-900 rounded"
+                          >
+                            <div>
+                              <span className="text-white">{member.display_name || member.username}</span>
+                              <span className="text-gray-500 text-xs ml-2">@{member.username}</span>
+                              {isSelf && <span className="ml-2 text-xs text-blue-400">(Du)</span>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {isOwner ? (
+                                <select
+                                  value={member.role}
+                                  onChange={(e) => updateMemberMutation.mutate({
+                                    userId: member.user_id,
+                                    role: e.target.value as GroupRole,
+                                  })}
+                                  className="px-2 py-1 text-sm bg-gray-800 border border-gray-600 rounded text-white"
+                                >
+                                  {(Object.keys(ROLE_LABELS) as GroupRole[]).map(value => (
+                                    <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                                  ))}
+                                </select>
+                              ) : (
+                                <span className="text-xs text-gray-400">{ROLE_LABELS[member.role]}</span>
+                              )}
+                              {isSelf ? (
+                                <button
+                                  onClick={() => removeMemberMutation.mutate('me')}
+                                  className="text-sm text-red-400 hover:text-red-300"
+                                >
+                                  Verlassen
+                                </button>
+                              ) : canEditMember && (
+                                <button
+                                  onClick={() => removeMemberMutation.mutate(member.user_id)}
+                                  className="text-sm text-red-400 hover:text-red-300"
+                                >
+                                  Entfernen
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {canManage && (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          if (memberInput.trim()) addMemberMutation.mutate();
+                        }}
+                        className="flex gap-2 mt-4"
+                      >
+                        <input
+                          type="text"
+                          value={memberInput}
+                          onChange={(e) => setMemberInput(e.target.value)}
+                          placeholder="Benutzername, E-Mail oder ID"
+                          className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+                        />
+                        {isOwner && (
+                          <select
+                            value={memberRole}
+                            onChange={(e) => setMemberRole(e.target.value as GroupRole)}
+                            className="px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+                          >
+                            {(Object.keys(ROLE_LABELS) as GroupRole[]).map(value => (
+                              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                            ))}
+                          </select>
+                        )}
+                        <button type="submit" className="btn-primary" disabled={addMemberMutation.isPending}>
+                          Hinzufügen
+                        </button>
+                      </form>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,27 @@
-import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { authApi, type OidcConfig } from '../lib/auth-api';
 
 export const LoginPage: React.FC = () => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [unverified, setUnverified] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [oidc, setOidc] = useState<OidcConfig | null>(null);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const notice = (useLocation().state as { notice?: string } | null)?.notice;
+
+  useEffect(() => {
+    authApi.getOidcConfig().then(setOidc).catch(() => setOidc(null));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setUnverified(false);
     setLoading(true);
 
     try {
@@ -20,6 +29,7 @@ export const LoginPage: React.FC = () => {
       navigate('/documents');
     } catch (err: any) {
       setError(err.response?.data?.error || 'Login failed');
+      setUnverified(err.response?.data?.code === 'EMAIL_NOT_VERIFIED');
     } finally {
       setLoading(false);
     }
@@ -40,9 +50,17 @@ export const LoginPage: React.FC = () => {
           </p>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {notice && !error && (
+            <div className="rounded-md bg-green-900/40 p-4 text-sm text-green-200">{notice}</div>
+          )}
           {error && (
             <div className="rounded-md bg-red-900/50 p-4">
               <div className="text-sm text-red-200">{error}</div>
+              {unverified && (
+                <Link to="/verify-email" className="mt-2 inline-block text-sm font-medium text-blue-400 hover:text-blue-300">
+                  Send a new confirmation link
+                </Link>
+              )}
             </div>
           )}
           <div className="rounded-md shadow-sm space-y-4">
@@ -78,6 +96,12 @@ export const LoginPage: React.FC = () => {
             </div>
           </div>
 
+          <div className="text-right text-sm">
+            <Link to="/forgot-password" className="font-medium text-blue-500 hover:text-blue-400">
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
@@ -88,6 +112,21 @@ export const LoginPage: React.FC = () => {
             </button>
           </div>
         </form>
+        {oidc?.enabled && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 text-xs text-gray-500">
+              <div className="flex-1 border-t border-gray-700" />
+              or
+              <div className="flex-1 border-t border-gray-700" />
+            </div>
+            <a
+              href={authApi.oidcLoginUrl()}
+              className="w-full flex justify-center py-2 px-4 border border-gray-600 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600"
+            >
+              Sign in with {oidc.providerName}
+            </a>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Landing page after single sign-on. The backend passes the tokens or an
+ * error in the URL fragment.
+ */
+export const OidcCallbackPage: React.FC = () => {
+  const [error, setError] = useState('');
+  const { completeOidcLogin } = useAuth();
+  const navigate = useNavigate();
+  const handled = useRef(false);
+
+  useEffect(() => {
+    // The refresh token can only be used once, so never run twice
+    if (handled.current) return;
+    handled.current = true;
+
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const token = params.get('token');
+    const refreshToken = params.get('refreshToken');
+    if (!token || !refreshToken) {
+      setError(params.get('error') || 'Login failed');
+      return;
+    }
+
+    const returnTo = params.get('returnTo') || '/documents';
+    completeOidcLogin(token, refreshToken)
+      .then(() => navigate(returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/documents', { replace: true }))
+      .catch((err: any) => setError(err.response?.data?.error || 'Login failed'));
+  }, [completeOidcLogin, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900">
+      <div className="max-w-md w-full p-8 bg-gray-800 rounded-lg shadow-xl text-center space-y-4">
+        {error ? (
+          <>
+            <div className="rounded-md bg-red-900/50 p-4 text-sm text-red-200">{error}</div>
+            <Link to="/login" className="font-medium text-blue-500 hover:text-blue-400">
+              Back to sign in
+            </Link>
+          </>
+        ) : (
+          <p className="text-gray-300">Signing in...</p>
+        )}
+      </div>
+    </div>
+  );
+};
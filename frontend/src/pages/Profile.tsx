@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { authApi, type ActiveSession } from '../lib/auth-api';
+import { useAuth } from '../contexts/AuthContext';
+import { ApiTokensPanel } from '../components/ApiTokensPanel';
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' }) : '–';
+
+/**
+ * Short device description from a user agent string
+ */
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unbekanntes Gerät';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const system = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  return browser && system ? `${browser} auf ${system}` : browser || system || userAgent.slice(0, 60);
+};
+
+export function Profile() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, updateProfile, logoutAll } = useAuth();
+  const [displayName, setDisplayName] = useState(user?.display_name ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [oldPassword, setOldPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: authApi.getSessions,
+  });
+
+  const onError = (fallback: string) => (err: any) =>
+    setMessage({ type: 'error', text: err.response?.data?.error || fallback });
+
+  const profileMutation = useMutation({
+    mutationFn: () => updateProfile({ display_name: displayName, email }),
+    onSuccess: () => setMessage({ type: 'success', text: 'Profil gespeichert' }),
+    onError: onError('Profil konnte nicht gespeichert werden'),
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: () => authApi.changePassword(oldPassword, newPassword),
+    onSuccess: () => {
+      setOldPassword('');
+      setNewPassword('');
+      setMessage({ type: 'success', text: 'Passwort geändert, andere Geräte wurden abgemeldet' });
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+    onError: onError('Passwort konnte nicht geändert werden'),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: () => authApi.resendVerification(user!.email),
+    onSuccess: () => setMessage({ type: 'success', text: `Bestätigungslink an ${user!.email} gesendet` }),
+    onError: onError('Bestätigungslink konnte nicht gesendet werden'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => authApi.revokeSession(sessionId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['sessions'] }),
+    onError: onError('Sitzung konnte nicht beendet werden'),
+  });
+
+  const handleLogoutAll = async () => {
+    if (!confirm('Auf allen Geräten abmelden? Auch diese Sitzung wird beendet.')) return;
+    await logoutAll();
+    navigate('/login');
+  };
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-8 max-w-3xl mx-auto space-y-6 pb-16">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Profil</h1>
+          <p className="text-gray-400">@{user?.username}</p>
+        </div>
+
+        {message && (
+          <div className={`p-3 rounded text-sm border ${
+            message.type === 'success'
+              ? 'bg-green-900/40 border-green-700 text-green-200'
+              : 'bg-red-900/40 border-red-700 text-red-200'
+          }`}>
+            {message.type === 'success' ? '✅' : '❌'} {message.text}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            profileMutation.mutate();
+          }}
+          className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-3"
+        >
+          <h2 className="text-xl font-semibold text-white">Persönliche Daten</h2>
+          <label className="block">
+            <span className="text-sm text-gray-300">Anzeigename</span>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="mt-1 w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">
+              E-Mail
+              {user && (user.email_verified ? (
+                <span className="ml-2 text-xs text-green-400">✓ bestätigt</span>
+              ) : (
+                <span className="ml-2 text-xs text-yellow-400">nicht bestätigt</span>
+              ))}
+            </span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            <button type="submit" className="btn-primary" disabled={profileMutation.isPending}>
+              Speichern
+            </button>
+            {user && !user.email_verified && (
+              <button
+                type="button"
+                onClick={() => resendMutation.mutate()}
+                className="btn-secondary"
+                disabled={resendMutation.isPending}
+              >
+                Bestätigungslink erneut senden
+              </button>
+            )}
+          </div>
+        </form>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            passwordMutation.mutate();
+          }}
+          className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-3"
+        >
+          <h2 className="text-xl font-semibold text-white">Passwort ändern</h2>
+          <input
+            type="password"
+            value={oldPassword}
+            onChange={(e) => setOldPassword(e.target.value)}
+            placeholder="Aktuelles Passwort"
+            autoComplete="current-password"
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+          />
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="Neues Passwort"
+            autoComplete="new-password"
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white"
+          />
+          <button
+            type="submit"
+            className="btn-primary"
+            disabled={!oldPassword || !newPassword || passwordMutation.isPending}
+          >
+            Passwort ändern
+          </button>
+        </form>
+
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-white">Aktive Sitzungen</h2>
+            <button onClick={handleLogoutAll} className="btn-error text-sm">
+              Auf allen Geräten abmelden
+            </button>
+          </div>
+
+          {sessionsLoading ? (
+            <p className="text-gray-400">Lade Sitzungen...</p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session: ActiveSession) => (
+                <div key={session.id} className="flex items-center justify-between px-4 py-3 bg-gray-900 rounded">
+                  <div>
+                    <div className="text-white">
+                      {describeDevice(session.user_agent)}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 text-xs bg-green-700 text-white rounded-full">
+                          Diese Sitzung
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      Zuletzt aktiv: {formatDate(session.last_seen_at)} • Angemeldet: {formatDate(session.created_at)}
+                      {session.ip_address && <> • IP {session.ip_address}</>}
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <button
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      className="text-sm text-red-400 hover:text-red-300"
+                      disabled={revokeMutation.isPending}
+                    >
+                      Abmelden
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <ApiTokensPanel />
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ export const RegisterPage: React.FC = () => {
   const [displayName, setDisplayName] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
   const { register } = useAuth();
   const navigate = useNavigate();
 
@@ -30,8 +31,12 @@ export const RegisterPage: React.FC = () => {
     setLoading(true);
 
     try {
-      await register(username, email, password, displayName || username);
-      navigate('/documents');
+      const { verificationRequired } = await register(username, email, password, displayName || username);
+      if (verificationRequired) {
+        setVerificationSent(true);
+      } else {
+        navigate('/documents');
+      }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Registration failed');
     } finally {
@@ -39,6 +44,23 @@ export const RegisterPage: React.FC = () => {
     }
   };
 
+  if (verificationSent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="max-w-md w-full p-8 bg-gray-800 rounded-lg shadow-xl text-center space-y-4">
+          <h2 className="text-2xl font-extrabold text-white">Check your inbox</h2>
+          <p className="text-sm text-gray-300">
+            We sent a confirmation link to <span className="font-medium text-white">{email}</span>.
+            Open it to activate your account, then sign in.
+          </p>
+          <Link to="/login" className="font-medium text-blue-500 hover:text-blue-400">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-900">
       <div className="max-w-md w-full space-y-8 p-8 bg-gray-800 rounded-lg shadow-xl">
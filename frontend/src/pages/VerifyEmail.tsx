@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { authApi } from '../lib/auth-api';
+
+/**
+ * Target of the link in a verification mail; the token is in the URL
+ * fragment. Without a token the page sends a new link.
+ */
+export const VerifyEmailPage: React.FC = () => {
+  const [token] = useState(() => new URLSearchParams(window.location.hash.slice(1)).get('token'));
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { user, verifyEmail } = useAuth();
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (!token || handled.current) return;
+    handled.current = true;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err: any) => {
+        setError(err.response?.data?.error || 'Could not confirm the email address');
+        setStatus('failed');
+      });
+  }, [token, verifyEmail]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await authApi.resendVerification(email);
+      setSent(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not send the confirmation link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const continueLink = (
+    <Link to={user ? '/documents' : '/login'} className="font-medium text-blue-500 hover:text-blue-400">
+      {user ? 'Continue to your documents' : 'Sign in'}
+    </Link>
+  );
+
+  if (token && status !== 'failed') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="max-w-md w-full p-8 bg-gray-800 rounded-lg shadow-xl text-center space-y-4">
+          {status === 'verified' ? (
+            <>
+              <div className="rounded-md bg-green-900/40 p-4 text-sm text-green-200">Your email address is confirmed.</div>
+              {continueLink}
+            </>
+          ) : (
+            <p className="text-gray-300">Confirming your email address...</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900">
+      <div className="max-w-md w-full space-y-8 p-8 bg-gray-800 rounded-lg shadow-xl">
+        <div>
+          <h2 className="text-center text-3xl font-extrabold text-white">
+            Confirm your email address
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-400">
+            We will send a new confirmation link.
+          </p>
+        </div>
+        {error && (
+          <div className="rounded-md bg-red-900/50 p-4">
+            <div className="text-sm text-red-200">{error}</div>
+          </div>
+        )}
+        {sent ? (
+          <div className="rounded-md bg-green-900/40 p-4 text-sm text-green-200">
+            If an unconfirmed account uses <span className="font-medium">{email}</span>, a new link is on its way.
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleResend}>
+            <div>
+              <label htmlFor="email" className="sr-only">
+                Email
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-700 placeholder-gray-500 text-white bg-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Sending...' : 'Send confirmation link'}
+            </button>
+          </form>
+        )}
+        <p className="text-center text-sm">{continueLink}</p>
+      </div>
+    </div>
+  );
+};